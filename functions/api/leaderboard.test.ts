@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+	CHALLENGES,
+	encodeChallenge,
+	runChallenge,
+} from "../../src/components/pid/sim";
+import { onRequestGet, onRequestPost } from "./leaderboard";
+
+const GAINS = { kp: 4, ki: 0.5, kd: 1 };
+const ENDPOINT = "https://example.com/api/leaderboard";
+
+function createEnv() {
+	const stored = new Map<string, string>();
+	return {
+		LEADERBOARD: {
+			get: async (key: string) => stored.get(key) ?? null,
+			put: async (key: string, value: string) => {
+				stored.set(key, value);
+			},
+		},
+	};
+}
+
+const post = (env: ReturnType<typeof createEnv>, body: unknown) =>
+	onRequestPost({
+		request: new Request(ENDPOINT, {
+			method: "POST",
+			body: JSON.stringify(body),
+		}),
+		env,
+	});
+
+const submission = (time: number | null) => ({
+	challenge: encodeChallenge(CHALLENGES[0]),
+	integrator: "semi-implicit",
+	name: "Ada",
+	...GAINS,
+	time,
+});
+
+describe("POST /api/leaderboard", () => {
+	const { time } = runChallenge(CHALLENGES[0], GAINS, "semi-implicit");
+
+	it("records a run whose time matches its replay", async () => {
+		const env = createEnv();
+		const response = await post(env, submission(time));
+		expect(response.status).toBe(200);
+		const { entries } = await response.json();
+		expect(entries).toHaveLength(1);
+		expect(entries[0]).toMatchObject({ name: "Ada", time, ...GAINS });
+
+		const board = await onRequestGet({
+			request: new Request(
+				`${ENDPOINT}?challenge=${encodeChallenge(CHALLENGES[0])}&integrator=semi-implicit`,
+			),
+			env,
+		});
+		expect((await board.json()).entries).toEqual(entries);
+	});
+
+	it("rejects a time the replay doesn't reproduce", async () => {
+		const env = createEnv();
+		const response = await post(env, submission(time! - 0.1));
+		expect(response.status).toBe(422);
+		const board = await onRequestGet({
+			request: new Request(
+				`${ENDPOINT}?challenge=${encodeChallenge(CHALLENGES[0])}&integrator=semi-implicit`,
+			),
+			env,
+		});
+		expect((await board.json()).entries).toEqual([]);
+	});
+
+	it("keeps no board for custom challenges", async () => {
+		const custom = encodeChallenge({ ...CHALLENGES[0], mass: 0.35 });
+		const response = await post(createEnv(), {
+			...submission(time),
+			challenge: custom,
+		});
+		expect(response.status).toBe(400);
+		const board = await onRequestGet({
+			request: new Request(`${ENDPOINT}?challenge=${custom}&integrator=rk4`),
+			env: createEnv(),
+		});
+		expect(board.status).toBe(404);
+	});
+});
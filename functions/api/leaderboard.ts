@@ -0,0 +1,122 @@
+// Cloudflare Pages Function behind TuningChallenge's leaderboard.
+//
+//   GET  /api/leaderboard?challenge=<code>&integrator=<id>  → { entries }
+//   POST /api/leaderboard  LeaderboardSubmission            → { entries }
+//
+// Boards are kept only for the built-in challenges under the fixed-step
+// integrators. Submitted gains are re-simulated here, and the run is refused
+// unless it stabilizes at exactly the claimed time. Entries live in the
+// LEADERBOARD KV namespace when it is bound, and otherwise in memory for local
+// development.
+//
+// KV has no transactions, so a submission reads the board, adds its entry and
+// writes the board back, and of two submissions to one board at once the
+// last write wins; the other entry is lost and has to be submitted again.
+// Submissions are rare enough that this beats a Durable Object per board.
+
+import {
+	LEADERBOARD_INTEGRATORS,
+	leaderboardChallenge,
+	parseSubmission,
+} from "../../src/components/pid/leaderboard";
+import type { LeaderboardEntry } from "../../src/components/pid/leaderboard";
+import { encodeChallenge, runChallenge } from "../../src/components/pid/sim";
+import type { Challenge } from "../../src/components/pid/sim";
+
+/** The part of a KV namespace the leaderboard uses. */
+interface LeaderboardStore {
+	get(key: string): Promise<string | null>;
+	put(key: string, value: string): Promise<void>;
+}
+
+interface Env {
+	LEADERBOARD?: LeaderboardStore;
+}
+
+interface Context {
+	request: Request;
+	env: Env;
+}
+
+const MAX_ENTRIES = 10;
+
+// Stand-in for KV under `wrangler pages dev` without a binding; lasts as
+// long as the isolate does
+const memory = new Map<string, string>();
+const memoryStore: LeaderboardStore = {
+	get: async (key) => memory.get(key) ?? null,
+	put: async (key, value) => {
+		memory.set(key, value);
+	},
+};
+
+// Keyed on the built-in challenge's own code, so every code that stands for
+// it (other field order, out-of-range values that clamp alike) shares a board
+const storeKey = (challenge: Challenge, integrator: string) =>
+	`leaderboard:${integrator}:${encodeChallenge(challenge)}`;
+
+const json = (body: unknown, status = 200) =>
+	new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json" },
+	});
+
+async function readEntries(
+	store: LeaderboardStore,
+	key: string,
+): Promise<LeaderboardEntry[]> {
+	const stored = await store.get(key);
+	return stored ? JSON.parse(stored) : [];
+}
+
+export async function onRequestGet({ request, env }: Context) {
+	const params = new URL(request.url).searchParams;
+	const code = params.get("challenge");
+	const challenge = code ? leaderboardChallenge(code) : null;
+	const integrator = LEADERBOARD_INTEGRATORS.find(
+		(option) => option.id === params.get("integrator"),
+	);
+	if (!challenge)
+		return json({ error: "No leaderboard for this challenge" }, 404);
+	if (!integrator)
+		return json({ error: "No leaderboard for this integrator" }, 404);
+
+	const store = env.LEADERBOARD ?? memoryStore;
+	return json({
+		entries: await readEntries(store, storeKey(challenge, integrator.id)),
+	});
+}
+
+export async function onRequestPost({ request, env }: Context) {
+	const submission = parseSubmission(await request.json().catch(() => null));
+	if (typeof submission === "string") return json({ error: submission }, 400);
+
+	// Replay the built-in itself rather than its decoded code, whose angles
+	// are rounded
+	const challenge = leaderboardChallenge(submission.challenge);
+	if (!challenge)
+		return json({ error: "No leaderboard for this challenge" }, 404);
+	const run = runChallenge(challenge, submission, submission.integrator);
+	if (run.time === null || run.time !== submission.time)
+		return json({ error: "Time doesn't match a replay of these gains" }, 422);
+
+	const store = env.LEADERBOARD ?? memoryStore;
+	const key = storeKey(challenge, submission.integrator);
+	const entries = await readEntries(store, key);
+	const previous = entries.find((entry) => entry.name === submission.name);
+	if (previous && previous.time <= run.time) return json({ entries });
+
+	const entry: LeaderboardEntry = {
+		name: submission.name,
+		time: run.time,
+		kp: submission.kp,
+		ki: submission.ki,
+		kd: submission.kd,
+		submittedAt: Date.now(),
+	};
+	const next = [...entries.filter((e) => e !== previous), entry]
+		.sort((a, b) => a.time - b.time || a.submittedAt - b.submittedAt)
+		.slice(0, MAX_ENTRIES);
+	await store.put(key, JSON.stringify(next));
+	return json({ entries: next });
+}
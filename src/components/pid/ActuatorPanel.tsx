@@ -0,0 +1,103 @@
+import type { ActuatorModel } from "./sim";
+
+interface ActuatorPanelProps {
+	model: ActuatorModel;
+	onModelChange: (model: ActuatorModel) => void;
+}
+
+const MAX_SLEW_RATE = 40; // N·m/s
+const MAX_DEADBAND = 0.5; // N·m
+const MAX_BACKLASH = (10 * Math.PI) / 180;
+const MAX_TIME_CONSTANT = 0.2; // s
+
+function ActuatorSlider({
+	label,
+	value,
+	max,
+	step,
+	display,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	max: number;
+	step: number;
+	display: string;
+	onChange: (value: number) => void;
+}) {
+	const fraction = value / max;
+	return (
+		<div className="flex items-center gap-4">
+			<label className="text-sm font-mono text-zinc-400 w-12">{label}</label>
+			<div className="flex-1 relative h-2">
+				<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+				<div
+					className="absolute left-0 top-0 h-full bg-indigo-500 rounded-lg"
+					style={{ width: `${fraction * 100}%` }}
+				/>
+				<input
+					type="range"
+					min={0}
+					max={max}
+					step={step}
+					value={value}
+					onChange={(e) => onChange(parseFloat(e.target.value))}
+					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+				/>
+				<div
+					className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-indigo-500 rounded-full border-2 border-indigo-300 pointer-events-none"
+					style={{ left: `calc(${fraction * 100}% - 8px)` }}
+				/>
+			</div>
+			<span
+				className="text-sm font-mono text-indigo-400 w-24 text-right"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{display}
+			</span>
+		</div>
+	);
+}
+
+/** Slew limit, deadband, gear backlash and electrical lag of the motor. */
+export default function ActuatorPanel({
+	model,
+	onModelChange,
+}: ActuatorPanelProps) {
+	return (
+		<>
+			<ActuatorSlider
+				label="Slew"
+				value={model.slewRate}
+				max={MAX_SLEW_RATE}
+				step={1}
+				display={model.slewRate ? `${model.slewRate} N·m/s` : "off"}
+				onChange={(slewRate) => onModelChange({ ...model, slewRate })}
+			/>
+			<ActuatorSlider
+				label="Dead"
+				value={model.deadband}
+				max={MAX_DEADBAND}
+				step={0.01}
+				display={`${model.deadband.toFixed(2)} N·m`}
+				onChange={(deadband) => onModelChange({ ...model, deadband })}
+			/>
+			<ActuatorSlider
+				label="Play"
+				value={model.backlash}
+				max={MAX_BACKLASH}
+				step={MAX_BACKLASH / 20}
+				display={`${((model.backlash * 180) / Math.PI).toFixed(1)}°`}
+				onChange={(backlash) => onModelChange({ ...model, backlash })}
+			/>
+			<ActuatorSlider
+				label="Lag"
+				value={model.timeConstant}
+				max={MAX_TIME_CONSTANT}
+				step={0.005}
+				display={`${Math.round(model.timeConstant * 1000)} ms`}
+				onChange={(timeConstant) => onModelChange({ ...model, timeConstant })}
+			/>
+		</>
+	);
+}
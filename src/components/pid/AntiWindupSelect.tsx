@@ -0,0 +1,69 @@
+import { ANTI_WINDUP_METHODS } from "./sim";
+import type { AntiWindupMethod } from "./sim";
+
+interface AntiWindupSelectProps {
+	method: AntiWindupMethod;
+	onMethodChange: (method: AntiWindupMethod) => void;
+	/** Back-calculation gain Kt; its slider shows only for back-calculation. */
+	trackingGain: number;
+	onTrackingGainChange: (gain: number) => void;
+}
+
+const MAX_TRACKING_GAIN = 10;
+
+export default function AntiWindupSelect({
+	method,
+	onMethodChange,
+	trackingGain,
+	onTrackingGainChange,
+}: AntiWindupSelectProps) {
+	const fraction = trackingGain / MAX_TRACKING_GAIN;
+
+	return (
+		<div className="flex flex-col gap-3">
+			<div className="flex flex-wrap gap-2 justify-center">
+				{ANTI_WINDUP_METHODS.map((option) => (
+					<button
+						key={option.id}
+						type="button"
+						onClick={() => onMethodChange(option.id)}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${method === option.id ? "bg-green-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{option.label}
+					</button>
+				))}
+			</div>
+			{method === "back-calculation" && (
+				<div className="flex items-center gap-4">
+					<label className="text-sm font-mono text-zinc-400 w-8">Kt</label>
+					<div className="flex-1 relative h-2">
+						<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+						<div
+							className="absolute left-0 top-0 h-full bg-green-500 rounded-lg"
+							style={{ width: `${fraction * 100}%` }}
+						/>
+						<input
+							type="range"
+							min="0"
+							max={MAX_TRACKING_GAIN}
+							step="0.1"
+							value={trackingGain}
+							onChange={(e) => onTrackingGainChange(parseFloat(e.target.value))}
+							className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+						/>
+						<div
+							className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-green-500 rounded-full border-2 border-green-300 pointer-events-none"
+							style={{ left: `calc(${fraction * 100}% - 8px)` }}
+						/>
+					</div>
+					<span
+						className="text-sm font-mono text-green-400 w-12 text-right"
+						style={{ fontVariantNumeric: "tabular-nums" }}
+					>
+						{trackingGain.toFixed(1)}
+					</span>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,128 @@
+import { AUTO_TUNE_METHODS, TUNING_RULES } from "./sim";
+import type { AutoTuneMethod, PIDGains, TuningRule, UltimateGain } from "./sim";
+
+interface AutoTunePanelProps {
+	method: AutoTuneMethod;
+	onMethodChange: (method: AutoTuneMethod) => void;
+	rule: TuningRule;
+	onRuleChange: (rule: TuningRule) => void;
+	running: boolean;
+	onStart: () => void;
+	onCancel: () => void;
+	/** Progress or outcome of the latest experiment. */
+	message: string | null;
+	result: UltimateGain | null;
+	/** Gains the rule proposes, in the widget's slider units. */
+	proposed: PIDGains | null;
+	showKd?: boolean;
+	showKi?: boolean;
+}
+
+function Readout({
+	label,
+	value,
+	className,
+}: {
+	label: string;
+	value: string;
+	className: string;
+}) {
+	return (
+		<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+			<span className="text-zinc-500 text-[10px]">{label}</span>
+			<span
+				className={className}
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{value}
+			</span>
+		</div>
+	);
+}
+
+/** Auto-tune experiment picker, progress and the gains a tuning rule proposes. */
+export default function AutoTunePanel({
+	method,
+	onMethodChange,
+	rule,
+	onRuleChange,
+	running,
+	onStart,
+	onCancel,
+	message,
+	result,
+	proposed,
+	showKd = true,
+	showKi = true,
+}: AutoTunePanelProps) {
+	return (
+		<div className="flex flex-col gap-3">
+			<div className="flex flex-wrap gap-2 items-center justify-center">
+				{AUTO_TUNE_METHODS.map((option) => (
+					<button
+						key={option.id}
+						type="button"
+						onClick={() => onMethodChange(option.id)}
+						disabled={running}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors disabled:opacity-50 ${method === option.id ? "bg-cyan-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{option.label}
+					</button>
+				))}
+				<button
+					type="button"
+					onClick={running ? onCancel : onStart}
+					className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors w-28 ${running ? "bg-amber-600 hover:bg-amber-500 text-white" : "bg-emerald-600 hover:bg-emerald-500 text-white"}`}
+				>
+					{running ? "Cancel" : "Auto-tune"}
+				</button>
+			</div>
+			<div className="flex flex-wrap gap-2 justify-center">
+				{TUNING_RULES.map((option) => (
+					<button
+						key={option.id}
+						type="button"
+						onClick={() => onRuleChange(option.id)}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${rule === option.id ? "bg-cyan-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{option.label}
+					</button>
+				))}
+			</div>
+			<div className="flex gap-2 font-mono text-xs flex-wrap justify-center items-center">
+				<Readout
+					label="Ku"
+					value={result ? result.ku.toFixed(2) : "—"}
+					className="text-cyan-400"
+				/>
+				<Readout
+					label="Tu"
+					value={result ? `${result.tu.toFixed(2)}s` : "—"}
+					className="text-cyan-400"
+				/>
+				<Readout
+					label="Kp"
+					value={proposed ? proposed.kp.toFixed(2) : "—"}
+					className="text-blue-400"
+				/>
+				{showKi && (
+					<Readout
+						label="Ki"
+						value={proposed ? proposed.ki.toFixed(2) : "—"}
+						className="text-green-400"
+					/>
+				)}
+				{showKd && (
+					<Readout
+						label="Kd"
+						value={proposed ? proposed.kd.toFixed(2) : "—"}
+						className="text-purple-400"
+					/>
+				)}
+			</div>
+			{message && (
+				<p className="text-xs font-mono text-zinc-500 text-center">{message}</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,802 @@
+import React, { useRef, useEffect, useState, useMemo } from "react";
+import {
+	BLOCK_KINDS,
+	BLOCK_TYPES,
+	DIAGRAM_PRESETS,
+	DT,
+	MAX_BLOCKS,
+	MAX_DELAY_TIME,
+	MAX_SUM_INPUTS,
+	blockInputs,
+	blockOutputs,
+	boundParam,
+	compileDiagram,
+	connect,
+	createBlock,
+	exportDiagram,
+	nextBlockId,
+	parseDiagram,
+	removeBlock,
+	runDiagram,
+	updateBlock,
+} from "./sim";
+import type {
+	BlockDiagram,
+	BlockKind,
+	DiagramBlock,
+	IntegratorMethod,
+	PortRef,
+} from "./sim";
+
+interface BlockDiagramEditorProps {
+	/** Diagram to start from; the PID loop preset by default. */
+	initial?: BlockDiagram;
+	integrator?: IntegratorMethod;
+}
+
+type Drag =
+	| { type: "move"; id: string; dx: number; dy: number }
+	| { type: "wire"; from: PortRef; x: number; y: number };
+
+const DPR =
+	typeof window !== "undefined" ? Math.min(window.devicePixelRatio || 1, 2) : 2;
+const WIDTH = 640;
+const HEIGHT = 220;
+const PLOT_HEIGHT = 240;
+const BLOCK_W = 64;
+const BLOCK_H = 40;
+const SUM_RADIUS = 16;
+const PORT_RADIUS = 4;
+// How close a pointer must be to a port to grab it
+const PORT_HIT_RADIUS = 9;
+// Long enough for the longest delay to show
+const RUN_TIME = MAX_DELAY_TIME;
+
+// How long the copy button says "Copied" for, in ms
+const COPIED_TIME = 1500;
+
+const BLOCK_COLORS: Record<BlockKind, string> = {
+	step: "#f97316",
+	sum: "#ef4444",
+	gain: "#94a3b8",
+	pid: "#a855f7",
+	filter: "#06b6d4",
+	saturation: "#6366f1",
+	delay: "#14b8a6",
+	motor: "#3b82f6",
+};
+
+// Prefixes for new blocks' ids
+const ID_PREFIXES: Record<BlockKind, string> = {
+	step: "r",
+	sum: "s",
+	gain: "k",
+	pid: "pid",
+	filter: "f",
+	saturation: "sat",
+	delay: "z",
+	motor: "m",
+};
+
+// Editable parameters of each block, in its own units; sums edit their signs
+const PARAM_FIELDS: Record<
+	BlockKind,
+	{ key: string; label: string; step: number }[]
+> = {
+	step: [
+		{ key: "initial", label: "From", step: 0.05 },
+		{ key: "final", label: "To", step: 0.05 },
+		{ key: "time", label: "At (s)", step: 0.1 },
+	],
+	sum: [],
+	gain: [{ key: "gain", label: "K", step: 0.1 }],
+	pid: [
+		{ key: "kp", label: "Kp", step: 0.1 },
+		{ key: "ki", label: "Ki", step: 0.1 },
+		{ key: "kd", label: "Kd", step: 0.1 },
+	],
+	filter: [{ key: "timeConstant", label: "τ (s)", step: 0.01 }],
+	saturation: [
+		{ key: "min", label: "Min", step: 0.1 },
+		{ key: "max", label: "Max", step: 0.1 },
+	],
+	delay: [{ key: "time", label: "Delay (s)", step: 0.01 }],
+	motor: [
+		{ key: "mass", label: "Mass", step: 0.05 },
+		{ key: "initialAngle", label: "θ₀ (rad)", step: 0.05 },
+	],
+};
+
+const TRACE_COLORS = ["#3b82f6", "#22c55e", "#eab308", "#ec4899"];
+
+const blockSize = (block: DiagramBlock) =>
+	block.kind === "sum"
+		? { w: SUM_RADIUS * 2, h: SUM_RADIUS * 2 }
+		: { w: BLOCK_W, h: BLOCK_H };
+
+/** Where a port sits on the canvas. */
+function portPosition(
+	block: DiagramBlock,
+	side: "in" | "out",
+	port: number,
+): { x: number; y: number } {
+	const count = (side === "in" ? blockInputs(block) : blockOutputs(block))
+		.length;
+	const { w, h } = blockSize(block);
+	const spacing = Math.min(14, h / count);
+	const dy = (port - (count - 1) / 2) * spacing;
+	// Ports on a sum follow its circle
+	const dx =
+		block.kind === "sum" ? Math.sqrt(SUM_RADIUS * SUM_RADIUS - dy * dy) : w / 2;
+	return { x: block.x + (side === "in" ? -dx : dx), y: block.y + dy };
+}
+
+const blockCaption = (block: DiagramBlock): string => {
+	switch (block.kind) {
+		case "gain":
+			return `×${block.params.gain}`;
+		case "filter":
+			return `τ ${block.params.timeConstant}s`;
+		case "saturation":
+			return `${block.params.min}…${block.params.max}`;
+		case "delay":
+			return `${block.params.time}s`;
+		default:
+			return block.id;
+	}
+};
+
+export default function BlockDiagramEditor({
+	initial = DIAGRAM_PRESETS[0].diagram,
+	integrator,
+}: BlockDiagramEditorProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const plotCanvasRef = useRef<HTMLCanvasElement>(null);
+	const [diagram, setDiagram] = useState<BlockDiagram>(initial);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [drag, setDrag] = useState<Drag | null>(null);
+	const [copied, setCopied] = useState(false);
+	const [importText, setImportText] = useState<string | null>(null);
+	const [importError, setImportError] = useState(false);
+
+	const selected =
+		diagram.blocks.find((block) => block.id === selectedId) ?? null;
+
+	const compilation = useMemo(() => compileDiagram(diagram, DT), [diagram]);
+	const samples = useMemo(
+		() =>
+			compilation.program
+				? runDiagram(compilation.program, Math.round(RUN_TIME / DT), integrator)
+				: [],
+		[compilation, integrator],
+	);
+
+	// Step sources a motor's angle is compared against: the "+" inputs of any
+	// sum that takes a motor angle on a "−" input
+	const targets = useMemo(() => {
+		const found = new Set<string>();
+		const blocks = new Map(diagram.blocks.map((block) => [block.id, block]));
+		for (const block of diagram.blocks) {
+			if (block.kind !== "sum") continue;
+			const feeds = diagram.wires.filter((wire) => wire.to.block === block.id);
+			const signOf = (port: number) => block.params.signs[port];
+			const comparesAngle = feeds.some(
+				(wire) =>
+					signOf(wire.to.port) === "-" &&
+					blocks.get(wire.from.block)?.kind === "motor" &&
+					wire.from.port === 0,
+			);
+			if (!comparesAngle) continue;
+			for (const wire of feeds)
+				if (
+					signOf(wire.to.port) === "+" &&
+					blocks.get(wire.from.block)?.kind === "step"
+				)
+					found.add(wire.from.block);
+		}
+		return [...found];
+	}, [diagram]);
+
+	const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+		const rect = e.currentTarget.getBoundingClientRect();
+		return {
+			x: ((e.clientX - rect.left) * WIDTH) / rect.width,
+			y: ((e.clientY - rect.top) * HEIGHT) / rect.height,
+		};
+	};
+
+	const portAt = (x: number, y: number, side: "in" | "out") => {
+		for (const block of diagram.blocks) {
+			const count = (side === "in" ? blockInputs(block) : blockOutputs(block))
+				.length;
+			for (let port = 0; port < count; port++) {
+				const p = portPosition(block, side, port);
+				if (Math.hypot(p.x - x, p.y - y) <= PORT_HIT_RADIUS)
+					return { block: block.id, port };
+			}
+		}
+		return null;
+	};
+
+	const blockAt = (x: number, y: number) =>
+		// Topmost first, which is the last drawn
+		[...diagram.blocks].reverse().find((block) => {
+			const { w, h } = blockSize(block);
+			return Math.abs(x - block.x) <= w / 2 && Math.abs(y - block.y) <= h / 2;
+		}) ?? null;
+
+	const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+		const { x, y } = toCanvas(e);
+		e.currentTarget.setPointerCapture(e.pointerId);
+
+		const output = portAt(x, y, "out");
+		if (output) {
+			setDrag({ type: "wire", from: output, x, y });
+			return;
+		}
+		// Grabbing a connected input picks its wire back up, to move or drop
+		const input = portAt(x, y, "in");
+		const existing =
+			input &&
+			diagram.wires.find(
+				(wire) => wire.to.block === input.block && wire.to.port === input.port,
+			);
+		if (existing) {
+			setDiagram({
+				...diagram,
+				wires: diagram.wires.filter((wire) => wire !== existing),
+			});
+			setDrag({ type: "wire", from: existing.from, x, y });
+			return;
+		}
+
+		const block = blockAt(x, y);
+		setSelectedId(block?.id ?? null);
+		if (block)
+			setDrag({ type: "move", id: block.id, dx: x - block.x, dy: y - block.y });
+	};
+
+	const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+		if (!drag) return;
+		const { x, y } = toCanvas(e);
+		if (drag.type === "wire") {
+			setDrag({ ...drag, x, y });
+			return;
+		}
+		const block = diagram.blocks.find((b) => b.id === drag.id);
+		if (!block) return;
+		const { w, h } = blockSize(block);
+		setDiagram(
+			updateBlock(diagram, {
+				...block,
+				x: Math.round(Math.max(w / 2, Math.min(WIDTH - w / 2, x - drag.dx))),
+				y: Math.round(Math.max(h / 2, Math.min(HEIGHT - h / 2, y - drag.dy))),
+			}),
+		);
+	};
+
+	const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+		if (drag?.type === "wire") {
+			const { x, y } = toCanvas(e);
+			const input = portAt(x, y, "in");
+			if (input) setDiagram(connect(diagram, drag.from, input));
+		}
+		setDrag(null);
+	};
+
+	const handleAdd = (kind: BlockKind) => {
+		const id = nextBlockId(diagram, ID_PREFIXES[kind]);
+		// Fan new blocks out a little so they do not stack exactly
+		const offset = (diagram.blocks.length % 5) * 12;
+		setDiagram({
+			...diagram,
+			blocks: [
+				...diagram.blocks,
+				createBlock(
+					kind,
+					id,
+					WIDTH / 2 - 24 + offset,
+					HEIGHT / 2 - 24 + offset,
+				),
+			],
+		});
+		setSelectedId(id);
+	};
+
+	const handleParamChange = (key: string, value: number) => {
+		if (!selected || !Number.isFinite(value)) return;
+		setDiagram(
+			updateBlock(diagram, {
+				...selected,
+				params: {
+					...selected.params,
+					[key]: boundParam(selected.kind, key, value),
+				},
+			} as DiagramBlock),
+		);
+	};
+
+	const handleSignsChange = (signs: string) => {
+		if (selected?.kind !== "sum") return;
+		setDiagram(updateBlock(diagram, { ...selected, params: { signs } }));
+	};
+
+	const handleDelete = () => {
+		if (!selected) return;
+		setDiagram(removeBlock(diagram, selected.id));
+		setSelectedId(null);
+	};
+
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(exportDiagram(diagram));
+			setCopied(true);
+			setTimeout(() => setCopied(false), COPIED_TIME);
+		} catch {
+			// Clipboard access can be refused; the JSON can still be loaded
+			// and edited through the import box
+			setImportText(exportDiagram(diagram));
+		}
+	};
+
+	const handleImport = () => {
+		const parsed = importText === null ? null : parseDiagram(importText);
+		if (!parsed) {
+			setImportError(true);
+			return;
+		}
+		setDiagram(parsed);
+		setSelectedId(null);
+		setImportText(null);
+		setImportError(false);
+	};
+
+	// Diagram
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		if (!canvas) return;
+		const ctx = canvas.getContext("2d");
+		if (!ctx) return;
+
+		ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+		ctx.fillStyle = "#000000";
+		ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+		// Dot grid
+		ctx.fillStyle = "#1e293b";
+		for (let x = 20; x < WIDTH; x += 20)
+			for (let y = 20; y < HEIGHT; y += 20) ctx.fillRect(x - 1, y - 1, 2, 2);
+
+		const blocks = new Map(diagram.blocks.map((block) => [block.id, block]));
+
+		const drawWire = (
+			from: { x: number; y: number },
+			to: { x: number; y: number },
+			color: string,
+		) => {
+			// Handles reach further for wires running backwards, so feedback
+			// paths loop round instead of doubling back over the blocks
+			const reach = Math.max(30, (from.x - to.x) * 0.6 + 30);
+			ctx.beginPath();
+			ctx.moveTo(from.x, from.y);
+			ctx.bezierCurveTo(from.x + reach, from.y, to.x - reach, to.y, to.x, to.y);
+			ctx.strokeStyle = color;
+			ctx.lineWidth = 1.5;
+			ctx.stroke();
+		};
+
+		for (const wire of diagram.wires) {
+			const source = blocks.get(wire.from.block);
+			const target = blocks.get(wire.to.block);
+			if (!source || !target) continue;
+			drawWire(
+				portPosition(source, "out", wire.from.port),
+				portPosition(target, "in", wire.to.port),
+				"#64748b",
+			);
+		}
+		if (drag?.type === "wire") {
+			const source = blocks.get(drag.from.block);
+			if (source)
+				drawWire(
+					portPosition(source, "out", drag.from.port),
+					{ x: drag.x, y: drag.y },
+					"#f97316",
+				);
+		}
+
+		for (const block of diagram.blocks) {
+			const color = BLOCK_COLORS[block.kind];
+			const { w, h } = blockSize(block);
+			const isSelected = block.id === selectedId;
+
+			ctx.fillStyle = isSelected ? "#334155" : "#1e293b";
+			ctx.beginPath();
+			if (block.kind === "sum")
+				ctx.arc(block.x, block.y, SUM_RADIUS, 0, Math.PI * 2);
+			else ctx.roundRect(block.x - w / 2, block.y - h / 2, w, h, 6);
+			ctx.fill();
+			ctx.strokeStyle = color;
+			ctx.lineWidth = isSelected ? 3 : 2;
+			ctx.stroke();
+
+			ctx.fillStyle = color;
+			ctx.textAlign = "center";
+			if (block.kind === "sum") {
+				ctx.font = "bold 14px sans-serif";
+				ctx.fillText("Σ", block.x, block.y + 5);
+			} else {
+				ctx.font = "bold 11px sans-serif";
+				ctx.fillText(BLOCK_TYPES[block.kind].label, block.x, block.y - 2);
+				ctx.font = "9px monospace";
+				ctx.fillStyle = "#64748b";
+				ctx.fillText(blockCaption(block), block.x, block.y + 11);
+			}
+
+			// Ports, with the sum's signs and the outputs' names beside them
+			blockInputs(block).forEach((label, port) => {
+				const p = portPosition(block, "in", port);
+				ctx.beginPath();
+				ctx.arc(p.x, p.y, PORT_RADIUS, 0, Math.PI * 2);
+				ctx.fillStyle = "#0f172a";
+				ctx.fill();
+				ctx.strokeStyle = color;
+				ctx.lineWidth = 1.5;
+				ctx.stroke();
+				if (block.kind === "sum") {
+					ctx.fillStyle = color;
+					ctx.font = "bold 10px monospace";
+					ctx.textAlign = "right";
+					ctx.fillText(label === "-" ? "−" : "+", p.x - 6, p.y - 3);
+				}
+			});
+			const outputs = blockOutputs(block);
+			outputs.forEach((label, port) => {
+				const p = portPosition(block, "out", port);
+				ctx.beginPath();
+				ctx.arc(p.x, p.y, PORT_RADIUS, 0, Math.PI * 2);
+				ctx.fillStyle = color;
+				ctx.fill();
+				if (outputs.length > 1) {
+					ctx.font = "9px monospace";
+					ctx.textAlign = "left";
+					ctx.fillText(label, p.x + 6, p.y + 3);
+				}
+			});
+			// The id goes above boxes whose caption shows a parameter instead
+			if (block.kind === "sum" || blockCaption(block) !== block.id) {
+				ctx.fillStyle = "#64748b";
+				ctx.font = "9px monospace";
+				ctx.textAlign = "center";
+				ctx.fillText(block.id, block.x, block.y - h / 2 - 5);
+			}
+		}
+	}, [diagram, selectedId, drag]);
+
+	// Response
+	useEffect(() => {
+		const canvas = plotCanvasRef.current;
+		if (!canvas) return;
+		const ctx = canvas.getContext("2d");
+		if (!ctx) return;
+
+		const width = WIDTH;
+		const height = PLOT_HEIGHT;
+		const padding = 46;
+		const gap = 22;
+		const stripHeight = (height - 20 - gap * 2) / 2;
+
+		ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+		ctx.fillStyle = "#000000";
+		ctx.fillRect(0, 0, width, height);
+		if (samples.length === 0) return;
+
+		const motors = diagram.blocks.filter((block) => block.kind === "motor");
+		// The probe shows the selected block, or what drives the first motor
+		const driven = motors.length
+			? diagram.wires.find((wire) => wire.to.block === motors[0].id)?.from
+			: undefined;
+		const probe = selected
+			? {
+					id: selected.id,
+					ports: blockOutputs(selected).map((_, port) => port),
+				}
+			: driven
+				? { id: driven.block, ports: [driven.port] }
+				: null;
+
+		const strips: {
+			title: string;
+			traces: { values: number[]; color: string; dashed?: boolean }[];
+			degrees: boolean;
+		}[] = [
+			{
+				title: "Angle (°)",
+				degrees: true,
+				traces: [
+					...targets.map((id) => ({
+						values: samples.map((s) => s.signals[id][0]),
+						color: "#f97316",
+						dashed: true,
+					})),
+					...motors.map((motor, idx) => ({
+						values: samples.map((s) => s.signals[motor.id][0]),
+						color: TRACE_COLORS[idx % TRACE_COLORS.length],
+					})),
+				],
+			},
+			{
+				title: probe ? `Probe: ${probe.id}` : "Probe: select a block",
+				degrees: false,
+				traces: probe
+					? probe.ports.map((port, idx) => ({
+							values: samples.map((s) => s.signals[probe.id]?.[port] ?? 0),
+							color: idx === 0 ? "#a855f7" : "#c084fc",
+						}))
+					: [],
+			},
+		];
+
+		strips.forEach((strip, idx) => {
+			const top = 10 + gap + idx * (stripHeight + gap);
+			const values = strip.traces.flatMap((trace) => trace.values);
+			let min: number;
+			let max: number;
+			if (strip.degrees) {
+				min = 0;
+				max = Math.PI;
+			} else {
+				min = Math.min(0, ...values);
+				max = Math.max(0, ...values);
+				if (max - min < 1e-6) max = min + 1;
+			}
+			const toY = (value: number) =>
+				top +
+				stripHeight *
+					(1 - (Math.max(min, Math.min(max, value)) - min) / (max - min));
+			const format = (value: number) =>
+				strip.degrees
+					? `${Math.round((value * 180) / Math.PI)}`
+					: value.toFixed(Math.abs(value) < 10 ? 2 : 0);
+
+			// Grid lines
+			ctx.strokeStyle = "#1e293b";
+			ctx.lineWidth = 1;
+			for (let i = 0; i <= 2; i++) {
+				const y = top + (stripHeight * i) / 2;
+				ctx.beginPath();
+				ctx.moveTo(padding, y);
+				ctx.lineTo(width - 10, y);
+				ctx.stroke();
+			}
+
+			// Y-axis labels
+			ctx.fillStyle = "#64748b";
+			ctx.font = "11px monospace";
+			ctx.textAlign = "right";
+			ctx.fillText(format(max), padding - 6, top + 4);
+			ctx.fillText(format(min), padding - 6, top + stripHeight + 4);
+
+			// Title
+			ctx.fillStyle = "#94a3b8";
+			ctx.font = "13px monospace";
+			ctx.textAlign = "left";
+			ctx.fillText(strip.title, padding, top - 6);
+
+			for (const trace of strip.traces) {
+				ctx.beginPath();
+				ctx.strokeStyle = trace.color;
+				ctx.lineWidth = trace.dashed ? 2 : 2.5;
+				ctx.setLineDash(trace.dashed ? [6, 6] : []);
+				trace.values.forEach((value, i) => {
+					const x = padding + ((width - 10 - padding) * i * DT) / RUN_TIME;
+					if (i === 0) ctx.moveTo(x, toY(value));
+					else ctx.lineTo(x, toY(value));
+				});
+				ctx.stroke();
+				ctx.setLineDash([]);
+			}
+		});
+
+		// Time axis
+		ctx.fillStyle = "#64748b";
+		ctx.font = "11px monospace";
+		ctx.textAlign = "right";
+		ctx.fillText(`${RUN_TIME}s`, width - 10, height - 4);
+	}, [samples, diagram, selected, targets]);
+
+	return (
+		<div className="not-prose flex flex-col gap-4 p-6 bg-black w-full rounded-3xl">
+			<div className="flex flex-wrap gap-2 justify-center">
+				{DIAGRAM_PRESETS.map((preset) => (
+					<button
+						key={preset.id}
+						type="button"
+						onClick={() => {
+							setDiagram(preset.diagram);
+							setSelectedId(null);
+						}}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${diagram === preset.diagram ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{preset.label}
+					</button>
+				))}
+			</div>
+
+			<div className="flex flex-wrap gap-2 justify-center">
+				{BLOCK_KINDS.map((kind) => (
+					<button
+						key={kind}
+						type="button"
+						onClick={() => handleAdd(kind)}
+						disabled={diagram.blocks.length >= MAX_BLOCKS}
+						className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300 disabled:opacity-50"
+						style={{ color: BLOCK_COLORS[kind] }}
+					>
+						+ {BLOCK_TYPES[kind].label}
+					</button>
+				))}
+			</div>
+
+			<div className="flex flex-col items-center gap-2">
+				<canvas
+					ref={canvasRef}
+					width={WIDTH * DPR}
+					height={HEIGHT * DPR}
+					onPointerDown={handlePointerDown}
+					onPointerMove={handlePointerMove}
+					onPointerUp={handlePointerUp}
+					onPointerCancel={() => setDrag(null)}
+					className="outline-none border-0 block w-full max-w-[640px] rounded-xl touch-none"
+					style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}
+				/>
+				<span className="text-xs font-mono text-zinc-500 text-center">
+					Drag blocks to move them, and from an output to an input to wire them.
+					Drag a wire off its input to remove it.
+				</span>
+			</div>
+
+			{selected && (
+				<div className="flex flex-wrap gap-3 items-center justify-center">
+					<span
+						className="text-sm font-mono"
+						style={{ color: BLOCK_COLORS[selected.kind] }}
+					>
+						{selected.id}
+					</span>
+					{selected.kind === "sum" && (
+						<>
+							{selected.params.signs.split("").map((sign, port) => (
+								<button
+									key={port}
+									type="button"
+									onClick={() =>
+										handleSignsChange(
+											selected.params.signs.slice(0, port) +
+												(sign === "+" ? "-" : "+") +
+												selected.params.signs.slice(port + 1),
+										)
+									}
+									className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-red-400 w-10"
+									title="Flip this input's sign"
+								>
+									{sign === "-" ? "−" : "+"}
+								</button>
+							))}
+							<button
+								type="button"
+								onClick={() => handleSignsChange(selected.params.signs + "+")}
+								disabled={selected.params.signs.length >= MAX_SUM_INPUTS}
+								className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300 disabled:opacity-50"
+							>
+								Add input
+							</button>
+							<button
+								type="button"
+								onClick={() =>
+									handleSignsChange(selected.params.signs.slice(0, -1))
+								}
+								disabled={selected.params.signs.length <= 1}
+								className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300 disabled:opacity-50"
+							>
+								Remove input
+							</button>
+						</>
+					)}
+					{PARAM_FIELDS[selected.kind].map((field) => (
+						<label
+							key={`${selected.id}-${field.key}`}
+							className="flex items-center gap-2 text-sm font-mono text-zinc-400"
+						>
+							{field.label}
+							<input
+								type="number"
+								step={field.step}
+								defaultValue={
+									(selected.params as unknown as Record<string, number>)[
+										field.key
+									]
+								}
+								onChange={(e) =>
+									handleParamChange(field.key, parseFloat(e.target.value))
+								}
+								className="w-24 px-3 py-1.5 rounded-xl text-sm font-mono bg-zinc-900 text-zinc-200 outline-none"
+							/>
+						</label>
+					))}
+					<button
+						type="button"
+						onClick={handleDelete}
+						className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-rose-400"
+					>
+						Delete
+					</button>
+				</div>
+			)}
+
+			<div className="flex flex-col items-center">
+				{compilation.error ? (
+					<span className="text-sm font-mono text-red-400 text-center">
+						{compilation.error}
+					</span>
+				) : (
+					<canvas
+						ref={plotCanvasRef}
+						width={WIDTH * DPR}
+						height={PLOT_HEIGHT * DPR}
+						className="outline-none border-0 block w-full max-w-[640px]"
+						style={{ aspectRatio: `${WIDTH} / ${PLOT_HEIGHT}` }}
+					/>
+				)}
+			</div>
+
+			<div className="flex flex-wrap gap-2 justify-center">
+				<button
+					type="button"
+					onClick={handleCopy}
+					className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300 w-32"
+				>
+					{copied ? "Copied!" : "Copy JSON"}
+				</button>
+				<button
+					type="button"
+					onClick={() => {
+						setImportText(importText === null ? "" : null);
+						setImportError(false);
+					}}
+					className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors w-32 ${importText !== null ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+				>
+					Load JSON
+				</button>
+			</div>
+			{importText !== null && (
+				<div className="flex flex-col gap-2">
+					<textarea
+						value={importText}
+						onChange={(e) => {
+							setImportText(e.target.value);
+							setImportError(false);
+						}}
+						rows={6}
+						placeholder="Paste a diagram's JSON"
+						className="px-3 py-2 rounded-xl text-xs font-mono bg-zinc-900 text-zinc-200 outline-none"
+					/>
+					<div className="flex gap-3 items-center justify-center">
+						<button
+							type="button"
+							onClick={handleImport}
+							className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-emerald-600 hover:bg-emerald-500 text-white"
+						>
+							Load
+						</button>
+						{importError && (
+							<span className="text-xs font-mono text-red-400">
+								Not a block diagram
+							</span>
+						)}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
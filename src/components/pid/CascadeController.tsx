@@ -0,0 +1,615 @@
+import React, {
+	useRef,
+	useEffect,
+	useState,
+	useCallback,
+	useMemo,
+} from "react";
+import SpeedControls from "./SpeedControls";
+import {
+	DEFAULT_CASCADE_GAINS,
+	DEFAULT_DC_MOTOR,
+	DEFAULT_INTEGRATOR,
+	DT,
+	MAX_VELOCITY_COMMAND,
+	MOMENT_OF_INERTIA,
+	POINTER_MOTOR_FRICTION,
+	advanceClock,
+	bounceOffStops,
+	cascadeBandwidths,
+	createClock,
+	initialCascadeState,
+	pauseClock,
+	stepCascade,
+} from "./sim";
+import type {
+	CascadeGains,
+	CascadeLoops,
+	CascadeParams,
+	CascadeState,
+	IntegratorMethod,
+	LoopBandwidth,
+} from "./sim";
+
+interface CascadeControllerProps {
+	integrator?: IntegratorMethod;
+	initialMass?: number;
+}
+
+interface Trace {
+	values: number[];
+	color: string;
+	dashed?: boolean;
+}
+
+const START_ANGLE = Math.PI / 2;
+const DEFAULT_TARGET = (3 * Math.PI) / 4;
+const MAX_HISTORY = 200;
+const DPR =
+	typeof window !== "undefined" ? Math.min(window.devicePixelRatio || 1, 2) : 2;
+const CANVAS_WIDTH = 500;
+const CANVAS_HEIGHT = 360;
+
+const GAIN_SLIDERS: {
+	key: keyof CascadeGains;
+	label: string;
+	max: number;
+	step: number;
+	loop: keyof CascadeLoops | "position";
+}[] = [
+	{ key: "positionKp", label: "Kp", max: 20, step: 0.5, loop: "position" },
+	{ key: "velocityKp", label: "Kp", max: 40, step: 0.5, loop: "velocity" },
+	{ key: "velocityKi", label: "Ki", max: 300, step: 5, loop: "velocity" },
+	{ key: "currentKp", label: "Kp", max: 40, step: 0.5, loop: "current" },
+	{ key: "currentKi", label: "Ki", max: 1000, step: 10, loop: "current" },
+];
+
+// Each loop's colour, used for its gains, readouts and plot
+const LOOP_STYLES = {
+	position: {
+		name: "Position",
+		text: "text-blue-400",
+		fill: "bg-blue-500",
+		thumb: "bg-blue-500 border-blue-300",
+		trace: "#3b82f6",
+	},
+	velocity: {
+		name: "Velocity",
+		text: "text-green-400",
+		fill: "bg-green-500",
+		thumb: "bg-green-500 border-green-300",
+		trace: "#22c55e",
+	},
+	current: {
+		name: "Current",
+		text: "text-yellow-400",
+		fill: "bg-yellow-500",
+		thumb: "bg-yellow-500 border-yellow-300",
+		trace: "#eab308",
+	},
+};
+
+export default function CascadeController({
+	integrator = DEFAULT_INTEGRATOR,
+	initialMass = 0.5,
+}: CascadeControllerProps) {
+	const containerRef = useRef<HTMLDivElement>(null);
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const [state, setState] = useState<CascadeState>(
+		initialCascadeState(START_ANGLE),
+	);
+	const stateRef = useRef<CascadeState>(state);
+	const [targetAngle, setTargetAngle] = useState(DEFAULT_TARGET);
+	const [mass, setMass] = useState(initialMass);
+	const [gains, setGains] = useState<CascadeGains>(DEFAULT_CASCADE_GAINS);
+	const [loops, setLoops] = useState<CascadeLoops>({
+		velocity: true,
+		current: true,
+	});
+	const [isRunning, setIsRunning] = useState(true);
+	const [speed, setSpeed] = useState(1);
+	const [isVisible, setIsVisible] = useState(true);
+	const angleHistoryRef = useRef<number[]>([]);
+	const targetHistoryRef = useRef<number[]>([]);
+	const velocityHistoryRef = useRef<number[]>([]);
+	const velocityCommandHistoryRef = useRef<number[]>([]);
+	const currentHistoryRef = useRef<number[]>([]);
+	const currentCommandHistoryRef = useRef<number[]>([]);
+	const clockRef = useRef(createClock());
+	const pendingStepsRef = useRef(0);
+	const animationRef = useRef<number | null>(null);
+
+	const params: CascadeParams = useMemo(
+		() => ({
+			motor: DEFAULT_DC_MOTOR,
+			mechanics: { inertia: MOMENT_OF_INERTIA, friction: POINTER_MOTOR_FRICTION, mass },
+		}),
+		[mass],
+	);
+	const bandwidths = useMemo(
+		() => cascadeBandwidths(gains, loops, params),
+		[gains, loops, params],
+	);
+
+	const draw = useCallback(
+		(
+			ctx: CanvasRenderingContext2D,
+			strips: {
+				title: string;
+				min: number;
+				max: number;
+				unit: string;
+				traces: Trace[];
+			}[],
+		) => {
+			const width = CANVAS_WIDTH;
+			const height = CANVAS_HEIGHT;
+			const padding = 46;
+			const gap = 22;
+			const stripHeight = (height - 20 - gap * strips.length) / strips.length;
+
+			ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+			ctx.fillStyle = "#000000";
+			ctx.fillRect(0, 0, width, height);
+
+			strips.forEach((strip, idx) => {
+				const top = 10 + gap + idx * (stripHeight + gap);
+				const toY = (value: number) =>
+					top +
+					stripHeight *
+						(1 -
+							(Math.max(strip.min, Math.min(strip.max, value)) - strip.min) /
+								(strip.max - strip.min));
+
+				// Grid lines
+				ctx.strokeStyle = "#1e293b";
+				ctx.lineWidth = 1;
+				for (let i = 0; i <= 2; i++) {
+					const y = top + (stripHeight * i) / 2;
+					ctx.beginPath();
+					ctx.moveTo(padding, y);
+					ctx.lineTo(width - 10, y);
+					ctx.stroke();
+				}
+
+				// Y-axis labels
+				ctx.fillStyle = "#64748b";
+				ctx.font = "11px monospace";
+				ctx.textAlign = "right";
+				ctx.fillText(`${strip.max}${strip.unit}`, padding - 6, top + 4);
+				ctx.fillText(
+					`${strip.min}${strip.unit}`,
+					padding - 6,
+					top + stripHeight + 4,
+				);
+
+				// Title
+				ctx.fillStyle = "#94a3b8";
+				ctx.font = "13px monospace";
+				ctx.textAlign = "left";
+				ctx.fillText(strip.title, padding, top - 6);
+
+				for (const trace of strip.traces) {
+					if (trace.values.length < 2) continue;
+					ctx.beginPath();
+					ctx.strokeStyle = trace.color;
+					ctx.lineWidth = trace.dashed ? 2 : 2.5;
+					ctx.setLineDash(trace.dashed ? [6, 6] : []);
+					for (let i = 0; i < trace.values.length; i++) {
+						const x =
+							padding + ((width - 10 - padding) * i) / (MAX_HISTORY - 1);
+						const y = toY(trace.values[i]);
+						if (i === 0) ctx.moveTo(x, y);
+						else ctx.lineTo(x, y);
+					}
+					ctx.stroke();
+					ctx.setLineDash([]);
+				}
+			});
+		},
+		[],
+	);
+
+	useEffect(() => {
+		const observer = new IntersectionObserver(
+			([entry]) => setIsVisible(entry.isIntersecting),
+			{ threshold: 0.1 },
+		);
+		if (containerRef.current) observer.observe(containerRef.current);
+		return () => {
+			if (containerRef.current) observer.unobserve(containerRef.current);
+		};
+	}, []);
+
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		if (!canvas) return;
+		const ctx = canvas.getContext("2d");
+		if (!ctx || !isVisible) return;
+
+		const loop = (now: number) => {
+			let steps = pendingStepsRef.current;
+			pendingStepsRef.current = 0;
+			if (isRunning) steps += advanceClock(clockRef.current, now, DT, speed);
+			else pauseClock(clockRef.current);
+
+			for (let step = 0; step < steps; step++) {
+				const next = stepCascade(
+					stateRef.current,
+					targetAngle,
+					gains,
+					loops,
+					params,
+					DT,
+					integrator,
+				);
+				// Hard stops at either end of the dial, for when a loop goes unstable
+				stateRef.current = {
+					...next,
+					...bounceOffStops(next, 0, Math.PI, 0.5),
+				};
+				angleHistoryRef.current.push(stateRef.current.angle);
+				targetHistoryRef.current.push(targetAngle);
+				velocityHistoryRef.current.push(stateRef.current.angularVelocity);
+				velocityCommandHistoryRef.current.push(
+					stateRef.current.velocityCommand,
+				);
+				currentHistoryRef.current.push(stateRef.current.current);
+				currentCommandHistoryRef.current.push(stateRef.current.currentCommand);
+				if (angleHistoryRef.current.length > MAX_HISTORY) {
+					angleHistoryRef.current.shift();
+					targetHistoryRef.current.shift();
+					velocityHistoryRef.current.shift();
+					velocityCommandHistoryRef.current.shift();
+					currentHistoryRef.current.shift();
+					currentCommandHistoryRef.current.shift();
+				}
+			}
+			if (steps > 0) setState(stateRef.current);
+
+			const toDegrees = (values: number[]) =>
+				values.map((value) => (value * 180) / Math.PI);
+			const currentLimit = params.motor.currentLimit;
+			draw(ctx, [
+				{
+					title: "Position",
+					min: 0,
+					max: 180,
+					unit: "°",
+					traces: [
+						{
+							values: toDegrees(targetHistoryRef.current),
+							color: "#f97316",
+							dashed: true,
+						},
+						{
+							values: toDegrees(angleHistoryRef.current),
+							color: LOOP_STYLES.position.trace,
+						},
+					],
+				},
+				{
+					title: "Velocity (rad/s)",
+					min: -MAX_VELOCITY_COMMAND,
+					max: MAX_VELOCITY_COMMAND,
+					unit: "",
+					traces: [
+						{
+							values: velocityCommandHistoryRef.current,
+							color: "#f97316",
+							dashed: true,
+						},
+						{
+							values: velocityHistoryRef.current,
+							color: LOOP_STYLES.velocity.trace,
+						},
+					],
+				},
+				{
+					title: "Current (A)",
+					min: -currentLimit,
+					max: currentLimit,
+					unit: "",
+					traces: [
+						{
+							values: currentCommandHistoryRef.current,
+							color: "#f97316",
+							dashed: true,
+						},
+						{
+							values: currentHistoryRef.current,
+							color: LOOP_STYLES.current.trace,
+						},
+					],
+				},
+			]);
+			animationRef.current = requestAnimationFrame(loop);
+		};
+		animationRef.current = requestAnimationFrame(loop);
+		return () => {
+			if (animationRef.current !== null)
+				cancelAnimationFrame(animationRef.current);
+		};
+	}, [
+		draw,
+		targetAngle,
+		gains,
+		loops,
+		params,
+		integrator,
+		isRunning,
+		speed,
+		isVisible,
+	]);
+
+	const handleReset = () => {
+		stateRef.current = initialCascadeState(START_ANGLE);
+		setState(stateRef.current);
+		angleHistoryRef.current = [];
+		targetHistoryRef.current = [];
+		velocityHistoryRef.current = [];
+		velocityCommandHistoryRef.current = [];
+		currentHistoryRef.current = [];
+		currentCommandHistoryRef.current = [];
+		setTargetAngle(DEFAULT_TARGET);
+		setMass(initialMass);
+		setGains(DEFAULT_CASCADE_GAINS);
+		setLoops({ velocity: true, current: true });
+	};
+
+	const handleRandomTarget = () => {
+		// Random angle between 45° and 135° (π/4 to 3π/4)
+		setTargetAngle(Math.PI / 4 + (Math.random() * Math.PI) / 2);
+	};
+
+	const readout = (bandwidth: LoopBandwidth | null) =>
+		bandwidth?.crossover != null
+			? `${bandwidth.crossover.toFixed(bandwidth.crossover < 10 ? 1 : 0)} rad/s`
+			: "—";
+	const margin = (bandwidth: LoopBandwidth | null) =>
+		bandwidth?.phaseMargin != null
+			? `PM ${Math.round(bandwidth.phaseMargin)}°`
+			: "off";
+
+	return (
+		<div
+			ref={containerRef}
+			className="not-prose flex flex-col gap-4 p-6 bg-black w-full rounded-3xl"
+		>
+			<div className="flex flex-col items-center min-w-0">
+				<canvas
+					ref={canvasRef}
+					width={CANVAS_WIDTH * DPR}
+					height={CANVAS_HEIGHT * DPR}
+					className="outline-none border-0 block w-full max-w-[500px]"
+					style={{ aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}` }}
+				/>
+			</div>
+
+			{/* Bandwidth of each loop, outermost first */}
+			<div className="flex justify-center gap-2 flex-wrap font-mono text-xs">
+				{(["position", "velocity", "current"] as const).map((name) => (
+					<div
+						key={name}
+						className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[90px]"
+					>
+						<span className="text-[10px] text-zinc-500">
+							{LOOP_STYLES[name].name}
+						</span>
+						<span
+							className={LOOP_STYLES[name].text}
+							style={{ fontVariantNumeric: "tabular-nums" }}
+						>
+							{readout(bandwidths[name])}
+						</span>
+						<span
+							className="text-[10px] text-zinc-500"
+							style={{ fontVariantNumeric: "tabular-nums" }}
+						>
+							{margin(bandwidths[name])}
+						</span>
+					</div>
+				))}
+			</div>
+
+			<div className="flex flex-wrap gap-2 justify-center">
+				{(["velocity", "current"] as const).map((name) => (
+					<button
+						key={name}
+						type="button"
+						onClick={() => setLoops({ ...loops, [name]: !loops[name] })}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${loops[name] ? "bg-emerald-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+						title={
+							name === "velocity"
+								? "Off: the position loop commands current directly"
+								: "Off: the current command sets the voltage directly, V = R·i"
+						}
+					>
+						{LOOP_STYLES[name].name} loop {loops[name] ? "on" : "off"}
+					</button>
+				))}
+			</div>
+
+			{/* Sliders */}
+			<div className="flex flex-col gap-3 px-2 pb-2">
+				{GAIN_SLIDERS.map((slider) => {
+					const style = LOOP_STYLES[slider.loop];
+					const value = gains[slider.key];
+					const enabled = slider.loop === "position" || loops[slider.loop];
+					// Without its loop a velocity Kp still scales the feedforward
+					const dimmed = !enabled && slider.key !== "velocityKp";
+					return (
+						<div
+							key={slider.key}
+							className={`flex items-center gap-4 transition-opacity ${dimmed ? "opacity-40" : ""}`}
+						>
+							<label className="text-sm font-mono text-zinc-400 w-24">
+								{style.name.slice(0, 3)} {slider.label}
+							</label>
+							<div className="flex-1 relative h-2">
+								<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+								<div
+									className={`absolute left-0 top-0 h-full ${style.fill} rounded-lg`}
+									style={{ width: `${(value / slider.max) * 100}%` }}
+								/>
+								<input
+									type="range"
+									min="0"
+									max={slider.max}
+									step={slider.step}
+									value={value}
+									disabled={dimmed}
+									onChange={(e) =>
+										setGains({
+											...gains,
+											[slider.key]: parseFloat(e.target.value),
+										})
+									}
+									className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+								/>
+								<div
+									className={`absolute top-1/2 -translate-y-1/2 w-4 h-4 ${style.thumb} rounded-full border-2 pointer-events-none`}
+									style={{ left: `calc(${(value / slider.max) * 100}% - 8px)` }}
+								/>
+							</div>
+							<span
+								className={`text-sm font-mono ${style.text} w-12 text-right`}
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								{value.toFixed(slider.step < 1 ? 1 : 0)}
+							</span>
+						</div>
+					);
+				})}
+				<div className="flex items-center gap-4">
+					<label className="text-sm font-mono text-zinc-400 w-24">Mass</label>
+					<div className="flex-1 relative h-2">
+						<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+						<div
+							className="absolute left-0 top-0 h-full bg-red-500 rounded-lg"
+							style={{ width: `${mass * 100}%` }}
+						/>
+						<input
+							type="range"
+							min="0"
+							max="1"
+							step="0.05"
+							value={mass}
+							onChange={(e) => setMass(parseFloat(e.target.value))}
+							className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+						/>
+						<div
+							className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-red-500 rounded-full border-2 border-red-300 pointer-events-none"
+							style={{ left: `calc(${mass * 100}% - 8px)` }}
+						/>
+					</div>
+					<span
+						className="text-sm font-mono text-red-400 w-12 text-right"
+						style={{ fontVariantNumeric: "tabular-nums" }}
+					>
+						{mass.toFixed(2)}
+					</span>
+				</div>
+			</div>
+
+			{/* Buttons */}
+			<div className="flex justify-between items-center flex-wrap gap-3">
+				<div className="flex gap-2 items-center">
+					<button
+						type="button"
+						onClick={handleReset}
+						className="p-2.5 bg-zinc-900 hover:bg-zinc-800 active:bg-zinc-700 text-zinc-300 rounded-xl transition-all"
+						title="Reset"
+					>
+						<svg
+							xmlns="http://www.w3.org/2000/svg"
+							width="20"
+							height="20"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							strokeWidth="2"
+							strokeLinecap="round"
+							strokeLinejoin="round"
+						>
+							<path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+							<path d="M3 3v5h5" />
+						</svg>
+					</button>
+					<button
+						type="button"
+						onClick={() => setIsRunning(!isRunning)}
+						className={`p-2.5 rounded-xl transition-all ${isRunning ? "bg-amber-600 hover:bg-amber-500 active:bg-amber-400 text-white" : "bg-emerald-600 hover:bg-emerald-500 active:bg-emerald-400 text-white"}`}
+						title={isRunning ? "Pause" : "Play"}
+					>
+						{isRunning ? (
+							<svg
+								xmlns="http://www.w3.org/2000/svg"
+								width="20"
+								height="20"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="currentColor"
+								strokeWidth="2"
+								strokeLinecap="round"
+								strokeLinejoin="round"
+							>
+								<rect x="6" y="4" width="4" height="16" rx="1" />
+								<rect x="14" y="4" width="4" height="16" rx="1" />
+							</svg>
+						) : (
+							<svg
+								xmlns="http://www.w3.org/2000/svg"
+								width="20"
+								height="20"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="currentColor"
+								strokeWidth="2.5"
+								strokeLinecap="round"
+								strokeLinejoin="round"
+							>
+								<polygon points="5 3 19 12 5 21 5 3" fill="currentColor" />
+							</svg>
+						)}
+					</button>
+					<SpeedControls
+						speed={speed}
+						onSpeedChange={setSpeed}
+						onStep={() => (pendingStepsRef.current += 1)}
+						stepDisabled={isRunning}
+					/>
+					<button
+						type="button"
+						onClick={handleRandomTarget}
+						className="p-2.5 bg-purple-600 hover:bg-purple-500 active:bg-purple-400 text-white rounded-xl transition-all"
+						title="Random Target"
+					>
+						<svg
+							xmlns="http://www.w3.org/2000/svg"
+							width="20"
+							height="20"
+							viewBox="0 0 24 24"
+							fill="none"
+							stroke="currentColor"
+							strokeWidth="2"
+							strokeLinecap="round"
+							strokeLinejoin="round"
+						>
+							<rect x="2" y="2" width="20" height="20" rx="2" />
+							<circle cx="8" cy="8" r="1.5" fill="currentColor" />
+							<circle cx="16" cy="8" r="1.5" fill="currentColor" />
+							<circle cx="8" cy="16" r="1.5" fill="currentColor" />
+							<circle cx="16" cy="16" r="1.5" fill="currentColor" />
+							<circle cx="12" cy="12" r="1.5" fill="currentColor" />
+						</svg>
+					</button>
+				</div>
+				<p className="text-xs text-zinc-500">
+					{Math.round((state.angle * 180) / Math.PI)}° →{" "}
+					{Math.round((targetAngle * 180) / Math.PI)}°
+				</p>
+			</div>
+		</div>
+	);
+}
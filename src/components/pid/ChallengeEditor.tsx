@@ -0,0 +1,207 @@
+import { useState } from "react";
+import {
+	CHALLENGE_FIELDS,
+	CHALLENGE_PROFILES,
+	GAIN_TERMS,
+	PROFILE_SHAPES,
+	encodeChallenge,
+} from "./sim";
+import type { Challenge, GainTerm } from "./sim";
+
+interface ChallengeEditorProps {
+	/** Challenge the draft starts from. */
+	initial: Challenge;
+	onPlay: (challenge: Challenge) => void;
+	disabled?: boolean;
+}
+
+const TERM_LABELS: Record<GainTerm, string> = { kp: "P", ki: "I", kd: "D" };
+
+// A plain step, then the moves a challenge can make instead
+const MOVES = PROFILE_SHAPES.filter(
+	({ id }) => id === "step" || CHALLENGE_PROFILES.some((shape) => shape === id),
+);
+
+// How long the copy buttons say "Copied" for, in ms
+const COPIED_TIME = 1500;
+
+function FieldSlider({
+	field,
+	value,
+	onChange,
+}: {
+	field: (typeof CHALLENGE_FIELDS)[number];
+	value: number;
+	onChange: (value: number) => void;
+}) {
+	const fraction = (value - field.min) / (field.max - field.min);
+	const shown = value * field.scale;
+	// Enough decimals to tell adjacent slider steps apart
+	const digits = Math.max(0, Math.ceil(-Math.log10(field.step * field.scale)));
+	return (
+		<div className="flex items-center gap-4">
+			<label className="text-sm font-mono text-zinc-400 w-16">
+				{field.label}
+			</label>
+			<div className="flex-1 relative h-2">
+				<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+				<div
+					className="absolute left-0 top-0 h-full bg-orange-500 rounded-lg"
+					style={{ width: `${fraction * 100}%` }}
+				/>
+				<input
+					type="range"
+					min={field.min}
+					max={field.max}
+					step={field.step}
+					value={value}
+					onChange={(e) => onChange(parseFloat(e.target.value))}
+					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+				/>
+				<div
+					className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-orange-500 rounded-full border-2 border-orange-300 pointer-events-none"
+					style={{ left: `calc(${fraction * 100}% - 8px)` }}
+				/>
+			</div>
+			<span
+				className="text-sm font-mono text-orange-400 w-20 text-right"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{shown.toFixed(digits)}
+				{field.unit}
+			</span>
+		</div>
+	);
+}
+
+/**
+ * Builds a TuningChallenge level and shares it as a link or as the
+ * `challenge` prop to embed in MDX.
+ */
+export default function ChallengeEditor({
+	initial,
+	onPlay,
+	disabled = false,
+}: ChallengeEditorProps) {
+	const [draft, setDraft] = useState<Challenge>(initial);
+	const [copied, setCopied] = useState<"link" | "mdx" | null>(null);
+
+	const terms = draft.terms ?? GAIN_TERMS;
+	const code = encodeChallenge(draft);
+
+	const toggleTerm = (term: GainTerm) => {
+		const next = terms.includes(term)
+			? terms.filter((t) => t !== term)
+			: GAIN_TERMS.filter((t) => t === term || terms.includes(t));
+		// Keep at least one term, or there would be nothing to tune
+		if (next.length > 0) setDraft({ ...draft, terms: next });
+	};
+
+	const copy = async (kind: "link" | "mdx") => {
+		const url = new URL(window.location.href);
+		url.searchParams.set("challenge", code);
+		const text =
+			kind === "link"
+				? url.toString()
+				: `<TuningChallenge challenge="${code}" />`;
+		try {
+			await navigator.clipboard.writeText(text);
+			setCopied(kind);
+			setTimeout(() => setCopied(null), COPIED_TIME);
+		} catch {
+			// Clipboard access can be refused; the code stays visible below
+		}
+	};
+
+	return (
+		<div className="flex flex-col gap-4 bg-zinc-900/50 rounded-xl p-4">
+			<div className="text-[10px] text-zinc-500 uppercase tracking-wide">
+				Challenge editor
+			</div>
+			<div className="flex flex-col sm:flex-row gap-2">
+				<input
+					type="text"
+					value={draft.name}
+					maxLength={40}
+					onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+					placeholder="Name"
+					className="flex-1 px-3 py-1.5 rounded-xl text-sm font-mono bg-zinc-900 text-zinc-200 outline-none"
+				/>
+				<input
+					type="text"
+					value={draft.description}
+					maxLength={80}
+					onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+					placeholder="Description"
+					className="flex-[2] px-3 py-1.5 rounded-xl text-sm font-mono bg-zinc-900 text-zinc-200 outline-none"
+				/>
+			</div>
+			{CHALLENGE_FIELDS.map((field) => (
+				<FieldSlider
+					key={field.key}
+					field={field}
+					value={draft[field.key] ?? field.fallback}
+					onChange={(value) => setDraft({ ...draft, [field.key]: value })}
+				/>
+			))}
+			<div className="flex flex-wrap gap-2 items-center justify-center">
+				<span className="text-sm font-mono text-zinc-400">Terms</span>
+				{GAIN_TERMS.map((term) => (
+					<button
+						key={term}
+						type="button"
+						onClick={() => toggleTerm(term)}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${terms.includes(term) ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{TERM_LABELS[term]}
+					</button>
+				))}
+			</div>
+			<div className="flex flex-wrap gap-2 items-center justify-center">
+				<span className="text-sm font-mono text-zinc-400">Move</span>
+				{MOVES.map(({ id, label }) => (
+					<button
+						key={id}
+						type="button"
+						onClick={() =>
+							setDraft({
+								...draft,
+								profile: CHALLENGE_PROFILES.find((shape) => shape === id),
+							})
+						}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${(draft.profile ?? "step") === id ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+			<div className="flex flex-wrap gap-2 justify-center">
+				<button
+					type="button"
+					onClick={() => onPlay(draft)}
+					disabled={disabled}
+					className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-50"
+				>
+					Play
+				</button>
+				<button
+					type="button"
+					onClick={() => copy("link")}
+					className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300 w-28"
+				>
+					{copied === "link" ? "Copied!" : "Copy link"}
+				</button>
+				<button
+					type="button"
+					onClick={() => copy("mdx")}
+					className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300 w-28"
+				>
+					{copied === "mdx" ? "Copied!" : "Copy MDX"}
+				</button>
+			</div>
+			<code className="text-[10px] text-zinc-600 break-all text-center">
+				{code}
+			</code>
+		</div>
+	);
+}
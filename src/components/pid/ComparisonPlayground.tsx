@@ -1,11 +1,56 @@
 import React, { useRef, useEffect, useState, useCallback } from "react";
-
-interface MotorState {
-	angle: number;
-	angularVelocity: number;
-	integral: number;
-	prevError: number;
-}
+import ActuatorPanel from "./ActuatorPanel";
+import DisturbancePanel from "./DisturbancePanel";
+import MotionProfilePanel from "./MotionProfilePanel";
+import SampleRateControl from "./SampleRateControl";
+import SensorPanel from "./SensorPanel";
+import SetpointControls from "./SetpointControls";
+import SpeedControls from "./SpeedControls";
+import StepMetricsTable from "./StepMetricsTable";
+import {
+	DEFAULT_INTEGRATOR,
+	DEFAULT_PROFILE,
+	DT,
+	IDEAL_ACTUATOR,
+	IDEAL_SENSOR,
+	KICK_IMPULSE,
+	MAX_TORQUE,
+	MOMENT_OF_INERTIA,
+	NO_DISTURBANCE,
+	advanceClock,
+	advancePlayback,
+	clamp,
+	createClock,
+	createPlayback,
+	createRng,
+	createSensor,
+	createSetpointGenerator,
+	createStepRecord,
+	disturbanceTorque,
+	isWaveform,
+	kick,
+	pauseClock,
+	pushTorque,
+	readSensor,
+	recordStepSample,
+	stepMetrics,
+	stepMotorPID,
+	stepSetpoint,
+	trackingError,
+} from "./sim";
+import type {
+	ActuatorModel,
+	DisturbanceSettings,
+	IntegratorMethod,
+	MotorLoopState as MotorState,
+	MotorStepOptions,
+	Scenario,
+	ScenarioEvent,
+	SensorModel,
+	SetpointProfile,
+	StepMetrics,
+	StepRecord,
+} from "./sim";
 
 interface ControllerConfig {
 	name: string;
@@ -15,16 +60,49 @@ interface ControllerConfig {
 	color: string;
 }
 
-const MOMENT_OF_INERTIA = 0.12;
+interface ComparisonPlaygroundProps {
+	/**
+	 * Integration method for every pointer. Fixed by the embed, so there is no
+	 * drift readout: PIDDemo and InvertedPendulum show it beside their picker.
+	 */
+	integrator?: IntegratorMethod;
+	showSampleRateControl?: boolean;
+	initialSampleRate?: number;
+	showSetpointControls?: boolean;
+	showMetrics?: boolean;
+	/**
+	 * Setpoint generator shared by every controller, with each one's RMS
+	 * tracking error in place of its error to the target.
+	 */
+	showMotionProfiles?: boolean;
+	/**
+	 * Scripted events, replayed from the start and on every reset. Targets are
+	 * in radians and disturbances a load torque in N·m on every pointer; `set`
+	 * accepts mass. The random target draws from the scenario's seeded noise.
+	 */
+	scenario?: Scenario;
+	showDisturbances?: boolean;
+	showActuatorModel?: boolean;
+	/** Angle sensor defects, on top of the ideal sensor. */
+	sensor?: Partial<SensorModel>;
+	showSensorModel?: boolean;
+}
+
 const FRICTION = 0.3;
-const MAX_TORQUE = 2;
-const DT = 1 / 60;
+const MAX_INTEGRAL = 10;
+const DEFAULT_RAMP_RATE = 90; // °/s
+const START_ANGLE = Math.PI / 2;
+const DEFAULT_TARGET = (3 * Math.PI) / 4;
+// Range of the random target, which waveforms are kept inside too
+const MIN_TARGET = Math.PI / 4;
+const MAX_TARGET = (3 * Math.PI) / 4;
+// Metrics cover at most this many seconds after each target change
+const MAX_STEP_SAMPLES = Math.round(20 / DT);
 const DPR =
-	typeof window !== "undefined"
-		? Math.min(window.devicePixelRatio || 1, 2)
-		: 2;
+	typeof window !== "undefined" ? Math.min(window.devicePixelRatio || 1, 2) : 2;
 const CANVAS_WIDTH = 500;
 const CANVAS_HEIGHT = 280;
+const PLOT_PADDING = 46;
 
 const controllerConfigs: ControllerConfig[] = [
 	{ name: "P", kp: 2.0, ki: 0, kd: 0, color: "#3b82f6" },
@@ -33,25 +111,83 @@ const controllerConfigs: ControllerConfig[] = [
 	{ name: "PID", kp: 2.0, ki: 0.5, kd: 0.8, color: "#22c55e" },
 ];
 
-export default function ComparisonPlayground() {
+export default function ComparisonPlayground({
+	integrator = DEFAULT_INTEGRATOR,
+	showSampleRateControl = false,
+	initialSampleRate = 20,
+	showSetpointControls = false,
+	showMetrics = false,
+	showMotionProfiles = false,
+	scenario,
+	showDisturbances = false,
+	showActuatorModel = false,
+	sensor,
+	showSensorModel = false,
+}: ComparisonPlaygroundProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const canvasRef = useRef<HTMLCanvasElement>(null);
 	const [states, setStates] = useState<MotorState[]>(
 		controllerConfigs.map(() => ({
-			angle: Math.PI / 2,
+			angle: START_ANGLE,
 			angularVelocity: 0,
 			integral: 0,
 			prevError: 0,
 		})),
 	);
 	const statesRef = useRef<MotorState[]>(states);
-	const [targetAngle, setTargetAngle] = useState<number>((3 * Math.PI) / 4);
+	const [targetAngle, setTargetAngle] = useState<number>(DEFAULT_TARGET);
 	const [mass, setMass] = useState(0.3);
+	const [discreteEnabled, setDiscreteEnabled] = useState(false);
+	const [sampleRate, setSampleRate] = useState(initialSampleRate);
+	const [setpointWeight, setSetpointWeight] = useState(1);
+	const [derivativeWeight, setDerivativeWeight] = useState(1);
+	const [rampEnabled, setRampEnabled] = useState(false);
+	const [rampRate, setRampRate] = useState(DEFAULT_RAMP_RATE);
+	const [profile, setProfile] = useState<SetpointProfile>(DEFAULT_PROFILE);
+	// Reference the generator is moving toward the target, restarted on reset
+	const generatorRef = useRef(createSetpointGenerator(START_ANGLE));
+	// Load torque in N·m, set by scenario events
+	const [disturbance, setDisturbance] = useState(0);
+	const [caption, setCaption] = useState<string | null>(null);
+	const [disturbanceSettings, setDisturbanceSettings] =
+		useState<DisturbanceSettings>(NO_DISTURBANCE);
+	const [pushEnabled, setPushEnabled] = useState(false);
+	const [actuatorModel, setActuatorModel] =
+		useState<ActuatorModel>(IDEAL_ACTUATOR);
+	const initialSensor = { ...IDEAL_SENSOR, ...sensor };
+	const [sensorModel, setSensorModel] = useState<SensorModel>(initialSensor);
+	// A sensor per pointer, each seeded from the scenario so every controller
+	// reads through the same noise; restarted on reset
+	const createSensors = () =>
+		controllerConfigs.map(() => ({
+			sensor: createSensor(),
+			rng: createRng(scenario?.seed),
+		}));
+	const sensorsRef = useRef(createSensors());
+	// Angle every pointer is being pulled towards, while the reader drags
+	const pushAngleRef = useRef<number | null>(null);
+	// Seconds simulated since the last reset, the sinusoid's time base
+	const timeRef = useRef(0);
 	const [isRunning, setIsRunning] = useState(true);
+	const [speed, setSpeed] = useState(1);
 	const [isVisible, setIsVisible] = useState(true);
 	const historiesRef = useRef<number[][]>(controllerConfigs.map(() => []));
 	const targetHistoryRef = useRef<number[]>([]);
+	// Whether each controller's actuator limited its torque, step by step
+	const limitHistoriesRef = useRef<boolean[][]>(
+		controllerConfigs.map(() => []),
+	);
+	const stepRecordsRef = useRef<StepRecord[]>(
+		controllerConfigs.map(() => createStepRecord(START_ANGLE, DEFAULT_TARGET)),
+	);
+	const [metrics, setMetrics] = useState<(StepMetrics | null)[]>(
+		controllerConfigs.map(() => null),
+	);
+	const clockRef = useRef(createClock());
+	const pendingStepsRef = useRef(0);
 	const animationRef = useRef<number>();
+	// Scenario clock and the seeded noise source, both restarted on reset
+	const playbackRef = useRef(createPlayback(scenario));
 
 	const simulate = useCallback(
 		(
@@ -59,37 +195,23 @@ export default function ComparisonPlayground() {
 			target: number,
 			config: ControllerConfig,
 			massVal: number,
-		): MotorState => {
-			const error = target - currentState.angle;
-			const newIntegral = Math.max(
-				-10,
-				Math.min(10, currentState.integral + error * DT),
-			);
-			const derivative = (error - currentState.prevError) / DT;
-
-			const pTerm = config.kp * error;
-			const iTerm = config.ki * newIntegral;
-			const dTerm = config.kd * derivative;
-			const torque = Math.max(-MAX_TORQUE, Math.min(MAX_TORQUE, pTerm + iTerm + dTerm));
-
-			// Mass creates gravitational torque
-			const gravityTorque = -massVal * Math.cos(currentState.angle);
-
-			const angularAcceleration =
-				(torque + gravityTorque - FRICTION * currentState.angularVelocity) /
-				MOMENT_OF_INERTIA;
-			const newVelocity =
-				currentState.angularVelocity + angularAcceleration * DT;
-			const newAngle = currentState.angle + newVelocity * DT;
-
-			return {
-				angle: newAngle,
-				angularVelocity: newVelocity,
-				integral: newIntegral,
-				prevError: error,
-			};
-		},
-		[],
+			controlOptions: MotorStepOptions,
+		): MotorState =>
+			stepMotorPID(
+				currentState,
+				target,
+				config,
+				{ inertia: MOMENT_OF_INERTIA, friction: FRICTION, mass: massVal },
+				DT,
+				{
+					...controlOptions,
+					integralLimit: MAX_INTEGRAL,
+					outputMin: -MAX_TORQUE,
+					outputMax: MAX_TORQUE,
+					integrator,
+				},
+			).state,
+		[integrator],
 	);
 
 	const draw = useCallback(
@@ -99,10 +221,12 @@ export default function ComparisonPlayground() {
 			target: number,
 			histories: number[][],
 			targetHistory: number[],
+			pushAngle: number | null,
+			limitHistories: boolean[][] | null,
 		) => {
 			const width = CANVAS_WIDTH;
 			const height = CANVAS_HEIGHT;
-			const padding = 46;
+			const padding = PLOT_PADDING;
 
 			ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
 			ctx.fillStyle = "#000000";
@@ -124,9 +248,21 @@ export default function ComparisonPlayground() {
 			ctx.font = "11px monospace";
 			ctx.textAlign = "right";
 			ctx.fillText("180°", padding - 8, padding + 4);
-			ctx.fillText("135°", padding - 8, padding + (height - 2 * padding) / 4 + 4);
-			ctx.fillText("90°", padding - 8, padding + (height - 2 * padding) / 2 + 4);
-			ctx.fillText("45°", padding - 8, padding + ((height - 2 * padding) * 3) / 4 + 4);
+			ctx.fillText(
+				"135°",
+				padding - 8,
+				padding + (height - 2 * padding) / 4 + 4,
+			);
+			ctx.fillText(
+				"90°",
+				padding - 8,
+				padding + (height - 2 * padding) / 2 + 4,
+			);
+			ctx.fillText(
+				"45°",
+				padding - 8,
+				padding + ((height - 2 * padding) * 3) / 4 + 4,
+			);
 			ctx.fillText("0°", padding - 8, height - padding + 4);
 
 			// Map angle to Y (0° at bottom, 180° at top)
@@ -141,8 +277,7 @@ export default function ComparisonPlayground() {
 				ctx.setLineDash([6, 6]);
 				for (let i = 0; i < targetHistory.length; i++) {
 					const x =
-						padding +
-						((width - 2 * padding) * i) / (targetHistory.length - 1);
+						padding + ((width - 2 * padding) * i) / (targetHistory.length - 1);
 					const y = angleToY(targetHistory[i]);
 					if (i === 0) ctx.moveTo(x, y);
 					else ctx.lineTo(x, y);
@@ -167,6 +302,37 @@ export default function ComparisonPlayground() {
 				ctx.stroke();
 			});
 
+			// A strip per controller under the plot, lit where its actuator
+			// limited the torque
+			if (limitHistories) {
+				ctx.fillStyle = "#64748b";
+				ctx.font = "11px monospace";
+				ctx.textAlign = "right";
+				ctx.fillText("limit", padding - 8, height - padding + 18);
+				limitHistories.forEach((limits, idx) => {
+					if (limits.length < 2) return;
+					const stepWidth = (width - 2 * padding) / (limits.length - 1);
+					const y = height - padding + 8 + idx * 5;
+					ctx.fillStyle = controllerConfigs[idx].color;
+					limits.forEach((limited, i) => {
+						if (!limited) return;
+						ctx.fillRect(padding + stepWidth * (i - 0.5), y, stepWidth, 3);
+					});
+				});
+			}
+
+			// Where the reader is pushing the pointers to
+			if (pushAngle !== null) {
+				ctx.strokeStyle = "#fb7185";
+				ctx.lineWidth = 1.5;
+				ctx.setLineDash([2, 4]);
+				ctx.beginPath();
+				ctx.moveTo(padding, angleToY(pushAngle));
+				ctx.lineTo(width - padding, angleToY(pushAngle));
+				ctx.stroke();
+				ctx.setLineDash([]);
+			}
+
 			// Title
 			ctx.fillStyle = "#94a3b8";
 			ctx.font = "13px monospace";
@@ -176,13 +342,13 @@ export default function ComparisonPlayground() {
 			// Legend (top-left, inside graph area)
 			const legendX = padding + 10;
 			let legendY = padding + 18;
-			
+
 			// Background for legend
 			ctx.fillStyle = "rgba(10, 10, 10, 0.85)";
 			ctx.beginPath();
 			ctx.roundRect(legendX - 6, legendY - 14, 75, 88, 6);
 			ctx.fill();
-			
+
 			controllerConfigs.forEach((config) => {
 				ctx.fillStyle = config.color;
 				ctx.beginPath();
@@ -226,20 +392,119 @@ export default function ComparisonPlayground() {
 		const ctx = canvas.getContext("2d");
 		if (!ctx || !isVisible) return;
 
-		const loop = () => {
-			if (isRunning) {
+		const loop = (now: number) => {
+			let steps = pendingStepsRef.current;
+			pendingStepsRef.current = 0;
+			if (isRunning) steps += advanceClock(clockRef.current, now, DT, speed);
+			else pauseClock(clockRef.current);
+
+			// A generated reference already keeps to its own limits, so the
+			// ramp stands aside while one is running
+			const generating = showMotionProfiles && profile.shape !== "step";
+			const controlOptions: MotorStepOptions = {
+				sampleRate: discreteEnabled ? sampleRate : undefined,
+				setpointWeight,
+				derivativeWeight,
+				setpointRate:
+					rampEnabled && !generating ? (rampRate * Math.PI) / 180 : undefined,
+				disturbance,
+				actuator: showActuatorModel ? actuatorModel : undefined,
+			};
+			// Scenario events take effect from the step they fall on, ahead of
+			// the state updates that carry them into later frames
+			let target = targetAngle;
+			let massVal = mass;
+			// The sensor's delay counts controller samples, which span several
+			// steps when the controller is discrete
+			const stepsPerSample = discreteEnabled ? 1 / (sampleRate * DT) : 1;
+			const applyEvent = (event: ScenarioEvent) => {
+				if (event.type === "target") {
+					target = event.value;
+					setTargetAngle(event.value);
+				} else if (event.type === "disturbance") {
+					controlOptions.disturbance = event.value;
+					setDisturbance(event.value);
+				} else if (event.param === "mass" && typeof event.value === "number") {
+					massVal = event.value;
+					setMass(event.value);
+				}
+			};
+			for (let step = 0; step < steps; step++) {
+				advancePlayback(playbackRef.current, DT).forEach(applyEvent);
+				// Every controller sees the same disturbance; only the push
+				// depends on where each pointer is
+				const load =
+					(controlOptions.disturbance ?? 0) +
+					(showDisturbances
+						? disturbanceTorque(disturbanceSettings, timeRef.current)
+						: 0);
+				timeRef.current += DT;
+				let setpoint = target;
+				if (showMotionProfiles) {
+					const center = isWaveform(profile.shape)
+						? clamp(
+								target,
+								MIN_TARGET + profile.amplitude,
+								MAX_TARGET - profile.amplitude,
+							)
+						: target;
+					const sample = stepSetpoint(
+						generatorRef.current,
+						profile,
+						center,
+						DT,
+					);
+					setpoint = sample.position;
+					controlOptions.referenceMotion = sample;
+				}
 				const newStates = statesRef.current.map((state, idx) =>
-					simulate(state, targetAngle, controllerConfigs[idx], mass),
+					simulate(state, setpoint, controllerConfigs[idx], massVal, {
+						...controlOptions,
+						disturbance:
+							load +
+							(showDisturbances && pushAngleRef.current !== null
+								? pushTorque(state, pushAngleRef.current)
+								: 0),
+						measuredAngle: showSensorModel
+							? readSensor(
+									sensorsRef.current[idx].sensor,
+									sensorModel,
+									state.angle,
+									sensorsRef.current[idx].rng,
+									stepsPerSample,
+								)
+							: undefined,
+					}),
 				);
 				statesRef.current = newStates;
-				setStates(newStates);
+				stepRecordsRef.current = stepRecordsRef.current.map((record, idx) =>
+					recordStepSample(
+						record,
+						newStates[idx].angle,
+						setpoint,
+						MAX_STEP_SAMPLES,
+					),
+				);
 				newStates.forEach((state, idx) => {
 					historiesRef.current[idx].push(state.angle);
-					if (historiesRef.current[idx].length > 200)
+					limitHistoriesRef.current[idx].push(!!state.actuator?.limit);
+					if (historiesRef.current[idx].length > 200) {
 						historiesRef.current[idx].shift();
+						limitHistoriesRef.current[idx].shift();
+					}
 				});
-				targetHistoryRef.current.push(targetAngle);
-				if (targetHistoryRef.current.length > 200) targetHistoryRef.current.shift();
+				// Every controller ramps the same way, so any one's reference will do
+				targetHistoryRef.current.push(newStates[0].reference ?? setpoint);
+				if (targetHistoryRef.current.length > 200)
+					targetHistoryRef.current.shift();
+			}
+			if (steps > 0) {
+				setStates(statesRef.current);
+				setCaption(playbackRef.current.caption);
+				if (showMetrics)
+					setMetrics(
+						stepRecordsRef.current.map((record) => stepMetrics(record, DT)),
+					);
 			}
 			draw(
 				ctx,
@@ -247,6 +512,8 @@ export default function ComparisonPlayground() {
 				targetAngle,
 				historiesRef.current,
 				targetHistoryRef.current,
+				pushAngleRef.current,
+				showActuatorModel ? limitHistoriesRef.current : null,
 			);
 			animationRef.current = requestAnimationFrame(loop);
 		};
@@ -254,11 +521,35 @@ export default function ComparisonPlayground() {
 		return () => {
 			if (animationRef.current) cancelAnimationFrame(animationRef.current);
 		};
-	}, [simulate, draw, targetAngle, isRunning, isVisible, mass]);
+	}, [
+		simulate,
+		draw,
+		targetAngle,
+		isRunning,
+		speed,
+		isVisible,
+		mass,
+		discreteEnabled,
+		sampleRate,
+		setpointWeight,
+		derivativeWeight,
+		rampEnabled,
+		rampRate,
+		disturbance,
+		showMetrics,
+		showMotionProfiles,
+		profile,
+		showDisturbances,
+		disturbanceSettings,
+		showActuatorModel,
+		actuatorModel,
+		showSensorModel,
+		sensorModel,
+	]);
 
 	const handleReset = () => {
 		const initialStates = controllerConfigs.map(() => ({
-			angle: Math.PI / 2,
+			angle: START_ANGLE,
 			angularVelocity: 0,
 			integral: 0,
 			prevError: 0,
@@ -266,21 +557,78 @@ export default function ComparisonPlayground() {
 		statesRef.current = initialStates;
 		setStates(initialStates);
 		historiesRef.current = controllerConfigs.map(() => []);
+		limitHistoriesRef.current = controllerConfigs.map(() => []);
 		targetHistoryRef.current = [];
-		setTargetAngle((3 * Math.PI) / 4);
+		stepRecordsRef.current = controllerConfigs.map(() =>
+			createStepRecord(START_ANGLE, DEFAULT_TARGET),
+		);
+		setMetrics(controllerConfigs.map(() => null));
+		playbackRef.current = createPlayback(scenario);
+		setDisturbance(0);
+		setCaption(null);
+		setTargetAngle(DEFAULT_TARGET);
 		setMass(0.3);
+		setDiscreteEnabled(false);
+		setSampleRate(initialSampleRate);
+		setSetpointWeight(1);
+		setDerivativeWeight(1);
+		setRampEnabled(false);
+		setRampRate(DEFAULT_RAMP_RATE);
+		setProfile(DEFAULT_PROFILE);
+		generatorRef.current = createSetpointGenerator(START_ANGLE);
+		setDisturbanceSettings(NO_DISTURBANCE);
+		setActuatorModel(IDEAL_ACTUATOR);
+		sensorsRef.current = createSensors();
+		setSensorModel(initialSensor);
+		setPushEnabled(false);
+		pushAngleRef.current = null;
+		timeRef.current = 0;
+	};
+
+	const handleKick = (direction: 1 | -1) => {
+		statesRef.current = statesRef.current.map((state) =>
+			kick(state, direction * KICK_IMPULSE),
+		);
+		setStates(statesRef.current);
+	};
+
+	// Invert the plot's angle axis to find the angle under the pointer
+	const getAngleAt = (clientY: number) => {
+		const canvas = canvasRef.current;
+		if (!canvas) return null;
+		const rect = canvas.getBoundingClientRect();
+		const y = ((clientY - rect.top) * CANVAS_HEIGHT) / rect.height;
+		const fraction = (y - PLOT_PADDING) / (CANVAS_HEIGHT - 2 * PLOT_PADDING);
+		return Math.max(0, Math.min(Math.PI, Math.PI * (1 - fraction)));
+	};
+
+	const handlePushStart = (clientY: number) => {
+		if (pushEnabled) pushAngleRef.current = getAngleAt(clientY);
+	};
+
+	const handlePushMove = (clientY: number) => {
+		if (pushAngleRef.current !== null)
+			pushAngleRef.current = getAngleAt(clientY);
+	};
+
+	const handlePushEnd = () => {
+		pushAngleRef.current = null;
 	};
 
 	const handleRandomTarget = () => {
 		// Random angle between 45° and 135° (π/4 to 3π/4)
-		const newTarget = Math.PI / 4 + Math.random() * Math.PI / 2;
+		const newTarget = Math.PI / 4 + (playbackRef.current.rng() * Math.PI) / 2;
 		setTargetAngle(newTarget);
 	};
 
 	// Calculate current errors
 	const errors = states.map((state, idx) => ({
 		name: controllerConfigs[idx].name,
-		error: Math.abs(targetAngle - state.angle) * (180 / Math.PI),
+		error:
+			(showMotionProfiles
+				? trackingError(historiesRef.current[idx], targetHistoryRef.current)
+				: Math.abs(targetAngle - state.angle)) *
+			(180 / Math.PI),
 		color: controllerConfigs[idx].color,
 	}));
 
@@ -294,9 +642,21 @@ export default function ComparisonPlayground() {
 					ref={canvasRef}
 					width={CANVAS_WIDTH * DPR}
 					height={CANVAS_HEIGHT * DPR}
-					className="outline-none border-0 block w-full max-w-[500px]"
+					className={`outline-none border-0 block w-full max-w-[500px] ${pushEnabled ? "cursor-grabbing touch-none" : ""}`}
 					style={{ aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}` }}
+					onMouseDown={(e) => handlePushStart(e.clientY)}
+					onMouseMove={(e) => handlePushMove(e.clientY)}
+					onMouseUp={handlePushEnd}
+					onMouseLeave={handlePushEnd}
+					onTouchStart={(e) => handlePushStart(e.touches[0].clientY)}
+					onTouchMove={(e) => handlePushMove(e.touches[0].clientY)}
+					onTouchEnd={handlePushEnd}
 				/>
+				{caption && (
+					<span className="text-xs font-mono text-amber-400 mt-2">
+						{caption}
+					</span>
+				)}
 			</div>
 
 			{/* Error stats */}
@@ -320,6 +680,18 @@ export default function ComparisonPlayground() {
 				))}
 			</div>
 
+			{showMetrics && (
+				<StepMetricsTable
+					rows={controllerConfigs.map((config, idx) => ({
+						name: config.name,
+						color: config.color,
+						metrics: metrics[idx],
+					}))}
+					errorScale={180 / Math.PI}
+					errorUnit="°"
+				/>
+			)}
+
 			{/* Sliders */}
 			<div className="flex flex-col gap-3 px-2 pb-2">
 				<div className="flex items-center gap-4">
@@ -384,6 +756,48 @@ export default function ComparisonPlayground() {
 						{mass.toFixed(2)}
 					</span>
 				</div>
+				{showSampleRateControl && (
+					<SampleRateControl
+						enabled={discreteEnabled}
+						onEnabledChange={setDiscreteEnabled}
+						rate={sampleRate}
+						onRateChange={setSampleRate}
+					/>
+				)}
+				{showSetpointControls && (
+					<SetpointControls
+						setpointWeight={setpointWeight}
+						onSetpointWeightChange={setSetpointWeight}
+						derivativeWeight={derivativeWeight}
+						onDerivativeWeightChange={setDerivativeWeight}
+						rampEnabled={rampEnabled}
+						onRampEnabledChange={setRampEnabled}
+						rampRate={rampRate}
+						onRampRateChange={setRampRate}
+					/>
+				)}
+				{showMotionProfiles && (
+					<MotionProfilePanel profile={profile} onProfileChange={setProfile} />
+				)}
+				{showActuatorModel && (
+					<ActuatorPanel
+						model={actuatorModel}
+						onModelChange={setActuatorModel}
+					/>
+				)}
+				{showSensorModel && (
+					<SensorPanel model={sensorModel} onModelChange={setSensorModel} />
+				)}
+				{showDisturbances && (
+					<DisturbancePanel
+						settings={disturbanceSettings}
+						onSettingsChange={setDisturbanceSettings}
+						onKick={handleKick}
+						pushEnabled={pushEnabled}
+						onPushEnabledChange={setPushEnabled}
+						pushHint="Drag up or down on the plot to push every pointer to that angle"
+					/>
+				)}
 			</div>
 
 			{/* Buttons */}
@@ -447,6 +861,12 @@ export default function ComparisonPlayground() {
 							</svg>
 						)}
 					</button>
+					<SpeedControls
+						speed={speed}
+						onSpeedChange={setSpeed}
+						onStep={() => (pendingStepsRef.current += 1)}
+						stepDisabled={isRunning}
+					/>
 					<button
 						type="button"
 						onClick={handleRandomTarget}
@@ -5,13 +5,180 @@ const DPR =
 const WIDTH = 540;
 const HEIGHT = 155;
 
-export default function ControlLoopDiagram() {
+export type LoopBlock =
+	| "setpoint"
+	| "controller"
+	| "actuator"
+	| "plant"
+	| "sensor";
+
+/** Latest values around the loop, angles in radians and torques in N·m. */
+export interface LoopSignals {
+	setpoint: number;
+	error: number;
+	p: number;
+	i: number;
+	d: number;
+	/** Controller output after saturation. */
+	command: number;
+	/** Torque the actuator delivers to the pointer. */
+	torque: number;
+	measurement: number;
+}
+
+interface ControlLoopDiagramProps {
+	/** Live values to show on the wires; without them the dots just loop. */
+	signals?: LoopSignals;
+	/** Blocks that can be clicked to open their parameters. */
+	blocks?: LoopBlock[];
+	selectedBlock?: LoopBlock | null;
+	onBlockClick?: (block: LoopBlock) => void;
+}
+
+type Wire = "setpoint" | "error" | "command" | "torque" | "feedback";
+
+interface Rect {
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+}
+
+const Y = HEIGHT / 2 - 8;
+const BOX_H = 44;
+const FEEDBACK_Y = Y + 52;
+
+// The live diagram makes room for the actuator and sensor blocks
+const STATIC_LAYOUT = {
+	setpointX: 30,
+	sumX: 90,
+	controllerX: 220,
+	controllerW: 120,
+	plantX: 400,
+	plantW: 100,
+	feedbackX: 470,
+};
+const LIVE_LAYOUT = {
+	setpointX: 24,
+	sumX: 66,
+	controllerX: 180,
+	controllerW: 120,
+	actuatorX: 305,
+	actuatorW: 64,
+	plantX: 420,
+	plantW: 96,
+	feedbackX: 488,
+	sensorX: 290,
+	sensorW: 64,
+};
+
+const BLOCK_RECTS: Record<LoopBlock, Rect> = {
+	setpoint: { x: LIVE_LAYOUT.setpointX - 20, y: Y - 24, w: 40, h: 48 },
+	controller: {
+		x: LIVE_LAYOUT.controllerX - LIVE_LAYOUT.controllerW / 2,
+		y: Y - (BOX_H + 8) / 2,
+		w: LIVE_LAYOUT.controllerW,
+		h: BOX_H + 8,
+	},
+	actuator: {
+		x: LIVE_LAYOUT.actuatorX - LIVE_LAYOUT.actuatorW / 2,
+		y: Y - BOX_H / 2,
+		w: LIVE_LAYOUT.actuatorW,
+		h: BOX_H,
+	},
+	plant: {
+		x: LIVE_LAYOUT.plantX - LIVE_LAYOUT.plantW / 2,
+		y: Y - BOX_H / 2,
+		w: LIVE_LAYOUT.plantW,
+		h: BOX_H,
+	},
+	sensor: {
+		x: LIVE_LAYOUT.sensorX - LIVE_LAYOUT.sensorW / 2,
+		y: FEEDBACK_Y - 12,
+		w: LIVE_LAYOUT.sensorW,
+		h: 24,
+	},
+};
+
+// Signal sizes at which the dots reach full speed
+const FULL_SCALE_ERROR = Math.PI / 4;
+const FULL_SCALE_TORQUE = 2;
+const FULL_SCALE_RATE = 3; // rad/s
+// Laps per second of a dot at zero and at full scale
+const MIN_FLOW_RATE = 0.1;
+const MAX_FLOW_RATE = 1.6;
+
+const flowRate = (value: number, fullScale: number) =>
+	MIN_FLOW_RATE +
+	(MAX_FLOW_RATE - MIN_FLOW_RATE) * Math.min(1, Math.abs(value) / fullScale);
+
+const toDegrees = (angle: number) => (angle * 180) / Math.PI;
+
+const signed = (value: number, digits: number) =>
+	`${value < 0 ? "−" : ""}${Math.abs(value).toFixed(digits)}`;
+
+const hitBlock = (blocks: LoopBlock[], x: number, y: number) =>
+	blocks.find((block) => {
+		const rect = BLOCK_RECTS[block];
+		return (
+			x >= rect.x && x <= rect.x + rect.w && y >= rect.y && y <= rect.y + rect.h
+		);
+	}) ?? null;
+
+export default function ControlLoopDiagram({
+	signals,
+	blocks = [],
+	selectedBlock = null,
+	onBlockClick,
+}: ControlLoopDiagramProps) {
 	const canvasRef = useRef<HTMLCanvasElement>(null);
 	const [time, setTime] = useState(0);
+	const [hoveredBlock, setHoveredBlock] = useState<LoopBlock | null>(null);
 	const animationRef = useRef<number>();
+	const signalsRef = useRef(signals);
+	signalsRef.current = signals;
+	// Live mode: how far round each wire its dots have travelled, and how
+	// fast the setpoint and measurement are changing
+	const phasesRef = useRef<Record<Wire, number>>({
+		setpoint: 0,
+		error: 0.25,
+		command: 0.5,
+		torque: 0.75,
+		feedback: 0,
+	});
+	const ratesRef = useRef({ setpoint: 0, measurement: 0 });
+	const previousRef = useRef<LoopSignals | null>(null);
 
 	useEffect(() => {
-		const loop = () => {
+		let last: number | null = null;
+		const loop = (now: number) => {
+			const elapsed = last === null ? 0 : Math.min((now - last) / 1000, 0.1);
+			last = now;
+			const live = signalsRef.current;
+			if (live && elapsed > 0) {
+				// The angles themselves sit far from zero, so their dots follow
+				// how fast they move, smoothed against sensor noise
+				const previous = previousRef.current ?? live;
+				const rates = ratesRef.current;
+				rates.setpoint +=
+					0.1 *
+					(Math.abs(live.setpoint - previous.setpoint) / elapsed -
+						rates.setpoint);
+				rates.measurement +=
+					0.1 *
+					(Math.abs(live.measurement - previous.measurement) / elapsed -
+						rates.measurement);
+				previousRef.current = live;
+
+				const phases = phasesRef.current;
+				phases.setpoint += elapsed * flowRate(rates.setpoint, FULL_SCALE_RATE);
+				phases.error += elapsed * flowRate(live.error, FULL_SCALE_ERROR);
+				phases.command += elapsed * flowRate(live.command, FULL_SCALE_TORQUE);
+				phases.torque += elapsed * flowRate(live.torque, FULL_SCALE_TORQUE);
+				// The feedback path is several times longer than the others
+				phases.feedback +=
+					(elapsed * flowRate(rates.measurement, FULL_SCALE_RATE)) / 4;
+			}
 			setTime((t) => t + 0.012); // Slower animation
 			animationRef.current = requestAnimationFrame(loop);
 		};
@@ -31,13 +198,22 @@ export default function ControlLoopDiagram() {
 		ctx.fillStyle = "#000000";
 		ctx.fillRect(0, 0, WIDTH, HEIGHT);
 
-		const y = HEIGHT / 2 - 8;
-		const boxH = 44;
+		const y = Y;
+		const boxH = BOX_H;
+		const live = signals !== undefined;
+		const layout = live ? LIVE_LAYOUT : STATIC_LAYOUT;
 
 		// Positions
-		const sumX = 90;
-		const controllerX = 220;
-		const plantX = 400;
+		const setpointX = layout.setpointX;
+		const sumX = layout.sumX;
+		const controllerX = layout.controllerX;
+		const plantX = layout.plantX;
+		const controllerHalf = layout.controllerW / 2;
+		const plantHalf = layout.plantW / 2;
+
+		// How far along its wire a dot is, from 0 to 1
+		const dotPosition = (wire: Wire, phase: number) =>
+			live ? ((phasesRef.current[wire] % 1) + 1) % 1 : (time * 0.8 + phase) % 1;
 
 		// Draw a single animated dot on a line segment
 		const drawFlowDot = (
@@ -46,9 +222,8 @@ export default function ControlLoopDiagram() {
 			x2: number,
 			y2: number,
 			color: string,
-			phase: number,
+			t: number,
 		) => {
-			const t = (time * 0.8 + phase) % 1;
 			const x = x1 + (x2 - x1) * t;
 			const dotY = y1 + (y2 - y1) * t;
 			ctx.beginPath();
@@ -100,39 +275,68 @@ export default function ControlLoopDiagram() {
 			}
 		};
 
-		// Draw controller box (larger, with equation)
-		const drawController = (x: number) => {
-			const w = 120;
-			const h = boxH + 8;
-			ctx.fillStyle = "#1e293b";
+		// Rounded block, brighter when it can be clicked and hovered or selected
+		const drawBlock = (rect: Rect, color: string, block?: LoopBlock) => {
+			const clickable = block !== undefined && blocks.includes(block);
+			ctx.fillStyle =
+				clickable && (block === selectedBlock || block === hoveredBlock)
+					? "#334155"
+					: "#1e293b";
 			ctx.beginPath();
-			ctx.roundRect(x - w / 2, y - h / 2, w, h, 6);
+			ctx.roundRect(rect.x, rect.y, rect.w, rect.h, 6);
 			ctx.fill();
-			ctx.strokeStyle = "#a855f7";
-			ctx.lineWidth = 2;
+			ctx.strokeStyle = color;
+			ctx.lineWidth = clickable && block === selectedBlock ? 3 : 2;
 			ctx.stroke();
+		};
+
+		// Draw controller box (larger, with equation)
+		const drawController = (x: number) => {
+			const h = boxH + 8;
+			drawBlock(
+				{ x: x - controllerHalf, y: y - h / 2, w: controllerHalf * 2, h },
+				"#a855f7",
+				"controller",
+			);
 
 			ctx.fillStyle = "#a855f7";
 			ctx.font = "bold 11px sans-serif";
 			ctx.textAlign = "center";
-			ctx.fillText("Controller", x, y - 6);
 
-			// PID equation
+			if (!signals) {
+				ctx.fillText("Controller", x, y - 6);
+
+				// PID equation
+				ctx.font = "8px monospace";
+				ctx.fillStyle = "#64748b";
+				ctx.fillText("P + I + D", x, y + 11);
+				return;
+			}
+
+			// Each term's share of the output
+			ctx.fillText("Controller", x, y - 10);
+			const terms = [
+				{ label: "P", value: signals.p, color: "#60a5fa" },
+				{ label: "I", value: signals.i, color: "#4ade80" },
+				{ label: "D", value: signals.d, color: "#c084fc" },
+			];
 			ctx.font = "8px monospace";
-			ctx.fillStyle = "#64748b";
-			ctx.fillText("P + I + D", x, y + 11);
+			terms.forEach((term, idx) => {
+				const termX = x + (idx - 1) * 36;
+				ctx.fillStyle = "#64748b";
+				ctx.fillText(term.label, termX, y + 5);
+				ctx.fillStyle = term.color;
+				ctx.fillText(signed(term.value, 2), termX, y + 16);
+			});
 		};
 
 		// Draw plant box
 		const drawPlant = (x: number) => {
-			const w = 100;
-			ctx.fillStyle = "#1e293b";
-			ctx.beginPath();
-			ctx.roundRect(x - w / 2, y - boxH / 2, w, boxH, 6);
-			ctx.fill();
-			ctx.strokeStyle = "#3b82f6";
-			ctx.lineWidth = 2;
-			ctx.stroke();
+			drawBlock(
+				{ x: x - plantHalf, y: y - boxH / 2, w: plantHalf * 2, h: boxH },
+				"#3b82f6",
+				"plant",
+			);
 
 			ctx.fillStyle = "#3b82f6";
 			ctx.font = "bold 11px sans-serif";
@@ -144,6 +348,16 @@ export default function ControlLoopDiagram() {
 			ctx.fillText("(motor + pointer)", x, y + 10);
 		};
 
+		// Smaller blocks the live diagram adds to the loop
+		const drawSmallBlock = (block: LoopBlock, label: string, color: string) => {
+			const rect = BLOCK_RECTS[block];
+			drawBlock(rect, color, block);
+			ctx.fillStyle = color;
+			ctx.font = "bold 10px sans-serif";
+			ctx.textAlign = "center";
+			ctx.fillText(label, rect.x + rect.w / 2, rect.y + rect.h / 2 + 4);
+		};
+
 		// Draw sum circle
 		const drawSum = (x: number) => {
 			ctx.beginPath();
@@ -162,17 +376,41 @@ export default function ControlLoopDiagram() {
 		};
 
 		// Input: Target (setpoint)
+		if (blocks.includes("setpoint") && live) {
+			const rect = BLOCK_RECTS.setpoint;
+			if (selectedBlock === "setpoint" || hoveredBlock === "setpoint") {
+				ctx.fillStyle = "#1e293b";
+				ctx.beginPath();
+				ctx.roundRect(rect.x, rect.y, rect.w, rect.h, 6);
+				ctx.fill();
+			}
+		}
 		ctx.fillStyle = "#f97316";
 		ctx.font = "bold 10px sans-serif";
 		ctx.textAlign = "center";
-		ctx.fillText("Setpoint", 30, y - 12);
+		ctx.fillText("Setpoint", setpointX, y - 12);
 		ctx.beginPath();
-		ctx.arc(30, y, 4, 0, Math.PI * 2);
+		ctx.arc(setpointX, y, 4, 0, Math.PI * 2);
 		ctx.fill();
+		if (signals) {
+			ctx.font = "9px monospace";
+			ctx.fillText(
+				`${toDegrees(signals.setpoint).toFixed(0)}°`,
+				setpointX,
+				y + 18,
+			);
+		}
 
 		// Setpoint → Sum
-		drawArrowLine(34, y, sumX - 14, y, "#f97316");
-		drawFlowDot(34, y, sumX - 14, y, "#f97316", 0);
+		drawArrowLine(setpointX + 4, y, sumX - 14, y, "#f97316");
+		drawFlowDot(
+			setpointX + 4,
+			y,
+			sumX - 14,
+			y,
+			"#f97316",
+			dotPosition("setpoint", 0),
+		);
 
 		// Sum circle
 		drawSum(sumX);
@@ -181,38 +419,95 @@ export default function ControlLoopDiagram() {
 		drawArrowLine(
 			sumX + 14,
 			y,
-			controllerX - 60,
+			controllerX - controllerHalf,
 			y,
 			"#ef4444",
-			"error",
+			signals ? `${signed(toDegrees(signals.error), 1)}°` : "error",
 			y - 12,
 		);
-		drawFlowDot(sumX + 14, y, controllerX - 60, y, "#ef4444", 0.25);
+		drawFlowDot(
+			sumX + 14,
+			y,
+			controllerX - controllerHalf,
+			y,
+			"#ef4444",
+			dotPosition("error", 0.25),
+		);
 
 		// Controller
 		drawController(controllerX);
 
-		// Controller → Plant
-		drawArrowLine(
-			controllerX + 60,
-			y,
-			plantX - 50,
-			y,
-			"#a855f7",
-			"torque",
-			y - 12,
-		);
-		drawFlowDot(controllerX + 60, y, plantX - 50, y, "#a855f7", 0.5);
+		if (signals) {
+			const actuatorLeft = LIVE_LAYOUT.actuatorX - LIVE_LAYOUT.actuatorW / 2;
+			const actuatorRight = actuatorLeft + LIVE_LAYOUT.actuatorW;
+
+			// Controller → Actuator → Plant
+			drawArrowLine(
+				controllerX + controllerHalf,
+				y,
+				actuatorLeft,
+				y,
+				"#a855f7",
+				signed(signals.command, 2),
+				y - 12,
+			);
+			drawFlowDot(
+				controllerX + controllerHalf,
+				y,
+				actuatorLeft,
+				y,
+				"#a855f7",
+				dotPosition("command", 0.5),
+			);
+			drawSmallBlock("actuator", "Actuator", "#6366f1");
+			drawArrowLine(
+				actuatorRight,
+				y,
+				plantX - plantHalf,
+				y,
+				"#6366f1",
+				signed(signals.torque, 2),
+				y - 12,
+			);
+			drawFlowDot(
+				actuatorRight,
+				y,
+				plantX - plantHalf,
+				y,
+				"#6366f1",
+				dotPosition("torque", 0.75),
+			);
+		} else {
+			// Controller → Plant
+			drawArrowLine(
+				controllerX + controllerHalf,
+				y,
+				plantX - plantHalf,
+				y,
+				"#a855f7",
+				"torque",
+				y - 12,
+			);
+			drawFlowDot(
+				controllerX + controllerHalf,
+				y,
+				plantX - plantHalf,
+				y,
+				"#a855f7",
+				dotPosition("command", 0.5),
+			);
+		}
 
 		// Plant
 		drawPlant(plantX);
 
 		// Feedback line (bottom) - starts directly from plant
-		const feedbackY = y + 52;
+		const feedbackY = FEEDBACK_Y;
+		const feedbackX = layout.feedbackX;
 		ctx.beginPath();
-		ctx.moveTo(plantX + 50, y);
-		ctx.lineTo(plantX + 70, y);
-		ctx.lineTo(plantX + 70, feedbackY);
+		ctx.moveTo(plantX + plantHalf, y);
+		ctx.lineTo(feedbackX, y);
+		ctx.lineTo(feedbackX, feedbackY);
 		ctx.lineTo(sumX, feedbackY);
 		ctx.lineTo(sumX, y + 14);
 		ctx.strokeStyle = "#22c55e";
@@ -234,33 +529,29 @@ export default function ControlLoopDiagram() {
 		ctx.textAlign = "center";
 		ctx.fillText("−", sumX - 20, y + 24);
 
-		// Feedback label
-		ctx.fillStyle = "#22c55e";
-		ctx.font = "9px monospace";
-		ctx.textAlign = "center";
-		ctx.fillText("measured position", (plantX + 70 + sumX) / 2, feedbackY + 12);
-
 		// Animated dots on feedback path (multiple dots)
-		const seg1Len = 20;
+		const seg1Len = feedbackX - (plantX + plantHalf);
 		const seg2Len = feedbackY - y;
-		const seg3Len = plantX + 70 - sumX;
+		const seg3Len = feedbackX - sumX;
 		const seg4Len = feedbackY - (y + 14);
 		const totalLen = seg1Len + seg2Len + seg3Len + seg4Len;
 
 		// Draw 3 dots spaced evenly (slower)
 		for (let i = 0; i < 3; i++) {
-			const feedbackPhase = (time * 0.2 + i * 0.33) % 1;
+			const feedbackPhase = live
+				? (dotPosition("feedback", 0) + i * 0.33) % 1
+				: (time * 0.2 + i * 0.33) % 1;
 			const dotPos = feedbackPhase * totalLen;
 			let dotX: number, dotY: number;
 
 			if (dotPos < seg1Len) {
-				dotX = plantX + 50 + dotPos;
+				dotX = plantX + plantHalf + dotPos;
 				dotY = y;
 			} else if (dotPos < seg1Len + seg2Len) {
-				dotX = plantX + 70;
+				dotX = feedbackX;
 				dotY = y + (dotPos - seg1Len);
 			} else if (dotPos < seg1Len + seg2Len + seg3Len) {
-				dotX = plantX + 70 - (dotPos - seg1Len - seg2Len);
+				dotX = feedbackX - (dotPos - seg1Len - seg2Len);
 				dotY = feedbackY;
 			} else {
 				dotX = sumX;
@@ -274,7 +565,40 @@ export default function ControlLoopDiagram() {
 			ctx.fill();
 			ctx.globalAlpha = 1;
 		}
-	}, [time]);
+
+		// Feedback label
+		ctx.fillStyle = "#22c55e";
+		ctx.font = "9px monospace";
+		ctx.textAlign = "center";
+		if (signals) {
+			// The sensor sits on the feedback path, with its reading beside it
+			drawSmallBlock("sensor", "Sensor", "#14b8a6");
+			ctx.fillStyle = "#22c55e";
+			ctx.font = "9px monospace";
+			ctx.fillText(
+				`measured ${toDegrees(signals.measurement).toFixed(1)}°`,
+				(LIVE_LAYOUT.sensorX + LIVE_LAYOUT.sensorW / 2 + feedbackX) / 2,
+				feedbackY + 12,
+			);
+		} else {
+			ctx.fillText(
+				"measured position",
+				(plantX + 70 + sumX) / 2,
+				feedbackY + 12,
+			);
+		}
+	}, [time, signals, blocks, selectedBlock, hoveredBlock]);
+
+	// Canvas coordinates of a pointer event, in drawing units
+	const blockAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+		if (!signals || !onBlockClick) return null;
+		const rect = e.currentTarget.getBoundingClientRect();
+		return hitBlock(
+			blocks,
+			((e.clientX - rect.left) * WIDTH) / rect.width,
+			((e.clientY - rect.top) * HEIGHT) / rect.height,
+		);
+	};
 
 	return (
 		<div className="not-prose flex flex-col items-center gap-2 my-6">
@@ -282,12 +606,19 @@ export default function ControlLoopDiagram() {
 				ref={canvasRef}
 				width={WIDTH * DPR}
 				height={HEIGHT * DPR}
-				className="w-full max-w-[540px] rounded-xl"
+				onClick={(e) => {
+					const block = blockAt(e);
+					if (block) onBlockClick?.(block);
+				}}
+				onMouseMove={(e) => setHoveredBlock(blockAt(e))}
+				onMouseLeave={() => setHoveredBlock(null)}
+				className={`w-full max-w-[540px] rounded-xl ${hoveredBlock ? "cursor-pointer" : ""}`}
 				style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}
 			/>
 			<p className="text-xs text-zinc-500 text-center max-w-md">
-				The controller continuously compares setpoint vs measured position,
-				calculates error, and outputs torque command
+				{signals
+					? "Live values from the simulation: the faster the dots, the larger the signal. Click a block to open its parameters"
+					: "The controller continuously compares setpoint vs measured position, calculates error, and outputs torque command"}
 			</p>
 		</div>
 	);
@@ -0,0 +1,174 @@
+import type { DCMotorParams, DCMotorReading } from "./sim";
+
+interface DCMotorPanelProps {
+	params: DCMotorParams;
+	onParamsChange: (params: DCMotorParams) => void;
+	reading: DCMotorReading;
+}
+
+const FIELDS: {
+	key: keyof DCMotorParams;
+	label: string;
+	min: number;
+	max: number;
+	step: number;
+	/** Multiplier from stored units to the units shown. */
+	scale: number;
+	unit: string;
+	digits: number;
+}[] = [
+	{
+		key: "supplyVoltage",
+		label: "V",
+		min: 1,
+		max: 24,
+		step: 0.5,
+		scale: 1,
+		unit: "V",
+		digits: 1,
+	},
+	{
+		key: "resistance",
+		label: "R",
+		min: 0.2,
+		max: 5,
+		step: 0.1,
+		scale: 1,
+		unit: "Ω",
+		digits: 1,
+	},
+	{
+		key: "inductance",
+		label: "L",
+		min: 0.001,
+		max: 0.2,
+		step: 0.001,
+		scale: 1000,
+		unit: "mH",
+		digits: 0,
+	},
+	{
+		key: "backEmfConstant",
+		label: "Ke",
+		min: 0.05,
+		max: 0.5,
+		step: 0.01,
+		scale: 1,
+		unit: "V·s",
+		digits: 2,
+	},
+	{
+		key: "currentLimit",
+		label: "Imax",
+		min: 1,
+		max: 20,
+		step: 0.5,
+		scale: 1,
+		unit: "A",
+		digits: 1,
+	},
+];
+
+function Readout({
+	label,
+	value,
+	className,
+}: {
+	label: string;
+	value: string;
+	className: string;
+}) {
+	return (
+		<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+			<span className="text-zinc-500 text-[10px]">{label}</span>
+			<span
+				className={className}
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{value}
+			</span>
+		</div>
+	);
+}
+
+const signed = (value: number, digits: number) =>
+	`${value < 0 ? "−" : ""}${Math.abs(value).toFixed(digits)}`;
+
+/** DC motor electrical parameters with live current, voltage and power. */
+export default function DCMotorPanel({
+	params,
+	onParamsChange,
+	reading,
+}: DCMotorPanelProps) {
+	return (
+		<div className="flex flex-col gap-3">
+			{FIELDS.map((field) => {
+				const value = params[field.key];
+				const fraction = (value - field.min) / (field.max - field.min);
+				return (
+					<div key={field.key} className="flex items-center gap-4">
+						<label className="text-sm font-mono text-zinc-400 w-10">
+							{field.label}
+						</label>
+						<div className="flex-1 relative h-2">
+							<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+							<div
+								className="absolute left-0 top-0 h-full bg-yellow-500 rounded-lg"
+								style={{ width: `${fraction * 100}%` }}
+							/>
+							<input
+								type="range"
+								min={field.min}
+								max={field.max}
+								step={field.step}
+								value={value}
+								onChange={(e) =>
+									onParamsChange({
+										...params,
+										[field.key]: parseFloat(e.target.value),
+									})
+								}
+								className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+							/>
+							<div
+								className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-yellow-500 rounded-full border-2 border-yellow-300 pointer-events-none"
+								style={{ left: `calc(${fraction * 100}% - 8px)` }}
+							/>
+						</div>
+						<span
+							className="text-sm font-mono text-yellow-400 w-20 text-right"
+							style={{ fontVariantNumeric: "tabular-nums" }}
+						>
+							{(value * field.scale).toFixed(field.digits)}
+							{field.unit}
+						</span>
+					</div>
+				);
+			})}
+			<div className="flex gap-2 font-mono text-xs flex-wrap justify-center">
+				<Readout
+					label="Current"
+					value={`${signed(reading.current, 2)}A`}
+					className={
+						reading.currentLimited ? "text-red-400" : "text-yellow-400"
+					}
+				/>
+				<Readout
+					label="Voltage"
+					value={`${signed(reading.voltage, 1)}V`}
+					className="text-yellow-400"
+				/>
+				<Readout
+					label="Back-EMF"
+					value={`${signed(reading.backEmf, 2)}V`}
+					className="text-cyan-400"
+				/>
+				<Readout
+					label="Power"
+					value={`${signed(reading.power, 1)}W`}
+					className="text-orange-400"
+				/>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,139 @@
+import type { DisturbanceSettings } from "./sim";
+
+interface DisturbancePanelProps {
+	settings: DisturbanceSettings;
+	onSettingsChange: (settings: DisturbanceSettings) => void;
+	/** Kick the rotor; +1 counter-clockwise, -1 clockwise. */
+	onKick: (direction: 1 | -1) => void;
+	pushEnabled: boolean;
+	onPushEnabledChange: (enabled: boolean) => void;
+	/** What dragging does while push is on. */
+	pushHint: string;
+}
+
+function DisturbanceSlider({
+	label,
+	value,
+	min,
+	max,
+	step,
+	unit,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	step: number;
+	unit: string;
+	onChange: (value: number) => void;
+}) {
+	const fraction = (value - min) / (max - min);
+	return (
+		<div className="flex items-center gap-4">
+			<label className="text-sm font-mono text-zinc-400 w-12">{label}</label>
+			<div className="flex-1 relative h-2">
+				<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+				<div
+					className="absolute left-0 top-0 h-full bg-rose-500 rounded-lg"
+					style={{ width: `${fraction * 100}%` }}
+				/>
+				<input
+					type="range"
+					min={min}
+					max={max}
+					step={step}
+					value={value}
+					onChange={(e) => onChange(parseFloat(e.target.value))}
+					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+				/>
+				<div
+					className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-rose-500 rounded-full border-2 border-rose-300 pointer-events-none"
+					style={{ left: `calc(${fraction * 100}% - 8px)` }}
+				/>
+			</div>
+			<span
+				className="text-sm font-mono text-rose-400 w-20 text-right"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{value.toFixed(2)}
+				{unit}
+			</span>
+		</div>
+	);
+}
+
+/**
+ * Disturbances injected at the plant, independent of the setpoint: a step
+ * load, a sinusoid, impulse kicks and pushing the pointer by hand.
+ */
+export default function DisturbancePanel({
+	settings,
+	onSettingsChange,
+	onKick,
+	pushEnabled,
+	onPushEnabledChange,
+	pushHint,
+}: DisturbancePanelProps) {
+	return (
+		<>
+			<DisturbanceSlider
+				label="Load"
+				value={settings.stepLoad}
+				min={-1}
+				max={1}
+				step={0.05}
+				unit="N·m"
+				onChange={(stepLoad) => onSettingsChange({ ...settings, stepLoad })}
+			/>
+			<DisturbanceSlider
+				label="Sine"
+				value={settings.sineAmplitude}
+				min={0}
+				max={1}
+				step={0.05}
+				unit="N·m"
+				onChange={(sineAmplitude) =>
+					onSettingsChange({ ...settings, sineAmplitude })
+				}
+			/>
+			<DisturbanceSlider
+				label="Freq"
+				value={settings.sineFrequency}
+				min={0.1}
+				max={3}
+				step={0.1}
+				unit="Hz"
+				onChange={(sineFrequency) =>
+					onSettingsChange({ ...settings, sineFrequency })
+				}
+			/>
+			<div className="flex flex-wrap gap-2 items-center justify-center">
+				<button
+					type="button"
+					onClick={() => onKick(-1)}
+					className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300"
+					title="Strike the rotor clockwise"
+				>
+					↻ Kick
+				</button>
+				<button
+					type="button"
+					onClick={() => onKick(1)}
+					className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300"
+					title="Strike the rotor counter-clockwise"
+				>
+					Kick ↺
+				</button>
+				<button
+					type="button"
+					onClick={() => onPushEnabledChange(!pushEnabled)}
+					className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors w-28 ${pushEnabled ? "bg-rose-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					title={pushHint}
+				>
+					{pushEnabled ? "Push on" : "Push off"}
+				</button>
+			</div>
+		</>
+	);
+}
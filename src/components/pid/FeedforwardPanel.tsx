@@ -0,0 +1,50 @@
+import { MOTOR_FEEDFORWARD_TERMS } from "./sim";
+import type { MotorFeedforward } from "./sim";
+
+interface FeedforwardPanelProps {
+	settings: MotorFeedforward;
+	onSettingsChange: (settings: MotorFeedforward) => void;
+	/**
+	 * Whether the setpoint moves along a trajectory. A step has no velocity
+	 * or acceleration to feed forward, so those terms are disabled without.
+	 */
+	trajectory: boolean;
+}
+
+const TITLES: Record<keyof MotorFeedforward, string> = {
+	gravity: "Add mass·cos(angle), the torque that holds the mass up",
+	velocity: "Add friction × reference velocity",
+	acceleration: "Add inertia × reference acceleration",
+};
+
+/** Toggles for the motor's model-based feedforward terms. */
+export default function FeedforwardPanel({
+	settings,
+	onSettingsChange,
+	trajectory,
+}: FeedforwardPanelProps) {
+	return (
+		<div className="flex items-center gap-2 flex-wrap">
+			<label className="text-sm font-mono text-zinc-400 w-8">FF</label>
+			{MOTOR_FEEDFORWARD_TERMS.map((term) => {
+				const available = term.id === "gravity" || trajectory;
+				return (
+					<button
+						key={term.id}
+						type="button"
+						onClick={() =>
+							onSettingsChange({ ...settings, [term.id]: !settings[term.id] })
+						}
+						disabled={!available}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${settings[term.id] && available ? "bg-amber-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+						title={
+							available ? TITLES[term.id] : "Needs a ramped setpoint to follow"
+						}
+					>
+						{term.label}
+					</button>
+				);
+			})}
+		</div>
+	);
+}
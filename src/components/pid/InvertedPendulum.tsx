@@ -1,20 +1,35 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
+import React, { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import LQRPanel from "./LQRPanel";
+import type { PendulumController } from "./LQRPanel";
+import SpeedControls from "./SpeedControls";
+import {
+	CART_POLE_PARAMS,
+	DEFAULT_INTEGRATOR,
+	DT,
+	INTEGRATORS,
+	PENDULUM_LENGTH,
+	advanceClock,
+	advancePlayback,
+	cartPolePlant,
+	createClock,
+	createPlayback,
+	linearize,
+	lqrGains,
+	pauseClock,
+	stateFeedback,
+	stepPlant,
+	stepPlantWithDrift,
+} from "./sim";
+import type {
+	CartPoleState as PendulumState,
+	IntegratorMethod,
+	LQRWeights,
+	Scenario,
+	ScenarioEvent,
+} from "./sim";
 
-interface PendulumState {
-  cartX: number;
-  cartVelocity: number;
-	angle: number;
-  angularVelocity: number;
-}
-
-const CART_MASS = 1.0;
-const PENDULUM_MASS = 0.1;
-const PENDULUM_LENGTH = 0.3;
-const GRAVITY = 9.8;
-const DT = 1 / 60;
 const TRACK_WIDTH = 3.5;
 const MAX_FORCE = 15;
-const FRICTION = 0.01;
 const DPR =
 	typeof window !== "undefined"
 		? Math.min(window.devicePixelRatio || 1, 2)
@@ -35,11 +50,39 @@ const TARGET_X_RANGE = 0.6;
 
 const SCALE = 100;
 
+// LQR design model: the cart-pole linearized about upright at rest
+const UPRIGHT_MODEL = linearize(cartPolePlant, CART_POLE_PARAMS, {
+	cartX: 0,
+	cartVelocity: 0,
+	angle: 0,
+	angularVelocity: 0,
+});
+const DEFAULT_LQR_WEIGHTS: LQRWeights = { q: [10, 0, 100, 0], r: 0.1 };
+// The reset tilt, which the LQR panel measures each controller's cost from
+const COST_INITIAL_STATE = [0, 0, 0.05, 0];
+
 interface Props {
 	showPositionControl?: boolean;
+	integrator?: IntegratorMethod;
+	showIntegratorSelect?: boolean;
+	/**
+	 * Scripted events, replayed from the start and on every reset. Targets are
+	 * cart positions in m (with position control) and disturbances a steady
+	 * push on the cart in N; `set` accepts kpAngle, kdAngle, kpPos, kdPos and
+	 * control (on/off). Pokes draw from the scenario's seeded noise.
+	 */
+	scenario?: Scenario;
+	/** Riccati-designed state feedback, compared with the PD gains. */
+	showLQR?: boolean;
 }
 
-export default function InvertedPendulum({ showPositionControl = true }: Props) {
+export default function InvertedPendulum({
+	showPositionControl = true,
+	integrator = DEFAULT_INTEGRATOR,
+	showIntegratorSelect = false,
+	scenario,
+	showLQR = false,
+}: Props) {
 	const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [state, setState] = useState<PendulumState>({
@@ -60,75 +103,92 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 	
 	// Target position for position control
 	const [targetX, setTargetX] = useState(0);
+
+	const [controller, setController] = useState<PendulumController>("pd");
+	const [lqrWeights, setLqrWeights] =
+		useState<LQRWeights>(DEFAULT_LQR_WEIGHTS);
+	const pdGains = useMemo(
+		() => [
+			showPositionControl ? kpPos : 0,
+			showPositionControl ? kdPos : 0,
+			kpAngle,
+			kdAngle,
+		],
+		[showPositionControl, kpPos, kdPos, kpAngle, kdAngle],
+	);
+	const lqr = useMemo(
+		() => (showLQR ? lqrGains(UPRIGHT_MODEL, lqrWeights) : null),
+		[showLQR, lqrWeights],
+	);
 	
   const [isRunning, setIsRunning] = useState(true);
+	const [speed, setSpeed] = useState(1);
 	const [isVisible, setIsVisible] = useState(true);
   const [hasFallen, setHasFallen] = useState(false);
 	const [failReason, setFailReason] = useState<string>("");
   const [controlEnabled, setControlEnabled] = useState(true);
 	const [force, setForce] = useState(0);
+	// Push on the cart in N, set by scenario events
+	const [disturbance, setDisturbance] = useState(0);
+	const [caption, setCaption] = useState<string | null>(null);
 	const [isHoveringCart, setIsHoveringCart] = useState(false);
 	const [isHoveringTarget, setIsHoveringTarget] = useState(false);
 	const [isDraggingTarget, setIsDraggingTarget] = useState(false);
+	const [integratorMethod, setIntegratorMethod] =
+		useState<IntegratorMethod>(integrator);
+	// Energy the integrator has gained or lost since the last reset
+	const driftRef = useRef(0);
+	const clockRef = useRef(createClock());
+	const pendingStepsRef = useRef(0);
   const animationRef = useRef<number>();
+	// Scenario clock and the seeded noise source, both restarted on reset
+	const playbackRef = useRef(createPlayback(scenario));
 
 	const simulate = useCallback(
 		(
 			currentState: PendulumState,
-			kpA: number,
-			kdA: number,
-			kpP: number,
-			kdP: number,
+			feedbackGains: number[],
 			control: boolean,
 			target: number,
+			method: IntegratorMethod,
+			push: number,
 		): PendulumState => {
-			const { cartX, cartVelocity, angle, angularVelocity } = currentState;
-
-			// Dual PD control
-			let controlForce = 0;
-    if (control) {
-				// Angle control: keep pendulum upright (angle = 0)
-				const angleForce = kpA * angle + kdA * angularVelocity;
-				
-				// Position control: keep cart at target position
-				const posError = cartX - target;
-				const posForce = kpP * posError + kdP * cartVelocity;
-				
-				// Combined control (angle is primary, position is secondary)
-				controlForce = angleForce + posForce;
-				controlForce = Math.max(-MAX_FORCE, Math.min(MAX_FORCE, controlForce));
-			}
+			// Dual PD control: the angle loop keeps the pendulum upright (angle = 0),
+			// the position loop keeps the cart at the target. Together they are a
+			// state-feedback law on [x, ẋ, θ, θ̇], the same form LQR designs.
+			const controlForce = control
+				? stateFeedback(
+						feedbackGains,
+						cartPolePlant.toVector(currentState),
+						[target, 0, 0, 0],
+						MAX_FORCE,
+					)
+				: 0;
 			setForce(controlForce);
 
-			// Physics simulation
-			const sinA = Math.sin(angle);
-			const cosA = Math.cos(angle);
-			const ml = PENDULUM_MASS * PENDULUM_LENGTH;
-    const totalMass = CART_MASS + PENDULUM_MASS;
-
-			const temp =
-				(controlForce +
-					ml * angularVelocity * angularVelocity * sinA -
-					FRICTION * cartVelocity) /
-				totalMass;
-			const angleDenominator =
-				PENDULUM_LENGTH * (4 / 3 - (PENDULUM_MASS * cosA * cosA) / totalMass);
-			const angularAccel = (GRAVITY * sinA - cosA * temp) / angleDenominator;
-			const cartAccel = temp - (ml * angularAccel * cosA) / totalMass;
-
-			const newCartVelocity = cartVelocity + cartAccel * DT;
-			const newCartX = cartX + newCartVelocity * DT;
-			const newAngularVelocity = angularVelocity + angularAccel * DT;
-			const newAngle = angle + newAngularVelocity * DT;
-
-    return {
-      cartX: newCartX,
-      cartVelocity: newCartVelocity,
-      angle: newAngle,
-      angularVelocity: newAngularVelocity,
-			};
+			// The drift readout needs a second, finer integration per step,
+			// so it only runs while the readout shows
+			if (!showIntegratorSelect)
+				return stepPlant(
+					cartPolePlant,
+					currentState,
+					controlForce + push,
+					CART_POLE_PARAMS,
+					DT,
+					method,
+				);
+			const { state: next, drift } = stepPlantWithDrift(
+				cartPolePlant,
+				currentState,
+				controlForce + push,
+				CART_POLE_PARAMS,
+				DT,
+				method,
+			);
+			driftRef.current += drift;
+			return next;
 		},
-		[],
+		[showIntegratorSelect],
 	);
 
 	const draw = useCallback(
@@ -370,29 +430,78 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 		const ctx = canvas.getContext("2d");
 		if (!ctx || !isVisible) return;
 
-    const loop = () => {
-			if (isRunning && !hasFallen && !isDraggingTarget) {
+    const loop = (now: number) => {
+			const canStep = !hasFallen && !isDraggingTarget;
+			let steps = canStep ? pendingStepsRef.current : 0;
+			pendingStepsRef.current = 0;
+			if (isRunning && canStep)
+				steps += advanceClock(clockRef.current, now, DT, speed);
+			else pauseClock(clockRef.current);
+
+			// Scenario events take effect from the step they fall on, ahead of
+			// the state updates that carry them into later frames
+			let kpA = kpAngle;
+			let kdA = kdAngle;
+			let kpP = showPositionControl ? kpPos : 0;
+			let kdP = showPositionControl ? kdPos : 0;
+			let control = controlEnabled;
+			let target = showPositionControl ? targetX : 0;
+			let push = disturbance;
+			const applyEvent = (event: ScenarioEvent) => {
+				if (event.type === "target") {
+					if (!showPositionControl) return;
+					target = Math.max(-TARGET_X_RANGE, Math.min(TARGET_X_RANGE, event.value));
+					setTargetX(target);
+				} else if (event.type === "disturbance") {
+					push = event.value;
+					setDisturbance(event.value);
+				} else if (typeof event.value === "boolean") {
+					if (event.param === "control") {
+						control = event.value;
+						setControlEnabled(event.value);
+					}
+				} else if (event.param === "kpAngle") {
+					kpA = event.value;
+					setKpAngle(event.value);
+				} else if (event.param === "kdAngle") {
+					kdA = event.value;
+					setKdAngle(event.value);
+				} else if (event.param === "kpPos" && showPositionControl) {
+					kpP = event.value;
+					setKpPos(event.value);
+				} else if (event.param === "kdPos" && showPositionControl) {
+					kdP = event.value;
+					setKdPos(event.value);
+				}
+			};
+
+			for (let step = 0; step < steps; step++) {
+				advancePlayback(playbackRef.current, DT).forEach(applyEvent);
 				const newState = simulate(
 					stateRef.current,
-					kpAngle,
-					kdAngle,
-					showPositionControl ? kpPos : 0,
-					showPositionControl ? kdPos : 0,
-					controlEnabled,
-					showPositionControl ? targetX : 0,
+					controller === "lqr" && lqr ? lqr : [kpP, kdP, kpA, kdA],
+					control,
+					target,
+					integratorMethod,
+					push,
 				);
 				stateRef.current = newState;
-				setState(newState);
 				
 				// Check failure conditions
 				if (Math.abs(newState.angle) > Math.PI / 2) {
 					setHasFallen(true);
 					setFailReason("Fallen!");
+					break;
 				} else if (Math.abs(newState.cartX) > TRACK_WIDTH / 2) {
           setHasFallen(true);
 					setFailReason("Off track!");
+					break;
 				}
 			}
+			if (steps > 0) {
+				setState(stateRef.current);
+				setCaption(playbackRef.current.caption);
+			}
 			draw(ctx, stateRef.current, force, hasFallen, failReason, isHoveringCart, targetX, isHoveringTarget, isDraggingTarget, showPositionControl);
       animationRef.current = requestAnimationFrame(loop);
     };
@@ -400,7 +509,7 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
     return () => {
 			if (animationRef.current) cancelAnimationFrame(animationRef.current);
 		};
-	}, [simulate, draw, isRunning, isVisible, kpAngle, kdAngle, kpPos, kdPos, controlEnabled, hasFallen, force, failReason, isHoveringCart, showPositionControl, targetX, isHoveringTarget, isDraggingTarget]);
+	}, [simulate, draw, isRunning, speed, isVisible, kpAngle, kdAngle, kpPos, kdPos, controller, lqr, controlEnabled, disturbance, hasFallen, force, failReason, isHoveringCart, showPositionControl, targetX, isHoveringTarget, isDraggingTarget, integratorMethod]);
 
 	const getMousePos = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
 		const canvas = canvasRef.current;
@@ -482,19 +591,24 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 		setIsDraggingTarget(false);
 	};
 
+	// A random knock to the pendulum and cart, from the seeded noise source
+	const poke = () => {
+		const { rng } = playbackRef.current;
+		const newState = {
+			...stateRef.current,
+			angularVelocity: stateRef.current.angularVelocity + (rng() - 0.5) * 6,
+			cartVelocity: stateRef.current.cartVelocity + (rng() - 0.5) * 1.5,
+		};
+		stateRef.current = newState;
+		setState(newState);
+	};
+
 	const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
 		const { x, y } = getMousePos(e);
 		// Don't poke if clicking on target handle
 		if (isNearTarget(x, y)) return;
 		if (isNearCart(x, y) && !hasFallen) {
-			const pokeStrength = (Math.random() - 0.5) * 6;
-			const newState = {
-				...stateRef.current,
-				angularVelocity: stateRef.current.angularVelocity + pokeStrength,
-				cartVelocity: stateRef.current.cartVelocity + (Math.random() - 0.5) * 1.5,
-			};
-			stateRef.current = newState;
-			setState(newState);
+			poke();
 		}
 	};
 
@@ -506,14 +620,7 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 			setIsHoveringTarget(true);
 		} else if (isNearCart(x, y) && !hasFallen) {
 			// Poke the cart on touch
-			const pokeStrength = (Math.random() - 0.5) * 6;
-			const newState = {
-				...stateRef.current,
-				angularVelocity: stateRef.current.angularVelocity + pokeStrength,
-				cartVelocity: stateRef.current.cartVelocity + (Math.random() - 0.5) * 1.5,
-			};
-			stateRef.current = newState;
-			setState(newState);
+			poke();
 		}
 	};
 
@@ -541,6 +648,10 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 		};
 		stateRef.current = initialState;
 		setState(initialState);
+		driftRef.current = 0;
+		playbackRef.current = createPlayback(scenario);
+		setDisturbance(0);
+		setCaption(null);
     setHasFallen(false);
 		setFailReason("");
 		setKpAngle(DEFAULT_KP_ANGLE);
@@ -548,10 +659,18 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 		setKpPos(showPositionControl ? DEFAULT_KP_POS : 0);
 		setKdPos(showPositionControl ? DEFAULT_KD_POS : 0);
 		setTargetX(0);
+		setController("pd");
+		setLqrWeights(DEFAULT_LQR_WEIGHTS);
 		setControlEnabled(true);
 		setIsHoveringCart(false);
 		setIsHoveringTarget(false);
 		setIsDraggingTarget(false);
+		setIntegratorMethod(integrator);
+	};
+
+	const handleIntegratorChange = (method: IntegratorMethod) => {
+		driftRef.current = 0;
+		setIntegratorMethod(method);
 	};
 
 	const angleDeg = (state.angle * 180) / Math.PI;
@@ -617,6 +736,11 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 						: "Click the cart to poke it"
 					}
 				</p>
+				{caption && (
+					<span className="text-xs font-mono text-amber-400 mt-2">
+						{caption}
+					</span>
+				)}
 			</div>
 
 			{/* Angle Control */}
@@ -747,6 +871,34 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 				</div>
 			)}
 
+			{showLQR && (
+				<LQRPanel
+					controller={controller}
+					onControllerChange={setController}
+					weights={lqrWeights}
+					onWeightsChange={setLqrWeights}
+					model={UPRIGHT_MODEL}
+					pdGains={pdGains}
+					lqrGains={lqr}
+					initial={COST_INITIAL_STATE}
+				/>
+			)}
+
+			{showIntegratorSelect && (
+				<div className="flex flex-wrap gap-2 justify-center">
+					{INTEGRATORS.map((option) => (
+						<button
+							key={option.id}
+							type="button"
+							onClick={() => handleIntegratorChange(option.id)}
+							className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${integratorMethod === option.id ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+						>
+							{option.label}
+						</button>
+					))}
+				</div>
+			)}
+
 			<div className="flex justify-between items-center flex-wrap gap-3">
 				<div className="flex gap-2 items-center">
         <button
@@ -807,6 +959,12 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 							</svg>
 						)}
         </button>
+					<SpeedControls
+						speed={speed}
+						onSpeedChange={setSpeed}
+						onStep={() => (pendingStepsRef.current += 1)}
+						stepDisabled={isRunning || hasFallen}
+					/>
         <button
 						type="button"
           onClick={() => setControlEnabled(!controlEnabled)}
@@ -887,6 +1045,23 @@ export default function InvertedPendulum({ showPositionControl = true }: Props)
 							{Math.abs(force).toFixed(1)}
 						</span>
 					</div>
+					{showIntegratorSelect && (
+						<div
+							className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center w-[60px]"
+							title="Energy gained (+) or lost (−) to integration error since reset"
+						>
+							<span className="text-zinc-500 text-[10px]">Drift</span>
+							<span
+								className="text-amber-400"
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								<span className="inline-block w-[0.6em] text-right">
+									{driftRef.current < 0 ? "−" : ""}
+								</span>
+								{Math.min(Math.abs(driftRef.current), 9.99).toFixed(3)}J
+							</span>
+						</div>
+					)}
 				</div>
 			</div>
     </div>
@@ -0,0 +1,219 @@
+import { useMemo } from "react";
+import { closedLoopPoles, quadraticCost } from "./sim";
+import type { Complex, LQRWeights, LinearModel } from "./sim";
+
+export type PendulumController = "pd" | "lqr";
+
+interface LQRPanelProps {
+	controller: PendulumController;
+	onControllerChange: (controller: PendulumController) => void;
+	weights: LQRWeights;
+	onWeightsChange: (weights: LQRWeights) => void;
+	/** The cart-pole linearized about upright. */
+	model: LinearModel;
+	/** Hand-tuned gains on [x, ẋ, θ, θ̇], in the same form as the LQR's. */
+	pdGains: number[];
+	/** Null when the Riccati equation has no stabilizing solution. */
+	lqrGains: number[] | null;
+	/** State the cost is measured from. */
+	initial: number[];
+}
+
+const WEIGHT_SLIDERS: {
+	label: string;
+	title: string;
+	min: number;
+	max: number;
+	get: (weights: LQRWeights) => number;
+	set: (weights: LQRWeights, value: number) => LQRWeights;
+}[] = [
+	{
+		label: "Qx",
+		title: "Cost of cart position error",
+		min: -1,
+		max: 3,
+		get: (w) => w.q[0],
+		set: (w, value) => ({ ...w, q: [value, w.q[1], w.q[2], w.q[3]] }),
+	},
+	{
+		label: "Qθ",
+		title: "Cost of pendulum tilt",
+		min: -1,
+		max: 3,
+		get: (w) => w.q[2],
+		set: (w, value) => ({ ...w, q: [w.q[0], w.q[1], value, w.q[3]] }),
+	},
+	{
+		label: "R",
+		title: "Cost of force on the cart",
+		min: -3,
+		max: 1,
+		get: (w) => w.r,
+		set: (w, value) => ({ ...w, r: value }),
+	},
+];
+
+const GAIN_COLUMNS = ["Kx", "Kẋ", "Kθ", "Kθ̇"];
+
+const formatPole = (pole: Complex) =>
+	pole.im === 0
+		? pole.re.toFixed(2)
+		: `${pole.re.toFixed(2)}±${Math.abs(pole.im).toFixed(2)}j`;
+
+/**
+ * LQR design for the cart-pole: Q and R weights on log sliders, a switch
+ * between the hand-tuned PD and the optimal gains, and the two compared on
+ * the linear model — gains, slowest closed-loop pole and quadratic cost.
+ */
+export default function LQRPanel({
+	controller,
+	onControllerChange,
+	weights,
+	onWeightsChange,
+	model,
+	pdGains,
+	lqrGains,
+	initial,
+}: LQRPanelProps) {
+	const rows = useMemo(
+		() =>
+			[
+				{ name: "PD", color: "#60a5fa", gains: pdGains },
+				{ name: "LQR", color: "#f472b6", gains: lqrGains },
+			].map((row) => ({
+				...row,
+				slowest: row.gains && closedLoopPoles(model, row.gains)[0],
+				cost: row.gains && quadraticCost(model, row.gains, weights, initial),
+			})),
+		[model, pdGains, lqrGains, weights, initial],
+	);
+
+	return (
+		<div className="flex flex-col gap-2 px-2 pb-2">
+			<div className="flex items-center gap-2">
+				<div className="text-xs text-zinc-400 font-mono w-12">Control</div>
+				{(["pd", "lqr"] as const).map((option) => (
+					<button
+						key={option}
+						type="button"
+						onClick={() => onControllerChange(option)}
+						disabled={option === "lqr" && !lqrGains}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${controller === option ? "bg-pink-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{option.toUpperCase()}
+					</button>
+				))}
+			</div>
+			{WEIGHT_SLIDERS.map((slider) => {
+				const value = slider.get(weights);
+				const fraction =
+					(Math.log10(value) - slider.min) / (slider.max - slider.min);
+				return (
+					<div
+						key={slider.label}
+						className="flex items-center gap-4"
+						title={slider.title}
+					>
+						<label className="text-sm font-mono text-pink-400 w-12">
+							{slider.label}
+						</label>
+						<div className="flex-1 relative h-2">
+							<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+							<div
+								className="absolute left-0 top-0 h-full bg-pink-500 rounded-lg"
+								style={{ width: `${fraction * 100}%` }}
+							/>
+							<input
+								type="range"
+								min={slider.min}
+								max={slider.max}
+								step="0.1"
+								value={Math.log10(value)}
+								onChange={(e) =>
+									onWeightsChange(
+										slider.set(weights, 10 ** parseFloat(e.target.value)),
+									)
+								}
+								className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+							/>
+							<div
+								className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-pink-500 rounded-full border-2 border-pink-300 pointer-events-none"
+								style={{ left: `calc(${fraction * 100}% - 8px)` }}
+							/>
+						</div>
+						<span
+							className="text-sm font-mono text-pink-400 w-14 text-right"
+							style={{ fontVariantNumeric: "tabular-nums" }}
+						>
+							{value < 1 ? value.toPrecision(2) : Math.round(value)}
+						</span>
+					</div>
+				);
+			})}
+			<div className="bg-zinc-900/50 rounded-xl p-2">
+				<div className="overflow-x-auto">
+					<table className="w-full text-[11px] font-mono">
+						<thead>
+							<tr className="text-zinc-500">
+								<th className="text-left py-0.5 pr-1" />
+								{GAIN_COLUMNS.map((label) => (
+									<th
+										key={label}
+										className="text-right py-0.5 px-1 font-normal"
+									>
+										{label}
+									</th>
+								))}
+								<th
+									className="text-right py-0.5 px-1 font-normal"
+									title="Closed-loop pole nearest the imaginary axis, in 1/s"
+								>
+									Slowest
+								</th>
+								<th
+									className="text-right py-0.5 px-1 font-normal"
+									title="∫(xᵀQx + R·u²)dt from the reset tilt, on the linear model"
+								>
+									Cost
+								</th>
+							</tr>
+						</thead>
+						<tbody style={{ fontVariantNumeric: "tabular-nums" }}>
+							{rows.map(({ name, color, gains, slowest, cost }) => (
+								<tr key={name} className="text-zinc-300">
+									<td className="py-0.5 pr-1" style={{ color }}>
+										{name}
+									</td>
+									{gains === null ? (
+										<td
+											colSpan={GAIN_COLUMNS.length + 2}
+											className="py-0.5 px-1 text-center text-zinc-600"
+										>
+											No stabilizing solution
+										</td>
+									) : (
+										<>
+											{gains.map((gain, i) => (
+												<td key={i} className="py-0.5 px-1 text-right">
+													{gain.toFixed(1)}
+												</td>
+											))}
+											<td className="py-0.5 px-1 text-right">
+												{slowest && formatPole(slowest)}
+											</td>
+											<td className="py-0.5 px-1 text-right">
+												{cost === null || !Number.isFinite(cost)
+													? "unstable"
+													: cost.toFixed(3)}
+											</td>
+										</>
+									)}
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useRef } from "react";
+import {
+	frequencyResponse,
+	isClosedLoopStable,
+	stabilityMargins,
+} from "./sim";
+import type { FrequencyPoint, Margins, TransferFunction } from "./sim";
+
+interface LoopAnalysisProps {
+	/** Open-loop transfer function L(s) = C(s)·G(s). */
+	loop: TransferFunction;
+}
+
+const DPR =
+	typeof window !== "undefined" ? Math.min(window.devicePixelRatio || 1, 2) : 2;
+const BODE_WIDTH = 440;
+const BODE_HEIGHT = 280;
+const NYQUIST_SIZE = 280;
+const OMEGA_MIN = 0.1;
+const OMEGA_MAX = 1000;
+const POINTS = 300;
+const MAGNITUDE_RANGE = 60; // ±dB
+// Nyquist radius is drawn as log10(1 + |L|) so the −1 point stays visible
+// next to the integrator's sweep out to infinity
+const MAX_NYQUIST_RADIUS = Math.log10(1 + 100);
+
+const compress = (re: number, im: number) => {
+	const radius = Math.log10(1 + Math.hypot(re, im));
+	const angle = Math.atan2(im, re);
+	return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+};
+
+function drawBode(
+	ctx: CanvasRenderingContext2D,
+	response: FrequencyPoint[],
+	margins: Margins,
+) {
+	const width = BODE_WIDTH;
+	const height = BODE_HEIGHT;
+	const left = 56;
+	const right = 16;
+	const plotWidth = width - left - right;
+	const magTop = 34;
+	const magHeight = 96;
+	const phaseTop = magTop + magHeight + 28;
+	const phaseHeight = 96;
+
+	ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+	ctx.fillStyle = "#000000";
+	ctx.fillRect(0, 0, width, height);
+
+	const logMin = Math.log10(OMEGA_MIN);
+	const logSpan = Math.log10(OMEGA_MAX) - logMin;
+	const omegaToX = (omega: number) =>
+		left + ((Math.log10(omega) - logMin) / logSpan) * plotWidth;
+
+	const phases = response.map((point) => point.phase);
+	const phaseMax = Math.ceil(Math.max(...phases) / 90) * 90;
+	const phaseMin = Math.min(Math.floor(Math.min(...phases) / 90) * 90, phaseMax - 90);
+	const magToY = (db: number) =>
+		magTop +
+		((MAGNITUDE_RANGE - Math.max(-MAGNITUDE_RANGE, Math.min(MAGNITUDE_RANGE, db))) /
+			(2 * MAGNITUDE_RANGE)) *
+			magHeight;
+	const phaseToY = (deg: number) =>
+		phaseTop + ((phaseMax - deg) / (phaseMax - phaseMin)) * phaseHeight;
+
+	// Decade grid
+	ctx.strokeStyle = "#1e293b";
+	ctx.lineWidth = 1;
+	ctx.fillStyle = "#64748b";
+	ctx.font = "12px monospace";
+	ctx.textAlign = "center";
+	for (let decade = logMin; decade <= logMin + logSpan; decade++) {
+		const x = omegaToX(10 ** decade);
+		ctx.beginPath();
+		ctx.moveTo(x, magTop);
+		ctx.lineTo(x, magTop + magHeight);
+		ctx.moveTo(x, phaseTop);
+		ctx.lineTo(x, phaseTop + phaseHeight);
+		ctx.stroke();
+		ctx.fillText(`${10 ** decade}`, x, phaseTop + phaseHeight + 16);
+	}
+
+	ctx.textAlign = "right";
+	for (const db of [MAGNITUDE_RANGE, 0, -MAGNITUDE_RANGE]) {
+		const y = magToY(db);
+		ctx.strokeStyle = db === 0 ? "#334155" : "#1e293b";
+		ctx.beginPath();
+		ctx.moveTo(left, y);
+		ctx.lineTo(width - right, y);
+		ctx.stroke();
+		ctx.fillText(`${db}dB`, left - 6, y + 4);
+	}
+	for (let deg = phaseMin; deg <= phaseMax; deg += 90) {
+		const y = phaseToY(deg);
+		ctx.strokeStyle = (deg + 180) % 360 === 0 ? "#334155" : "#1e293b";
+		ctx.beginPath();
+		ctx.moveTo(left, y);
+		ctx.lineTo(width - right, y);
+		ctx.stroke();
+		ctx.fillText(`${deg}°`, left - 6, y + 4);
+	}
+
+	const trace = (toY: (point: FrequencyPoint) => number, color: string) => {
+		ctx.beginPath();
+		ctx.strokeStyle = color;
+		ctx.lineWidth = 2;
+		response.forEach((point, i) => {
+			const x = omegaToX(point.omega);
+			const y = toY(point);
+			if (i === 0) ctx.moveTo(x, y);
+			else ctx.lineTo(x, y);
+		});
+		ctx.stroke();
+	};
+	trace((point) => magToY(point.magnitude), "#3b82f6");
+	trace((point) => phaseToY(point.phase), "#a855f7");
+
+	// Margin markers: vertical bar from the curve to the reference line
+	ctx.lineWidth = 2;
+	if (margins.gainCrossover !== null && margins.phaseMargin !== null) {
+		const crossover = margins.gainCrossover;
+		const x = omegaToX(crossover);
+		// The unwrapped phase there, rather than one 360° away from the curve
+		const distance = (point: FrequencyPoint) =>
+			Math.abs(Math.log(point.omega / crossover));
+		const phaseAt = response.reduce((best, point) =>
+			distance(point) < distance(best) ? point : best,
+		).phase;
+		ctx.strokeStyle = "#22c55e";
+		ctx.beginPath();
+		ctx.moveTo(x, phaseToY(phaseAt));
+		ctx.lineTo(x, phaseToY(phaseAt - margins.phaseMargin));
+		ctx.stroke();
+	}
+	if (margins.phaseCrossover !== null && margins.gainMargin !== null) {
+		const x = omegaToX(margins.phaseCrossover);
+		ctx.strokeStyle = "#f59e0b";
+		ctx.beginPath();
+		ctx.moveTo(x, magToY(0));
+		ctx.lineTo(x, magToY(-margins.gainMargin));
+		ctx.stroke();
+	}
+
+	ctx.fillStyle = "#94a3b8";
+	ctx.font = "14px monospace";
+	ctx.textAlign = "left";
+	ctx.fillText("Bode  |L(jω)|  ∠L(jω)", left, 20);
+	ctx.fillStyle = "#64748b";
+	ctx.font = "12px monospace";
+	ctx.textAlign = "right";
+	ctx.fillText("rad/s", width - right, 20);
+}
+
+function drawNyquist(ctx: CanvasRenderingContext2D, response: FrequencyPoint[]) {
+	const size = NYQUIST_SIZE;
+	const center = size / 2;
+	const scale = (size / 2 - 20) / MAX_NYQUIST_RADIUS;
+	const toCanvas = (re: number, im: number) => {
+		const { x, y } = compress(re, im);
+		return { x: center + x * scale, y: center - y * scale };
+	};
+
+	ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+	ctx.fillStyle = "#000000";
+	ctx.fillRect(0, 0, size, size);
+
+	// Axes and the unit circle
+	ctx.strokeStyle = "#1e293b";
+	ctx.lineWidth = 1;
+	ctx.beginPath();
+	ctx.moveTo(20, center);
+	ctx.lineTo(size - 20, center);
+	ctx.moveTo(center, 20);
+	ctx.lineTo(center, size - 20);
+	ctx.stroke();
+	ctx.strokeStyle = "#334155";
+	ctx.setLineDash([4, 4]);
+	ctx.beginPath();
+	ctx.arc(center, center, Math.log10(2) * scale, 0, Math.PI * 2);
+	ctx.stroke();
+	ctx.setLineDash([]);
+
+	// Positive frequencies solid, their mirror image dashed
+	for (const mirror of [false, true]) {
+		ctx.beginPath();
+		ctx.strokeStyle = mirror ? "#1d4ed8" : "#3b82f6";
+		ctx.lineWidth = 2;
+		ctx.setLineDash(mirror ? [5, 5] : []);
+		response.forEach((point, i) => {
+			const { x, y } = toCanvas(point.re, mirror ? -point.im : point.im);
+			if (i === 0) ctx.moveTo(x, y);
+			else ctx.lineTo(x, y);
+		});
+		ctx.stroke();
+	}
+	ctx.setLineDash([]);
+
+	// Critical point
+	const critical = toCanvas(-1, 0);
+	ctx.strokeStyle = "#ef4444";
+	ctx.lineWidth = 2;
+	ctx.beginPath();
+	ctx.moveTo(critical.x - 5, critical.y - 5);
+	ctx.lineTo(critical.x + 5, critical.y + 5);
+	ctx.moveTo(critical.x + 5, critical.y - 5);
+	ctx.lineTo(critical.x - 5, critical.y + 5);
+	ctx.stroke();
+
+	ctx.fillStyle = "#94a3b8";
+	ctx.font = "14px monospace";
+	ctx.textAlign = "left";
+	ctx.fillText("Nyquist", 12, 20);
+	ctx.fillStyle = "#64748b";
+	ctx.font = "11px monospace";
+	ctx.textAlign = "right";
+	ctx.fillText("log radius", size - 10, size - 10);
+}
+
+/** Bode and Nyquist plots of an open loop, with its stability margins. */
+export default function LoopAnalysis({ loop }: LoopAnalysisProps) {
+	const bodeCanvasRef = useRef<HTMLCanvasElement>(null);
+	const nyquistCanvasRef = useRef<HTMLCanvasElement>(null);
+
+	const { response, margins, stable } = useMemo(() => {
+		const response = frequencyResponse(loop, OMEGA_MIN, OMEGA_MAX, POINTS);
+		return {
+			response,
+			margins: stabilityMargins(response),
+			stable: isClosedLoopStable(loop),
+		};
+	}, [loop]);
+
+	useEffect(() => {
+		const bodeCtx = bodeCanvasRef.current?.getContext("2d");
+		const nyquistCtx = nyquistCanvasRef.current?.getContext("2d");
+		if (bodeCtx) drawBode(bodeCtx, response, margins);
+		if (nyquistCtx) drawNyquist(nyquistCtx, response);
+	}, [response, margins]);
+
+	return (
+		<div className="flex flex-col gap-3">
+			<div className="flex flex-col md:flex-row gap-4 items-center w-full">
+				<div className="flex-1 flex flex-col items-center min-w-0">
+					<canvas
+						ref={bodeCanvasRef}
+						width={BODE_WIDTH * DPR}
+						height={BODE_HEIGHT * DPR}
+						className="outline-none border-0 block w-full max-w-[440px]"
+						style={{ aspectRatio: `${BODE_WIDTH} / ${BODE_HEIGHT}` }}
+					/>
+				</div>
+				<div className="flex flex-col items-center min-w-0">
+					<canvas
+						ref={nyquistCanvasRef}
+						width={NYQUIST_SIZE * DPR}
+						height={NYQUIST_SIZE * DPR}
+						className="outline-none border-0 block w-full max-w-[280px]"
+						style={{ aspectRatio: "1 / 1" }}
+					/>
+				</div>
+			</div>
+			<div className="flex gap-2 font-mono text-xs flex-wrap justify-center">
+				<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+					<span className="text-zinc-500 text-[10px]">Gain margin</span>
+					<span
+						className="text-amber-400"
+						style={{ fontVariantNumeric: "tabular-nums" }}
+					>
+						{margins.gainMargin === null
+							? "∞"
+							: `${margins.gainMargin.toFixed(1)} dB @ ${margins.phaseCrossover?.toFixed(1)}`}
+					</span>
+				</div>
+				<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+					<span className="text-zinc-500 text-[10px]">Phase margin</span>
+					<span
+						className="text-green-400"
+						style={{ fontVariantNumeric: "tabular-nums" }}
+					>
+						{margins.phaseMargin === null
+							? "∞"
+							: `${margins.phaseMargin.toFixed(0)}° @ ${margins.gainCrossover?.toFixed(1)}`}
+					</span>
+				</div>
+				<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+					<span className="text-zinc-500 text-[10px]">Closed loop</span>
+					<span className={stable ? "text-green-400" : "text-red-400"}>
+						{stable ? "Stable" : "Unstable"}
+					</span>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,147 @@
+import { PROFILE_SHAPES, isWaveform } from "./sim";
+import type { SetpointProfile } from "./sim";
+
+interface MotionProfilePanelProps {
+	profile: SetpointProfile;
+	onProfileChange: (profile: SetpointProfile) => void;
+}
+
+const DEG = Math.PI / 180;
+
+function ProfileSlider({
+	label,
+	value,
+	min,
+	max,
+	step,
+	unit,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	step: number;
+	unit: string;
+	onChange: (value: number) => void;
+}) {
+	const fraction = (value - min) / (max - min);
+	return (
+		<div className="flex items-center gap-4">
+			<label className="text-sm font-mono text-zinc-400 w-12">{label}</label>
+			<div className="flex-1 relative h-2">
+				<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+				<div
+					className="absolute left-0 top-0 h-full bg-sky-500 rounded-lg"
+					style={{ width: `${fraction * 100}%` }}
+				/>
+				<input
+					type="range"
+					min={min}
+					max={max}
+					step={step}
+					value={value}
+					onChange={(e) => onChange(parseFloat(e.target.value))}
+					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+				/>
+				<div
+					className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-sky-500 rounded-full border-2 border-sky-300 pointer-events-none"
+					style={{ left: `calc(${fraction * 100}% - 8px)` }}
+				/>
+			</div>
+			<span
+				className="text-sm font-mono text-sky-400 w-24 text-right"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{Math.round(value)}
+				{unit}
+			</span>
+		</div>
+	);
+}
+
+/**
+ * Setpoint generator: the shape the reference follows to each new target,
+ * with the motion limits of a move or the size and period of a waveform.
+ * Limits show in degrees; the profile holds radians.
+ */
+export default function MotionProfilePanel({
+	profile,
+	onProfileChange,
+}: MotionProfilePanelProps) {
+	const update = (changes: Partial<SetpointProfile>) =>
+		onProfileChange({ ...profile, ...changes });
+
+	return (
+		<>
+			<div className="flex items-center gap-2 flex-wrap">
+				<label className="text-sm font-mono text-zinc-400 w-12">Path</label>
+				{PROFILE_SHAPES.map((shape) => (
+					<button
+						key={shape.id}
+						type="button"
+						onClick={() => update({ shape: shape.id })}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${profile.shape === shape.id ? "bg-sky-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{shape.label}
+					</button>
+				))}
+			</div>
+			{(profile.shape === "trapezoid" || profile.shape === "s-curve") && (
+				<>
+					<ProfileSlider
+						label="Vel"
+						value={profile.maxVelocity / DEG}
+						min={10}
+						max={360}
+						step={5}
+						unit="°/s"
+						onChange={(value) => update({ maxVelocity: value * DEG })}
+					/>
+					<ProfileSlider
+						label="Acc"
+						value={profile.maxAcceleration / DEG}
+						min={30}
+						max={1440}
+						step={10}
+						unit="°/s²"
+						onChange={(value) => update({ maxAcceleration: value * DEG })}
+					/>
+				</>
+			)}
+			{profile.shape === "s-curve" && (
+				<ProfileSlider
+					label="Jerk"
+					value={profile.maxJerk / DEG}
+					min={180}
+					max={9000}
+					step={60}
+					unit="°/s³"
+					onChange={(value) => update({ maxJerk: value * DEG })}
+				/>
+			)}
+			{isWaveform(profile.shape) && (
+				<>
+					<ProfileSlider
+						label="Amp"
+						value={profile.amplitude / DEG}
+						min={2}
+						max={40}
+						step={1}
+						unit="°"
+						onChange={(value) => update({ amplitude: value * DEG })}
+					/>
+					<ProfileSlider
+						label={profile.shape === "sweep" ? "Sweep" : "Period"}
+						value={profile.period}
+						min={1}
+						max={10}
+						step={0.5}
+						unit=" s"
+						onChange={(value) => update({ period: value })}
+					/>
+				</>
+			)}
+		</>
+	);
+}
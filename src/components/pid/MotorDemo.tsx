@@ -1,24 +1,34 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-
-interface MotorState {
-  angle: number;
-  angularVelocity: number;
-}
+import DCMotorPanel from './DCMotorPanel';
+import MotionProfilePanel from './MotionProfilePanel';
+import SpeedControls from './SpeedControls';
+import { DEFAULT_DC_MOTOR, DEFAULT_INTEGRATOR, DEFAULT_PROFILE, DT, MAX_TORQUE, MOMENT_OF_INERTIA, advanceClock, advancePlayback, bounceOffStops, clamp, createClock, createPlayback, createSetpointGenerator, idleDCMotor, isWaveform, motorPlant, pauseClock, stepDCMotor, stepPlant, stepSetpoint } from './sim';
+import type { DCMotorParams, DCMotorReading, IntegratorMethod, MotorState, Scenario, SetpointProfile } from './sim';
 
 interface MotorDemoProps {
   showPlot?: boolean;
   showControls?: boolean;
+  /** Fixed integration method; the drift readout lives with PIDDemo's picker. */
+  integrator?: IntegratorMethod;
+  /**
+   * Scripted events, replayed from the start and on every reset. Targets are
+   * in radians and disturbances a load torque in N·m; `set` events are ignored,
+   * since the naive controller has nothing to tune.
+   */
+  scenario?: Scenario;
+  /** Drive the motor with a voltage through its electrics instead of commanding torque. */
+  electrical?: boolean;
+  motorParams?: Partial<DCMotorParams>;
+  /** Move the target through a trapezoid, S-curve or waveform instead of jumping to it. */
+  showMotionProfiles?: boolean;
 }
 
-const MOMENT_OF_INERTIA = 0.12;
 const FRICTION = 0.02;
-const MAX_TORQUE = 2;
-const DT = 1 / 60;
 const DPR = typeof window !== 'undefined' ? Math.min(window.devicePixelRatio || 1, 2) : 2;
 const MIN_ANGLE = Math.PI / 4;  // 45 degrees
 const MAX_ANGLE = 3 * Math.PI / 4;  // 135 degrees
 
-export default function MotorDemo({ showPlot = true, showControls = true }: MotorDemoProps) {
+export default function MotorDemo({ showPlot = true, showControls = true, integrator = DEFAULT_INTEGRATOR, electrical = false, motorParams: initialMotorParams, scenario, showMotionProfiles = false }: MotorDemoProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const plotCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -26,14 +36,26 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
   const stateRef = useRef<MotorState>(state);
   const [targetAngle, setTargetAngle] = useState<number>(3 * Math.PI / 4); // 135 degrees (start at one end)
   const [isRunning, setIsRunning] = useState(true);
+  const [speed, setSpeed] = useState(1);
   const [isVisible, setIsVisible] = useState(true);
   const [motorPower, setMotorPower] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
   const [isHoveringTarget, setIsHoveringTarget] = useState(false);
+  // Load torque in N·m, set by scenario events
+  const [disturbance, setDisturbance] = useState(0);
+  const [caption, setCaption] = useState<string | null>(null);
+  const [motorParams, setMotorParams] = useState<DCMotorParams>({ ...DEFAULT_DC_MOTOR, ...initialMotorParams });
+  const [reading, setReading] = useState<DCMotorReading>(idleDCMotor);
+  const readingRef = useRef<DCMotorReading>(reading);
   const frameCountRef = useRef(0);
   const historyRef = useRef<number[]>([]);
   const targetHistoryRef = useRef<number[]>([]);
+  const clockRef = useRef(createClock());
+  const pendingStepsRef = useRef(0);
   const animationRef = useRef<number>();
+  const playbackRef = useRef(createPlayback(scenario));
+  const [profile, setProfile] = useState<SetpointProfile>(DEFAULT_PROFILE);
+  const generatorRef = useRef(createSetpointGenerator(Math.PI / 2));
 
   // Pause animation when not visible on screen
   useEffect(() => {
@@ -62,36 +84,38 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
     return Math.max(MIN_ANGLE, Math.min(MAX_ANGLE, angle));
   };
 
-  const simulate = useCallback((currentState: MotorState, target: number) => {
+  const simulate = useCallback((currentState: MotorState, target: number, load: number) => {
     const error = target - currentState.angle;
     
     // Naive control: full power toward target until position matches, then stop
-    let torque = 0;
+    let drive = 0;
     if (Math.abs(error) > 0.01) {
-      torque = error > 0 ? MAX_TORQUE : -MAX_TORQUE;
+      drive = error > 0 ? 1 : -1;
     }
 
-    const angularAcceleration = (torque - FRICTION * currentState.angularVelocity) / MOMENT_OF_INERTIA;
-    let newVelocity = currentState.angularVelocity + angularAcceleration * DT;
-    let newAngle = currentState.angle + newVelocity * DT;
-    
-    // Bounce off boundaries at 0° and 180° (full semicircle)
-    if (newAngle < 0) {
-      newAngle = 0;
-      newVelocity = -newVelocity * 0.5;
-    }
-    if (newAngle > Math.PI) {
-      newAngle = Math.PI;
-      newVelocity = -newVelocity * 0.5;
+    // Full power is the whole supply voltage through the electrics, or else MAX_TORQUE outright
+    let torque = drive * MAX_TORQUE;
+    if (electrical) {
+      readingRef.current = stepDCMotor(readingRef.current.current, motorParams, drive, currentState.angularVelocity, DT);
+      torque = readingRef.current.torque;
     }
 
-    setMotorPower(torque / MAX_TORQUE);
+    const next = stepPlant(
+      motorPlant,
+      currentState,
+      torque + load,
+      { inertia: MOMENT_OF_INERTIA, friction: FRICTION, mass: 0 },
+      DT,
+      integrator
+    );
 
-    return {
-      angle: newAngle,
-      angularVelocity: newVelocity,
-    };
-  }, []);
+    // Bounce off boundaries at 0° and 180° (full semicircle)
+    const newState = bounceOffStops(next, 0, Math.PI, 0.5);
+
+    setMotorPower(Math.max(-1, Math.min(1, torque / MAX_TORQUE)));
+
+    return newState;
+  }, [integrator, electrical, motorParams]);
 
   const drawMotor = useCallback((ctx: CanvasRenderingContext2D, angle: number, target: number, power: number, hoveringTarget: boolean) => {
     const width = ctx.canvas.width / DPR;
@@ -460,22 +484,52 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
     // Don't run animation if not visible
     if (!isVisible) return;
 
-    const loop = () => {
+    const loop = (now: number) => {
+      let steps = isDragging ? 0 : pendingStepsRef.current;
+      pendingStepsRef.current = 0;
       if (isRunning && !isDragging) {
-        const maxHistory = 200;
-        
-        const newState = simulate(stateRef.current, targetAngle);
+        steps += advanceClock(clockRef.current, now, DT, speed);
+      } else {
+        pauseClock(clockRef.current);
+      }
+
+      const maxHistory = 200;
+      let target = targetAngle;
+      let load = disturbance;
+      for (let step = 0; step < steps; step++) {
+        for (const event of advancePlayback(playbackRef.current, DT)) {
+          if (event.type === 'target') {
+            target = event.value;
+            setTargetAngle(event.value);
+          } else if (event.type === 'disturbance') {
+            load = event.value;
+            setDisturbance(event.value);
+          }
+        }
+        let setpoint = target;
+        if (showMotionProfiles) {
+          // Keep a waveform's swing inside the end stops
+          const center = isWaveform(profile.shape)
+            ? clamp(target, MIN_ANGLE + profile.amplitude, MAX_ANGLE - profile.amplitude)
+            : target;
+          setpoint = stepSetpoint(generatorRef.current, profile, center, DT).position;
+        }
+        const newState = simulate(stateRef.current, setpoint, load);
         stateRef.current = newState;
         
         // Record to history for smooth graph
         historyRef.current.push(newState.angle);
-        targetHistoryRef.current.push(targetAngle);
+        targetHistoryRef.current.push(setpoint);
         
         if (historyRef.current.length > maxHistory) {
           historyRef.current.shift();
           targetHistoryRef.current.shift();
         }
-        setState(newState);
+      }
+      if (steps > 0) {
+        setState(stateRef.current);
+        setCaption(playbackRef.current.caption);
+        if (electrical) setReading(readingRef.current);
       }
 
       drawMotor(ctx, stateRef.current.angle, targetAngle, motorPower, isHoveringTarget || isDragging);
@@ -498,7 +552,7 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [simulate, drawMotor, drawPlot, targetAngle, isRunning, motorPower, showPlot, isDragging, isHoveringTarget, isVisible]);
+  }, [simulate, drawMotor, drawPlot, targetAngle, disturbance, isRunning, speed, motorPower, showPlot, isDragging, isHoveringTarget, isVisible, electrical, showMotionProfiles, profile]);
 
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (isNearTarget(e)) {
@@ -555,6 +609,13 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
     setState(initialState); // Start at 90° (center)
     historyRef.current = [];
     targetHistoryRef.current = [];
+    playbackRef.current = createPlayback(scenario);
+    generatorRef.current = createSetpointGenerator(initialState.angle);
+    setProfile(DEFAULT_PROFILE);
+    setDisturbance(0);
+    setCaption(null);
+    readingRef.current = idleDCMotor();
+    setReading(readingRef.current);
     setTargetAngle(3 * Math.PI / 4); // Target at 135°
   };
 
@@ -578,6 +639,11 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
             className={`outline-none border-0 block w-full max-w-[440px] touch-none ${isHoveringTarget || isDragging ? 'cursor-grab' : 'cursor-default'} ${isDragging ? 'cursor-grabbing' : ''}`}
             style={{ aspectRatio: '440 / 280' }}
           />
+          {caption && (
+            <span className="text-xs font-mono text-amber-400 mt-2">
+              {caption}
+            </span>
+          )}
         </div>
         
         {/* Right: position graph */}
@@ -594,6 +660,14 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
         )}
       </div>
 
+      {electrical && (
+        <DCMotorPanel params={motorParams} onParamsChange={setMotorParams} reading={reading} />
+      )}
+
+      {showMotionProfiles && (
+        <MotionProfilePanel profile={profile} onProfileChange={setProfile} />
+      )}
+
       {/* Footer: controls on left, stats on right */}
       {showControls && (
         <div className="flex justify-between items-center flex-wrap gap-3">
@@ -628,6 +702,12 @@ export default function MotorDemo({ showPlot = true, showControls = true }: Moto
                 </svg>
               )}
             </button>
+            <SpeedControls
+              speed={speed}
+              onSpeedChange={setSpeed}
+              onStep={() => (pendingStepsRef.current += 1)}
+              stepDisabled={isRunning}
+            />
           </div>
           <div className="flex gap-3 font-mono text-xs">
             <div className="px-3 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center w-[70px]">
@@ -1,16 +1,88 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
+import React, {
+	useRef,
+	useEffect,
+	useState,
+	useCallback,
+	useMemo,
+} from "react";
+import AntiWindupSelect from "./AntiWindupSelect";
+import AutoTunePanel from "./AutoTunePanel";
+import SpeedControls from "./SpeedControls";
+import {
+	AMBIENT_TEMP,
+	DEFAULT_INTEGRATOR,
+	DEFAULT_TRACKING_GAIN,
+	OVEN_HEATER_GAIN,
+	OVEN_PARAMS,
+	advanceClock,
+	advancePlayback,
+	clamp,
+	createAutoTune,
+	createClock,
+	createPlayback,
+	ovenFeedforward,
+	ovenPlant,
+	pauseClock,
+	pidStep,
+	stepAutoTune,
+	stepPlant,
+	tuningRuleGains,
+} from "./sim";
+import type {
+	AntiWindupMethod,
+	AutoTuneExperiment,
+	AutoTuneMethod,
+	IntegratorMethod,
+	OvenState as OvenPlantState,
+	PIDState,
+	Scenario,
+	ScenarioEvent,
+	TuningRule,
+	UltimateGain,
+} from "./sim";
 
-interface OvenState {
-	temperature: number;
-	integral: number;
-	prevError: number;
+interface OvenState extends OvenPlantState, PIDState {}
+
+interface OvenControllerProps {
+	/**
+	 * Integration method for the oven. With no picker there is nothing to
+	 * compare it against, so unlike PIDDemo there is no drift readout.
+	 */
+	integrator?: IntegratorMethod;
+	showAntiWindupSelect?: boolean;
+	showAutoTune?: boolean;
+	/**
+	 * Heat-loss feedforward: the duty that holds the target with the door
+	 * shut, added ahead of the PI so feedback only covers what it misses.
+	 */
+	showFeedforward?: boolean;
+	/**
+	 * Scripted events, replayed from the start and on every reset. Targets are
+	 * in °F and disturbances in heater percent (negative draws heat); `set`
+	 * accepts kp, ki and door (open/closed).
+	 */
+	scenario?: Scenario;
+}
+
+interface HistoryPoint {
+	temp: number;
+	target: number;
+	/** I term in heater percent. */
+	iTerm: number;
+	/** Feedforward and feedback (P + I) in heater percent. */
+	feedforward: number;
+	feedback: number;
 }
 
-const THERMAL_MASS = 50;
-const HEAT_LOSS_COEFF = 0.02;
-const HEATER_POWER = 100;
 const DT = 1 / 30;
-const AMBIENT_TEMP = 70;
+// The oven steps at twice real time (one DT per 60 Hz frame) at 1× speed
+const PLAYBACK_RATE = 2;
+const MAX_INTEGRAL = 1000;
+// Conditional integration only runs within 50° of the target
+const INTEGRATION_BAND = 50;
+// Controller output that drives the heater flat out
+const MAX_OUTPUT = 100 / OVEN_HEATER_GAIN;
+const DOOR_OPEN_LOSS_FACTOR = 5;
 const DPR =
 	typeof window !== "undefined"
 		? Math.min(window.devicePixelRatio || 1, 2)
@@ -22,8 +94,19 @@ const PLOT_HEIGHT = 280;
 const DEFAULT_KP = 5;
 const DEFAULT_KI = 0.5;
 const DEFAULT_TARGET_TEMP = 350;
+// Auto-tune: relay swing in controller output (±20% heater) and hysteresis in °F
+const RELAY_AMPLITUDE = 40;
+const RELAY_HYSTERESIS = 3;
+const MAX_TUNING_GAIN = 80;
+const TUNING_STAGE_TIME = 5;
 
-export default function OvenController() {
+export default function OvenController({
+	integrator = DEFAULT_INTEGRATOR,
+	showAntiWindupSelect = false,
+	showAutoTune = false,
+	showFeedforward = false,
+	scenario,
+}: OvenControllerProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const ovenCanvasRef = useRef<HTMLCanvasElement>(null);
 	const plotCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -38,13 +121,31 @@ export default function OvenController() {
 	const [ki, setKi] = useState(DEFAULT_KI);
 	const [doorOpen, setDoorOpen] = useState(false);
 	const [conditionalI, setConditionalI] = useState(false);
+	// Heater percent added by scenario events
+	const [disturbance, setDisturbance] = useState(0);
+	const [caption, setCaption] = useState<string | null>(null);
+	const [antiWindup, setAntiWindup] = useState<AntiWindupMethod>("clamping");
+	const [trackingGain, setTrackingGain] = useState(DEFAULT_TRACKING_GAIN);
+	const [feedforwardEnabled, setFeedforwardEnabled] = useState(false);
 	const [isRunning, setIsRunning] = useState(true);
+	const [speed, setSpeed] = useState(1);
 	const [isVisible, setIsVisible] = useState(true);
 	const [heaterPower, setHeaterPower] = useState(0);
 	const [pOutput, setPOutput] = useState(0);
 	const [iOutput, setIOutput] = useState(0);
-	const historyRef = useRef<{ temp: number; target: number }[]>([]);
+	const [autoTuneMethod, setAutoTuneMethod] = useState<AutoTuneMethod>("relay");
+	const [tuningRule, setTuningRule] = useState<TuningRule>("ziegler-nichols");
+	const [autoTuneRunning, setAutoTuneRunning] = useState(false);
+	const [autoTuneMessage, setAutoTuneMessage] = useState<string | null>(null);
+	const [ultimateGain, setUltimateGain] = useState<UltimateGain | null>(null);
+	const experimentRef = useRef<AutoTuneExperiment | null>(null);
+	const historyRef = useRef<HistoryPoint[]>([]);
+	// Feedforward and feedback of the latest step, in heater percent
+	const termsRef = useRef({ feedforward: 0, feedback: 0 });
+	const clockRef = useRef(createClock());
+	const pendingStepsRef = useRef(0);
 	const animationRef = useRef<number>();
+	const playbackRef = useRef(createPlayback(scenario));
 
 	const simulate = useCallback(
 		(
@@ -53,35 +154,89 @@ export default function OvenController() {
 			kpVal: number,
 			kiVal: number,
 			isDoorOpen: boolean,
+			windup: AntiWindupMethod,
+			kt: number,
 			useConditionalI: boolean,
+			load: number,
+			feedforwardOn: boolean,
 		) => {
 			const error = target - currentState.temperature;
-			
-			// Conditional integration: only accumulate integral when close to target (within 50°)
-			const shouldAccumulateI = !useConditionalI || Math.abs(error) < 50;
-			const newIntegral = shouldAccumulateI
-				? Math.max(-1000, Math.min(1000, currentState.integral + error * DT))
-				: currentState.integral;
-
-			const pTerm = kpVal * error;
-			const iTerm = kiVal * newIntegral;
-			const heaterOutput = Math.max(0, Math.min(100, (pTerm + iTerm) / 2));
-
-			setPOutput(pTerm);
-			setIOutput(iTerm);
+			// The model's duty for the target, in controller units; it knows
+			// nothing of the door
+			const feedforward = feedforwardOn
+				? ovenFeedforward(OVEN_PARAMS, target) / OVEN_HEATER_GAIN
+				: 0;
+
+			// The toggle's conditional integration: only accumulate integral when
+			// close to target, on top of whichever anti-windup method is active
+			const shouldAccumulateI =
+				!useConditionalI || Math.abs(error) < INTEGRATION_BAND;
+			const pid = pidStep({ kp: kpVal, ki: kiVal, kd: 0 }, currentState, error, DT, {
+				feedforward,
+				antiWindup: windup,
+				integralLimit: MAX_INTEGRAL,
+				integrationBand: INTEGRATION_BAND,
+				trackingGain: kt,
+				outputMin: 0,
+				outputMax: MAX_OUTPUT,
+				freezeIntegral: !shouldAccumulateI,
+			});
+			const heaterOutput = clamp(pid.output * OVEN_HEATER_GAIN, 0, 100);
+
+			setPOutput(pid.p);
+			setIOutput(pid.i);
 			setHeaterPower(heaterOutput);
+			termsRef.current = {
+				feedforward: feedforward * OVEN_HEATER_GAIN,
+				feedback: (pid.p + pid.i) * OVEN_HEATER_GAIN,
+			};
 
-			const heatInput = (heaterOutput / 100) * HEATER_POWER;
-			const heatLoss =
-				HEAT_LOSS_COEFF *
-				(currentState.temperature - AMBIENT_TEMP) *
-				(isDoorOpen ? 5 : 1);
-			const tempChange = (heatInput - heatLoss) / THERMAL_MASS;
-			const newTemp = currentState.temperature + tempChange * DT * 60;
+			const oven = stepPlant(
+				ovenPlant,
+				currentState,
+				heaterOutput + load,
+				{ ...OVEN_PARAMS, lossFactor: isDoorOpen ? DOOR_OPEN_LOSS_FACTOR : 1 },
+				DT,
+				integrator,
+			);
 
-			return { temperature: newTemp, integral: newIntegral, prevError: error };
+			return { ...oven, ...pid.state };
 		},
-		[],
+		[integrator],
+	);
+
+	// One step under the auto-tune experiment, which drives the heater directly
+	const simulateExperiment = useCallback(
+		(
+			currentState: OvenState,
+			experiment: AutoTuneExperiment,
+			isDoorOpen: boolean,
+			load: number,
+		): OvenState => {
+			const output = stepAutoTune(experiment, currentState.temperature, DT);
+			const heaterOutput = clamp(output * OVEN_HEATER_GAIN, 0, 100);
+
+			setPOutput(output);
+			setIOutput(0);
+			setHeaterPower(heaterOutput);
+			termsRef.current = {
+				feedforward: 0,
+				feedback: output * OVEN_HEATER_GAIN,
+			};
+
+			const oven = stepPlant(
+				ovenPlant,
+				currentState,
+				heaterOutput + load,
+				{ ...OVEN_PARAMS, lossFactor: isDoorOpen ? DOOR_OPEN_LOSS_FACTOR : 1 },
+				DT,
+				integrator,
+			);
+
+			// The controller restarts from rest once the experiment ends
+			return { ...oven, integral: 0, prevError: 0 };
+		},
+		[integrator],
 	);
 
 	const drawOven = useCallback(
@@ -191,7 +346,9 @@ export default function OvenController() {
 	const drawPlot = useCallback(
 		(
 			ctx: CanvasRenderingContext2D,
-			history: { temp: number; target: number }[],
+			history: HistoryPoint[],
+			showITerm: boolean,
+			showTerms: boolean,
 		) => {
 			const width = PLOT_WIDTH;
 			const height = PLOT_HEIGHT;
@@ -259,6 +416,45 @@ export default function OvenController() {
 				ctx.stroke();
 			}
 
+			// I term against 0-100% heater duty, so windup shows as the trace
+			// running off the top while the heater is already flat out
+			if (showITerm && history.length > 1) {
+				ctx.beginPath();
+				ctx.strokeStyle = "#4ade80";
+				ctx.lineWidth = 1.5;
+				for (let i = 0; i < history.length; i++) {
+					const x =
+						padding + ((width - 2 * padding) * i) / (history.length - 1);
+					const duty = Math.max(0, Math.min(history[i].iTerm, 100));
+					const y = padding + (height - 2 * padding) * (1 - duty / 100);
+					if (i === 0) ctx.moveTo(x, y);
+					else ctx.lineTo(x, y);
+				}
+				ctx.stroke();
+			}
+
+			// Feedforward and feedback on the same duty scale, so what the
+			// model covers and what the PI still has to find read side by side
+			if (showTerms && history.length > 1) {
+				for (const [key, color] of [
+					["feedforward", "#fbbf24"],
+					["feedback", "#38bdf8"],
+				] as const) {
+					ctx.beginPath();
+					ctx.strokeStyle = color;
+					ctx.lineWidth = 1.5;
+					for (let i = 0; i < history.length; i++) {
+						const x =
+							padding + ((width - 2 * padding) * i) / (history.length - 1);
+						const duty = Math.max(0, Math.min(history[i][key], 100));
+						const y = padding + (height - 2 * padding) * (1 - duty / 100);
+						if (i === 0) ctx.moveTo(x, y);
+						else ctx.lineTo(x, y);
+					}
+					ctx.stroke();
+				}
+			}
+
 			// Title
 			ctx.fillStyle = "#94a3b8";
 			ctx.font = "16px monospace";
@@ -277,6 +473,23 @@ export default function OvenController() {
 			ctx.fillRect(padding + 85, legendY - 10, 10, 10);
 			ctx.fillStyle = "#ef4444";
 			ctx.fillText("Temp", padding + 101, legendY);
+
+			let legendX = padding + 160;
+			if (showITerm) {
+				ctx.fillStyle = "#4ade80";
+				ctx.fillRect(legendX, legendY - 10, 10, 10);
+				ctx.fillText("I (% duty)", legendX + 16, legendY);
+				legendX += 105;
+			}
+
+			if (showTerms) {
+				ctx.fillStyle = "#fbbf24";
+				ctx.fillRect(legendX, legendY - 10, 10, 10);
+				ctx.fillText("FF", legendX + 16, legendY);
+				ctx.fillStyle = "#38bdf8";
+				ctx.fillRect(legendX + 45, legendY - 10, 10, 10);
+				ctx.fillText("FB", legendX + 61, legendY);
+			}
 		},
 		[],
 	);
@@ -300,24 +513,81 @@ export default function OvenController() {
 		const plotCtx = plotCanvas.getContext("2d");
 		if (!ovenCtx || !plotCtx || !isVisible) return;
 
-		const loop = () => {
-			if (isRunning) {
-				const newState = simulate(
-					stateRef.current,
-					targetTemp,
-					kp,
-					ki,
-					doorOpen,
-					conditionalI,
-				);
+		const loop = (now: number) => {
+			let steps = pendingStepsRef.current;
+			pendingStepsRef.current = 0;
+			if (isRunning)
+				steps += advanceClock(clockRef.current, now, DT, speed * PLAYBACK_RATE);
+			else pauseClock(clockRef.current);
+
+			// Scenario events take effect from the step they fall on, ahead of
+			// the state updates that carry them into later frames
+			let target = targetTemp;
+			let kpVal = kp;
+			let kiVal = ki;
+			let isDoorOpen = doorOpen;
+			let load = disturbance;
+			const applyEvent = (event: ScenarioEvent) => {
+				if (event.type === "target") {
+					target = event.value;
+					setTargetTemp(target);
+				} else if (event.type === "disturbance") {
+					load = event.value;
+					setDisturbance(event.value);
+				} else if (typeof event.value === "boolean") {
+					if (event.param === "door") {
+						isDoorOpen = event.value;
+						setDoorOpen(event.value);
+					}
+				} else if (event.param === "kp") {
+					kpVal = event.value;
+					setKp(event.value);
+				} else if (event.param === "ki") {
+					kiVal = event.value;
+					setKi(event.value);
+				}
+			};
+
+			for (let step = 0; step < steps; step++) {
+				advancePlayback(playbackRef.current, DT).forEach(applyEvent);
+				const experiment = experimentRef.current;
+				const newState =
+					experiment?.status === "running"
+						? simulateExperiment(stateRef.current, experiment, isDoorOpen, load)
+						: simulate(
+								stateRef.current,
+								target,
+								kpVal,
+								kiVal,
+								isDoorOpen,
+								antiWindup,
+								trackingGain,
+								conditionalI,
+								load,
+								feedforwardEnabled,
+							);
 				stateRef.current = newState;
-				setState(newState);
 				historyRef.current.push({
 					temp: newState.temperature,
-					target: targetTemp,
+					target,
+					iTerm: kiVal * newState.integral * OVEN_HEATER_GAIN,
+					...termsRef.current,
 				});
 				if (historyRef.current.length > 300) historyRef.current.shift();
 			}
+			if (steps > 0) {
+				setState(stateRef.current);
+				setCaption(playbackRef.current.caption);
+				const experiment = experimentRef.current;
+				if (experiment) {
+					setAutoTuneMessage(experiment.message);
+					if (experiment.status !== "running") {
+						experimentRef.current = null;
+						setAutoTuneRunning(false);
+						if (experiment.result) setUltimateGain(experiment.result);
+					}
+				}
+			}
 			drawOven(
 				ovenCtx,
 				stateRef.current.temperature,
@@ -325,7 +595,12 @@ export default function OvenController() {
 				heaterPower,
 				doorOpen,
 			);
-			drawPlot(plotCtx, historyRef.current);
+			drawPlot(
+				plotCtx,
+				historyRef.current,
+				showAntiWindupSelect,
+				showFeedforward,
+			);
 			animationRef.current = requestAnimationFrame(loop);
 		};
 		animationRef.current = requestAnimationFrame(loop);
@@ -334,15 +609,23 @@ export default function OvenController() {
 		};
 	}, [
 		simulate,
+		simulateExperiment,
 		drawOven,
 		drawPlot,
 		targetTemp,
 		isRunning,
+		speed,
+		antiWindup,
+		trackingGain,
 		conditionalI,
+		showAntiWindupSelect,
+		showFeedforward,
+		feedforwardEnabled,
 		isVisible,
 		kp,
 		ki,
 		doorOpen,
+		disturbance,
 		heaterPower,
 	]);
 
@@ -355,13 +638,75 @@ export default function OvenController() {
 		stateRef.current = initialState;
 		setState(initialState);
 		historyRef.current = [];
+		termsRef.current = { feedforward: 0, feedback: 0 };
+		playbackRef.current = createPlayback(scenario);
+		setDisturbance(0);
+		setCaption(null);
 		setTargetTemp(DEFAULT_TARGET_TEMP);
 		setKp(DEFAULT_KP);
 		setKi(DEFAULT_KI);
 		setDoorOpen(false);
 		setConditionalI(false);
+		setAntiWindup("clamping");
+		setTrackingGain(DEFAULT_TRACKING_GAIN);
+		setFeedforwardEnabled(false);
+		experimentRef.current = null;
+		setAutoTuneRunning(false);
+		setAutoTuneMessage(null);
+		setUltimateGain(null);
+	};
+
+	// Heater duty the model predicts for the target
+	const feedforwardDuty =
+		showFeedforward && feedforwardEnabled
+			? ovenFeedforward(OVEN_PARAMS, targetTemp)
+			: 0;
+
+	const handleAutoTuneStart = () => {
+		// Perturb around the output currently holding the temperature
+		const bias = clamp(
+			pOutput + iOutput + feedforwardDuty / OVEN_HEATER_GAIN,
+			0,
+			MAX_OUTPUT,
+		);
+		experimentRef.current = createAutoTune(autoTuneMethod, {
+			setpoint: targetTemp,
+			bias,
+			amplitude: RELAY_AMPLITUDE,
+			hysteresis: RELAY_HYSTERESIS,
+			outputMin: 0,
+			outputMax: MAX_OUTPUT,
+			initialGain: kp,
+			maxGain: MAX_TUNING_GAIN,
+			stageTime: TUNING_STAGE_TIME,
+		});
+		setAutoTuneRunning(true);
+		setAutoTuneMessage(experimentRef.current.message);
+		setUltimateGain(null);
 	};
 
+	const handleAutoTuneCancel = () => {
+		experimentRef.current = null;
+		setAutoTuneRunning(false);
+		setAutoTuneMessage("Cancelled");
+	};
+
+	const proposedGains = useMemo(() => {
+		if (!ultimateGain) return null;
+		const gains = tuningRuleGains(tuningRule, ultimateGain, {
+			integral: true,
+			derivative: false,
+		});
+		return { kp: clamp(gains.kp, 0.1, 20), ki: clamp(gains.ki, 0, 2), kd: 0 };
+	}, [ultimateGain, tuningRule]);
+
+	// Apply a new proposal, whether from an experiment or a change of rule
+	useEffect(() => {
+		if (!proposedGains) return;
+		setKp(proposedGains.kp);
+		setKi(proposedGains.ki);
+	}, [proposedGains]);
+
 	const presets = [
 		{ name: "Baking", temp: 350 },
 		{ name: "Broiling", temp: 450 },
@@ -384,6 +729,11 @@ export default function OvenController() {
 						className="outline-none border-0 block w-full max-w-[320px]"
 						style={{ aspectRatio: `${OVEN_WIDTH} / ${OVEN_HEIGHT}` }}
 					/>
+					{caption && (
+						<span className="text-xs font-mono text-amber-400 mt-2">
+							{caption}
+						</span>
+					)}
 				</div>
 				<div className="flex-1 flex flex-col items-center min-w-0">
 					<canvas
@@ -468,8 +818,54 @@ export default function OvenController() {
 						{ki.toFixed(2)}
 					</span>
 				</div>
+				{showFeedforward && (
+					<div className="flex items-center gap-2">
+						<label className="text-sm font-mono text-zinc-400 w-8">FF</label>
+						<button
+							type="button"
+							onClick={() => setFeedforwardEnabled(!feedforwardEnabled)}
+							className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${feedforwardEnabled ? "bg-amber-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+							title="Add the heater duty that balances heat loss at the target"
+						>
+							Heat loss
+						</button>
+						{feedforwardEnabled && (
+							<span
+								className="text-sm font-mono text-amber-400"
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								{feedforwardDuty.toFixed(1)}% duty
+							</span>
+						)}
+					</div>
+				)}
 			</div>
 
+			{showAutoTune && (
+				<AutoTunePanel
+					method={autoTuneMethod}
+					onMethodChange={setAutoTuneMethod}
+					rule={tuningRule}
+					onRuleChange={setTuningRule}
+					running={autoTuneRunning}
+					onStart={handleAutoTuneStart}
+					onCancel={handleAutoTuneCancel}
+					message={autoTuneMessage}
+					result={ultimateGain}
+					proposed={proposedGains}
+					showKd={false}
+				/>
+			)}
+
+			{showAntiWindupSelect && (
+				<AntiWindupSelect
+					method={antiWindup}
+					onMethodChange={setAntiWindup}
+					trackingGain={trackingGain}
+					onTrackingGainChange={setTrackingGain}
+				/>
+			)}
+
 			<div className="flex justify-between items-center flex-wrap gap-3">
 				<div className="flex gap-2 items-center">
 					<button
@@ -530,6 +926,12 @@ export default function OvenController() {
 							</svg>
 						)}
 					</button>
+					<SpeedControls
+						speed={speed}
+						onSpeedChange={setSpeed}
+						onStep={() => (pendingStepsRef.current += 1)}
+						stepDisabled={isRunning}
+					/>
 					<button
 						type="button"
 						onClick={() => setDoorOpen(!doorOpen)}
@@ -563,29 +965,31 @@ export default function OvenController() {
 							)}
 						</svg>
 					</button>
-					<button
-						type="button"
-						onClick={() => setConditionalI(!conditionalI)}
-						className={`p-2.5 rounded-xl transition-all ${conditionalI ? "bg-green-600/20 hover:bg-green-600/30" : "bg-zinc-900 hover:bg-zinc-800 active:bg-zinc-700"}`}
-						title={conditionalI ? "Conditional I ON - only accumulates near target" : "Conditional I OFF - always accumulates"}
-					>
-						<svg
-							xmlns="http://www.w3.org/2000/svg"
-							width="20"
-							height="20"
-							viewBox="0 0 24 24"
-							fill="none"
-							stroke="#4ade80"
-							strokeWidth="2"
-							strokeLinecap="round"
-							strokeLinejoin="round"
+					{!showAntiWindupSelect && (
+						<button
+							type="button"
+							onClick={() => setConditionalI(!conditionalI)}
+							className={`p-2.5 rounded-xl transition-all ${conditionalI ? "bg-green-600/20 hover:bg-green-600/30" : "bg-zinc-900 hover:bg-zinc-800 active:bg-zinc-700"}`}
+							title={conditionalI ? "Conditional I ON - only accumulates near target" : "Conditional I OFF - always accumulates"}
 						>
-							<circle cx="12" cy="12" r="8" />
-							<path d="M12 8v4" />
-							<path d="M12 16h.01" />
-							{conditionalI && <path d="M8 12h8" strokeWidth="2.5" />}
-						</svg>
-					</button>
+							<svg
+								xmlns="http://www.w3.org/2000/svg"
+								width="20"
+								height="20"
+								viewBox="0 0 24 24"
+								fill="none"
+								stroke="#4ade80"
+								strokeWidth="2"
+								strokeLinecap="round"
+								strokeLinejoin="round"
+							>
+								<circle cx="12" cy="12" r="8" />
+								<path d="M12 8v4" />
+								<path d="M12 16h.01" />
+								{conditionalI && <path d="M8 12h8" strokeWidth="2.5" />}
+							</svg>
+						</button>
+					)}
 				</div>
 				<div className="flex gap-2 font-mono text-xs flex-wrap justify-center">
 					<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[55px]">
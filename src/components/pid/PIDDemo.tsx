@@ -1,11 +1,91 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
-
-interface MotorState {
-	angle: number;
-	angularVelocity: number;
-	integral: number;
-	prevError: number;
-}
+import React, {
+	useRef,
+	useEffect,
+	useState,
+	useCallback,
+	useMemo,
+} from "react";
+import ActuatorPanel from "./ActuatorPanel";
+import AntiWindupSelect from "./AntiWindupSelect";
+import AutoTunePanel from "./AutoTunePanel";
+import ControlLoopDiagram from "./ControlLoopDiagram";
+import type { LoopBlock, LoopSignals } from "./ControlLoopDiagram";
+import DisturbancePanel from "./DisturbancePanel";
+import FeedforwardPanel from "./FeedforwardPanel";
+import LoopAnalysis from "./LoopAnalysis";
+import MotionProfilePanel from "./MotionProfilePanel";
+import SampleRateControl from "./SampleRateControl";
+import SensorPanel from "./SensorPanel";
+import SetpointControls from "./SetpointControls";
+import SpeedControls from "./SpeedControls";
+import StepMetricsTable from "./StepMetricsTable";
+import {
+	ACTUATOR_LIMITS,
+	DEFAULT_INTEGRATOR,
+	DEFAULT_PROFILE,
+	DEFAULT_TRACKING_GAIN,
+	DT,
+	IDEAL_ACTUATOR,
+	IDEAL_SENSOR,
+	INTEGRAL_RATE,
+	INTEGRATORS,
+	KICK_IMPULSE,
+	MAX_TORQUE,
+	MOMENT_OF_INERTIA,
+	NO_DISTURBANCE,
+	NO_FEEDFORWARD,
+	POINTER_MOTOR_FRICTION,
+	advanceClock,
+	advancePlayback,
+	clamp,
+	createAutoTune,
+	createClock,
+	createPlayback,
+	createSensor,
+	createSetpointGenerator,
+	createStepRecord,
+	delayTransferFunction,
+	disturbanceTorque,
+	isWaveform,
+	kick,
+	motorPlant,
+	motorTransferFunction,
+	pauseClock,
+	pidTransferFunction,
+	pushTorque,
+	readSensor,
+	recordStepSample,
+	series,
+	stepAutoTune,
+	stepMetrics,
+	stepMotorPID,
+	stepPlant,
+	stepSetpoint,
+	trackingError,
+	tuningRuleGains,
+} from "./sim";
+import type {
+	ActuatorLimit,
+	ActuatorModel,
+	AntiWindupMethod,
+	AutoTuneExperiment,
+	AutoTuneMethod,
+	DerivativeSource,
+	DisturbanceSettings,
+	IntegratorMethod,
+	MotorFeedforward,
+	MotorLoopState as MotorState,
+	PIDOutput,
+	MotorStepOptions,
+	Scenario,
+	ScenarioEvent,
+	SensorModel,
+	SetpointProfile,
+	StepMetrics,
+	StepRecord,
+	TuningRule,
+	UltimateGain,
+} from "./sim";
 
 interface PIDDemoProps {
 	enableD?: boolean;
@@ -17,19 +97,77 @@ interface PIDDemoProps {
 	initialKd?: number;
 	initialKi?: number;
 	initialMass?: number;
+	integrator?: IntegratorMethod;
+	showIntegratorSelect?: boolean;
+	showSampleRateControl?: boolean;
+	initialSampleRate?: number;
+	showDerivativeOptions?: boolean;
+	showAntiWindupSelect?: boolean;
+	showSetpointControls?: boolean;
+	showFrequencyPlots?: boolean;
+	showMetrics?: boolean;
+	showAutoTune?: boolean;
+	showDisturbances?: boolean;
+	/** Angle sensor defects, on top of the ideal sensor. */
+	sensor?: Partial<SensorModel>;
+	showSensorModel?: boolean;
+	/** Actuator dynamics between the controller and the pointer. */
+	actuator?: Partial<ActuatorModel>;
+	showActuatorModel?: boolean;
+	/**
+	 * Block diagram wired to the running loop. Clicking a block shows its
+	 * parameters in place of the full set of sliders.
+	 */
+	showLoopDiagram?: boolean;
+	/**
+	 * Model-based feedforward terms added ahead of the PID, plotted apart from
+	 * the feedback they leave the PID to do.
+	 */
+	showFeedforward?: boolean;
+	/**
+	 * Setpoint generator: trapezoidal and S-curve moves to each new target,
+	 * or a sine sweep or square wave about it, with the RMS tracking error.
+	 */
+	showMotionProfiles?: boolean;
+	/**
+	 * Scripted events, replayed from the start and on every reset. Targets are
+	 * in radians and disturbances in N·m; `set` accepts kp, ki, kd, mass and
+	 * noise (on/off), each only where its control is enabled.
+	 */
+	scenario?: Scenario;
+}
+
+interface TermTrace {
+	label: string;
+	color: string;
+	values: number[];
 }
 
-const MOMENT_OF_INERTIA = 0.12;
-const FRICTION = 0.08;
-const MAX_TORQUE = 2;
 const MAX_INTEGRAL = 2;
-const DT = 1 / 60;
+// Conditional integration only runs within 20° of the target
+const INTEGRATION_BAND = Math.PI / 9;
+const DEFAULT_FILTER_N = 10;
+const DEFAULT_RAMP_RATE = 90; // °/s
+// Metrics cover at most this many seconds after each target change
+const MAX_STEP_SAMPLES = Math.round(20 / DT);
+// Auto-tune: relay swing in N·m, and the hysteresis that rides over noise
+const RELAY_AMPLITUDE = 0.3;
+const RELAY_HYSTERESIS = 0.03;
+const MAX_TUNING_GAIN = 20;
+const TUNING_STAGE_TIME = 4;
 const DPR =
 	typeof window !== "undefined" ? Math.min(window.devicePixelRatio || 1, 2) : 2;
 const CANVAS_WIDTH = 440;
 const CANVAS_HEIGHT = 280;
 const PLOT_WIDTH = 440;
 const PLOT_HEIGHT = 280;
+// Plot shading for each way the actuator can fall short of the command
+const LIMIT_COLORS: Record<ActuatorLimit, string> = {
+	saturation: "#ef4444",
+	deadband: "#38bdf8",
+	slew: "#f59e0b",
+	backlash: "#a78bfa",
+};
 const MIN_ANGLE = Math.PI / 4;
 const MAX_ANGLE = (3 * Math.PI) / 4;
 
@@ -43,6 +181,25 @@ export default function PIDDemo({
 	initialKd = 0.8,
 	initialKi = 0.3,
 	initialMass = 0.5,
+	integrator = DEFAULT_INTEGRATOR,
+	showIntegratorSelect = false,
+	showSampleRateControl = false,
+	initialSampleRate = 20,
+	showDerivativeOptions = false,
+	showAntiWindupSelect = false,
+	showSetpointControls = false,
+	showFrequencyPlots = false,
+	showMetrics = false,
+	showAutoTune = false,
+	showDisturbances = false,
+	sensor,
+	showSensorModel = false,
+	actuator,
+	showActuatorModel = false,
+	showLoopDiagram = false,
+	showFeedforward = false,
+	showMotionProfiles = false,
+	scenario,
 }: PIDDemoProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -60,9 +217,44 @@ export default function PIDDemo({
 	const [ki, setKi] = useState(enableI ? initialKi : 0);
 	const [mass, setMass] = useState(enableMass ? initialMass : 0);
 	const [noiseEnabled, setNoiseEnabled] = useState(false);
-	const [clampingEnabled, setClampingEnabled] = useState(false);
+	// Load torque in N·m, set by scenario events
+	const [disturbance, setDisturbance] = useState(0);
+	const [caption, setCaption] = useState<string | null>(null);
+	const initialSensor = { ...IDEAL_SENSOR, ...sensor };
+	const [sensorModel, setSensorModel] = useState<SensorModel>(initialSensor);
+	// Delay line and noise memory of the sensor, restarted on reset
+	const sensorRef = useRef(createSensor());
+	const initialActuator = { ...IDEAL_ACTUATOR, ...actuator };
+	const [actuatorModel, setActuatorModel] =
+		useState<ActuatorModel>(initialActuator);
+	const [disturbanceSettings, setDisturbanceSettings] =
+		useState<DisturbanceSettings>(NO_DISTURBANCE);
+	const [pushEnabled, setPushEnabled] = useState(false);
+	const [loopSignals, setLoopSignals] = useState<LoopSignals | null>(null);
+	const [openBlock, setOpenBlock] = useState<LoopBlock>("controller");
+	// Where the reader's hand is pulling the pointer, while they drag in push mode
+	const pushAngleRef = useRef<number | null>(null);
+	const [antiWindup, setAntiWindup] = useState<AntiWindupMethod>("none");
+	const [trackingGain, setTrackingGain] = useState(DEFAULT_TRACKING_GAIN);
 	const [holdEnabled, setHoldEnabled] = useState(false);
+	const [integratorMethod, setIntegratorMethod] =
+		useState<IntegratorMethod>(integrator);
+	const [discreteEnabled, setDiscreteEnabled] = useState(false);
+	const [sampleRate, setSampleRate] = useState(initialSampleRate);
+	const [derivativeOn, setDerivativeOn] = useState<DerivativeSource>("error");
+	const [filterEnabled, setFilterEnabled] = useState(false);
+	const [filterN, setFilterN] = useState(DEFAULT_FILTER_N);
+	const [setpointWeight, setSetpointWeight] = useState(1);
+	const [derivativeWeight, setDerivativeWeight] = useState(1);
+	const [rampEnabled, setRampEnabled] = useState(false);
+	const [rampRate, setRampRate] = useState(DEFAULT_RAMP_RATE);
+	const [feedforwardTerms, setFeedforwardTerms] =
+		useState<MotorFeedforward>(NO_FEEDFORWARD);
+	const [profile, setProfile] = useState<SetpointProfile>(DEFAULT_PROFILE);
+	// Reference the generator is moving toward the target, restarted on reset
+	const generatorRef = useRef(createSetpointGenerator(Math.PI / 2));
 	const [isRunning, setIsRunning] = useState(true);
+	const [speed, setSpeed] = useState(1);
 	const [isVisible, setIsVisible] = useState(true);
 	const [isDragging, setIsDragging] = useState(false);
 	const [mousePos, setMousePos] = useState<{ x: number; y: number } | null>(
@@ -74,7 +266,46 @@ export default function PIDDemo({
 	const [iOutput, setIOutput] = useState(0);
 	const historyRef = useRef<number[]>([]);
 	const targetHistoryRef = useRef<number[]>([]);
+	// Angle as last read by the discrete controller (null in continuous mode)
+	const sampledHistoryRef = useRef<(number | null)[]>([]);
+	const dHistoryRef = useRef<number[]>([]);
+	const iHistoryRef = useRef<number[]>([]);
+	const pHistoryRef = useRef<number[]>([]);
+	const limitHistoryRef = useRef<(ActuatorLimit | null)[]>([]);
+	// Feedforward torque and the feedback (P + I + D) summed with it
+	const ffHistoryRef = useRef<number[]>([]);
+	const fbHistoryRef = useRef<number[]>([]);
+	// Terms and output of the latest step, for the plot and the diagram
+	const termsRef = useRef<Omit<PIDOutput, "state"> & { feedforward: number }>({
+		p: 0,
+		i: 0,
+		d: 0,
+		output: 0,
+		feedforward: 0,
+	});
+	// Total external torque on the rotor, for the plot
+	const loadHistoryRef = useRef<number[]>([]);
+	const stepRecordRef = useRef<StepRecord>(
+		createStepRecord(Math.PI / 2, (3 * Math.PI) / 4),
+	);
+	const [metrics, setMetrics] = useState<StepMetrics | null>(null);
+	const [autoTuneMethod, setAutoTuneMethod] = useState<AutoTuneMethod>("relay");
+	const [tuningRule, setTuningRule] = useState<TuningRule>("ziegler-nichols");
+	const [autoTuneRunning, setAutoTuneRunning] = useState(false);
+	const [autoTuneMessage, setAutoTuneMessage] = useState<string | null>(null);
+	const [ultimateGain, setUltimateGain] = useState<UltimateGain | null>(null);
+	const experimentRef = useRef<AutoTuneExperiment | null>(null);
+	// The experiment's held output and the time since it last sampled, for
+	// discrete mode
+	const experimentSinceRef = useRef(0);
+	const experimentOutputRef = useRef<number | null>(null);
+	// Energy the integrator has gained or lost since the last reset
+	const driftRef = useRef(0);
+	const clockRef = useRef(createClock());
+	const pendingStepsRef = useRef(0);
 	const animationRef = useRef<number>();
+	// Scenario clock and the seeded noise source, both restarted on reset
+	const playbackRef = useRef(createPlayback(scenario));
 
 	const clampAngle = (angle: number) =>
 		Math.max(MIN_ANGLE, Math.min(MAX_ANGLE, angle));
@@ -87,60 +318,90 @@ export default function PIDDemo({
 			kdVal: number,
 			kiVal: number,
 			massVal: number,
-			noise: boolean,
-			clamp: boolean,
 			hold: boolean,
+			controlOptions: MotorStepOptions,
 		) => {
-			const measuredAngle = noise
-				? currentState.angle + (Math.random() - 0.5) * 0.05
-				: currentState.angle;
-			const error = target - measuredAngle;
-			const derivative = (error - currentState.prevError) / DT;
-
-			// Integral with optional anti-windup clamping (3x faster accumulation for responsiveness)
-			const rawIntegral = currentState.integral + error * DT * 3;
-			const newIntegral = clamp
-				? Math.max(-MAX_INTEGRAL, Math.min(MAX_INTEGRAL, rawIntegral))
-				: rawIntegral;
-
-			const pTerm = kpVal * error;
-			const dTerm = kdVal * derivative;
-			const iTerm = kiVal * newIntegral;
-			const torque = Math.max(
-				-MAX_TORQUE,
-				Math.min(MAX_TORQUE, pTerm + dTerm + iTerm),
+			const { state: next, pid, drift, feedforward } = stepMotorPID(
+				currentState,
+				target,
+				{ kp: kpVal, ki: kiVal, kd: kdVal },
+				{ inertia: MOMENT_OF_INERTIA, friction: POINTER_MOTOR_FRICTION, mass: massVal },
+				DT,
+				{
+					...controlOptions,
+					integralRate: INTEGRAL_RATE,
+					integralLimit: MAX_INTEGRAL,
+					integrationBand: INTEGRATION_BAND,
+					outputMin: -MAX_TORQUE,
+					outputMax: MAX_TORQUE,
+				},
 			);
 
-			setPOutput(pTerm);
-			setDOutput(dTerm);
-			setIOutput(iTerm);
+			setPOutput(pid.p);
+			termsRef.current = { ...pid, feedforward };
+			setDOutput(pid.d);
+			setIOutput(pid.i);
 
 			// If hold is enabled, freeze the physical state but keep accumulating integral
 			if (hold) {
 				return {
+					...next,
 					angle: currentState.angle,
 					angularVelocity: 0,
-					integral: newIntegral,
-					prevError: error,
 				};
 			}
 
-			// Mass creates gravitational torque
-			const gravityTorque = -massVal * Math.cos(currentState.angle);
-
-			const angularAcceleration =
-				(torque + gravityTorque - FRICTION * currentState.angularVelocity) /
-				MOMENT_OF_INERTIA;
-			const newVelocity =
-				currentState.angularVelocity + angularAcceleration * DT;
-			const newAngle = currentState.angle + newVelocity * DT;
-
-			return {
-				angle: newAngle,
-				angularVelocity: newVelocity,
-				integral: newIntegral,
-				prevError: error,
+			driftRef.current += drift;
+			return next;
+		},
+		[],
+	);
+
+	// One step under the auto-tune experiment, which drives the torque directly.
+	// A discrete controller's sample rate applies to the experiment too.
+	const simulateExperiment = useCallback(
+		(
+			currentState: MotorState,
+			experiment: AutoTuneExperiment,
+			massVal: number,
+			controlOptions: MotorStepOptions,
+		): MotorState => {
+			const period = controlOptions.sampleRate
+				? 1 / controlOptions.sampleRate
+				: DT;
+			if (
+				experimentOutputRef.current === null ||
+				experimentSinceRef.current >= period - 1e-9
+			) {
+				experimentSinceRef.current = 0;
+				experimentOutputRef.current = stepAutoTune(
+					experiment,
+					controlOptions.measuredAngle ?? currentState.angle,
+					period,
+				);
+			}
+			experimentSinceRef.current += DT;
+			const torque = experimentOutputRef.current;
+			setPOutput(torque);
+			termsRef.current = {
+				p: torque,
+				i: 0,
+				d: 0,
+				output: torque,
+				feedforward: 0,
 			};
+			setDOutput(0);
+			setIOutput(0);
+			const next = stepPlant(
+				motorPlant,
+				currentState,
+				torque + (controlOptions.disturbance ?? 0),
+				{ inertia: MOMENT_OF_INERTIA, friction: POINTER_MOTOR_FRICTION, mass: massVal },
+				DT,
+				controlOptions.integrator,
+			);
+			// The controller restarts from rest once the experiment ends
+			return { ...next, integral: 0, prevError: 0 };
 		},
 		[],
 	);
@@ -535,6 +796,9 @@ export default function PIDDemo({
 			ctx: CanvasRenderingContext2D,
 			history: number[],
 			targetHistory: number[],
+			sampledHistory: (number | null)[],
+			termTraces: TermTrace[],
+			limits: (ActuatorLimit | null)[],
 		) => {
 			const width = PLOT_WIDTH;
 			const height = PLOT_HEIGHT;
@@ -544,6 +808,23 @@ export default function PIDDemo({
 			ctx.fillStyle = "#000000";
 			ctx.fillRect(0, 0, width, height);
 
+			// Shade the steps where the actuator limited the torque
+			if (limits.length > 1) {
+				const stepWidth = (width - 2 * padding) / (limits.length - 1);
+				ctx.globalAlpha = 0.18;
+				limits.forEach((limit, i) => {
+					if (!limit) return;
+					ctx.fillStyle = LIMIT_COLORS[limit];
+					ctx.fillRect(
+						padding + stepWidth * (i - 0.5),
+						padding,
+						stepWidth,
+						height - 2 * padding,
+					);
+				});
+				ctx.globalAlpha = 1;
+			}
+
 			ctx.strokeStyle = "#1e293b";
 			ctx.lineWidth = 1;
 			for (let i = 0; i <= 4; i++) {
@@ -593,11 +874,67 @@ export default function PIDDemo({
 				ctx.stroke();
 			}
 
+			// What the discrete controller sees: the held samples as a staircase
+			if (sampledHistory.some((value) => value !== null)) {
+				ctx.beginPath();
+				ctx.strokeStyle = "#34d399";
+				ctx.lineWidth = 1.5;
+				let prevY: number | null = null;
+				for (let i = 0; i < sampledHistory.length; i++) {
+					const value = sampledHistory[i];
+					if (value === null) {
+						prevY = null;
+						continue;
+					}
+					const x =
+						padding + ((width - 2 * padding) * i) / (sampledHistory.length - 1);
+					const y = padding + (height - 2 * padding) * (1 - value / Math.PI);
+					if (prevY === null) ctx.moveTo(x, y);
+					else {
+						ctx.lineTo(x, prevY);
+						ctx.lineTo(x, y);
+					}
+					prevY = y;
+				}
+				ctx.stroke();
+			}
+
+			// PID terms against a ±MAX_TORQUE scale centred on the plot
+			for (const trace of termTraces) {
+				if (trace.values.length < 2) continue;
+				ctx.beginPath();
+				ctx.strokeStyle = trace.color;
+				ctx.lineWidth = 1.5;
+				for (let i = 0; i < trace.values.length; i++) {
+					const x =
+						padding + ((width - 2 * padding) * i) / (trace.values.length - 1);
+					const scaled = Math.max(
+						-1,
+						Math.min(1, trace.values[i] / MAX_TORQUE),
+					);
+					const y = height / 2 - ((height - 2 * padding) / 2) * scaled;
+					if (i === 0) ctx.moveTo(x, y);
+					else ctx.lineTo(x, y);
+				}
+				ctx.stroke();
+			}
+
 			ctx.fillStyle = "#94a3b8";
 			ctx.font = "19px monospace";
 			ctx.textAlign = "left";
 			ctx.fillText("Position over time", padding, 22);
 
+			let limitX = width - padding;
+			ctx.font = "14px monospace";
+			ctx.textAlign = "right";
+			for (const { id, label } of [...ACTUATOR_LIMITS].reverse()) {
+				if (!limits.includes(id)) continue;
+				ctx.fillStyle = LIMIT_COLORS[id];
+				ctx.fillText(label, limitX, 42);
+				limitX -= ctx.measureText(label).width + 12;
+			}
+			ctx.textAlign = "left";
+
 			const legendY = height - 12;
 			ctx.fillStyle = "#fb923c";
 			ctx.fillRect(padding, legendY - 10, 10, 10);
@@ -608,6 +945,19 @@ export default function PIDDemo({
 			ctx.fillRect(padding + 100, legendY - 10, 10, 10);
 			ctx.fillStyle = "#93c5fd";
 			ctx.fillText("Pointer", padding + 116, legendY);
+			let legendX = padding + 210;
+			if (sampledHistory.some((value) => value !== null)) {
+				ctx.fillStyle = "#34d399";
+				ctx.fillRect(legendX, legendY - 10, 10, 10);
+				ctx.fillText("Sampled", legendX + 16, legendY);
+				legendX += 110;
+			}
+			for (const trace of termTraces) {
+				ctx.fillStyle = trace.color;
+				ctx.fillRect(legendX, legendY - 10, 10, 10);
+				ctx.fillText(trace.label, legendX + 16, legendY);
+				legendX += 45;
+			}
 		},
 		[],
 	);
@@ -629,29 +979,190 @@ export default function PIDDemo({
 		const ctx = canvas.getContext("2d");
 		if (!ctx || !isVisible) return;
 
-		const loop = () => {
-			if (isRunning) {
-				const effectiveKd = enableD ? kd : 0;
-				const effectiveKi = enableI ? ki : 0;
-				const effectiveMass = enableMass ? mass : 0;
-				const newState = simulate(
-					stateRef.current,
-					targetAngle,
-					kp,
-					effectiveKd,
-					effectiveKi,
-					effectiveMass,
-					noiseEnabled && enableNoise,
-					clampingEnabled,
-					holdEnabled,
-				);
+		const loop = (now: number) => {
+			let steps = pendingStepsRef.current;
+			pendingStepsRef.current = 0;
+			if (isRunning) steps += advanceClock(clockRef.current, now, DT, speed);
+			else pauseClock(clockRef.current);
+
+			// Scenario events take effect from the step they fall on, ahead of
+			// the state updates that carry them into later frames
+			let target = targetAngle;
+			let effectiveKp = kp;
+			let effectiveKd = enableD ? kd : 0;
+			let effectiveKi = enableI ? ki : 0;
+			let effectiveMass = enableMass ? mass : 0;
+			let noise = noiseEnabled && enableNoise;
+			// A generated reference already keeps to its own limits, so the
+			// ramp stands aside while one is running
+			const generating = showMotionProfiles && profile.shape !== "step";
+			const controlOptions: MotorStepOptions = {
+				integrator: integratorMethod,
+				trackDrift: showIntegratorSelect,
+				antiWindup,
+				trackingGain,
+				sampleRate: discreteEnabled ? sampleRate : undefined,
+				derivativeOn,
+				derivativeFilter: filterEnabled ? filterN : undefined,
+				setpointWeight,
+				derivativeWeight,
+				setpointRate:
+					rampEnabled && !generating ? (rampRate * Math.PI) / 180 : undefined,
+				actuator: showActuatorModel ? actuatorModel : undefined,
+				feedforwardTerms: showFeedforward ? feedforwardTerms : undefined,
+			};
+			let load = disturbance;
+			// The sensor's delay counts controller samples, which span several
+			// steps when the controller is discrete
+			const stepsPerSample = discreteEnabled ? 1 / (sampleRate * DT) : 1;
+			const applyEvent = (event: ScenarioEvent) => {
+				if (event.type === "target") {
+					target = clampAngle(event.value);
+					setTargetAngle(target);
+				} else if (event.type === "disturbance") {
+					load = event.value;
+					setDisturbance(event.value);
+				} else if (typeof event.value === "boolean") {
+					if (event.param === "noise" && enableNoise) {
+						noise = event.value;
+						setNoiseEnabled(event.value);
+					}
+				} else if (event.param === "kp") {
+					effectiveKp = event.value;
+					setKp(event.value);
+				} else if (event.param === "kd" && enableD) {
+					effectiveKd = event.value;
+					setKd(event.value);
+				} else if (event.param === "ki" && enableI) {
+					effectiveKi = event.value;
+					setKi(event.value);
+				} else if (event.param === "mass" && enableMass) {
+					effectiveMass = event.value;
+					setMass(event.value);
+				}
+			};
+			for (let step = 0; step < steps; step++) {
+				// The scenario clock doubles as the sinusoid's time base
+				const time = playbackRef.current.time;
+				advancePlayback(playbackRef.current, DT).forEach(applyEvent);
+				controlOptions.disturbance = load;
+				if (showDisturbances) {
+					controlOptions.disturbance += disturbanceTorque(
+						disturbanceSettings,
+						time,
+					);
+					if (pushAngleRef.current !== null)
+						controlOptions.disturbance += pushTorque(
+							stateRef.current,
+							pushAngleRef.current,
+						);
+				}
+				controlOptions.measuredAngle =
+					readSensor(
+						sensorRef.current,
+						sensorModel,
+						stateRef.current.angle,
+						playbackRef.current.rng,
+						stepsPerSample,
+					) + (noise ? (playbackRef.current.rng() - 0.5) * 0.05 : 0);
+				let setpoint = target;
+				if (showMotionProfiles) {
+					// Waveforms are centred so their swing stays inside the stops
+					const center = isWaveform(profile.shape)
+						? clamp(
+								target,
+								MIN_ANGLE + profile.amplitude,
+								MAX_ANGLE - profile.amplitude,
+							)
+						: target;
+					const sample = stepSetpoint(generatorRef.current, profile, center, DT);
+					setpoint = clampAngle(sample.position);
+					controlOptions.referenceMotion = sample;
+				}
+				const experiment = experimentRef.current;
+				const newState =
+					experiment?.status === "running"
+						? simulateExperiment(
+								stateRef.current,
+								experiment,
+								effectiveMass,
+								controlOptions,
+							)
+						: simulate(
+								stateRef.current,
+								setpoint,
+								effectiveKp,
+								effectiveKd,
+								effectiveKi,
+								effectiveMass,
+								holdEnabled,
+								controlOptions,
+							);
 				stateRef.current = newState;
-				setState(newState);
 				historyRef.current.push(newState.angle);
-				targetHistoryRef.current.push(targetAngle);
+				targetHistoryRef.current.push(newState.reference ?? setpoint);
+				sampledHistoryRef.current.push(
+					newState.sampledAngle ??
+						(showSensorModel ? controlOptions.measuredAngle : null),
+				);
+				dHistoryRef.current.push(effectiveKd * (newState.derivative ?? 0));
+				iHistoryRef.current.push(effectiveKi * newState.integral);
+				pHistoryRef.current.push(termsRef.current.p);
+				ffHistoryRef.current.push(termsRef.current.feedforward);
+				fbHistoryRef.current.push(
+					termsRef.current.p + termsRef.current.i + termsRef.current.d,
+				);
+				limitHistoryRef.current.push(newState.actuator?.limit ?? null);
+				loadHistoryRef.current.push(controlOptions.disturbance);
+				stepRecordRef.current = recordStepSample(
+					stepRecordRef.current,
+					newState.angle,
+					setpoint,
+					MAX_STEP_SAMPLES,
+				);
 				if (historyRef.current.length > 200) {
 					historyRef.current.shift();
 					targetHistoryRef.current.shift();
+					sampledHistoryRef.current.shift();
+					dHistoryRef.current.shift();
+					iHistoryRef.current.shift();
+					pHistoryRef.current.shift();
+					ffHistoryRef.current.shift();
+					fbHistoryRef.current.shift();
+					limitHistoryRef.current.shift();
+					loadHistoryRef.current.shift();
+				}
+			}
+			if (steps > 0) {
+				setState(stateRef.current);
+				setCaption(playbackRef.current.caption);
+				if (showMetrics) setMetrics(stepMetrics(stepRecordRef.current, DT));
+				if (showLoopDiagram) {
+					// What the controller saw and did on the last step
+					const latest = stateRef.current;
+					const { p, i, d, output } = termsRef.current;
+					const setpoint = targetHistoryRef.current.at(-1) ?? target;
+					const measurement =
+						latest.sampledAngle ?? controlOptions.measuredAngle ?? latest.angle;
+					setLoopSignals({
+						setpoint,
+						error: setpoint - measurement,
+						p,
+						i,
+						d,
+						command: output,
+						torque: latest.actuator?.torque ?? output,
+						measurement,
+					});
+				}
+				const experiment = experimentRef.current;
+				if (experiment) {
+					setAutoTuneMessage(experiment.message);
+					if (experiment.status !== "running") {
+						experimentRef.current = null;
+						setAutoTuneRunning(false);
+						if (experiment.result) setUltimateGain(experiment.result);
+					}
 				}
 			}
 			drawMotor(
@@ -668,10 +1179,46 @@ export default function PIDDemo({
 				isDragging,
 				enableD,
 			);
+			const termTraces: TermTrace[] = [];
+			if (showSensorModel)
+				termTraces.push({
+					label: "P",
+					color: "#60a5fa",
+					values: pHistoryRef.current,
+				});
+			if (enableD && (showDerivativeOptions || showSensorModel))
+				termTraces.push({ label: "D", color: "#c084fc", values: dHistoryRef.current });
+			if (enableI && (showAntiWindupSelect || showSensorModel))
+				termTraces.push({ label: "I", color: "#4ade80", values: iHistoryRef.current });
+			if (showFeedforward) {
+				termTraces.push({
+					label: "FF",
+					color: "#fbbf24",
+					values: ffHistoryRef.current,
+				});
+				termTraces.push({
+					label: "FB",
+					color: "#38bdf8",
+					values: fbHistoryRef.current,
+				});
+			}
+			if (showDisturbances)
+				termTraces.push({
+					label: "Load",
+					color: "#fb7185",
+					values: loadHistoryRef.current,
+				});
 			if (plotCanvasRef.current) {
 				const plotCtx = plotCanvasRef.current.getContext("2d");
 				if (plotCtx)
-					drawPlot(plotCtx, historyRef.current, targetHistoryRef.current);
+					drawPlot(
+						plotCtx,
+						historyRef.current,
+						targetHistoryRef.current,
+						sampledHistoryRef.current,
+						termTraces,
+						limitHistoryRef.current,
+					);
 			}
 			animationRef.current = requestAnimationFrame(loop);
 		};
@@ -681,18 +1228,44 @@ export default function PIDDemo({
 		};
 	}, [
 		simulate,
+		simulateExperiment,
 		drawMotor,
 		drawPlot,
 		targetAngle,
 		isRunning,
+		speed,
 		isVisible,
 		kp,
 		kd,
 		ki,
 		mass,
 		noiseEnabled,
-		clampingEnabled,
+		disturbance,
+		disturbanceSettings,
+		showDisturbances,
+		sensorModel,
+		showSensorModel,
+		actuatorModel,
+		showActuatorModel,
+		antiWindup,
+		trackingGain,
+		showAntiWindupSelect,
 		holdEnabled,
+		integratorMethod,
+		discreteEnabled,
+		sampleRate,
+		derivativeOn,
+		filterEnabled,
+		filterN,
+		showDerivativeOptions,
+		setpointWeight,
+		derivativeWeight,
+		rampEnabled,
+		rampRate,
+		showFeedforward,
+		feedforwardTerms,
+		showMotionProfiles,
+		profile,
 		pOutput,
 		dOutput,
 		iOutput,
@@ -703,10 +1276,13 @@ export default function PIDDemo({
 		enableI,
 		enableMass,
 		enableNoise,
+		showMetrics,
+		showLoopDiagram,
 	]);
 
 	const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-		if (isNearTarget(e)) setIsDragging(true);
+		if (pushEnabled) pushAngleRef.current = getAngleFromMouse(e);
+		else if (isNearTarget(e)) setIsDragging(true);
 		else {
 			const angle = getAngleFromMouse(e);
 			if (angle !== null) setTargetAngle(clampAngle(angle));
@@ -723,15 +1299,24 @@ export default function PIDDemo({
 			x: (e.clientX - rect.left) * scaleX,
 			y: (e.clientY - rect.top) * scaleY,
 		});
-		if (isDragging) {
+		if (pushAngleRef.current !== null) {
+			pushAngleRef.current = getAngleFromMouse(e);
+		} else if (isDragging) {
 			const angle = getAngleFromMouse(e);
 			if (angle !== null) setTargetAngle(clampAngle(angle));
 		}
-		canvas.style.cursor = isNearTarget(e) ? "grab" : "crosshair";
+		canvas.style.cursor = pushEnabled
+			? "grabbing"
+			: isNearTarget(e)
+				? "grab"
+				: "crosshair";
 	};
 
 	const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-		if (isNearTargetTouch(e)) {
+		if (pushEnabled) {
+			e.preventDefault();
+			pushAngleRef.current = getAngleFromTouch(e);
+		} else if (isNearTargetTouch(e)) {
 			e.preventDefault();
 			setIsDragging(true);
 		} else {
@@ -741,7 +1326,10 @@ export default function PIDDemo({
 	};
 
 	const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
-		if (isDragging) {
+		if (pushAngleRef.current !== null) {
+			e.preventDefault();
+			pushAngleRef.current = getAngleFromTouch(e);
+		} else if (isDragging) {
 			e.preventDefault();
 			const angle = getAngleFromTouch(e);
 			if (angle !== null) setTargetAngle(clampAngle(angle));
@@ -750,6 +1338,12 @@ export default function PIDDemo({
 
 	const handleTouchEnd = () => {
 		setIsDragging(false);
+		pushAngleRef.current = null;
+	};
+
+	const handleKick = (direction: 1 | -1) => {
+		stateRef.current = kick(stateRef.current, direction * KICK_IMPULSE);
+		setState(stateRef.current);
 	};
 
 	const handleReset = () => {
@@ -763,17 +1357,165 @@ export default function PIDDemo({
 		setState(initialState);
 		historyRef.current = [];
 		targetHistoryRef.current = [];
+		sampledHistoryRef.current = [];
+		dHistoryRef.current = [];
+		iHistoryRef.current = [];
+		pHistoryRef.current = [];
+		ffHistoryRef.current = [];
+		fbHistoryRef.current = [];
+		limitHistoryRef.current = [];
+		loadHistoryRef.current = [];
+		termsRef.current = { p: 0, i: 0, d: 0, output: 0, feedforward: 0 };
+		setLoopSignals(null);
+		stepRecordRef.current = createStepRecord(Math.PI / 2, (3 * Math.PI) / 4);
+		setMetrics(null);
+		experimentRef.current = null;
+		setAutoTuneRunning(false);
+		setAutoTuneMessage(null);
+		setUltimateGain(null);
+		driftRef.current = 0;
+		playbackRef.current = createPlayback(scenario);
+		sensorRef.current = createSensor();
+		setSensorModel(initialSensor);
+		setActuatorModel(initialActuator);
+		setDisturbance(0);
+		setDisturbanceSettings(NO_DISTURBANCE);
+		setFeedforwardTerms(NO_FEEDFORWARD);
+		setProfile(DEFAULT_PROFILE);
+		generatorRef.current = createSetpointGenerator(Math.PI / 2);
+		setPushEnabled(false);
+		pushAngleRef.current = null;
+		setCaption(null);
 		setTargetAngle((3 * Math.PI) / 4);
 		setKp(initialKp);
 		setKd(enableD ? initialKd : 0);
 		setKi(enableI ? initialKi : 0);
 		setMass(enableMass ? initialMass : 0);
 		setNoiseEnabled(false);
-		setClampingEnabled(false);
+		setAntiWindup("none");
+		setTrackingGain(DEFAULT_TRACKING_GAIN);
 		setHoldEnabled(false);
+		setIntegratorMethod(integrator);
+		setDiscreteEnabled(false);
+		setSampleRate(initialSampleRate);
+		setDerivativeOn("error");
+		setFilterEnabled(false);
+		setFilterN(DEFAULT_FILTER_N);
+		setSetpointWeight(1);
+		setDerivativeWeight(1);
+		setRampEnabled(false);
+		setRampRate(DEFAULT_RAMP_RATE);
+	};
+
+	const handleAutoTuneStart = () => {
+		// Perturb around the torque currently holding the pointer
+		const bias = clamp(pOutput + dOutput + iOutput, -MAX_TORQUE, MAX_TORQUE);
+		experimentRef.current = createAutoTune(autoTuneMethod, {
+			setpoint: targetAngle,
+			bias,
+			amplitude: RELAY_AMPLITUDE,
+			hysteresis: RELAY_HYSTERESIS,
+			outputMin: -MAX_TORQUE,
+			outputMax: MAX_TORQUE,
+			initialGain: kp,
+			maxGain: MAX_TUNING_GAIN,
+			stageTime: TUNING_STAGE_TIME,
+		});
+		experimentOutputRef.current = null;
+		setAutoTuneRunning(true);
+		setAutoTuneMessage(experimentRef.current.message);
+		setUltimateGain(null);
+	};
+
+	const handleAutoTuneCancel = () => {
+		experimentRef.current = null;
+		setAutoTuneRunning(false);
+		setAutoTuneMessage("Cancelled");
 	};
 
+	// Proposed gains in slider units, which scale Ki by INTEGRAL_RATE
+	const proposedGains = useMemo(() => {
+		if (!ultimateGain) return null;
+		const gains = tuningRuleGains(tuningRule, ultimateGain, {
+			integral: enableI,
+			derivative: enableD,
+		});
+		return {
+			kp: clamp(gains.kp, 0.1, 5),
+			ki: clamp(gains.ki / INTEGRAL_RATE, 0, 1),
+			kd: clamp(gains.kd, 0, 2),
+		};
+	}, [ultimateGain, tuningRule, enableI, enableD]);
+
+	// Apply a new proposal, whether from an experiment or a change of rule
+	useEffect(() => {
+		if (!proposedGains) return;
+		setKp(proposedGains.kp);
+		setKi(proposedGains.ki);
+		setKd(proposedGains.kd);
+	}, [proposedGains]);
+
+	const handleIntegratorChange = (method: IntegratorMethod) => {
+		driftRef.current = 0;
+		setIntegratorMethod(method);
+	};
+
+	// Open loop linearized about the target, where the pointer settles. A
+	// discrete controller's zero-order hold acts like half a sample of delay.
+	const loopTransferFunction = useMemo(
+		() =>
+			series(
+				series(
+					pidTransferFunction(
+						{
+							kp,
+							ki: enableI ? ki * INTEGRAL_RATE : 0,
+							kd: enableD ? kd : 0,
+						},
+						filterEnabled ? filterN : undefined,
+					),
+					delayTransferFunction(discreteEnabled ? 0.5 / sampleRate : 0),
+				),
+				motorTransferFunction(
+					{
+						inertia: MOMENT_OF_INERTIA,
+						friction: POINTER_MOTOR_FRICTION,
+						mass: enableMass ? mass : 0,
+					},
+					targetAngle,
+				),
+			),
+		[
+			kp,
+			ki,
+			kd,
+			mass,
+			targetAngle,
+			enableI,
+			enableD,
+			enableMass,
+			filterEnabled,
+			filterN,
+			discreteEnabled,
+			sampleRate,
+		],
+	);
+
 	const error = targetAngle - state.angle;
+	const rmsTrackingError = showMotionProfiles
+		? trackingError(historyRef.current, targetHistoryRef.current)
+		: 0;
+	const clampingEnabled = antiWindup === "clamping";
+
+	// Blocks on the diagram that have parameters in this demo
+	const diagramBlocks: LoopBlock[] = ["controller"];
+	if (showSetpointControls || showMotionProfiles)
+		diagramBlocks.push("setpoint");
+	if (showActuatorModel) diagramBlocks.push("actuator");
+	if (enableMass || showDisturbances) diagramBlocks.push("plant");
+	if (showSensorModel) diagramBlocks.push("sensor");
+	const blockOpen = (block: LoopBlock) =>
+		!showLoopDiagram || openBlock === block;
 
 	return (
 		<div
@@ -793,9 +1535,13 @@ export default function PIDDemo({
 						height={CANVAS_HEIGHT * DPR}
 						onMouseDown={handleMouseDown}
 						onMouseMove={handleMouseMove}
-						onMouseUp={() => setIsDragging(false)}
+						onMouseUp={() => {
+							setIsDragging(false);
+							pushAngleRef.current = null;
+						}}
 						onMouseLeave={() => {
 							setIsDragging(false);
+							pushAngleRef.current = null;
 							setIsInCanvas(false);
 							setMousePos(null);
 						}}
@@ -806,6 +1552,11 @@ export default function PIDDemo({
 						className="outline-none border-0 block w-full max-w-[440px] touch-none"
 						style={{ aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}` }}
 					/>
+					{caption && (
+						<span className="text-xs font-mono text-amber-400 mt-2">
+							{caption}
+						</span>
+					)}
 				</div>
 				<div className="flex-1 flex flex-col items-center min-w-0">
 					<canvas
@@ -818,40 +1569,64 @@ export default function PIDDemo({
 				</div>
 			</div>
 
+			{showFrequencyPlots && <LoopAnalysis loop={loopTransferFunction} />}
+
+			{showLoopDiagram && (
+				<ControlLoopDiagram
+					signals={
+						loopSignals ?? {
+							setpoint: targetAngle,
+							error,
+							p: 0,
+							i: 0,
+							d: 0,
+							command: 0,
+							torque: 0,
+							measurement: state.angle,
+						}
+					}
+					blocks={diagramBlocks}
+					selectedBlock={openBlock}
+					onBlockClick={setOpenBlock}
+				/>
+			)}
+
 			<div className="flex flex-col gap-3 px-2 pb-2">
-				{/* Kp slider - always shown */}
-				<div className="flex items-center gap-4">
-					<label className="text-sm font-mono text-zinc-400 w-8">Kp</label>
-					<div className="flex-1 relative h-2">
-						<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
-						<div
-							className="absolute left-0 top-0 h-full bg-blue-500 rounded-lg"
-							style={{ width: `${((kp - 0.1) / 4.9) * 100}%` }}
-						/>
-						<input
-							type="range"
-							min="0.1"
-							max="5"
-							step="0.1"
-							value={kp}
-							onChange={(e) => setKp(parseFloat(e.target.value))}
-							className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-						/>
-						<div
-							className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-blue-500 rounded-full border-2 border-blue-300 pointer-events-none"
-							style={{ left: `calc(${((kp - 0.1) / 4.9) * 100}% - 8px)` }}
-						/>
+				{/* Kp slider - always shown with the controller */}
+				{blockOpen("controller") && (
+					<div className="flex items-center gap-4">
+						<label className="text-sm font-mono text-zinc-400 w-8">Kp</label>
+						<div className="flex-1 relative h-2">
+							<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+							<div
+								className="absolute left-0 top-0 h-full bg-blue-500 rounded-lg"
+								style={{ width: `${((kp - 0.1) / 4.9) * 100}%` }}
+							/>
+							<input
+								type="range"
+								min="0.1"
+								max="5"
+								step="0.1"
+								value={kp}
+								onChange={(e) => setKp(parseFloat(e.target.value))}
+								className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+							/>
+							<div
+								className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-blue-500 rounded-full border-2 border-blue-300 pointer-events-none"
+								style={{ left: `calc(${((kp - 0.1) / 4.9) * 100}% - 8px)` }}
+							/>
+						</div>
+						<span
+							className="text-sm font-mono text-blue-400 w-12 text-right"
+							style={{ fontVariantNumeric: "tabular-nums" }}
+						>
+							{kp.toFixed(1)}
+						</span>
 					</div>
-					<span
-						className="text-sm font-mono text-blue-400 w-12 text-right"
-						style={{ fontVariantNumeric: "tabular-nums" }}
-					>
-						{kp.toFixed(1)}
-					</span>
-				</div>
+				)}
 
 				{/* Kd slider - only if D enabled */}
-				{enableD && (
+				{enableD && blockOpen("controller") && (
 					<div className="flex items-center gap-4">
 						<label className="text-sm font-mono text-zinc-400 w-8">Kd</label>
 						<div className="flex-1 relative h-2">
@@ -884,7 +1659,7 @@ export default function PIDDemo({
 				)}
 
 				{/* Ki slider - only if I enabled */}
-				{enableI && (
+				{enableI && blockOpen("controller") && (
 					<div className="flex items-center gap-4">
 						<label className="text-sm font-mono text-zinc-400 w-8">Ki</label>
 						<div className="flex-1 relative h-2">
@@ -917,7 +1692,7 @@ export default function PIDDemo({
 				)}
 
 				{/* Mass slider - only if mass enabled */}
-				{enableMass && (
+				{enableMass && blockOpen("plant") && (
 					<div className="flex items-center gap-4">
 						<label className="text-sm font-mono text-zinc-400 w-8">Mass</label>
 						<div className="flex-1 relative h-2">
@@ -948,8 +1723,171 @@ export default function PIDDemo({
 						</span>
 					</div>
 				)}
+
+				{showSampleRateControl && blockOpen("controller") && (
+					<SampleRateControl
+						enabled={discreteEnabled}
+						onEnabledChange={setDiscreteEnabled}
+						rate={sampleRate}
+						onRateChange={setSampleRate}
+					/>
+				)}
+
+				{showFeedforward && blockOpen("controller") && (
+					<FeedforwardPanel
+						settings={feedforwardTerms}
+						onSettingsChange={setFeedforwardTerms}
+						trajectory={
+							rampEnabled ||
+							(showMotionProfiles && profile.shape !== "step")
+						}
+					/>
+				)}
+
+				{/* Derivative options - only if D enabled */}
+				{enableD && showDerivativeOptions && blockOpen("controller") && (
+					<>
+						<div className="flex items-center gap-2">
+							<label className="text-sm font-mono text-zinc-400 w-8">D on</label>
+							{(["error", "measurement"] as const).map((source) => (
+								<button
+									key={source}
+									type="button"
+									onClick={() => setDerivativeOn(source)}
+									className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${derivativeOn === source ? "bg-purple-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+									title={
+										source === "error"
+											? "Differentiate the error - target jumps kick the D term"
+											: "Differentiate the measurement - target jumps are ignored"
+									}
+								>
+									{source === "error" ? "Error" : "Measurement"}
+								</button>
+							))}
+						</div>
+						<div className="flex items-center gap-4">
+							<button
+								type="button"
+								onClick={() => setFilterEnabled(!filterEnabled)}
+								className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors w-28 ${filterEnabled ? "bg-purple-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+								title="Low-pass the D term with time constant (Kd/Kp)/N"
+							>
+								{filterEnabled ? "Filter on" : "Filter off"}
+							</button>
+							<div
+								className={`flex-1 relative h-2 transition-opacity ${filterEnabled ? "" : "opacity-40"}`}
+							>
+								<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+								<div
+									className="absolute left-0 top-0 h-full bg-purple-500 rounded-lg"
+									style={{ width: `${((filterN - 1) / 29) * 100}%` }}
+								/>
+								<input
+									type="range"
+									min="1"
+									max="30"
+									step="1"
+									value={filterN}
+									disabled={!filterEnabled}
+									onChange={(e) => setFilterN(parseFloat(e.target.value))}
+									className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+								/>
+								<div
+									className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-purple-500 rounded-full border-2 border-purple-300 pointer-events-none"
+									style={{ left: `calc(${((filterN - 1) / 29) * 100}% - 8px)` }}
+								/>
+							</div>
+							<span
+								className="text-sm font-mono text-purple-400 w-16 text-right"
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								N={filterN}
+							</span>
+						</div>
+					</>
+				)}
+
+				{showSetpointControls && blockOpen("setpoint") && (
+					<SetpointControls
+						setpointWeight={setpointWeight}
+						onSetpointWeightChange={setSetpointWeight}
+						derivativeWeight={derivativeWeight}
+						onDerivativeWeightChange={enableD ? setDerivativeWeight : undefined}
+						rampEnabled={rampEnabled}
+						onRampEnabledChange={setRampEnabled}
+						rampRate={rampRate}
+						onRampRateChange={setRampRate}
+					/>
+				)}
+
+				{showMotionProfiles && blockOpen("setpoint") && (
+					<MotionProfilePanel profile={profile} onProfileChange={setProfile} />
+				)}
+
+				{showActuatorModel && blockOpen("actuator") && (
+					<ActuatorPanel
+						model={actuatorModel}
+						onModelChange={setActuatorModel}
+					/>
+				)}
+
+				{showSensorModel && blockOpen("sensor") && (
+					<SensorPanel model={sensorModel} onModelChange={setSensorModel} />
+				)}
+
+				{showDisturbances && blockOpen("plant") && (
+					<DisturbancePanel
+						settings={disturbanceSettings}
+						onSettingsChange={setDisturbanceSettings}
+						onKick={handleKick}
+						pushEnabled={pushEnabled}
+						onPushEnabledChange={setPushEnabled}
+						pushHint="Drag on the motor to push the pointer by hand"
+					/>
+				)}
 			</div>
 
+			{showIntegratorSelect && (
+				<div className="flex flex-wrap gap-2 justify-center">
+					{INTEGRATORS.map((option) => (
+						<button
+							key={option.id}
+							type="button"
+							onClick={() => handleIntegratorChange(option.id)}
+							className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${integratorMethod === option.id ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+						>
+							{option.label}
+						</button>
+					))}
+				</div>
+			)}
+
+			{showAutoTune && (
+				<AutoTunePanel
+					method={autoTuneMethod}
+					onMethodChange={setAutoTuneMethod}
+					rule={tuningRule}
+					onRuleChange={setTuningRule}
+					running={autoTuneRunning}
+					onStart={handleAutoTuneStart}
+					onCancel={handleAutoTuneCancel}
+					message={autoTuneMessage}
+					result={ultimateGain}
+					proposed={proposedGains}
+					showKi={enableI}
+					showKd={enableD}
+				/>
+			)}
+
+			{enableI && showAntiWindupSelect && (
+				<AntiWindupSelect
+					method={antiWindup}
+					onMethodChange={setAntiWindup}
+					trackingGain={trackingGain}
+					onTrackingGainChange={setTrackingGain}
+				/>
+			)}
+
 			<div className="flex justify-between items-center flex-wrap gap-3">
 				<div className="flex gap-2 items-center">
 					<button
@@ -1010,6 +1948,12 @@ export default function PIDDemo({
 							</svg>
 						)}
 					</button>
+					<SpeedControls
+						speed={speed}
+						onSpeedChange={setSpeed}
+						onStep={() => (pendingStepsRef.current += 1)}
+						stepDisabled={isRunning}
+					/>
 					{enableNoise && (
 						<button
 							type="button"
@@ -1034,44 +1978,46 @@ export default function PIDDemo({
 					)}
 					{showClampingToggle && (
 						<>
-							<button
-								type="button"
-								onClick={() => setClampingEnabled(!clampingEnabled)}
-								className={`p-2.5 rounded-xl transition-all ${clampingEnabled ? "bg-green-600/20 hover:bg-green-600/30" : "bg-zinc-900 hover:bg-zinc-800 active:bg-zinc-700"}`}
-								title={
-									clampingEnabled
-										? "Clamping ON - integral is limited"
-										: "Clamping OFF - integral can grow unbounded"
-								}
-							>
-								<svg
-									xmlns="http://www.w3.org/2000/svg"
-									width="20"
-									height="20"
-									viewBox="0 0 24 24"
-									fill="none"
-									stroke="#4ade80"
-									strokeWidth="2"
-									strokeLinecap="round"
-									strokeLinejoin="round"
+							{!showAntiWindupSelect && (
+								<button
+									type="button"
+									onClick={() => setAntiWindup(clampingEnabled ? "none" : "clamping")}
+									className={`p-2.5 rounded-xl transition-all ${clampingEnabled ? "bg-green-600/20 hover:bg-green-600/30" : "bg-zinc-900 hover:bg-zinc-800 active:bg-zinc-700"}`}
+									title={
+										clampingEnabled
+											? "Clamping ON - integral is limited"
+											: "Clamping OFF - integral can grow unbounded"
+									}
 								>
-									{clampingEnabled ? (
-										<>
-											{/* Brackets with line bounded inside */}
-											<path d="M8 4H5a1 1 0 0 0-1 1v14a1 1 0 0 0 1 1h3" />
-											<path d="M16 4h3a1 1 0 0 1 1 1v14a1 1 0 0 1-1 1h-3" />
-											<path d="M9 12h6" />
-										</>
-									) : (
-										<>
-											{/* Brackets with line extending beyond */}
-											<path d="M8 4H5a1 1 0 0 0-1 1v14a1 1 0 0 0 1 1h3" />
-											<path d="M16 4h3a1 1 0 0 1 1 1v14a1 1 0 0 1-1 1h-3" />
-											<path d="M2 12h20" />
-										</>
-									)}
-								</svg>
-							</button>
+									<svg
+										xmlns="http://www.w3.org/2000/svg"
+										width="20"
+										height="20"
+										viewBox="0 0 24 24"
+										fill="none"
+										stroke="#4ade80"
+										strokeWidth="2"
+										strokeLinecap="round"
+										strokeLinejoin="round"
+									>
+										{clampingEnabled ? (
+											<>
+												{/* Brackets with line bounded inside */}
+												<path d="M8 4H5a1 1 0 0 0-1 1v14a1 1 0 0 0 1 1h3" />
+												<path d="M16 4h3a1 1 0 0 1 1 1v14a1 1 0 0 1-1 1h-3" />
+												<path d="M9 12h6" />
+											</>
+										) : (
+											<>
+												{/* Brackets with line extending beyond */}
+												<path d="M8 4H5a1 1 0 0 0-1 1v14a1 1 0 0 0 1 1h3" />
+												<path d="M16 4h3a1 1 0 0 1 1 1v14a1 1 0 0 1-1 1h-3" />
+												<path d="M2 12h20" />
+											</>
+										)}
+									</svg>
+								</button>
+							)}
 							<button
 								type="button"
 								onClick={() => setHoldEnabled(!holdEnabled)}
@@ -1174,8 +2120,53 @@ export default function PIDDemo({
 							{Math.min(Math.abs(pOutput + dOutput + iOutput), 9.99).toFixed(2)}
 						</span>
 					</div>
+					{showMotionProfiles && (
+						<div
+							className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]"
+							title="RMS gap between the angle and the reference across the plot"
+						>
+							<span className="text-zinc-500 text-[10px]">Track</span>
+							<span
+								className="text-sky-400"
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								{Math.min((rmsTrackingError * 180) / Math.PI, 99.9).toFixed(1)}°
+							</span>
+						</div>
+					)}
+					{showIntegratorSelect && (
+						<div
+							className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]"
+							title="Energy gained (+) or lost (−) to integration error since reset"
+						>
+							<span className="text-zinc-500 text-[10px]">Drift</span>
+							<span
+								className="text-amber-400"
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								<span className="inline-block w-[0.6em] text-right">
+									{driftRef.current < 0 ? "−" : ""}
+								</span>
+								{Math.min(Math.abs(driftRef.current), 9.99).toFixed(3)}J
+							</span>
+						</div>
+					)}
 				</div>
 			</div>
+
+			{showMetrics && (
+				<StepMetricsTable
+					rows={[
+						{
+							name: `P${enableI ? "I" : ""}${enableD ? "D" : ""}`,
+							color: "#3b82f6",
+							metrics,
+						},
+					]}
+					errorScale={180 / Math.PI}
+					errorUnit="°"
+				/>
+			)}
 		</div>
 	);
 }
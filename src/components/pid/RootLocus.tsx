@@ -0,0 +1,551 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+	INTEGRAL_RATE,
+	MOMENT_OF_INERTIA,
+	OVEN_HEATER_GAIN,
+	OVEN_PARAMS,
+	POINTER_MOTOR_FRICTION,
+	closedLoop,
+	motorTransferFunction,
+	ovenTransferFunction,
+	pidTransferFunction,
+	polyAdd,
+	polyMul,
+	polyRoots,
+	series,
+	stepResponse,
+} from "./sim";
+import type { Complex, PIDGains, TransferFunction } from "./sim";
+
+type PlantId = "motor" | "oven";
+type GainId = keyof PIDGains;
+
+interface RootLocusProps {
+	initialPlant?: PlantId;
+}
+
+interface GainRange {
+	min: number;
+	max: number;
+	step: number;
+}
+
+interface PlantConfig {
+	label: string;
+	/** Slider ranges; a gain without a range is held at zero. */
+	ranges: { kp: GainRange; ki?: GainRange; kd?: GainRange };
+	defaults: PIDGains;
+	/** Length of the step-response thumbnail in seconds. */
+	duration: number;
+}
+
+const DPR =
+	typeof window !== "undefined" ? Math.min(window.devicePixelRatio || 1, 2) : 2;
+const LOCUS_WIDTH = 440;
+const LOCUS_HEIGHT = 280;
+const STEP_WIDTH = 260;
+const STEP_HEIGHT = 160;
+const LOCUS_SAMPLES = 200;
+const STEP_POINTS = 200;
+
+// Matches PIDDemo's default target and mass
+const OPERATING_ANGLE = (3 * Math.PI) / 4;
+const DEFAULT_MASS = 0.5;
+
+const PLANTS: Record<PlantId, PlantConfig> = {
+	motor: {
+		label: "Motor",
+		ranges: {
+			kp: { min: 0.1, max: 5, step: 0.1 },
+			ki: { min: 0, max: 1, step: 0.05 },
+			kd: { min: 0, max: 2, step: 0.05 },
+		},
+		defaults: { kp: 2, ki: 0.3, kd: 0.8 },
+		duration: 5,
+	},
+	oven: {
+		label: "Oven",
+		ranges: {
+			kp: { min: 0.1, max: 20, step: 0.1 },
+			ki: { min: 0, max: 2, step: 0.05 },
+		},
+		defaults: { kp: 5, ki: 0.5, kd: 0 },
+		duration: 10,
+	},
+};
+
+const GAIN_STYLES: Record<
+	GainId,
+	{ label: string; track: string; thumb: string; text: string }
+> = {
+	kp: {
+		label: "Kp",
+		track: "bg-blue-500",
+		thumb: "bg-blue-500 border-blue-300",
+		text: "text-blue-400",
+	},
+	ki: {
+		label: "Ki",
+		track: "bg-green-500",
+		thumb: "bg-green-500 border-green-300",
+		text: "text-green-400",
+	},
+	kd: {
+		label: "Kd",
+		track: "bg-purple-500",
+		thumb: "bg-purple-500 border-purple-300",
+		text: "text-purple-400",
+	},
+};
+
+const GAIN_IDS: GainId[] = ["kp", "ki", "kd"];
+
+function plantTransferFunction(plant: PlantId, mass: number): TransferFunction {
+	if (plant === "oven")
+		return series(
+			{ num: [OVEN_HEATER_GAIN], den: [1] },
+			ovenTransferFunction(OVEN_PARAMS),
+		);
+	return motorTransferFunction(
+		{ inertia: MOMENT_OF_INERTIA, friction: POINTER_MOTOR_FRICTION, mass },
+		OPERATING_ANGLE,
+	);
+}
+
+// Slider values to controller gains, with the motor's Ki scaled as in PIDDemo
+const controllerGains = (plant: PlantId, gains: PIDGains): PIDGains =>
+	plant === "motor" ? { ...gains, ki: gains.ki * INTEGRAL_RATE } : gains;
+
+/**
+ * The characteristic polynomial s·den + (Kd·s² + Kp·s + Ki)·num is linear in
+ * each gain, so sweeping one gain K gives base + K·direction. Locus branches
+ * start at the roots of `base` and end at the roots of `direction`.
+ */
+function splitCharacteristic(
+	plant: TransferFunction,
+	gains: PIDGains,
+	swept: GainId,
+): { base: number[]; direction: number[] } {
+	const controllerNum = (g: PIDGains) => [g.kd, g.kp, g.ki];
+	let base = polyAdd(
+		polyMul([1, 0], plant.den),
+		polyMul(controllerNum({ ...gains, [swept]: 0 }), plant.num),
+	);
+	let direction = polyMul(
+		controllerNum({ kp: 0, ki: 0, kd: 0, [swept]: 1 }),
+		plant.num,
+	);
+	// Without integral action the controller's pole at the origin cancels
+	while (
+		base.length > 1 &&
+		direction.length > 1 &&
+		base[base.length - 1] === 0 &&
+		direction[direction.length - 1] === 0
+	) {
+		base = base.slice(0, -1);
+		direction = direction.slice(0, -1);
+	}
+	return { base, direction };
+}
+
+const scaled = (p: number[], k: number) => p.map((c) => c * k);
+
+function drawLocus(
+	ctx: CanvasRenderingContext2D,
+	branches: { k: number; roots: Complex[] }[],
+	openPoles: Complex[],
+	zeros: Complex[],
+	poles: Complex[],
+	title: string,
+) {
+	const width = LOCUS_WIDTH;
+	const height = LOCUS_HEIGHT;
+	const margin = 28;
+
+	ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+	ctx.fillStyle = "#000000";
+	ctx.fillRect(0, 0, width, height);
+
+	// Fit everything with a shared scale so angles read true
+	const everything = [
+		...openPoles,
+		...zeros,
+		...poles,
+		...branches.flatMap((b) => b.roots),
+	];
+	let reMin = Math.min(-1, ...everything.map((p) => p.re));
+	let reMax = Math.max(0.5, ...everything.map((p) => p.re));
+	const imMax = Math.max(1, ...everything.map((p) => Math.abs(p.im)));
+	const pad = 0.1 * Math.max(reMax - reMin, 2 * imMax);
+	reMin -= pad;
+	reMax += pad;
+	const scale = Math.min(
+		(width - 2 * margin) / (reMax - reMin),
+		(height - 2 * margin) / (2 * (imMax + pad)),
+	);
+	const originX =
+		margin + (width - 2 * margin - scale * (reMax - reMin)) / 2 - reMin * scale;
+	const originY = height / 2;
+	const toX = (re: number) => originX + re * scale;
+	const toY = (im: number) => originY - im * scale;
+
+	// Right half-plane
+	ctx.fillStyle = "rgba(239, 68, 68, 0.08)";
+	ctx.fillRect(originX, 0, width - originX, height);
+
+	ctx.strokeStyle = "#1e293b";
+	ctx.lineWidth = 1;
+	ctx.beginPath();
+	ctx.moveTo(0, originY);
+	ctx.lineTo(width, originY);
+	ctx.stroke();
+	ctx.strokeStyle = "#334155";
+	ctx.beginPath();
+	ctx.moveTo(originX, 0);
+	ctx.lineTo(originX, height);
+	ctx.stroke();
+
+	// Locus, brightening as the gain grows
+	branches.forEach(({ roots }, i) => {
+		ctx.fillStyle = "#3b82f6";
+		ctx.globalAlpha = 0.25 + (0.6 * i) / branches.length;
+		for (const root of roots) {
+			ctx.beginPath();
+			ctx.arc(toX(root.re), toY(root.im), 1.5, 0, Math.PI * 2);
+			ctx.fill();
+		}
+	});
+	ctx.globalAlpha = 1;
+
+	ctx.strokeStyle = "#94a3b8";
+	ctx.lineWidth = 2;
+	for (const pole of openPoles) {
+		const x = toX(pole.re);
+		const y = toY(pole.im);
+		ctx.beginPath();
+		ctx.moveTo(x - 5, y - 5);
+		ctx.lineTo(x + 5, y + 5);
+		ctx.moveTo(x + 5, y - 5);
+		ctx.lineTo(x - 5, y + 5);
+		ctx.stroke();
+	}
+	for (const zero of zeros) {
+		ctx.beginPath();
+		ctx.arc(toX(zero.re), toY(zero.im), 5, 0, Math.PI * 2);
+		ctx.stroke();
+	}
+
+	// Closed-loop poles at the current gains
+	for (const pole of poles) {
+		ctx.beginPath();
+		ctx.arc(toX(pole.re), toY(pole.im), 6, 0, Math.PI * 2);
+		ctx.fillStyle = pole.re < 0 ? "#f97316" : "#ef4444";
+		ctx.fill();
+		ctx.strokeStyle = "#fdba74";
+		ctx.lineWidth = 1.5;
+		ctx.stroke();
+	}
+
+	ctx.fillStyle = "#94a3b8";
+	ctx.font = "14px monospace";
+	ctx.textAlign = "left";
+	ctx.fillText(title, 12, 20);
+	ctx.fillStyle = "#64748b";
+	ctx.font = "12px monospace";
+	ctx.textAlign = "right";
+	ctx.fillText("Re", width - 8, originY - 6);
+	ctx.textAlign = "left";
+	ctx.fillText("Im", originX + 6, height - 8);
+}
+
+function drawStep(
+	ctx: CanvasRenderingContext2D,
+	response: number[],
+	duration: number,
+	stable: boolean,
+) {
+	const width = STEP_WIDTH;
+	const height = STEP_HEIGHT;
+	const left = 12;
+	const right = 12;
+	const top = 28;
+	const bottom = 22;
+	const plotWidth = width - left - right;
+	const plotHeight = height - top - bottom;
+	const yMax = 2;
+	const toX = (i: number) => left + (i / (response.length - 1)) * plotWidth;
+	const toY = (value: number) =>
+		top + (1 - Math.max(-0.1, Math.min(yMax, value)) / yMax) * plotHeight;
+
+	ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+	ctx.fillStyle = "#000000";
+	ctx.fillRect(0, 0, width, height);
+
+	ctx.strokeStyle = "#1e293b";
+	ctx.lineWidth = 1;
+	ctx.beginPath();
+	ctx.moveTo(left, toY(0));
+	ctx.lineTo(width - right, toY(0));
+	ctx.stroke();
+
+	ctx.strokeStyle = "#f97316";
+	ctx.setLineDash([5, 5]);
+	ctx.beginPath();
+	ctx.moveTo(left, toY(1));
+	ctx.lineTo(width - right, toY(1));
+	ctx.stroke();
+	ctx.setLineDash([]);
+
+	ctx.strokeStyle = stable ? "#3b82f6" : "#ef4444";
+	ctx.lineWidth = 2;
+	ctx.beginPath();
+	response.forEach((value, i) => {
+		if (i === 0) ctx.moveTo(toX(i), toY(value));
+		else ctx.lineTo(toX(i), toY(value));
+	});
+	ctx.stroke();
+
+	ctx.fillStyle = "#94a3b8";
+	ctx.font = "13px monospace";
+	ctx.textAlign = "left";
+	ctx.fillText("Step response", left, 18);
+	ctx.fillStyle = "#64748b";
+	ctx.font = "11px monospace";
+	ctx.textAlign = "right";
+	ctx.fillText(`${duration}s`, width - right, height - 6);
+}
+
+/**
+ * Root locus of the motor or oven loop as one gain sweeps its slider range,
+ * with the closed-loop poles and step response at the current gains.
+ */
+export default function RootLocus({ initialPlant = "motor" }: RootLocusProps) {
+	const locusCanvasRef = useRef<HTMLCanvasElement>(null);
+	const stepCanvasRef = useRef<HTMLCanvasElement>(null);
+	const [plant, setPlant] = useState<PlantId>(initialPlant);
+	const [gains, setGains] = useState<Record<PlantId, PIDGains>>({
+		motor: PLANTS.motor.defaults,
+		oven: PLANTS.oven.defaults,
+	});
+	const [mass, setMass] = useState(DEFAULT_MASS);
+	const [swept, setSwept] = useState<GainId>("kp");
+
+	const config = PLANTS[plant];
+	const current = gains[plant];
+	// The oven has no Kd, so a Kd sweep falls back to Kp there
+	const sweptGain: GainId = config.ranges[swept] ? swept : "kp";
+	const sweptRange = config.ranges[sweptGain] ?? config.ranges.kp;
+
+	const analysis = useMemo(() => {
+		const plantTf = plantTransferFunction(plant, mass);
+		const scale = controllerGains(plant, { kp: 1, ki: 1, kd: 1 })[sweptGain];
+		const { base, direction } = splitCharacteristic(
+			plantTf,
+			controllerGains(plant, current),
+			sweptGain,
+		);
+		const rootsAt = (k: number) =>
+			polyRoots(polyAdd(base, scaled(direction, k * scale)));
+		// Quadratic spacing puts more samples near the open-loop poles
+		const branches = Array.from({ length: LOCUS_SAMPLES + 1 }, (_, i) => {
+			const k = sweptRange.max * (i / LOCUS_SAMPLES) ** 2;
+			return { k, roots: rootsAt(k) };
+		});
+		const poles = rootsAt(current[sweptGain]);
+		const stable = poles.every((pole) => pole.re < 0);
+		const loop = series(
+			pidTransferFunction(controllerGains(plant, current)),
+			plantTf,
+		);
+		return {
+			branches,
+			openPoles: polyRoots(base),
+			zeros: polyRoots(direction),
+			poles,
+			stable,
+			response: stepResponse(closedLoop(loop), config.duration, STEP_POINTS),
+		};
+	}, [plant, mass, current, sweptGain, sweptRange.max, config.duration]);
+
+	useEffect(() => {
+		const locusCtx = locusCanvasRef.current?.getContext("2d");
+		const stepCtx = stepCanvasRef.current?.getContext("2d");
+		const title = `Root locus  ${GAIN_STYLES[sweptGain].label} 0→${sweptRange.max}`;
+		if (locusCtx)
+			drawLocus(
+				locusCtx,
+				analysis.branches,
+				analysis.openPoles,
+				analysis.zeros,
+				analysis.poles,
+				title,
+			);
+		if (stepCtx)
+			drawStep(stepCtx, analysis.response, config.duration, analysis.stable);
+	}, [analysis, sweptGain, sweptRange.max, config.duration]);
+
+	const setGain = (gain: GainId, value: number) =>
+		setGains((all) => ({ ...all, [plant]: { ...all[plant], [gain]: value } }));
+
+	// Slowest closed-loop pole, which dominates the settling
+	const dominant = analysis.poles.reduce((slowest, pole) =>
+		pole.re > slowest.re ? pole : slowest,
+	);
+	const damping = -dominant.re / (Math.hypot(dominant.re, dominant.im) || 1);
+
+	return (
+		<div className="not-prose flex flex-col gap-4 p-6 bg-black w-full rounded-3xl">
+			<div className="flex flex-wrap gap-2 justify-center">
+				{(Object.keys(PLANTS) as PlantId[]).map((id) => (
+					<button
+						key={id}
+						type="button"
+						onClick={() => setPlant(id)}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${plant === id ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{PLANTS[id].label}
+					</button>
+				))}
+			</div>
+
+			<div className="flex flex-col md:flex-row gap-4 items-center w-full">
+				<div className="flex-1 flex flex-col items-center min-w-0">
+					<canvas
+						ref={locusCanvasRef}
+						width={LOCUS_WIDTH * DPR}
+						height={LOCUS_HEIGHT * DPR}
+						className="outline-none border-0 block w-full max-w-[440px]"
+						style={{ aspectRatio: `${LOCUS_WIDTH} / ${LOCUS_HEIGHT}` }}
+					/>
+				</div>
+				<div className="flex flex-col items-center gap-3 min-w-0">
+					<canvas
+						ref={stepCanvasRef}
+						width={STEP_WIDTH * DPR}
+						height={STEP_HEIGHT * DPR}
+						className="outline-none border-0 block w-full max-w-[260px]"
+						style={{ aspectRatio: `${STEP_WIDTH} / ${STEP_HEIGHT}` }}
+					/>
+					<div className="flex gap-2 font-mono text-xs flex-wrap justify-center">
+						<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+							<span className="text-zinc-500 text-[10px]">Dominant pole</span>
+							<span
+								className="text-orange-400"
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								{dominant.re.toFixed(2)}
+								{dominant.im !== 0 && ` ± ${Math.abs(dominant.im).toFixed(2)}j`}
+							</span>
+						</div>
+						<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+							<span className="text-zinc-500 text-[10px]">Damping ζ</span>
+							<span
+								className="text-zinc-300"
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								{damping.toFixed(2)}
+							</span>
+						</div>
+						<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+							<span className="text-zinc-500 text-[10px]">Closed loop</span>
+							<span
+								className={analysis.stable ? "text-green-400" : "text-red-400"}
+							>
+								{analysis.stable ? "Stable" : "Unstable"}
+							</span>
+						</div>
+					</div>
+				</div>
+			</div>
+
+			<div className="flex flex-col gap-3 px-2 pb-2">
+				<div className="flex items-center gap-2">
+					<label className="text-sm font-mono text-zinc-400 w-12">Sweep</label>
+					{GAIN_IDS.filter((gain) => config.ranges[gain]).map((gain) => (
+						<button
+							key={gain}
+							type="button"
+							onClick={() => setSwept(gain)}
+							className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${sweptGain === gain ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+						>
+							{GAIN_STYLES[gain].label}
+						</button>
+					))}
+				</div>
+
+				{GAIN_IDS.map((gain) => {
+					const range = config.ranges[gain];
+					if (!range) return null;
+					const style = GAIN_STYLES[gain];
+					const fraction =
+						(current[gain] - range.min) / (range.max - range.min);
+					return (
+						<div key={gain} className="flex items-center gap-4">
+							<label className="text-sm font-mono text-zinc-400 w-8">
+								{style.label}
+							</label>
+							<div className="flex-1 relative h-2">
+								<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+								<div
+									className={`absolute left-0 top-0 h-full ${style.track} rounded-lg`}
+									style={{ width: `${fraction * 100}%` }}
+								/>
+								<input
+									type="range"
+									min={range.min}
+									max={range.max}
+									step={range.step}
+									value={current[gain]}
+									onChange={(e) => setGain(gain, parseFloat(e.target.value))}
+									className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+								/>
+								<div
+									className={`absolute top-1/2 -translate-y-1/2 w-4 h-4 ${style.thumb} rounded-full border-2 pointer-events-none`}
+									style={{ left: `calc(${fraction * 100}% - 8px)` }}
+								/>
+							</div>
+							<span
+								className={`text-sm font-mono ${style.text} w-12 text-right`}
+								style={{ fontVariantNumeric: "tabular-nums" }}
+							>
+								{current[gain].toFixed(2)}
+							</span>
+						</div>
+					);
+				})}
+
+				{plant === "motor" && (
+					<div className="flex items-center gap-4">
+						<label className="text-sm font-mono text-zinc-400 w-8">Mass</label>
+						<div className="flex-1 relative h-2">
+							<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+							<div
+								className="absolute left-0 top-0 h-full bg-zinc-500 rounded-lg"
+								style={{ width: `${mass * 100}%` }}
+							/>
+							<input
+								type="range"
+								min="0"
+								max="1"
+								step="0.05"
+								value={mass}
+								onChange={(e) => setMass(parseFloat(e.target.value))}
+								className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+							/>
+							<div
+								className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-zinc-500 rounded-full border-2 border-zinc-300 pointer-events-none"
+								style={{ left: `calc(${mass * 100}% - 8px)` }}
+							/>
+						</div>
+						<span
+							className="text-sm font-mono text-zinc-400 w-12 text-right"
+							style={{ fontVariantNumeric: "tabular-nums" }}
+						>
+							{mass.toFixed(2)}
+						</span>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,75 @@
+import { MAX_SAMPLE_RATE, MIN_SAMPLE_RATE } from "./sim";
+
+interface SampleRateControlProps {
+	enabled: boolean;
+	onEnabledChange: (enabled: boolean) => void;
+	/** Controller sample rate in Hz. */
+	rate: number;
+	onRateChange: (rate: number) => void;
+}
+
+// The slider is logarithmic so 5-50 Hz, where sampling effects show, gets
+// as much travel as 100-1000 Hz
+const LOG_MIN = Math.log10(MIN_SAMPLE_RATE);
+const LOG_MAX = Math.log10(MAX_SAMPLE_RATE);
+
+const toFraction = (rate: number) =>
+	(Math.log10(rate) - LOG_MIN) / (LOG_MAX - LOG_MIN);
+
+export default function SampleRateControl({
+	enabled,
+	onEnabledChange,
+	rate,
+	onRateChange,
+}: SampleRateControlProps) {
+	const fraction = toFraction(rate);
+
+	return (
+		<div className="flex items-center gap-4">
+			<button
+				type="button"
+				onClick={() => onEnabledChange(!enabled)}
+				className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors w-28 ${enabled ? "bg-orange-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+				title={
+					enabled
+						? "Discrete - controller samples at a fixed rate, output held between samples"
+						: "Continuous - controller runs every simulation step"
+				}
+			>
+				{enabled ? "Discrete" : "Continuous"}
+			</button>
+			<div
+				className={`flex-1 relative h-2 transition-opacity ${enabled ? "" : "opacity-40"}`}
+			>
+				<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+				<div
+					className="absolute left-0 top-0 h-full bg-orange-500 rounded-lg"
+					style={{ width: `${fraction * 100}%` }}
+				/>
+				<input
+					type="range"
+					min="0"
+					max="1"
+					step="0.005"
+					value={fraction}
+					disabled={!enabled}
+					onChange={(e) => {
+						const value = parseFloat(e.target.value);
+						onRateChange(Math.round(10 ** (LOG_MIN + value * (LOG_MAX - LOG_MIN))));
+					}}
+					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+				/>
+				<div
+					className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-orange-500 rounded-full border-2 border-orange-300 pointer-events-none"
+					style={{ left: `calc(${fraction * 100}% - 8px)` }}
+				/>
+			</div>
+			<span
+				className="text-sm font-mono text-orange-400 w-16 text-right"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{rate} Hz
+			</span>
+		</div>
+	);
+}
@@ -0,0 +1,154 @@
+import { SENSOR_NOISES } from "./sim";
+import type { SensorModel } from "./sim";
+
+interface SensorPanelProps {
+	model: SensorModel;
+	onModelChange: (model: SensorModel) => void;
+}
+
+// Encoder resolutions on offer; 0 is a perfect analogue reading
+const COUNT_OPTIONS = [0, 4096, 1024, 256, 64];
+const MAX_DELAY = 10;
+const MAX_BIAS = (5 * Math.PI) / 180;
+const MAX_NOISE_LEVEL = (3 * Math.PI) / 180;
+const MAX_DROPOUT = 0.5;
+
+function SensorSlider({
+	label,
+	value,
+	min,
+	max,
+	step,
+	display,
+	disabled = false,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	step: number;
+	display: string;
+	disabled?: boolean;
+	onChange: (value: number) => void;
+}) {
+	const fraction = (value - min) / (max - min);
+	return (
+		<div className="flex items-center gap-4">
+			<label className="text-sm font-mono text-zinc-400 w-12">{label}</label>
+			<div
+				className={`flex-1 relative h-2 transition-opacity ${disabled ? "opacity-40" : ""}`}
+			>
+				<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+				<div
+					className="absolute left-0 top-0 h-full bg-teal-500 rounded-lg"
+					style={{ width: `${fraction * 100}%` }}
+				/>
+				<input
+					type="range"
+					min={min}
+					max={max}
+					step={step}
+					value={value}
+					disabled={disabled}
+					onChange={(e) => onChange(parseFloat(e.target.value))}
+					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+				/>
+				<div
+					className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-teal-500 rounded-full border-2 border-teal-300 pointer-events-none"
+					style={{ left: `calc(${fraction * 100}% - 8px)` }}
+				/>
+			</div>
+			<span
+				className="text-sm font-mono text-teal-400 w-20 text-right"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{display}
+			</span>
+		</div>
+	);
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Angle sensor defects: encoder resolution, delay, bias, noise and dropped
+ * readings.
+ */
+export default function SensorPanel({
+	model,
+	onModelChange,
+}: SensorPanelProps) {
+	return (
+		<>
+			<div className="flex flex-wrap gap-2 items-center justify-center">
+				<span className="text-sm font-mono text-zinc-400">Encoder</span>
+				{COUNT_OPTIONS.map((counts) => (
+					<button
+						key={counts}
+						type="button"
+						onClick={() => onModelChange({ ...model, countsPerRev: counts })}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${model.countsPerRev === counts ? "bg-teal-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+						title={
+							counts
+								? `${counts} counts per revolution, ${(360 / counts).toFixed(2)}° each`
+								: "Exact angle"
+						}
+					>
+						{counts || "Ideal"}
+					</button>
+				))}
+			</div>
+			<SensorSlider
+				label="Delay"
+				value={model.delay}
+				min={0}
+				max={MAX_DELAY}
+				step={1}
+				display={`${model.delay} smp`}
+				onChange={(delay) => onModelChange({ ...model, delay })}
+			/>
+			<SensorSlider
+				label="Bias"
+				value={model.bias}
+				min={-MAX_BIAS}
+				max={MAX_BIAS}
+				step={MAX_BIAS / 20}
+				display={`${toDegrees(model.bias).toFixed(2)}°`}
+				onChange={(bias) => onModelChange({ ...model, bias })}
+			/>
+			<div className="flex flex-wrap gap-2 items-center justify-center">
+				<span className="text-sm font-mono text-zinc-400">Noise</span>
+				{SENSOR_NOISES.map((option) => (
+					<button
+						key={option.id}
+						type="button"
+						onClick={() => onModelChange({ ...model, noise: option.id })}
+						className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors ${model.noise === option.id ? "bg-teal-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					>
+						{option.label}
+					</button>
+				))}
+			</div>
+			<SensorSlider
+				label="Level"
+				value={model.noiseLevel}
+				min={0}
+				max={MAX_NOISE_LEVEL}
+				step={MAX_NOISE_LEVEL / 30}
+				display={`${toDegrees(model.noiseLevel).toFixed(2)}°`}
+				disabled={model.noise === "none"}
+				onChange={(noiseLevel) => onModelChange({ ...model, noiseLevel })}
+			/>
+			<SensorSlider
+				label="Drop"
+				value={model.dropout}
+				min={0}
+				max={MAX_DROPOUT}
+				step={0.01}
+				display={`${Math.round(model.dropout * 100)}%`}
+				onChange={(dropout) => onModelChange({ ...model, dropout })}
+			/>
+		</>
+	);
+}
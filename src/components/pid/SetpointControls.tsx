@@ -0,0 +1,129 @@
+interface SetpointControlsProps {
+	/** Proportional setpoint weight b. */
+	setpointWeight: number;
+	onSetpointWeightChange: (weight: number) => void;
+	/** Derivative setpoint weight c; its slider shows only when given a handler. */
+	derivativeWeight: number;
+	onDerivativeWeightChange?: (weight: number) => void;
+	rampEnabled: boolean;
+	onRampEnabledChange: (enabled: boolean) => void;
+	/** Setpoint rate limit in degrees per second. */
+	rampRate: number;
+	onRampRateChange: (rate: number) => void;
+}
+
+const MIN_RAMP_RATE = 10;
+const MAX_RAMP_RATE = 360;
+
+function WeightSlider({
+	label,
+	value,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	onChange: (value: number) => void;
+}) {
+	return (
+		<div className="flex items-center gap-4">
+			<label className="text-sm font-mono text-zinc-400 w-8">{label}</label>
+			<div className="flex-1 relative h-2">
+				<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+				<div
+					className="absolute left-0 top-0 h-full bg-sky-500 rounded-lg"
+					style={{ width: `${value * 100}%` }}
+				/>
+				<input
+					type="range"
+					min="0"
+					max="1"
+					step="0.05"
+					value={value}
+					onChange={(e) => onChange(parseFloat(e.target.value))}
+					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+				/>
+				<div
+					className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-sky-500 rounded-full border-2 border-sky-300 pointer-events-none"
+					style={{ left: `calc(${value * 100}% - 8px)` }}
+				/>
+			</div>
+			<span
+				className="text-sm font-mono text-sky-400 w-12 text-right"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+			>
+				{value.toFixed(2)}
+			</span>
+		</div>
+	);
+}
+
+/** Setpoint weights b and c (2-DOF PID) and a setpoint ramp. */
+export default function SetpointControls({
+	setpointWeight,
+	onSetpointWeightChange,
+	derivativeWeight,
+	onDerivativeWeightChange,
+	rampEnabled,
+	onRampEnabledChange,
+	rampRate,
+	onRampRateChange,
+}: SetpointControlsProps) {
+	const rampFraction =
+		(rampRate - MIN_RAMP_RATE) / (MAX_RAMP_RATE - MIN_RAMP_RATE);
+
+	return (
+		<>
+			<WeightSlider
+				label="b"
+				value={setpointWeight}
+				onChange={onSetpointWeightChange}
+			/>
+			{onDerivativeWeightChange && (
+				<WeightSlider
+					label="c"
+					value={derivativeWeight}
+					onChange={onDerivativeWeightChange}
+				/>
+			)}
+			<div className="flex items-center gap-4">
+				<button
+					type="button"
+					onClick={() => onRampEnabledChange(!rampEnabled)}
+					className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors w-28 ${rampEnabled ? "bg-sky-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+					title="Limit how fast the setpoint the controller sees can move"
+				>
+					{rampEnabled ? "Ramp on" : "Ramp off"}
+				</button>
+				<div
+					className={`flex-1 relative h-2 transition-opacity ${rampEnabled ? "" : "opacity-40"}`}
+				>
+					<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
+					<div
+						className="absolute left-0 top-0 h-full bg-sky-500 rounded-lg"
+						style={{ width: `${rampFraction * 100}%` }}
+					/>
+					<input
+						type="range"
+						min={MIN_RAMP_RATE}
+						max={MAX_RAMP_RATE}
+						step="5"
+						value={rampRate}
+						disabled={!rampEnabled}
+						onChange={(e) => onRampRateChange(parseFloat(e.target.value))}
+						className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+					/>
+					<div
+						className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-sky-500 rounded-full border-2 border-sky-300 pointer-events-none"
+						style={{ left: `calc(${rampFraction * 100}% - 8px)` }}
+					/>
+				</div>
+				<span
+					className="text-sm font-mono text-sky-400 w-16 text-right"
+					style={{ fontVariantNumeric: "tabular-nums" }}
+				>
+					{rampRate}°/s
+				</span>
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,62 @@
+import { SPEED_OPTIONS } from "./sim";
+
+interface SpeedControlsProps {
+	speed: number;
+	onSpeedChange: (speed: number) => void;
+	/** Advance one fixed step; the button only shows when this is given. */
+	onStep?: () => void;
+	stepDisabled?: boolean;
+}
+
+const formatSpeed = (speed: number) =>
+	`${speed < 1 ? speed.toString().replace(/^0/, "") : speed}×`;
+
+export default function SpeedControls({
+	speed,
+	onSpeedChange,
+	onStep,
+	stepDisabled = false,
+}: SpeedControlsProps) {
+	const cycleSpeed = () => {
+		const idx = SPEED_OPTIONS.indexOf(speed);
+		onSpeedChange(SPEED_OPTIONS[(idx + 1) % SPEED_OPTIONS.length]);
+	};
+
+	return (
+		<>
+			{onStep && (
+				<button
+					type="button"
+					onClick={onStep}
+					disabled={stepDisabled}
+					className="p-2.5 bg-zinc-900 hover:bg-zinc-800 active:bg-zinc-700 text-zinc-300 rounded-xl transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+					title="Step one frame"
+				>
+					<svg
+						xmlns="http://www.w3.org/2000/svg"
+						width="20"
+						height="20"
+						viewBox="0 0 24 24"
+						fill="none"
+						stroke="currentColor"
+						strokeWidth="2"
+						strokeLinecap="round"
+						strokeLinejoin="round"
+					>
+						<polygon points="5 4 15 12 5 20 5 4" fill="currentColor" />
+						<path d="M19 5v14" />
+					</svg>
+				</button>
+			)}
+			<button
+				type="button"
+				onClick={cycleSpeed}
+				className="px-2.5 py-2 min-w-[3.25rem] bg-zinc-900 hover:bg-zinc-800 active:bg-zinc-700 text-zinc-300 rounded-xl transition-all text-sm font-mono"
+				style={{ fontVariantNumeric: "tabular-nums" }}
+				title="Simulation speed"
+			>
+				{formatSpeed(speed)}
+			</button>
+		</>
+	);
+}
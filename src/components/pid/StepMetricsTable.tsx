@@ -0,0 +1,113 @@
+import type { StepMetrics } from "./sim";
+
+interface StepMetricsRow {
+	name: string;
+	color: string;
+	metrics: StepMetrics | null;
+}
+
+interface StepMetricsTableProps {
+	rows: StepMetricsRow[];
+	/** Converts the response's units for the steady-state error column. */
+	errorScale?: number;
+	errorUnit?: string;
+	/** Shown in place of a row's metrics before there is a step to measure. */
+	placeholder?: string;
+}
+
+const seconds = (value: number | null) =>
+	value === null ? "—" : `${value.toFixed(2)}s`;
+
+const COLUMNS: { label: string; title: string }[] = [
+	{ label: "Rise", title: "Rise time, 10% to 90% of the step" },
+	{ label: "OS", title: "Percent overshoot" },
+	{ label: "Peak", title: "Time of the overshoot peak" },
+	{ label: "Ts 2%", title: "Settling time to within 2% of the step" },
+	{ label: "Ts 5%", title: "Settling time to within 5% of the step" },
+	{ label: "SSE", title: "Error at the latest sample" },
+	{ label: "IAE", title: "Integral of absolute error" },
+	{ label: "ISE", title: "Integral of squared error" },
+	{ label: "ITAE", title: "Integral of time-weighted absolute error" },
+];
+
+/** Rise, overshoot, settling and error costs of the latest step, one row per controller. */
+export default function StepMetricsTable({
+	rows,
+	errorScale = 1,
+	errorUnit = "",
+	placeholder = "Move the target to measure a step",
+}: StepMetricsTableProps) {
+	return (
+		<div className="bg-zinc-900/50 rounded-xl p-2">
+			<div className="text-[10px] text-zinc-500 uppercase tracking-wide mb-1">
+				Step response
+			</div>
+			<div className="overflow-x-auto">
+				<table className="w-full text-[11px] font-mono">
+					<thead>
+						<tr className="text-zinc-500">
+							<th className="text-left py-0.5 pr-1" />
+							{COLUMNS.map((column) => (
+								<th
+									key={column.label}
+									className="text-right py-0.5 px-1 font-normal"
+									title={column.title}
+								>
+									{column.label}
+								</th>
+							))}
+						</tr>
+					</thead>
+					<tbody style={{ fontVariantNumeric: "tabular-nums" }}>
+						{rows.map(({ name, color, metrics }) => (
+							<tr key={name} className="text-zinc-300">
+								<td className="py-0.5 pr-1" style={{ color }}>
+									{name}
+								</td>
+								{metrics === null ? (
+									<td
+										colSpan={COLUMNS.length}
+										className="py-0.5 px-1 text-center text-zinc-600"
+									>
+										{placeholder}
+									</td>
+								) : (
+									<>
+										<td className="py-0.5 px-1 text-right">
+											{seconds(metrics.riseTime)}
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{metrics.overshoot.toFixed(1)}%
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{seconds(metrics.peakTime)}
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{seconds(metrics.settlingTime2)}
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{seconds(metrics.settlingTime5)}
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{(metrics.steadyStateError * errorScale).toFixed(2)}
+											{errorUnit}
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{metrics.iae.toFixed(3)}
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{metrics.ise.toFixed(3)}
+										</td>
+										<td className="py-0.5 px-1 text-right">
+											{metrics.itae.toFixed(3)}
+										</td>
+									</>
+								)}
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+}
@@ -1,92 +1,218 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
-
-interface MotorState {
-	angle: number;
-	angularVelocity: number;
-	integral: number;
-	prevError: number;
-}
+import React, { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import ChallengeEditor from "./ChallengeEditor";
+import SpeedControls from "./SpeedControls";
+import {
+	MAX_NAME_LENGTH,
+	fetchLeaderboard,
+	bestKey,
+	hasLeaderboard,
+	loadBests,
+	saveBest,
+	submitToLeaderboard,
+} from "./leaderboard";
+import type { BestRun, LeaderboardEntry } from "./leaderboard";
+import StepMetricsTable from "./StepMetricsTable";
+import {
+	CHALLENGES,
+	CHALLENGE_OBJECTIVES,
+	DEFAULT_INTEGRATOR,
+	DT,
+	GAIN_TERMS,
+	MAX_TIME,
+	STABILIZE_TIME,
+	advanceClock,
+	challengeGains,
+	challengeScore,
+	createClock,
+	createRng,
+	createStepRecord,
+	decodeChallenge,
+	encodeChallenge,
+	initialChallengeState,
+	isStabilized,
+	pauseClock,
+	recordStepSample,
+	runChallenge,
+	stepChallenge,
+	stepMetrics,
+} from "./sim";
+import type {
+	Challenge,
+	ChallengeObjective,
+	ChallengeRun,
+	IntegratorMethod,
+	MotorLoopState as MotorState,
+	OptimizerMessage,
+	OptimizerRequest,
+	PIDGains,
+	StepMetrics,
+	StepRecord,
+} from "./sim";
 
 interface RunResult {
-	challenge: string;
+	challenge: Challenge;
 	kp: number;
 	kd: number;
 	ki: number;
 	time: number | null;
 }
 
-interface Challenge {
-	name: string;
-	description: string;
-	startAngle: number;
-	targetAngle: number;
-	mass: number;
-	parTime: number;
+interface Optimum {
+	gains: PIDGains;
+	score: number;
+}
+
+interface OptimizerProgress {
+	fraction: number;
+	score: number;
+}
+
+interface TuningChallengeProps {
+	/**
+	 * Integration method for runs and replays. It is part of the challenge
+	 * rather than something to explore, so there is no drift readout.
+	 */
+	integrator?: IntegratorMethod;
+	showMetrics?: boolean;
+	showOptimizer?: boolean;
+	showEditor?: boolean;
+	/** Shared leaderboard, served by functions/api/leaderboard.ts. */
+	showLeaderboard?: boolean;
+	/**
+	 * Play only this challenge: a Challenge, or the code from a share link.
+	 * Without it a `challenge` query parameter adds a custom level.
+	 */
+	challenge?: Challenge | string;
 }
 
-const CHALLENGES: Challenge[] = [
-	{
-		name: "Basics",
-		description: "No mass, simple step",
-		startAngle: Math.PI / 2,
-		targetAngle: (3 * Math.PI) / 4,
-		mass: 0,
-		parTime: 1.5,
-	},
-	{
-		name: "Weighted",
-		description: "Add mass, fight gravity",
-		startAngle: Math.PI / 2,
-		targetAngle: (3 * Math.PI) / 4,
-		mass: 0.4,
-		parTime: 2.5,
-	},
-	{
-		name: "Big Step",
-		description: "Large angle change",
-		startAngle: Math.PI / 4 + 0.1,
-		targetAngle: (3 * Math.PI) / 4 - 0.1,
-		mass: 0.2,
-		parTime: 2.0,
-	},
-	{
-		name: "Heavy",
-		description: "Maximum mass",
-		startAngle: Math.PI / 2,
-		targetAngle: (2 * Math.PI) / 3,
-		mass: 0.8,
-		parTime: 3.5,
-	},
-];
-
-const MOMENT_OF_INERTIA = 0.12;
-const FRICTION = 0.3;
-const MAX_TORQUE = 2;
-const DT = 1 / 60;
 const DPR =
 	typeof window !== "undefined"
 		? Math.min(window.devicePixelRatio || 1, 2)
 		: 2;
 const CANVAS_WIDTH = 260;
 const CANVAS_HEIGHT = 260;
+const PLOT_WIDTH = 320;
+const PLOT_HEIGHT = 180;
+
+const MAX_STEP_SAMPLES = Math.ceil(MAX_TIME / DT) + 1;
+const OPTIMUM_COLOR = "#22c55e";
+const PLAYER_COLOR = "#3b82f6";
+
+const formatScore = (
+	run: ChallengeRun,
+	score: number,
+	objective: ChallengeObjective,
+) => {
+	if (objective === "itae") return score.toFixed(3);
+	return run.time === null ? "Fail" : `${score.toFixed(2)}s`;
+};
+
+// Angle against time for the optimum and the player's best, in degrees
+function drawComparison(
+	ctx: CanvasRenderingContext2D,
+	target: number,
+	start: number,
+	optimum: ChallengeRun,
+	player: ChallengeRun | null,
+) {
+	const width = PLOT_WIDTH;
+	const height = PLOT_HEIGHT;
+	const left = 12;
+	const right = 12;
+	const top = 28;
+	const bottom = 22;
+	const plotWidth = width - left - right;
+	const plotHeight = height - top - bottom;
+
+	// Show a little past whichever run settled last
+	const settled = [optimum.time, player ? player.time : 0];
+	const duration = settled.includes(null)
+		? MAX_TIME
+		: Math.min(MAX_TIME, Math.ceil(1.5 * Math.max(...(settled as number[]))));
+	const visible = (run: ChallengeRun) =>
+		run.angles.slice(0, Math.round(duration / DT));
+	const curves = [visible(optimum), player ? visible(player) : []];
+	const values = [target, start, ...curves.flat()];
+	const low = Math.min(...values);
+	const high = Math.max(...values);
+	const pad = 0.1 * (high - low || 1);
+	const toX = (t: number) => left + (t / duration) * plotWidth;
+	const toY = (angle: number) =>
+		top + (1 - (angle - low + pad) / (high - low + 2 * pad)) * plotHeight;
+
+	ctx.setTransform(DPR, 0, 0, DPR, 0, 0);
+	ctx.fillStyle = "#000000";
+	ctx.fillRect(0, 0, width, height);
+
+	ctx.strokeStyle = "#1e293b";
+	ctx.lineWidth = 1;
+	ctx.beginPath();
+	ctx.moveTo(left, toY(start));
+	ctx.lineTo(width - right, toY(start));
+	ctx.stroke();
 
-const STABILIZE_THRESHOLD = 0.02;
-const STABILIZE_TIME = 0.5;
-const MAX_TIME = 15;
+	ctx.strokeStyle = "#f97316";
+	ctx.setLineDash([5, 5]);
+	ctx.beginPath();
+	ctx.moveTo(left, toY(target));
+	ctx.lineTo(width - right, toY(target));
+	ctx.stroke();
+	ctx.setLineDash([]);
 
-export default function TuningChallenge() {
+	const trace = (angles: number[], color: string) => {
+		ctx.strokeStyle = color;
+		ctx.lineWidth = 2;
+		ctx.beginPath();
+		ctx.moveTo(toX(0), toY(start));
+		angles.forEach((angle, i) => ctx.lineTo(toX((i + 1) * DT), toY(angle)));
+		ctx.stroke();
+	};
+	trace(curves[1], PLAYER_COLOR);
+	trace(curves[0], OPTIMUM_COLOR);
+
+	ctx.font = "13px monospace";
+	ctx.textAlign = "left";
+	ctx.fillStyle = OPTIMUM_COLOR;
+	ctx.fillText("Optimum", left, 18);
+	if (player) {
+		ctx.fillStyle = PLAYER_COLOR;
+		ctx.fillText("Your best", left + 80, 18);
+	}
+	ctx.fillStyle = "#64748b";
+	ctx.font = "11px monospace";
+	ctx.textAlign = "right";
+	ctx.fillText(`${duration}s`, width - right, height - 6);
+}
+
+export default function TuningChallenge({
+	integrator = DEFAULT_INTEGRATOR,
+	showMetrics = false,
+	showOptimizer = false,
+	showEditor = false,
+	showLeaderboard = false,
+	challenge: fixedChallenge,
+}: TuningChallengeProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const plotCanvasRef = useRef<HTMLCanvasElement>(null);
 	
-	const [challengeIdx, setChallengeIdx] = useState(0);
-	const challenge = CHALLENGES[challengeIdx];
+	const [fixed] = useState(() =>
+		typeof fixedChallenge === "string"
+			? decodeChallenge(fixedChallenge)
+			: (fixedChallenge ?? null),
+	);
+	const [custom, setCustom] = useState<Challenge | null>(null);
+	const challenges = fixed
+		? [fixed]
+		: custom
+			? [...CHALLENGES, custom]
+			: CHALLENGES;
+	const [challenge, setChallenge] = useState<Challenge>(challenges[0]);
+	const terms = challenge.terms ?? GAIN_TERMS;
 	
-	const [state, setState] = useState<MotorState>({
-		angle: challenge.startAngle,
-		angularVelocity: 0,
-		integral: 0,
-		prevError: 0,
-	});
+	const [state, setState] = useState<MotorState>(() =>
+		initialChallengeState(challenge),
+	);
 	const stateRef = useRef<MotorState>(state);
 
 	// Start with non-functional values
@@ -98,43 +224,45 @@ export default function TuningChallenge() {
 	const [isVisible, setIsVisible] = useState(true);
 	const [elapsedTime, setElapsedTime] = useState(0);
 	const [stabilizedAt, setStabilizedAt] = useState<number | null>(null);
-	const [stableStartTime, setStableStartTime] = useState<number | null>(null);
+	const [speed, setSpeed] = useState(1);
 	const [results, setResults] = useState<RunResult[]>([]);
+	const [metrics, setMetrics] = useState<StepMetrics | null>(null);
+	const [objective, setObjective] = useState<ChallengeObjective>("settling");
+	// Optimum per challenge and objective, as found by the worker
+	const [optima, setOptima] = useState<Record<string, Optimum>>({});
+	const [progress, setProgress] = useState<OptimizerProgress | null>(null);
+	const [revealed, setRevealed] = useState(false);
+	const [optimizerError, setOptimizerError] = useState<string | null>(null);
+	// Personal bests by challenge and integrator, persisted in localStorage
+	const [bests, setBests] = useState<Record<string, BestRun>>({});
+	const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[] | null>(null);
+	const [leaderboardError, setLeaderboardError] = useState<string | null>(null);
+	const [playerName, setPlayerName] = useState("");
+	const [submitting, setSubmitting] = useState(false);
 
 	const animationRef = useRef<number>();
-	const startTimeRef = useRef<number>(0);
+	// Run timing is in simulated seconds, so scores don't depend on frame rate or speed
+	const simTimeRef = useRef(0);
+	const stableStartRef = useRef<number | null>(null);
+	const stepRecordRef = useRef<StepRecord>(
+		createStepRecord(challenge.startAngle, challenge.targetAngle),
+	);
+	const clockRef = useRef(createClock());
+	const workerRef = useRef<Worker | null>(null);
+	// Reseeded every run, so a run replays exactly for the leaderboard
+	const rngRef = useRef(createRng());
 
 	const simulate = useCallback(
-		(currentState: MotorState, target: number, massVal: number): MotorState => {
-			const error = target - currentState.angle;
-			const newIntegral = Math.max(
-				-10,
-				Math.min(10, currentState.integral + error * DT),
-			);
-			const derivative = (error - currentState.prevError) / DT;
-
-			const pTerm = kp * error;
-			const iTerm = ki * newIntegral;
-			const dTerm = kd * derivative;
-			const torque = Math.max(-MAX_TORQUE, Math.min(MAX_TORQUE, pTerm + iTerm + dTerm));
-
-			const gravityTorque = -massVal * Math.cos(currentState.angle);
-
-			const angularAcceleration =
-				(torque + gravityTorque - FRICTION * currentState.angularVelocity) /
-				MOMENT_OF_INERTIA;
-			const newVelocity =
-				currentState.angularVelocity + angularAcceleration * DT;
-			const newAngle = currentState.angle + newVelocity * DT;
-
-			return {
-				angle: newAngle,
-				angularVelocity: newVelocity,
-				integral: newIntegral,
-				prevError: error,
-			};
-		},
-		[kp, kd, ki],
+		(currentState: MotorState, elapsed: number): MotorState =>
+			stepChallenge(
+				currentState,
+				challenge,
+				{ kp, ki, kd },
+				elapsed,
+				rngRef.current,
+				integrator,
+			),
+		[challenge, kp, kd, ki, integrator],
 	);
 
 	const drawMotor = useCallback(
@@ -266,99 +394,261 @@ export default function TuningChallenge() {
 		const ctx = canvas.getContext("2d");
 		if (!ctx || !isVisible) return;
 
-		const loop = () => {
+		const loop = (now: number) => {
 			if (isRunning && stabilizedAt === null) {
-				const now = performance.now();
-				const elapsed = (now - startTimeRef.current) / 1000;
-				setElapsedTime(elapsed);
-
-				const newState = simulate(stateRef.current, challenge.targetAngle, challenge.mass);
-				stateRef.current = newState;
-				setState(newState);
-
-				const error = Math.abs(challenge.targetAngle - newState.angle);
-				const isStable = error < STABILIZE_THRESHOLD && Math.abs(newState.angularVelocity) < 0.1;
-
-				if (isStable) {
-					if (stableStartTime === null) {
-						setStableStartTime(elapsed);
-					} else if (elapsed - stableStartTime >= STABILIZE_TIME) {
-						setStabilizedAt(elapsed);
+				const steps = advanceClock(clockRef.current, now, DT, speed);
+				for (let step = 0; step < steps; step++) {
+					const newState = simulate(stateRef.current, simTimeRef.current);
+					simTimeRef.current += DT;
+					const elapsed = simTimeRef.current;
+
+					stateRef.current = newState;
+					stepRecordRef.current = recordStepSample(
+						stepRecordRef.current,
+						newState.angle,
+						challenge.targetAngle,
+						MAX_STEP_SAMPLES,
+					);
+
+					if (isStabilized(newState, challenge, elapsed)) {
+						if (stableStartRef.current === null) {
+							stableStartRef.current = elapsed;
+						} else if (elapsed - stableStartRef.current >= STABILIZE_TIME) {
+							setStabilizedAt(elapsed);
+							setIsRunning(false);
+							const gains = challengeGains(challenge, { kp, ki, kd });
+							setResults((prev) => [
+								{ challenge, ...gains, time: elapsed },
+								...prev.slice(0, 9),
+							]);
+							setBests(
+								saveBest(challenge, { ...gains, time: elapsed, integrator }),
+							);
+							break;
+						}
+					} else {
+						stableStartRef.current = null;
+					}
+
+					if (elapsed > MAX_TIME) {
+						setStabilizedAt(-1);
 						setIsRunning(false);
 						setResults((prev) => [
-							{ challenge: challenge.name, kp, kd, ki, time: elapsed },
+							{ challenge, ...challengeGains(challenge, { kp, ki, kd }), time: null },
 							...prev.slice(0, 9),
 						]);
+						break;
 					}
-				} else {
-					setStableStartTime(null);
 				}
-
-				if (elapsed > MAX_TIME) {
-					setStabilizedAt(-1);
-					setIsRunning(false);
-					setResults((prev) => [
-						{ challenge: challenge.name, kp, kd, ki, time: null },
-						...prev.slice(0, 9),
-					]);
+				if (steps > 0) {
+					setState(stateRef.current);
+					setElapsedTime(simTimeRef.current);
+					if (showMetrics) setMetrics(stepMetrics(stepRecordRef.current, DT));
 				}
+			} else {
+				pauseClock(clockRef.current);
 			}
 
-			drawMotor(ctx, stateRef.current.angle, challenge.targetAngle, challenge.mass);
+			// A profiled challenge's target marker follows the move
+			drawMotor(
+				ctx,
+				stateRef.current.angle,
+				stateRef.current.reference ?? challenge.targetAngle,
+				challenge.mass,
+			);
 			animationRef.current = requestAnimationFrame(loop);
 		};
 		animationRef.current = requestAnimationFrame(loop);
 		return () => {
 			if (animationRef.current) cancelAnimationFrame(animationRef.current);
 		};
-	}, [simulate, drawMotor, isRunning, isVisible, stabilizedAt, stableStartTime, kp, kd, ki, challenge]);
+	}, [
+		simulate,
+		drawMotor,
+		isRunning,
+		speed,
+		isVisible,
+		stabilizedAt,
+		kp,
+		kd,
+		ki,
+		challenge,
+		integrator,
+		showMetrics,
+	]);
 
-	const handleStart = () => {
-		const initialState = {
-			angle: challenge.startAngle,
-			angularVelocity: 0,
-			integral: 0,
-			prevError: 0,
+	useEffect(() => () => workerRef.current?.terminate(), []);
+
+	// A share link's challenge joins the built-in ones and starts selected
+	useEffect(() => {
+		if (fixed) return;
+		const code = new URLSearchParams(window.location.search).get("challenge");
+		const shared = code ? decodeChallenge(code) : null;
+		if (shared) handlePlayCustom(shared);
+	}, []);
+
+	useEffect(() => setBests(loadBests()), []);
+
+	const challengeCode = useMemo(() => encodeChallenge(challenge), [challenge]);
+	const personalBest = bests[bestKey(challenge, integrator)] ?? null;
+	const leaderboardKept = hasLeaderboard(challenge, integrator);
+
+	useEffect(() => {
+		if (!showLeaderboard || !leaderboardKept) return;
+		let cancelled = false;
+		setLeaderboard(null);
+		setLeaderboardError(null);
+		fetchLeaderboard(challenge, integrator)
+			.then((entries) => !cancelled && setLeaderboard(entries))
+			.catch((error: Error) => !cancelled && setLeaderboardError(error.message));
+		return () => {
+			cancelled = true;
+		};
+	}, [showLeaderboard, leaderboardKept, challenge, integrator]);
+
+	const handleSubmitBest = async () => {
+		if (!personalBest) return;
+		setSubmitting(true);
+		setLeaderboardError(null);
+		try {
+			setLeaderboard(
+				await submitToLeaderboard({
+					...personalBest,
+					challenge: challengeCode,
+					name: playerName,
+				}),
+			);
+		} catch (error) {
+			setLeaderboardError((error as Error).message);
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	const optimumKey = `${challengeCode}/${objective}`;
+	const optimum = optima[optimumKey] ?? null;
+
+	// Re-run the optimum and the player's runs headlessly, so both cover the
+	// whole run rather than stopping when the live one did
+	const optimumRun = useMemo(
+		() =>
+			optimum && revealed
+				? runChallenge(challenge, optimum.gains, integrator)
+				: null,
+		[optimum, revealed, challenge, integrator],
+	);
+	const playerBest = useMemo(() => {
+		if (!optimum || !revealed) return null;
+		let best: { run: ChallengeRun; score: number } | null = null;
+		for (const result of results) {
+			if (result.challenge !== challenge) continue;
+			const run = runChallenge(challenge, result, integrator);
+			const score = challengeScore(run, challenge, objective);
+			if (!best || score < best.score) best = { run, score };
+		}
+		return best;
+	}, [optimum, revealed, results, challenge, objective, integrator]);
+
+	useEffect(() => {
+		const ctx = plotCanvasRef.current?.getContext("2d");
+		if (!ctx || !optimumRun) return;
+		drawComparison(
+			ctx,
+			challenge.targetAngle,
+			challenge.startAngle,
+			optimumRun,
+			playerBest?.run ?? null,
+		);
+	}, [optimumRun, playerBest, challenge]);
+
+	const handleReveal = () => {
+		if (optimum) {
+			setRevealed(true);
+			return;
+		}
+		workerRef.current ??= new Worker(
+			new URL("./optimizer.worker.ts", import.meta.url),
+			{ type: "module" },
+		);
+		const key = optimumKey;
+		workerRef.current.onmessage = (event: MessageEvent<OptimizerMessage>) => {
+			const message = event.data;
+			if (message.type === "progress") {
+				setProgress({ fraction: message.fraction, score: message.score });
+				return;
+			}
+			setOptima((prev) => ({
+				...prev,
+				[key]: { gains: message.gains, score: message.score },
+			}));
+			setProgress(null);
+			setRevealed(true);
 		};
+		// A worker that fails to load or crashes never answers, so drop it and
+		// let the next reveal start a fresh one
+		const handleFailure = () => {
+			workerRef.current?.terminate();
+			workerRef.current = null;
+			setProgress(null);
+			setOptimizerError("The search stopped unexpectedly. Try again.");
+		};
+		workerRef.current.onerror = handleFailure;
+		workerRef.current.onmessageerror = handleFailure;
+		const request: OptimizerRequest = { challenge, objective, integrator };
+		workerRef.current.postMessage(request);
+		setProgress({ fraction: 0, score: Infinity });
+		setOptimizerError(null);
+	};
+
+	const handleObjectiveChange = (id: ChallengeObjective) => {
+		setObjective(id);
+		setRevealed(false);
+	};
+
+	const handleStart = () => {
+		const initialState = initialChallengeState(challenge);
 		stateRef.current = initialState;
 		setState(initialState);
 		setElapsedTime(0);
 		setStabilizedAt(null);
-		setStableStartTime(null);
-		startTimeRef.current = performance.now();
+		simTimeRef.current = 0;
+		stableStartRef.current = null;
+		rngRef.current = createRng();
+		stepRecordRef.current = createStepRecord(
+			challenge.startAngle,
+			challenge.targetAngle,
+		);
+		setMetrics(null);
 		setIsRunning(true);
 	};
 
 	const handleReset = () => {
-		const initialState = {
-			angle: challenge.startAngle,
-			angularVelocity: 0,
-			integral: 0,
-			prevError: 0,
-		};
+		const initialState = initialChallengeState(challenge);
 		stateRef.current = initialState;
 		setState(initialState);
 		setIsRunning(false);
 		setElapsedTime(0);
 		setStabilizedAt(null);
-		setStableStartTime(null);
+		stableStartRef.current = null;
+		setMetrics(null);
 	};
 
-	const handleChallengeChange = (idx: number) => {
-		setChallengeIdx(idx);
-		const newChallenge = CHALLENGES[idx];
-		const initialState = {
-			angle: newChallenge.startAngle,
-			angularVelocity: 0,
-			integral: 0,
-			prevError: 0,
-		};
+	const handleChallengeChange = (next: Challenge) => {
+		setChallenge(next);
+		const initialState = initialChallengeState(next);
 		stateRef.current = initialState;
 		setState(initialState);
 		setIsRunning(false);
 		setElapsedTime(0);
 		setStabilizedAt(null);
-		setStableStartTime(null);
+		stableStartRef.current = null;
+		setMetrics(null);
+		setRevealed(false);
+	};
+
+	const handlePlayCustom = (next: Challenge) => {
+		setCustom(next);
+		handleChallengeChange(next);
 	};
 
 	const getStatusColor = () => {
@@ -384,14 +674,14 @@ export default function TuningChallenge() {
 		>
 			{/* Challenge selector */}
 			<div className="flex flex-wrap gap-2 justify-center">
-				{CHALLENGES.map((c, idx) => (
+				{challenges.map((c, idx) => (
 					<button
-						key={c.name}
+						key={idx}
 						type="button"
-						onClick={() => handleChallengeChange(idx)}
-						disabled={isRunning}
+						onClick={() => handleChallengeChange(c)}
+						disabled={isRunning || progress !== null}
 						className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
-							idx === challengeIdx
+							c === challenge
 								? "bg-orange-600 text-white"
 								: "bg-zinc-900 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200"
 						} disabled:opacity-50`}
@@ -406,9 +696,21 @@ export default function TuningChallenge() {
 				<div className="text-zinc-400 text-sm">{challenge.description}</div>
 				<div className="text-zinc-600 text-xs mt-1">
 					Par time: <span className="text-amber-400">{challenge.parTime}s</span>
+					{personalBest && (
+						<> · Best: <span className="text-green-400">{personalBest.time.toFixed(2)}s</span></>
+					)}
 					{challenge.mass > 0 && (
 						<> · Mass: <span className="text-red-400">{challenge.mass}</span></>
 					)}
+					{!!challenge.noise && (
+						<> · Noise: <span className="text-red-400">{((challenge.noise * 180) / Math.PI).toFixed(1)}°</span></>
+					)}
+					{!!challenge.disturbance && (
+						<>
+							{" "}· Load: <span className="text-red-400">{challenge.disturbance} N·m</span> at{" "}
+							{challenge.disturbanceTime ?? 0}s
+						</>
+					)}
 				</div>
 			</div>
 
@@ -449,7 +751,9 @@ export default function TuningChallenge() {
 				<div className="flex-1 flex flex-col gap-4 w-full max-w-[320px]">
 					{/* Sliders */}
 					<div className="flex flex-col gap-4 bg-zinc-900/50 rounded-xl p-4">
-						<div className="flex items-center gap-3">
+						<div
+							className={`flex items-center gap-3 transition-opacity ${terms.includes("kp") ? "" : "opacity-40"}`}
+						>
 							<label className="text-sm font-mono text-blue-400 w-8">Kp</label>
 							<div className="flex-1 relative h-2">
 								<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
@@ -464,7 +768,7 @@ export default function TuningChallenge() {
 									step="0.1"
 									value={kp}
 									onChange={(e) => setKp(parseFloat(e.target.value))}
-									disabled={isRunning}
+									disabled={isRunning || !terms.includes("kp")}
 									className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
 								/>
 								<div
@@ -479,7 +783,9 @@ export default function TuningChallenge() {
 								{kp.toFixed(1)}
 							</span>
 						</div>
-						<div className="flex items-center gap-3">
+						<div
+							className={`flex items-center gap-3 transition-opacity ${terms.includes("kd") ? "" : "opacity-40"}`}
+						>
 							<label className="text-sm font-mono text-purple-400 w-8">Kd</label>
 							<div className="flex-1 relative h-2">
 								<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
@@ -494,7 +800,7 @@ export default function TuningChallenge() {
 									step="0.05"
 									value={kd}
 									onChange={(e) => setKd(parseFloat(e.target.value))}
-									disabled={isRunning}
+									disabled={isRunning || !terms.includes("kd")}
 									className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
 								/>
 								<div
@@ -509,7 +815,9 @@ export default function TuningChallenge() {
 								{kd.toFixed(2)}
 							</span>
 						</div>
-						<div className="flex items-center gap-3">
+						<div
+							className={`flex items-center gap-3 transition-opacity ${terms.includes("ki") ? "" : "opacity-40"}`}
+						>
 							<label className="text-sm font-mono text-green-400 w-8">Ki</label>
 							<div className="flex-1 relative h-2">
 								<div className="absolute inset-0 bg-zinc-800 rounded-lg" />
@@ -524,7 +832,7 @@ export default function TuningChallenge() {
 									step="0.05"
 									value={ki}
 									onChange={(e) => setKi(parseFloat(e.target.value))}
-									disabled={isRunning}
+									disabled={isRunning || !terms.includes("ki")}
 									className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
 								/>
 								<div
@@ -572,6 +880,7 @@ export default function TuningChallenge() {
 								<path d="M3 3v5h5" />
 							</svg>
 						</button>
+						<SpeedControls speed={speed} onSpeedChange={setSpeed} />
 					</div>
 
 					{/* Results table */}
@@ -599,7 +908,7 @@ export default function TuningChallenge() {
 												key={i}
 												className={i === 0 ? "text-zinc-200" : "text-zinc-500"}
 											>
-												<td className="py-0.5 pr-1 text-zinc-400">{r.challenge.slice(0, 4)}</td>
+												<td className="py-0.5 pr-1 text-zinc-400">{r.challenge.name.slice(0, 4)}</td>
 												<td className="py-0.5 px-0.5 text-right text-blue-400">{r.kp.toFixed(1)}</td>
 												<td className="py-0.5 px-0.5 text-right text-purple-400">{r.kd.toFixed(1)}</td>
 												<td className="py-0.5 px-0.5 text-right text-green-400">{r.ki.toFixed(1)}</td>
@@ -607,7 +916,7 @@ export default function TuningChallenge() {
 													className={`py-0.5 pl-1 text-right ${
 														r.time === null
 															? "text-red-400"
-															: r.time <= CHALLENGES.find(c => c.name === r.challenge)!.parTime
+															: r.time <= r.challenge.parTime
 																? "text-green-400"
 																: "text-amber-400"
 													}`}
@@ -624,6 +933,187 @@ export default function TuningChallenge() {
 				</div>
 			</div>
 
+			{showMetrics && (
+				<StepMetricsTable
+					rows={[{ name: challenge.name, color: "#3b82f6", metrics }]}
+					placeholder="Hit GO! to measure a run"
+					errorScale={180 / Math.PI}
+					errorUnit="°"
+				/>
+			)}
+
+			{showOptimizer && (
+				<div className="flex flex-col gap-3 bg-zinc-900/50 rounded-xl p-3">
+					<div className="flex flex-wrap gap-2 items-center justify-center">
+						{CHALLENGE_OBJECTIVES.map((option) => (
+							<button
+								key={option.id}
+								type="button"
+								onClick={() => handleObjectiveChange(option.id)}
+								disabled={progress !== null}
+								className={`px-3 py-1.5 rounded-xl text-sm font-mono transition-colors disabled:opacity-50 ${objective === option.id ? "bg-emerald-600 text-white" : "bg-zinc-900 hover:bg-zinc-800 text-zinc-300"}`}
+							>
+								{option.label}
+							</button>
+						))}
+						<button
+							type="button"
+							onClick={handleReveal}
+							disabled={progress !== null || (revealed && optimum !== null)}
+							className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-zinc-900 hover:bg-zinc-800 text-zinc-300 disabled:opacity-50"
+						>
+							{progress !== null
+								? `Searching ${Math.round(progress.fraction * 100)}%`
+								: "Reveal optimum"}
+						</button>
+					</div>
+
+					{optimizerError && (
+						<p className="text-xs font-mono text-red-400 text-center">
+							{optimizerError}
+						</p>
+					)}
+
+					{progress !== null && Number.isFinite(progress.score) && (
+						<p className="text-xs font-mono text-zinc-500 text-center">
+							Best so far: {progress.score.toFixed(objective === "itae" ? 3 : 2)}
+						</p>
+					)}
+
+					{revealed && optimum && optimumRun && (
+						<div className="flex flex-col items-center gap-3">
+							<canvas
+								ref={plotCanvasRef}
+								width={PLOT_WIDTH * DPR}
+								height={PLOT_HEIGHT * DPR}
+								className="outline-none border-0 block w-full max-w-[320px]"
+								style={{ aspectRatio: `${PLOT_WIDTH} / ${PLOT_HEIGHT}` }}
+							/>
+							<div className="flex gap-2 font-mono text-xs flex-wrap justify-center">
+								{(
+									[
+										["Kp", optimum.gains.kp, "text-blue-400"],
+										["Kd", optimum.gains.kd, "text-purple-400"],
+										["Ki", optimum.gains.ki, "text-green-400"],
+									] as const
+								).map(([label, value, color]) => (
+									<div
+										key={label}
+										className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]"
+									>
+										<span className="text-zinc-500 text-[10px]">Best {label}</span>
+										<span className={color} style={{ fontVariantNumeric: "tabular-nums" }}>
+											{value.toFixed(2)}
+										</span>
+									</div>
+								))}
+								<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+									<span className="text-zinc-500 text-[10px]">Optimum</span>
+									<span className="text-green-400" style={{ fontVariantNumeric: "tabular-nums" }}>
+										{formatScore(optimumRun, optimum.score, objective)}
+									</span>
+								</div>
+								<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+									<span className="text-zinc-500 text-[10px]">Yours</span>
+									<span className="text-blue-400" style={{ fontVariantNumeric: "tabular-nums" }}>
+										{playerBest ? formatScore(playerBest.run, playerBest.score, objective) : "—"}
+									</span>
+								</div>
+								<div className="px-2 py-1.5 bg-zinc-900 rounded-xl flex flex-col items-center min-w-[60px]">
+									<span className="text-zinc-500 text-[10px]">Gap</span>
+									<span className="text-zinc-300" style={{ fontVariantNumeric: "tabular-nums" }}>
+										{playerBest && (objective === "itae" || playerBest.run.time !== null)
+											? `+${Math.max(0, (playerBest.score / optimum.score - 1) * 100).toFixed(0)}%`
+											: "—"}
+									</span>
+								</div>
+							</div>
+							{!playerBest && (
+								<p className="text-xs text-zinc-500 text-center">
+									Finish a run of {challenge.name} to compare against the optimum
+								</p>
+							)}
+						</div>
+					)}
+				</div>
+			)}
+
+			{showLeaderboard && (
+				<div className="flex flex-col gap-3 bg-zinc-900/50 rounded-xl p-3">
+					<div className="text-[10px] text-zinc-500 uppercase tracking-wide">
+						Leaderboard · {challenge.name}
+					</div>
+					{!leaderboardKept ? (
+						<div className="text-zinc-600 text-xs text-center py-1">
+							Leaderboards are kept for the built-in challenges, under a fixed-step
+							integrator
+						</div>
+					) : leaderboardError ? (
+						<div className="text-red-400 text-xs text-center py-1">{leaderboardError}</div>
+					) : leaderboard === null ? (
+						<div className="text-zinc-600 text-xs text-center py-1">Loading…</div>
+					) : leaderboard.length === 0 ? (
+						<div className="text-zinc-600 text-xs text-center py-1">
+							No times yet. Be the first!
+						</div>
+					) : (
+						<table className="w-full text-[11px] font-mono">
+							<thead>
+								<tr className="text-zinc-500">
+									<th className="text-left py-0.5 pr-1">#</th>
+									<th className="text-left py-0.5 px-1">Name</th>
+									<th className="text-right py-0.5 px-0.5">P</th>
+									<th className="text-right py-0.5 px-0.5">D</th>
+									<th className="text-right py-0.5 px-0.5">I</th>
+									<th className="text-right py-0.5 pl-1">Time</th>
+								</tr>
+							</thead>
+							<tbody style={{ fontVariantNumeric: "tabular-nums" }}>
+								{leaderboard.map((entry, i) => (
+									<tr key={entry.name} className="text-zinc-300">
+										<td className="py-0.5 pr-1 text-zinc-500">{i + 1}</td>
+										<td className="py-0.5 px-1 truncate max-w-[120px]">{entry.name}</td>
+										<td className="py-0.5 px-0.5 text-right text-blue-400">{entry.kp.toFixed(1)}</td>
+										<td className="py-0.5 px-0.5 text-right text-purple-400">{entry.kd.toFixed(1)}</td>
+										<td className="py-0.5 px-0.5 text-right text-green-400">{entry.ki.toFixed(1)}</td>
+										<td className="py-0.5 pl-1 text-right">{entry.time.toFixed(2)}s</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+					{leaderboardKept && (
+						<div className="flex gap-2">
+							<input
+								type="text"
+								value={playerName}
+								maxLength={MAX_NAME_LENGTH}
+								onChange={(e) => setPlayerName(e.target.value)}
+								placeholder="Your name"
+								className="flex-1 min-w-0 px-3 py-1.5 rounded-xl text-sm font-mono bg-zinc-900 text-zinc-200 outline-none"
+							/>
+							<button
+								type="button"
+								onClick={handleSubmitBest}
+								disabled={!personalBest || !playerName.trim() || submitting}
+								className="px-3 py-1.5 rounded-xl text-sm font-mono transition-colors bg-emerald-600 hover:bg-emerald-500 text-white disabled:bg-zinc-800 disabled:text-zinc-600"
+							>
+								{personalBest ? `Submit ${personalBest.time.toFixed(2)}s` : "Finish a run first"}
+							</button>
+						</div>
+					)}
+				</div>
+			)}
+
+			{showEditor && !fixed && (
+				<ChallengeEditor
+					key={challengeCode}
+					initial={challenge}
+					onPlay={handlePlayCustom}
+					disabled={isRunning || progress !== null}
+				/>
+			)}
+
 			<p className="text-xs text-zinc-500 text-center">
 				Hold within 1° of the <span className="text-orange-400">target</span> for 0.5s to complete
 			</p>
@@ -5,4 +5,6 @@ export { default as PIDController } from './PIDController';
 export { default as OvenController } from './OvenController';
 export { default as InvertedPendulum } from './InvertedPendulum';
 export { default as ComparisonPlayground } from './ComparisonPlayground';
-
+export { default as RootLocus } from './RootLocus';
+export { default as CascadeController } from './CascadeController';
+export { default as BlockDiagramEditor } from './BlockDiagramEditor';
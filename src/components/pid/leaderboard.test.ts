@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+	bestKey,
+	hasLeaderboard,
+	leaderboardChallenge,
+	parseSubmission,
+} from "./leaderboard";
+import { CHALLENGES, decodeChallenge, encodeChallenge } from "./sim";
+
+const SUBMISSION = {
+	challenge: encodeChallenge(CHALLENGES[0]),
+	integrator: "semi-implicit",
+	name: "  Ada ",
+	kp: 4,
+	ki: 0.5,
+	kd: 1,
+	time: 1.25,
+};
+
+describe("leaderboardChallenge", () => {
+	it("finds the built-in challenge behind any of its codes", () => {
+		const decoded = decodeChallenge(encodeChallenge(CHALLENGES[2]))!;
+		expect(leaderboardChallenge(encodeChallenge(CHALLENGES[2]))).toBe(
+			CHALLENGES[2],
+		);
+		expect(leaderboardChallenge(encodeChallenge(decoded))).toBe(CHALLENGES[2]);
+	});
+
+	it("keeps no board for custom challenges", () => {
+		const custom = { ...CHALLENGES[0], mass: 0.35 };
+		expect(leaderboardChallenge(encodeChallenge(custom))).toBeNull();
+		expect(leaderboardChallenge("not a code")).toBeNull();
+	});
+});
+
+describe("hasLeaderboard", () => {
+	it("leaves out RK45, whose replays have no fixed cost", () => {
+		expect(hasLeaderboard(CHALLENGES[0], "rk4")).toBe(true);
+		expect(hasLeaderboard(CHALLENGES[0], "rk45")).toBe(false);
+	});
+});
+
+describe("bestKey", () => {
+	it("keeps bests apart per integrator", () => {
+		expect(bestKey(CHALLENGES[0], "euler")).not.toBe(
+			bestKey(CHALLENGES[0], "rk4"),
+		);
+	});
+});
+
+describe("parseSubmission", () => {
+	it("accepts a well-formed submission and trims the name", () => {
+		expect(parseSubmission(SUBMISSION)).toEqual({ ...SUBMISSION, name: "Ada" });
+	});
+
+	it.each([
+		["a non-object", null, "Expected a JSON object"],
+		[
+			"a custom challenge",
+			{
+				...SUBMISSION,
+				challenge: encodeChallenge({ ...CHALLENGES[0], mass: 0.35 }),
+			},
+			"No leaderboard for this challenge",
+		],
+		[
+			"RK45",
+			{ ...SUBMISSION, integrator: "rk45" },
+			"No leaderboard for this integrator",
+		],
+		[
+			"a blank name",
+			{ ...SUBMISSION, name: "  " },
+			"Name must be 1 to 20 characters",
+		],
+		["a gain out of range", { ...SUBMISSION, kp: 100 }, "Gains out of range"],
+		["a missing time", { ...SUBMISSION, time: "fast" }, "Missing time"],
+	])("refuses %s", (_, body, reason) => {
+		expect(parseSubmission(body)).toBe(reason);
+	});
+});
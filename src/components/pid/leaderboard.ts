@@ -0,0 +1,192 @@
+// TuningChallenge's personal bests, kept in localStorage, and the client side
+// of the leaderboard API in functions/api/leaderboard.ts.
+
+import {
+	CHALLENGES,
+	CHALLENGE_GAIN_LIMITS,
+	INTEGRATORS,
+	decodeChallenge,
+	encodeChallenge,
+} from "./sim";
+import type { Challenge, IntegratorMethod, PIDGains } from "./sim";
+
+export interface BestRun extends PIDGains {
+	/** Seconds to stabilize. */
+	time: number;
+	/** The integrator the run used; a replay under another one differs. */
+	integrator: IntegratorMethod;
+}
+
+/** Entries are stored per integrator, so they leave it out. */
+export interface LeaderboardEntry extends Omit<BestRun, "integrator"> {
+	name: string;
+	/** Milliseconds since the epoch. */
+	submittedAt: number;
+}
+
+export interface LeaderboardSubmission extends BestRun {
+	/** Challenge code, as in share links. */
+	challenge: string;
+	name: string;
+}
+
+export const LEADERBOARD_URL = "/api/leaderboard";
+export const MAX_NAME_LENGTH = 20;
+
+const BESTS_KEY = "pid-tuning-challenge-bests";
+
+/**
+ * Integrators runs can be verified under. RK45 chooses its own substeps, so
+ * replaying one has no fixed cost for the server to bound.
+ */
+export const LEADERBOARD_INTEGRATORS = INTEGRATORS.filter(
+	(option) => option.id !== "rk45",
+);
+
+// A code as it reads once decoded, with defaults filled in and values rounded
+const canonicalCode = (code: string) => {
+	const challenge = decodeChallenge(code);
+	return challenge ? encodeChallenge(challenge) : null;
+};
+
+const BUILT_IN_CODES = new Map(
+	CHALLENGES.map((challenge) => [
+		canonicalCode(encodeChallenge(challenge)),
+		challenge,
+	]),
+);
+
+/**
+ * The built-in challenge a code stands for, or null. Leaderboards are only
+ * kept for these, so arbitrary codes can't fill the store with boards.
+ */
+export function leaderboardChallenge(code: string): Challenge | null {
+	return BUILT_IN_CODES.get(canonicalCode(code)) ?? null;
+}
+
+/** Whether a challenge played under an integrator has a leaderboard. */
+export const hasLeaderboard = (
+	challenge: Challenge,
+	integrator: IntegratorMethod,
+) =>
+	leaderboardChallenge(encodeChallenge(challenge)) !== null &&
+	LEADERBOARD_INTEGRATORS.some((option) => option.id === integrator);
+
+/** Where a challenge's best under an integrator is kept in the bests record. */
+export const bestKey = (challenge: Challenge, integrator: IntegratorMethod) =>
+	`${integrator}:${encodeChallenge(challenge)}`;
+
+/**
+ * Personal bests by bestKey; empty where storage is unavailable. Bests from
+ * before they were kept per integrator are left out, as their replays may
+ * not match.
+ */
+export function loadBests(): Record<string, BestRun> {
+	try {
+		const stored = JSON.parse(localStorage.getItem(BESTS_KEY) ?? "{}");
+		if (typeof stored !== "object" || stored === null) return {};
+		return Object.fromEntries(
+			Object.entries(stored as Record<string, BestRun>).filter(([, run]) =>
+				INTEGRATORS.some((option) => option.id === run?.integrator),
+			),
+		);
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Record a finished run if it beats the stored best for its challenge and
+ * integrator, and return the bests as they now stand.
+ */
+export function saveBest(
+	challenge: Challenge,
+	run: BestRun,
+): Record<string, BestRun> {
+	const bests = loadBests();
+	const key = bestKey(challenge, run.integrator);
+	if (bests[key] && bests[key].time <= run.time) return bests;
+	const next = { ...bests, [key]: run };
+	try {
+		localStorage.setItem(BESTS_KEY, JSON.stringify(next));
+	} catch {
+		// Private browsing or a full quota; the best lasts until reload
+	}
+	return next;
+}
+
+const isGain = (value: unknown, max: number): value is number =>
+	typeof value === "number" && value >= 0 && value <= max;
+
+/**
+ * Check a submission's shape, returning it typed or a reason it was refused.
+ * Whether its time is genuine is for the server to re-simulate.
+ */
+export function parseSubmission(body: unknown): LeaderboardSubmission | string {
+	if (typeof body !== "object" || body === null)
+		return "Expected a JSON object";
+	const { challenge, integrator, name, kp, ki, kd, time } = body as Record<
+		string,
+		unknown
+	>;
+	if (typeof challenge !== "string" || !leaderboardChallenge(challenge))
+		return "No leaderboard for this challenge";
+	if (!LEADERBOARD_INTEGRATORS.some((option) => option.id === integrator))
+		return "No leaderboard for this integrator";
+	if (
+		typeof name !== "string" ||
+		!name.trim() ||
+		name.trim().length > MAX_NAME_LENGTH
+	)
+		return `Name must be 1 to ${MAX_NAME_LENGTH} characters`;
+	if (
+		!isGain(kp, CHALLENGE_GAIN_LIMITS.kp) ||
+		!isGain(ki, CHALLENGE_GAIN_LIMITS.ki) ||
+		!isGain(kd, CHALLENGE_GAIN_LIMITS.kd)
+	)
+		return "Gains out of range";
+	if (typeof time !== "number" || !Number.isFinite(time)) return "Missing time";
+	return {
+		challenge,
+		integrator: integrator as IntegratorMethod,
+		name: name.trim(),
+		kp,
+		ki,
+		kd,
+		time,
+	};
+}
+
+async function readResponse(response: Response): Promise<LeaderboardEntry[]> {
+	const body = await response.json().catch(() => null);
+	if (!response.ok)
+		throw new Error(
+			body?.error ?? `Leaderboard unavailable (${response.status})`,
+		);
+	return body.entries;
+}
+
+/** Top entries for a challenge, fastest first. */
+export async function fetchLeaderboard(
+	challenge: Challenge,
+	integrator: IntegratorMethod,
+): Promise<LeaderboardEntry[]> {
+	const params = new URLSearchParams({
+		challenge: encodeChallenge(challenge),
+		integrator,
+	});
+	return readResponse(await fetch(`${LEADERBOARD_URL}?${params}`));
+}
+
+/** Submit a run; resolves to the updated leaderboard. */
+export async function submitToLeaderboard(
+	submission: LeaderboardSubmission,
+): Promise<LeaderboardEntry[]> {
+	return readResponse(
+		await fetch(LEADERBOARD_URL, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(submission),
+		}),
+	);
+}
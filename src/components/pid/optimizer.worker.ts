@@ -0,0 +1,16 @@
+// Runs TuningChallenge's gain search off the main thread, where hundreds of
+// headless runs would otherwise stall the animation.
+
+import { optimizeChallenge } from "./sim";
+import type { OptimizerMessage, OptimizerRequest } from "./sim";
+
+const post = (message: OptimizerMessage) => postMessage(message);
+
+addEventListener("message", (event: MessageEvent<OptimizerRequest>) => {
+	const { gains, score } = optimizeChallenge(
+		event.data,
+		(fraction, gains, score) =>
+			post({ type: "progress", fraction, gains, score }),
+	);
+	post({ type: "done", gains, score });
+});
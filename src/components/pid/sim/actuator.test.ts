@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { IDEAL_ACTUATOR, createActuator, stepActuator } from "./actuator";
+import type { ActuatorModel, ActuatorState } from "./actuator";
+
+const DT = 0.01;
+
+/** Drive a fresh actuator with `command` for `steps` steps. */
+function drive(model: Partial<ActuatorModel>, command: number, steps: number) {
+	let state: ActuatorState = createActuator();
+	const torques: number[] = [];
+	for (let i = 0; i < steps; i++) {
+		const next = stepActuator(
+			state,
+			{ ...IDEAL_ACTUATOR, ...model },
+			command,
+			DT,
+		);
+		state = next.state;
+		torques.push(next.torque);
+	}
+	return { state, torques };
+}
+
+describe("stepActuator", () => {
+	it("passes the command straight through when ideal", () => {
+		const { state, torques } = drive({}, 1.2, 3);
+		expect(torques).toEqual([1.2, 1.2, 1.2]);
+		expect(state.limit).toBeNull();
+	});
+
+	it("marks a saturated command", () => {
+		const next = stepActuator(createActuator(), IDEAL_ACTUATOR, 2, DT, true);
+		expect(next.torque).toBe(2);
+		expect(next.state.limit).toBe("saturation");
+	});
+
+	it("zeroes commands inside the deadband", () => {
+		const inside = drive({ deadband: 0.2 }, 0.1, 1);
+		expect(inside.torques[0]).toBe(0);
+		expect(inside.state.limit).toBe("deadband");
+		expect(drive({ deadband: 0.2 }, 0.3, 1).torques[0]).toBe(0.3);
+	});
+
+	it("limits the slew rate", () => {
+		const { state, torques } = drive({ slewRate: 10 }, 1, 20);
+		expect(torques[0]).toBeCloseTo(0.1);
+		expect(torques[4]).toBeCloseTo(0.5);
+		expect(torques[9]).toBeCloseTo(1);
+		expect(torques[19]).toBe(1);
+		expect(state.limit).toBeNull();
+		expect(drive({ slewRate: 10 }, 1, 5).state.limit).toBe("slew");
+	});
+
+	it("lags by its time constant", () => {
+		const { torques } = drive({ timeConstant: 0.1 }, 1, 10);
+		expect(torques[9]).toBeCloseTo(1 - Math.exp(-1));
+	});
+
+	it("transmits nothing until the backlash closes", () => {
+		const { state, torques } = drive({ backlash: 0.02 }, 1, 20);
+		expect(torques[0]).toBe(0);
+		expect(torques[19]).toBe(1);
+		expect(state.gap).toBeCloseTo(0.01);
+		const crossing = drive({ backlash: 0.02 }, 1, 1).state;
+		expect(crossing.limit).toBe("backlash");
+	});
+
+	it("crosses the play again when the torque reverses", () => {
+		let { state } = drive({ backlash: 0.02 }, 1, 20);
+		const model = { ...IDEAL_ACTUATOR, backlash: 0.02 };
+		const reversed = stepActuator(state, model, -1, DT);
+		expect(reversed.torque).toBe(0);
+		for (let i = 0; i < 20; i++)
+			state = stepActuator(state, model, -1, DT).state;
+		expect(state.gap).toBeCloseTo(-0.01);
+		expect(stepActuator(state, model, -1, DT).torque).toBe(-1);
+	});
+});
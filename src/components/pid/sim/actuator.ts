@@ -0,0 +1,119 @@
+// Actuator between the controller's output and the pointer: a deadband, a
+// slew-rate limit, the motor's electrical lag and backlash in its gears,
+// applied in that order to the already saturated command.
+
+import { clamp } from "./plants";
+
+export interface ActuatorModel {
+	/** Torque slew-rate limit in N·m/s; 0 for none. */
+	slewRate: number;
+	/** Commands smaller than this, in N·m, produce no torque. */
+	deadband: number;
+	/** Total play in the gears in rad. */
+	backlash: number;
+	/** Electrical time constant in s; 0 for instant torque. */
+	timeConstant: number;
+}
+
+export const IDEAL_ACTUATOR: ActuatorModel = {
+	slewRate: 0,
+	deadband: 0,
+	backlash: 0,
+	timeConstant: 0,
+};
+
+/** Why the torque reaching the pointer differs from the controller's wish. */
+export type ActuatorLimit = "saturation" | "deadband" | "slew" | "backlash";
+
+export const ACTUATOR_LIMITS: { id: ActuatorLimit; label: string }[] = [
+	{ id: "saturation", label: "Saturated" },
+	{ id: "deadband", label: "Deadband" },
+	{ id: "slew", label: "Slew" },
+	{ id: "backlash", label: "Backlash" },
+];
+
+export interface ActuatorState {
+	/** Command after the deadband and slew limit. */
+	command: number;
+	/** Motor torque after the electrical lag. */
+	torque: number;
+	/** Motor shaft's position within the gear play, in rad from centre. */
+	gap: number;
+	gapVelocity: number;
+	/** What limited the latest step, most significant first. */
+	limit: ActuatorLimit | null;
+}
+
+export const createActuator = (): ActuatorState => ({
+	command: 0,
+	torque: 0,
+	gap: 0,
+	gapVelocity: 0,
+	limit: null,
+});
+
+// Rotor inertia in kg·m² that swings across the backlash on its own. The
+// load is taken to hold still meanwhile, which is near enough for a gap
+// that closes in a few steps.
+const MOTOR_INERTIA = 0.005;
+const GAP_EPSILON = 1e-9;
+
+/**
+ * Advance the actuator by `dt` under `command`, returning the torque the
+ * pointer receives. `saturated` marks a command the controller has clamped.
+ */
+export function stepActuator(
+	state: ActuatorState,
+	model: ActuatorModel,
+	command: number,
+	dt: number,
+	saturated = false,
+): { state: ActuatorState; torque: number } {
+	let limit: ActuatorLimit | null = saturated ? "saturation" : null;
+
+	let demand = command;
+	if (Math.abs(command) < model.deadband) {
+		demand = 0;
+		if (command !== 0) limit ??= "deadband";
+	}
+
+	let next = demand;
+	if (model.slewRate > 0) {
+		const maxChange = model.slewRate * dt;
+		next = clamp(demand, state.command - maxChange, state.command + maxChange);
+		if (next !== demand) limit ??= "slew";
+	}
+
+	const torque =
+		model.timeConstant > 0
+			? state.torque +
+				(next - state.torque) * (1 - Math.exp(-dt / model.timeConstant))
+			: next;
+
+	const halfGap = model.backlash / 2;
+	let gap = clamp(state.gap, -halfGap, halfGap);
+	let gapVelocity = state.gapVelocity;
+	let transmitted = torque;
+	const direction = Math.sign(torque);
+	const engaged =
+		halfGap === 0 ||
+		(direction !== 0 && gap * direction >= halfGap - GAP_EPSILON);
+	if (engaged) {
+		gapVelocity = 0;
+	} else {
+		// Crossing the play: the motor spins up alone and no torque gets through
+		transmitted = 0;
+		if (direction !== 0) limit ??= "backlash";
+		gapVelocity += (torque / MOTOR_INERTIA) * dt;
+		gap += gapVelocity * dt;
+		if (Math.abs(gap) >= halfGap) {
+			gap = Math.sign(gap) * halfGap;
+			gapVelocity = 0;
+		}
+	}
+
+	return {
+		state: { command: next, torque, gap, gapVelocity, limit },
+		torque: transmitted,
+	};
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { createAutoTune, stepAutoTune, tuningRuleGains } from "./autotune";
+import type { AutoTuneMethod } from "./autotune";
+
+const DT = 0.001;
+
+/**
+ * Run an experiment against 1/(s + 1)³, three unit lags in series, starting
+ * settled at the setpoint. Its phase reaches −180° at √3 rad/s, where the
+ * gain is 1/8: Ku = 8, Tu = 2π/√3.
+ */
+function runExperiment(method: AutoTuneMethod) {
+	const experiment = createAutoTune(method, {
+		setpoint: 1,
+		bias: 1,
+		amplitude: 0.2,
+		hysteresis: 0.001,
+		outputMin: 0,
+		outputMax: 2,
+		initialGain: 1,
+		maxGain: 20,
+		stageTime: 20,
+	});
+	const lags = [1, 1, 1];
+	for (let i = 0; i < 400 / DT && experiment.status === "running"; i++) {
+		let input = stepAutoTune(experiment, lags[2], DT);
+		for (let j = 0; j < lags.length; j++) {
+			lags[j] += (input - lags[j]) * DT;
+			input = lags[j];
+		}
+	}
+	return experiment;
+}
+
+const TU = (2 * Math.PI) / Math.sqrt(3);
+
+describe("tuningRuleGains", () => {
+	const ultimate = { ku: 10, tu: 2 };
+
+	it("gives the classic Ziegler–Nichols PID gains", () => {
+		const gains = tuningRuleGains("ziegler-nichols", ultimate, {
+			integral: true,
+			derivative: true,
+		});
+		expect(gains.kp).toBeCloseTo(6, 12);
+		expect(gains.ki).toBeCloseTo(6, 12);
+		expect(gains.kd).toBeCloseTo(1.5, 12);
+	});
+
+	it("gives the Tyreus–Luyben PI gains", () => {
+		const gains = tuningRuleGains("tyreus-luyben", ultimate, {
+			integral: true,
+			derivative: false,
+		});
+		expect(gains.kp).toBeCloseTo(10 / 3.2, 12);
+		expect(gains.ki).toBeCloseTo(10 / 3.2 / (2.2 * 2), 12);
+		expect(gains.kd).toBe(0);
+	});
+
+	it("leaves out the terms the controller lacks", () => {
+		const gains = tuningRuleGains("ziegler-nichols", ultimate, {
+			integral: false,
+			derivative: false,
+		});
+		expect(gains).toEqual({ kp: 5, ki: 0, kd: 0 });
+	});
+});
+
+describe("auto-tune experiments", () => {
+	it("finds the ultimate gain by raising Kp until the loop rings", () => {
+		const { status, result } = runExperiment("ultimate-gain");
+		expect(status).toBe("done");
+		// Gain stages step by 1.3×, so Ku lands on the first stage past 8
+		expect(result!.ku).toBeGreaterThanOrEqual(8);
+		expect(result!.ku).toBeLessThan(8 * 1.3);
+		expect(result!.tu).toBeCloseTo(TU, 0);
+	});
+
+	it("estimates the ultimate point from relay oscillation", () => {
+		const { status, result } = runExperiment("relay");
+		expect(status).toBe("done");
+		// The describing function is an approximation, good to ~10% here
+		expect(Math.abs(result!.ku - 8) / 8).toBeLessThan(0.1);
+		expect(Math.abs(result!.tu - TU) / TU).toBeLessThan(0.05);
+	});
+
+	it("fails when no gain up to the limit makes the loop oscillate", () => {
+		const experiment = createAutoTune("ultimate-gain", {
+			setpoint: 1,
+			bias: 0,
+			amplitude: 0.2,
+			hysteresis: 0.01,
+			outputMin: -10,
+			outputMax: 10,
+			initialGain: 1,
+			maxGain: 2,
+			stageTime: 1,
+		});
+		// A settled first-order lag never rings
+		let y = 0;
+		for (let i = 0; i < 10 / DT; i++) {
+			y += (stepAutoTune(experiment, y, DT) - y) * DT;
+		}
+		expect(experiment.status).toBe("failed");
+		expect(stepAutoTune(experiment, y, DT)).toBe(0);
+	});
+});
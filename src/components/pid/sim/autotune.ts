@@ -0,0 +1,271 @@
+// Auto-tuning experiments. Both find the ultimate gain Ku and period Tu, the
+// proportional gain and oscillation period at the edge of stability, from
+// which the tuning rules derive PID gains.
+
+import type { PIDGains } from "./controllers";
+import { clamp } from "./plants";
+
+export type AutoTuneMethod = "ultimate-gain" | "relay";
+
+export const AUTO_TUNE_METHODS: { id: AutoTuneMethod; label: string }[] = [
+	{ id: "ultimate-gain", label: "ZN ultimate gain" },
+	{ id: "relay", label: "Relay" },
+];
+
+export type TuningRule = "ziegler-nichols" | "tyreus-luyben" | "no-overshoot";
+
+export const TUNING_RULES: { id: TuningRule; label: string }[] = [
+	{ id: "ziegler-nichols", label: "Classic ZN" },
+	{ id: "tyreus-luyben", label: "Tyreus–Luyben" },
+	{ id: "no-overshoot", label: "No overshoot" },
+];
+
+export interface UltimateGain {
+	ku: number;
+	/** Seconds */
+	tu: number;
+}
+
+export interface AutoTuneOptions {
+	setpoint: number;
+	/** Output that holds the plant near the setpoint; tests perturb around it. */
+	bias: number;
+	/** Relay half-amplitude, also the kick that starts each gain stage. */
+	amplitude: number;
+	/** Relay hysteresis, and the smallest swing counted as oscillation. */
+	hysteresis: number;
+	outputMin: number;
+	outputMax: number;
+	/** Ultimate-gain test: first and largest proportional gains tried. */
+	initialGain: number;
+	maxGain: number;
+	/** Longest time spent at one gain, or a quarter of the relay test's budget. */
+	stageTime: number;
+}
+
+export interface AutoTuneExperiment {
+	method: AutoTuneMethod;
+	options: AutoTuneOptions;
+	status: "running" | "done" | "failed";
+	result: UltimateGain | null;
+	/** One-line progress report for the UI. */
+	message: string;
+	time: number;
+	// Ultimate-gain test: the gain under trial and turning points seen at it
+	gain: number;
+	stageStart: number;
+	previous: number | null;
+	rising: boolean | null;
+	extrema: { time: number; error: number }[];
+	// Relay test: relay position and the swing since the last upward switch
+	relayHigh: boolean;
+	lastSwitch: number | null;
+	cycleMin: number;
+	cycleMax: number;
+	cycles: { period: number; amplitude: number }[];
+}
+
+// Kick at the start of each gain stage so a settled loop has something to ring
+const KICK_TIME = 0.1;
+// Peak ratio over one period that counts as sustained oscillation
+const SUSTAINED_RATIO = 0.9;
+const GAIN_STEP = 1.3;
+// Relay cycles to average, after one discarded while the swing builds
+const RELAY_CYCLES = 3;
+
+export function createAutoTune(
+	method: AutoTuneMethod,
+	options: AutoTuneOptions,
+): AutoTuneExperiment {
+	return {
+		method,
+		options,
+		status: "running",
+		result: null,
+		message:
+			method === "relay"
+				? "Relay: waiting for oscillation"
+				: `Trying Kp = ${options.initialGain.toFixed(2)}`,
+		time: 0,
+		gain: options.initialGain,
+		stageStart: 0,
+		previous: null,
+		rising: null,
+		extrema: [],
+		relayHigh: true,
+		lastSwitch: null,
+		cycleMin: Infinity,
+		cycleMax: -Infinity,
+		cycles: [],
+	};
+}
+
+/**
+ * Advance the experiment by `dt` given the latest measurement and return the
+ * output to apply. Once it stops running the output is just the bias.
+ */
+export function stepAutoTune(
+	experiment: AutoTuneExperiment,
+	measurement: number,
+	dt: number,
+): number {
+	if (experiment.status !== "running") return experiment.options.bias;
+	experiment.time += dt;
+	const output =
+		experiment.method === "relay"
+			? stepRelay(experiment, measurement)
+			: stepUltimateGain(experiment, measurement);
+	const { outputMin, outputMax } = experiment.options;
+	return clamp(output, outputMin, outputMax);
+}
+
+// Åström–Hägglund relay feedback: bang-bang around the bias makes the loop
+// oscillate at its −180° frequency, and the describing function of the relay
+// gives the gain there
+function stepRelay(
+	experiment: AutoTuneExperiment,
+	measurement: number,
+): number {
+	const { setpoint, bias, amplitude, hysteresis, stageTime } =
+		experiment.options;
+	const error = setpoint - measurement;
+	experiment.cycleMin = Math.min(experiment.cycleMin, measurement);
+	experiment.cycleMax = Math.max(experiment.cycleMax, measurement);
+
+	if (!experiment.relayHigh && error > hysteresis) {
+		experiment.relayHigh = true;
+		if (experiment.lastSwitch !== null) {
+			experiment.cycles.push({
+				period: experiment.time - experiment.lastSwitch,
+				amplitude: (experiment.cycleMax - experiment.cycleMin) / 2,
+			});
+			experiment.message = `Relay: cycle ${experiment.cycles.length} of ${RELAY_CYCLES + 1}`;
+		}
+		experiment.lastSwitch = experiment.time;
+		experiment.cycleMin = measurement;
+		experiment.cycleMax = measurement;
+	} else if (experiment.relayHigh && error < -hysteresis) {
+		experiment.relayHigh = false;
+	}
+
+	if (experiment.cycles.length > RELAY_CYCLES) {
+		const recent = experiment.cycles.slice(-RELAY_CYCLES);
+		const mean = (values: number[]) =>
+			values.reduce((sum, value) => sum + value, 0) / values.length;
+		const a = mean(recent.map((cycle) => cycle.amplitude));
+		finish(experiment, {
+			ku: (4 * amplitude) / (Math.PI * a),
+			tu: mean(recent.map((cycle) => cycle.period)),
+		});
+	} else if (experiment.time > 4 * stageTime) {
+		experiment.status = "failed";
+		experiment.message = "Relay: no steady oscillation";
+	}
+	return bias + (experiment.relayHigh ? amplitude : -amplitude);
+}
+
+// Ziegler–Nichols: P-only control, raising the gain stage by stage until the
+// loop rings without decaying
+function stepUltimateGain(
+	experiment: AutoTuneExperiment,
+	measurement: number,
+): number {
+	const { setpoint, bias, amplitude, hysteresis, maxGain, stageTime } =
+		experiment.options;
+	const error = setpoint - measurement;
+	const stageElapsed = experiment.time - experiment.stageStart;
+
+	if (experiment.previous !== null && stageElapsed > KICK_TIME) {
+		const rising = measurement > experiment.previous;
+		if (
+			experiment.rising !== null &&
+			rising !== experiment.rising &&
+			Math.abs(error) > hysteresis
+		)
+			experiment.extrema.push({ time: experiment.time, error });
+		experiment.rising = rising;
+	}
+	experiment.previous = measurement;
+
+	const { extrema } = experiment;
+	if (extrema.length >= 3) {
+		// Same-sided peaks one period apart
+		const first = extrema[extrema.length - 3];
+		const last = extrema[extrema.length - 1];
+		if (Math.abs(last.error) >= SUSTAINED_RATIO * Math.abs(first.error)) {
+			finish(experiment, { ku: experiment.gain, tu: last.time - first.time });
+			return bias;
+		}
+		nextStage(experiment, maxGain);
+	} else if (stageElapsed > stageTime) {
+		nextStage(experiment, maxGain);
+	}
+
+	if (experiment.status !== "running") return bias;
+	if (experiment.time - experiment.stageStart <= KICK_TIME)
+		return bias + amplitude;
+	return bias + experiment.gain * error;
+}
+
+function nextStage(experiment: AutoTuneExperiment, maxGain: number) {
+	experiment.gain *= GAIN_STEP;
+	experiment.stageStart = experiment.time;
+	experiment.rising = null;
+	experiment.extrema = [];
+	if (experiment.gain > maxGain) {
+		experiment.status = "failed";
+		experiment.message = `No sustained oscillation up to Kp = ${maxGain}`;
+	} else {
+		experiment.message = `Trying Kp = ${experiment.gain.toFixed(2)}`;
+	}
+}
+
+function finish(experiment: AutoTuneExperiment, result: UltimateGain) {
+	experiment.status = "done";
+	experiment.result = result;
+	experiment.message = `Ku = ${result.ku.toFixed(2)}, Tu = ${result.tu.toFixed(2)}s`;
+}
+
+type Structure = "p" | "pi" | "pd" | "pid";
+
+// Kp as a fraction of Ku; Ti and Td as fractions of Tu
+const RULE_TABLE: Record<
+	TuningRule,
+	Record<Structure, { kp: number; ti?: number; td?: number }>
+> = {
+	"ziegler-nichols": {
+		p: { kp: 0.5 },
+		pi: { kp: 0.45, ti: 1 / 1.2 },
+		pd: { kp: 0.8, td: 0.125 },
+		pid: { kp: 0.6, ti: 0.5, td: 0.125 },
+	},
+	"tyreus-luyben": {
+		p: { kp: 1 / 3.2 },
+		pi: { kp: 1 / 3.2, ti: 2.2 },
+		pd: { kp: 1 / 2.2, td: 1 / 6.3 },
+		pid: { kp: 1 / 2.2, ti: 2.2, td: 1 / 6.3 },
+	},
+	"no-overshoot": {
+		p: { kp: 0.2 },
+		pi: { kp: 0.2, ti: 0.5 },
+		pd: { kp: 0.2, td: 1 / 3 },
+		pid: { kp: 0.2, ti: 0.5, td: 1 / 3 },
+	},
+};
+
+/** PID gains from a tuning rule, for a controller with or without I and D. */
+export function tuningRuleGains(
+	rule: TuningRule,
+	{ ku, tu }: UltimateGain,
+	{ integral, derivative }: { integral: boolean; derivative: boolean },
+): PIDGains {
+	const structure: Structure =
+		`p${integral ? "i" : ""}${derivative ? "d" : ""}` as Structure;
+	const { kp: kpFactor, ti, td } = RULE_TABLE[rule][structure];
+	const kp = kpFactor * ku;
+	return {
+		kp,
+		ki: ti ? kp / (ti * tu) : 0,
+		kd: td ? kp * td * tu : 0,
+	};
+}
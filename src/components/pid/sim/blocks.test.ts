@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import {
+	DIAGRAM_PRESETS,
+	MAX_BLOCKS,
+	MAX_DELAY_TIME,
+	compileDiagram,
+	createBlock,
+	exportDiagram,
+	initialDiagramState,
+	parseDiagram,
+	runDiagram,
+	stepDiagram,
+} from "./blocks";
+import type { BlockDiagram, DiagramProgram } from "./blocks";
+
+const DT = 0.01;
+
+const wire = (from: string, to: string, toPort = 0) => ({
+	from: { block: from, port: 0 },
+	to: { block: to, port: toPort },
+});
+
+function compile(diagram: BlockDiagram): DiagramProgram {
+	const { program, error } = compileDiagram(diagram, DT);
+	expect(error).toBeNull();
+	return program!;
+}
+
+describe("compileDiagram", () => {
+	it("orders feedthrough blocks after what feeds them", () => {
+		// Listed backwards, so the order has to come from the wires
+		const program = compile({
+			blocks: [
+				createBlock("gain", "g2", 0, 0),
+				createBlock("gain", "g1", 0, 0),
+				createBlock("step", "r", 0, 0),
+			],
+			wires: [wire("r", "g1"), wire("g1", "g2")],
+		});
+		expect(program.order.map((block) => block.id)).toEqual(["r", "g1", "g2"]);
+	});
+
+	it("compiles every preset", () => {
+		for (const { diagram } of DIAGRAM_PRESETS) compile(diagram);
+	});
+
+	it("rejects an algebraic loop", () => {
+		const { error } = compileDiagram(
+			{
+				blocks: [createBlock("sum", "s", 0, 0), createBlock("gain", "g", 0, 0)],
+				wires: [wire("s", "g"), wire("g", "s", 1)],
+			},
+			DT,
+		);
+		expect(error).toMatch(/Algebraic loop through s, g/);
+	});
+
+	it("accepts a loop broken by a stateful block", () => {
+		compile({
+			blocks: [createBlock("sum", "s", 0, 0), createBlock("filter", "f", 0, 0)],
+			wires: [wire("s", "f"), wire("f", "s", 1)],
+		});
+	});
+
+	it("rejects a wire to a missing port", () => {
+		const { error } = compileDiagram(
+			{
+				blocks: [
+					createBlock("step", "r", 0, 0),
+					createBlock("gain", "g", 0, 0),
+				],
+				wires: [wire("r", "g", 1)],
+			},
+			DT,
+		);
+		expect(error).toMatch(/no port/);
+	});
+});
+
+describe("stepDiagram", () => {
+	it("doesn't kick the PID derivative on its first step", () => {
+		const program = compile({
+			blocks: [
+				createBlock("step", "r", 0, 0, { initial: 1, final: 1 }),
+				createBlock("pid", "pid", 0, 0, { kp: 0, ki: 0, kd: 1 }),
+			],
+			wires: [wire("r", "pid")],
+		});
+		const [first, second] = runDiagram(program, 2);
+		expect(first.signals.pid[0]).toBe(0);
+		expect(second.signals.pid[0]).toBe(0);
+	});
+
+	it("saturates between bounds given in either order", () => {
+		const program = compile({
+			blocks: [
+				createBlock("step", "r", 0, 0, { initial: 5, final: 5 }),
+				createBlock("saturation", "sat", 0, 0, { min: 2, max: -2 }),
+			],
+			wires: [wire("r", "sat")],
+		});
+		const { signals } = stepDiagram(program, initialDiagramState(program));
+		expect(signals.sat[0]).toBe(2);
+	});
+
+	it("delays by whole steps", () => {
+		const program = compile({
+			blocks: [
+				createBlock("step", "r", 0, 0, { initial: 0, final: 1, time: 0 }),
+				createBlock("delay", "d", 0, 0, { time: 3 * DT }),
+			],
+			wires: [wire("r", "d")],
+		});
+		const outputs = runDiagram(program, 5).map(({ signals }) => signals.d[0]);
+		expect(outputs).toEqual([0, 0, 0, 1, 1]);
+	});
+
+	it("brings the PID preset to its target", () => {
+		const program = compile(DIAGRAM_PRESETS[0].diagram);
+		const samples = runDiagram(program, 8 / DT);
+		const last = samples[samples.length - 1].signals;
+		expect(last.motor[0]).toBeCloseTo(last.r[0], 1);
+	});
+});
+
+describe("parseDiagram", () => {
+	it("round-trips an exported diagram", () => {
+		for (const { diagram } of DIAGRAM_PRESETS)
+			expect(parseDiagram(exportDiagram(diagram))).toEqual(diagram);
+	});
+
+	it("fills in missing parameters and bounds the delay", () => {
+		const diagram = parseDiagram(
+			JSON.stringify({
+				blocks: [
+					{ id: "p", kind: "pid", params: { kp: 3 } },
+					{ id: "d", kind: "delay", params: { time: 1e9 } },
+					{ id: "s", kind: "sum", params: { signs: "+++++" } },
+				],
+				wires: [],
+			}),
+		);
+		expect(diagram!.blocks[0].params).toEqual({ kp: 3, ki: 0.9, kd: 0.8 });
+		expect(diagram!.blocks[1].params).toEqual({ time: MAX_DELAY_TIME });
+		expect(diagram!.blocks[2].params).toEqual({ signs: "+-" });
+	});
+
+	it("keeps only the last wire into an input", () => {
+		const diagram = parseDiagram(
+			JSON.stringify({
+				blocks: [
+					{ id: "a", kind: "step" },
+					{ id: "b", kind: "step" },
+					{ id: "g", kind: "gain" },
+				],
+				wires: [wire("a", "g"), wire("b", "g")],
+			}),
+		);
+		expect(diagram!.wires).toEqual([wire("b", "g")]);
+	});
+
+	it.each([
+		["not JSON", "{"],
+		["not a diagram", "[]"],
+		["an unknown kind", '{"blocks":[{"id":"a","kind":"pump"}],"wires":[]}'],
+		[
+			"a duplicate id",
+			'{"blocks":[{"id":"a","kind":"gain"},{"id":"a","kind":"gain"}],"wires":[]}',
+		],
+		["an id with spaces", '{"blocks":[{"id":"a b","kind":"gain"}],"wires":[]}'],
+		["__proto__", '{"blocks":[{"id":"__proto__","kind":"gain"}],"wires":[]}'],
+		[
+			"constructor",
+			'{"blocks":[{"id":"constructor","kind":"gain"}],"wires":[]}',
+		],
+		[
+			"too many blocks",
+			JSON.stringify({
+				blocks: Array.from({ length: MAX_BLOCKS + 1 }, (_, i) => ({
+					id: `g${i}`,
+					kind: "gain",
+				})),
+				wires: [],
+			}),
+		],
+		[
+			"a malformed wire",
+			'{"blocks":[],"wires":[{"from":{"block":"a","port":-1},"to":{"block":"b","port":0}}]}',
+		],
+	])("rejects %s", (_, text) => {
+		expect(parseDiagram(text)).toBeNull();
+	});
+});
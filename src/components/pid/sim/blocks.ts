@@ -0,0 +1,655 @@
+// Block diagrams that readers wire up themselves. A diagram is plain JSON:
+// blocks with positions and parameters, and wires from an output port to an
+// input port. compileDiagram orders it for a fixed-step simulation, in which
+// every block runs once per step in a sampled-data fashion:
+//
+//   1. Blocks whose output comes from their state alone (filter, delay,
+//      plant) publish it.
+//   2. The rest (sources, sums, gains, PID, saturation) run in dependency
+//      order, each from its inputs' values this step.
+//   3. Every block with state then advances by dt.
+//
+// A cycle through step-2 blocks alone would need its own output to compute
+// itself, so compiling rejects it as an algebraic loop.
+
+import {
+	MOMENT_OF_INERTIA,
+	POINTER_MOTOR_FRICTION,
+	clamp,
+	motorPlant,
+} from "./plants";
+import { stepPlant } from "./integrators";
+import type { IntegratorMethod } from "./integrators";
+
+export type BlockKind =
+	| "step"
+	| "sum"
+	| "gain"
+	| "pid"
+	| "filter"
+	| "saturation"
+	| "delay"
+	| "motor";
+
+export interface BlockParams {
+	/** Jumps from `initial` to `final` at `time` seconds. */
+	step: { initial: number; final: number; time: number };
+	/** One input per character, each "+" or "-". */
+	sum: { signs: string };
+	gain: { gain: number };
+	/** Parallel PID on its input, with a backward-difference derivative. */
+	pid: { kp: number; ki: number; kd: number };
+	/** First-order low-pass with time constant in seconds. */
+	filter: { timeConstant: number };
+	/** Bounds in either order. */
+	saturation: { min: number; max: number };
+	/** Transport delay in seconds, rounded to whole steps. */
+	delay: { time: number };
+	/** The pointer's motor: torque in, angle and angular velocity out. */
+	motor: { mass: number; initialAngle: number };
+}
+
+export type DiagramBlock = {
+	[K in BlockKind]: {
+		id: string;
+		kind: K;
+		x: number;
+		y: number;
+		params: BlockParams[K];
+	};
+}[BlockKind];
+
+export interface PortRef {
+	block: string;
+	port: number;
+}
+
+export interface DiagramWire {
+	from: PortRef;
+	to: PortRef;
+}
+
+export interface BlockDiagram {
+	blocks: DiagramBlock[];
+	wires: DiagramWire[];
+}
+
+interface BlockType<K extends BlockKind> {
+	label: string;
+	/** Whether the output depends on this step's inputs, not just on state. */
+	feedthrough: boolean;
+	/** Input port labels. */
+	inputs: (params: BlockParams[K]) => string[];
+	/** Output port labels. */
+	outputs: string[];
+	defaults: BlockParams[K];
+}
+
+const MIN_TIME_CONSTANT = 0.005;
+// A delay buffers time/dt samples, so it is held to one editor run at most
+export const MAX_DELAY_TIME = 8; // s
+export const MAX_BLOCKS = 40;
+export const MAX_SUM_INPUTS = 4;
+
+export const BLOCK_TYPES: { [K in BlockKind]: BlockType<K> } = {
+	step: {
+		label: "Step",
+		feedthrough: true,
+		inputs: () => [],
+		outputs: ["r"],
+		defaults: { initial: Math.PI / 2, final: (3 * Math.PI) / 4, time: 0.5 },
+	},
+	sum: {
+		label: "Σ",
+		feedthrough: true,
+		inputs: (params) => params.signs.split(""),
+		outputs: ["out"],
+		defaults: { signs: "+-" },
+	},
+	gain: {
+		label: "Gain",
+		feedthrough: true,
+		inputs: () => ["in"],
+		outputs: ["out"],
+		defaults: { gain: 1 },
+	},
+	pid: {
+		label: "PID",
+		feedthrough: true,
+		inputs: () => ["e"],
+		outputs: ["u"],
+		defaults: { kp: 2, ki: 0.9, kd: 0.8 },
+	},
+	filter: {
+		label: "Filter",
+		feedthrough: false,
+		inputs: () => ["in"],
+		outputs: ["out"],
+		defaults: { timeConstant: 0.05 },
+	},
+	saturation: {
+		label: "Sat",
+		feedthrough: true,
+		inputs: () => ["in"],
+		outputs: ["out"],
+		defaults: { min: -2, max: 2 },
+	},
+	delay: {
+		label: "Delay",
+		feedthrough: false,
+		inputs: () => ["in"],
+		outputs: ["out"],
+		defaults: { time: 0.05 },
+	},
+	motor: {
+		label: "Motor",
+		feedthrough: false,
+		inputs: () => ["τ"],
+		outputs: ["θ", "ω"],
+		defaults: { mass: 0.5, initialAngle: Math.PI / 2 },
+	},
+};
+
+export const BLOCK_KINDS = Object.keys(BLOCK_TYPES) as BlockKind[];
+
+export const blockInputs = (block: DiagramBlock): string[] =>
+	(BLOCK_TYPES[block.kind] as BlockType<BlockKind>).inputs(block.params);
+
+export const blockOutputs = (block: DiagramBlock): string[] =>
+	BLOCK_TYPES[block.kind].outputs;
+
+/** A new block of `kind`, with default parameters wherever `params` has none. */
+export function createBlock<K extends BlockKind>(
+	kind: K,
+	id: string,
+	x: number,
+	y: number,
+	params?: Partial<BlockParams[K]>,
+): DiagramBlock {
+	const defaults: BlockParams[K] = BLOCK_TYPES[kind].defaults;
+	return { id, kind, x, y, params: { ...defaults, ...params } } as DiagramBlock;
+}
+
+/** The first `prefix` + number id not already in the diagram. */
+export function nextBlockId(diagram: BlockDiagram, prefix: string): string {
+	const ids = new Set(diagram.blocks.map((block) => block.id));
+	let n = 1;
+	while (ids.has(`${prefix}${n}`)) n++;
+	return `${prefix}${n}`;
+}
+
+/** Connect a wire, replacing whatever fed that input before. */
+export function connect(
+	diagram: BlockDiagram,
+	from: PortRef,
+	to: PortRef,
+): BlockDiagram {
+	return {
+		...diagram,
+		wires: [
+			...diagram.wires.filter(
+				(wire) => wire.to.block !== to.block || wire.to.port !== to.port,
+			),
+			{ from, to },
+		],
+	};
+}
+
+/** Remove a block and every wire touching it. */
+export function removeBlock(diagram: BlockDiagram, id: string): BlockDiagram {
+	return {
+		blocks: diagram.blocks.filter((block) => block.id !== id),
+		wires: diagram.wires.filter(
+			(wire) => wire.from.block !== id && wire.to.block !== id,
+		),
+	};
+}
+
+/**
+ * Replace a block, dropping wires to inputs it no longer has (a sum that
+ * lost a sign).
+ */
+export function updateBlock(
+	diagram: BlockDiagram,
+	block: DiagramBlock,
+): BlockDiagram {
+	const inputCount = blockInputs(block).length;
+	return {
+		blocks: diagram.blocks.map((b) => (b.id === block.id ? block : b)),
+		wires: diagram.wires.filter(
+			(wire) => wire.to.block !== block.id || wire.to.port < inputCount,
+		),
+	};
+}
+
+// --- Compiling and running --------------------------------------------------
+
+export interface DiagramProgram {
+	diagram: BlockDiagram;
+	dt: number;
+	/** Feedthrough blocks in the order they run each step. */
+	order: DiagramBlock[];
+	/** What feeds each input of each block, or null if it is unconnected. */
+	sources: Record<string, (PortRef | null)[]>;
+}
+
+export type DiagramCompilation =
+	| { program: DiagramProgram; error: null }
+	| { program: null; error: string };
+
+export interface DiagramState {
+	time: number;
+	/** Each stateful block's state vector. */
+	states: Record<string, number[]>;
+}
+
+/** Every block's outputs on one step. */
+export type DiagramSignals = Record<string, number[]>;
+
+/**
+ * Order a diagram for simulation at step `dt`, or explain why it cannot run:
+ * a wire to a missing port, or an algebraic loop.
+ */
+export function compileDiagram(
+	diagram: BlockDiagram,
+	dt: number,
+): DiagramCompilation {
+	const blocks = new Map(diagram.blocks.map((block) => [block.id, block]));
+	const sources: Record<string, (PortRef | null)[]> = {};
+	for (const block of diagram.blocks)
+		sources[block.id] = blockInputs(block).map(() => null);
+
+	for (const { from, to } of diagram.wires) {
+		const source = blocks.get(from.block);
+		const target = blocks.get(to.block);
+		if (
+			!source ||
+			!target ||
+			from.port >= blockOutputs(source).length ||
+			to.port >= sources[to.block].length
+		)
+			return {
+				program: null,
+				error: `Wire from ${from.block} to ${to.block} has no port to connect to`,
+			};
+		sources[to.block][to.port] = from;
+	}
+
+	// Kahn's algorithm over the feedthrough blocks; stateful blocks break
+	// every cycle through them
+	const feedthrough = diagram.blocks.filter(
+		(block) => BLOCK_TYPES[block.kind].feedthrough,
+	);
+	const waitingOn = new Map<string, number>();
+	const dependents = new Map<string, string[]>();
+	for (const block of feedthrough) {
+		const upstream = new Set(
+			sources[block.id]
+				.filter((source): source is PortRef => source !== null)
+				.map((source) => source.block)
+				.filter((id) => BLOCK_TYPES[blocks.get(id)!.kind].feedthrough),
+		);
+		waitingOn.set(block.id, upstream.size);
+		for (const id of upstream)
+			dependents.set(id, [...(dependents.get(id) ?? []), block.id]);
+	}
+	const ready = feedthrough.filter((block) => waitingOn.get(block.id) === 0);
+	const order: DiagramBlock[] = [];
+	while (ready.length > 0) {
+		const block = ready.shift()!;
+		order.push(block);
+		for (const id of dependents.get(block.id) ?? []) {
+			const remaining = waitingOn.get(id)! - 1;
+			waitingOn.set(id, remaining);
+			if (remaining === 0) ready.push(blocks.get(id)!);
+		}
+	}
+	if (order.length < feedthrough.length) {
+		const looped = feedthrough
+			.filter((block) => !order.includes(block))
+			.map((block) => block.id);
+		return {
+			program: null,
+			error: `Algebraic loop through ${looped.join(", ")}: add a filter, delay or plant to it`,
+		};
+	}
+
+	return { program: { diagram, dt, order, sources }, error: null };
+}
+
+/** A parameter held to the range the simulation can size its state for. */
+export const boundParam = (kind: BlockKind, key: string, value: number) =>
+	kind === "delay" && key === "time" ? clamp(value, 0, MAX_DELAY_TIME) : value;
+
+const delaySteps = (time: number, dt: number) =>
+	Math.max(1, Math.round(boundParam("delay", "time", time) / dt));
+
+/** Every block at rest, with plants at their initial angles. */
+export function initialDiagramState(program: DiagramProgram): DiagramState {
+	const states: Record<string, number[]> = {};
+	for (const block of program.diagram.blocks) {
+		switch (block.kind) {
+			case "pid":
+				// Integral, and previous input: NaN until the first step, so
+				// the derivative doesn't kick on whatever the input starts at
+				states[block.id] = [0, NaN];
+				break;
+			case "filter":
+				states[block.id] = [0];
+				break;
+			case "delay":
+				states[block.id] = new Array(
+					delaySteps(block.params.time, program.dt),
+				).fill(0);
+				break;
+			case "motor":
+				states[block.id] = [block.params.initialAngle, 0];
+				break;
+		}
+	}
+	return { time: 0, states };
+}
+
+/**
+ * Run one step: every block's outputs at the current time, and the state
+ * the step leaves behind.
+ */
+export function stepDiagram(
+	program: DiagramProgram,
+	state: DiagramState,
+	integrator?: IntegratorMethod,
+): { signals: DiagramSignals; state: DiagramState } {
+	const { diagram, dt, order, sources } = program;
+	const signals: DiagramSignals = {};
+	const input = (id: string, port: number) => {
+		const source = sources[id][port];
+		return source ? (signals[source.block]?.[source.port] ?? 0) : 0;
+	};
+
+	// Outputs set by state alone
+	for (const block of diagram.blocks) {
+		const x = state.states[block.id];
+		if (block.kind === "filter" || block.kind === "delay")
+			signals[block.id] = [x[0]];
+		else if (block.kind === "motor") signals[block.id] = [x[0], x[1]];
+	}
+
+	for (const block of order) {
+		const x = state.states[block.id];
+		switch (block.kind) {
+			case "step": {
+				const { initial, final, time } = block.params;
+				signals[block.id] = [state.time >= time ? final : initial];
+				break;
+			}
+			case "sum":
+				signals[block.id] = [
+					block.params.signs
+						.split("")
+						.reduce(
+							(total, sign, port) =>
+								total + (sign === "-" ? -1 : 1) * input(block.id, port),
+							0,
+						),
+				];
+				break;
+			case "gain":
+				signals[block.id] = [block.params.gain * input(block.id, 0)];
+				break;
+			case "pid": {
+				const { kp, ki, kd } = block.params;
+				const e = input(block.id, 0);
+				const previous = Number.isNaN(x[1]) ? e : x[1];
+				signals[block.id] = [kp * e + ki * x[0] + (kd * (e - previous)) / dt];
+				break;
+			}
+			case "saturation": {
+				const { min, max } = block.params;
+				signals[block.id] = [
+					clamp(input(block.id, 0), Math.min(min, max), Math.max(min, max)),
+				];
+				break;
+			}
+		}
+	}
+
+	const states: Record<string, number[]> = {};
+	for (const block of diagram.blocks) {
+		const x = state.states[block.id];
+		const u = input(block.id, 0);
+		switch (block.kind) {
+			case "pid":
+				states[block.id] = [x[0] + u * dt, u];
+				break;
+			case "filter": {
+				const tau = Math.max(MIN_TIME_CONSTANT, block.params.timeConstant);
+				states[block.id] = [x[0] + (u - x[0]) * (1 - Math.exp(-dt / tau))];
+				break;
+			}
+			case "delay":
+				states[block.id] = [...x.slice(1), u];
+				break;
+			case "motor": {
+				const next = stepPlant(
+					motorPlant,
+					{ angle: x[0], angularVelocity: x[1] },
+					u,
+					{
+						inertia: MOMENT_OF_INERTIA,
+						friction: POINTER_MOTOR_FRICTION,
+						mass: block.params.mass,
+					},
+					dt,
+					integrator,
+				);
+				states[block.id] = [next.angle, next.angularVelocity];
+				break;
+			}
+		}
+	}
+
+	return { signals, state: { time: state.time + dt, states } };
+}
+
+/** Run a compiled diagram headlessly for `steps` steps. */
+export function runDiagram(
+	program: DiagramProgram,
+	steps: number,
+	integrator?: IntegratorMethod,
+): { t: number; signals: DiagramSignals }[] {
+	const samples: { t: number; signals: DiagramSignals }[] = [];
+	let state = initialDiagramState(program);
+	for (let k = 0; k < steps; k++) {
+		const result = stepDiagram(program, state, integrator);
+		samples.push({ t: state.time, signals: result.signals });
+		state = result.state;
+		// An unstable loop blows up; stop before the numbers stop meaning anything
+		if (
+			Object.values(result.signals)
+				.flat()
+				.some((v) => !Number.isFinite(v))
+		)
+			break;
+	}
+	return samples;
+}
+
+// --- Presets ----------------------------------------------------------------
+
+const wire = (
+	from: string,
+	fromPort: number,
+	to: string,
+	toPort: number,
+): DiagramWire => ({
+	from: { block: from, port: fromPort },
+	to: { block: to, port: toPort },
+});
+
+export const DIAGRAM_PRESETS: {
+	id: string;
+	label: string;
+	diagram: BlockDiagram;
+}[] = [
+	{
+		id: "pid",
+		label: "PID loop",
+		diagram: {
+			blocks: [
+				createBlock("step", "r", 50, 90),
+				createBlock("sum", "e", 150, 90),
+				createBlock("pid", "pid", 260, 90),
+				createBlock("saturation", "sat", 380, 90),
+				createBlock("motor", "motor", 500, 90),
+			],
+			wires: [
+				wire("r", 0, "e", 0),
+				wire("e", 0, "pid", 0),
+				wire("pid", 0, "sat", 0),
+				wire("sat", 0, "motor", 0),
+				wire("motor", 0, "e", 1),
+			],
+		},
+	},
+	{
+		id: "feedforward",
+		label: "Feedforward",
+		diagram: {
+			blocks: [
+				createBlock("step", "r", 50, 110),
+				createBlock("sum", "e", 150, 110),
+				createBlock("pid", "pd", 260, 110, { kp: 2, ki: 0, kd: 0.8 }),
+				// The torque that holds the default mass at the target, switched
+				// in with the target: no integral needed to remove the droop
+				createBlock("step", "ff", 260, 40, {
+					initial: 0,
+					final: 0.5 * Math.cos((3 * Math.PI) / 4),
+					time: 0.5,
+				}),
+				createBlock("sum", "u", 370, 110, { signs: "++" }),
+				createBlock("saturation", "sat", 460, 110),
+				createBlock("motor", "motor", 570, 110),
+			],
+			wires: [
+				wire("r", 0, "e", 0),
+				wire("e", 0, "pd", 0),
+				wire("ff", 0, "u", 0),
+				wire("pd", 0, "u", 1),
+				wire("u", 0, "sat", 0),
+				wire("sat", 0, "motor", 0),
+				wire("motor", 0, "e", 1),
+			],
+		},
+	},
+	{
+		id: "cascade",
+		label: "Cascade",
+		diagram: {
+			blocks: [
+				createBlock("step", "r", 40, 90),
+				createBlock("sum", "e", 120, 90),
+				createBlock("gain", "pos", 200, 90, { gain: 3 }),
+				createBlock("sum", "ev", 285, 90),
+				createBlock("pid", "vel", 370, 90, { kp: 1, ki: 4, kd: 0 }),
+				createBlock("saturation", "sat", 460, 90),
+				createBlock("motor", "motor", 570, 90),
+			],
+			wires: [
+				wire("r", 0, "e", 0),
+				wire("e", 0, "pos", 0),
+				wire("pos", 0, "ev", 0),
+				wire("ev", 0, "vel", 0),
+				wire("vel", 0, "sat", 0),
+				wire("sat", 0, "motor", 0),
+				wire("motor", 0, "e", 1),
+				wire("motor", 1, "ev", 1),
+			],
+		},
+	},
+];
+
+// --- JSON -------------------------------------------------------------------
+
+export const exportDiagram = (diagram: BlockDiagram): string =>
+	JSON.stringify(diagram, null, 2);
+
+// Ids key plain objects, so an imported one is kept to word characters and
+// may not name anything objects inherit, such as "__proto__"
+const BLOCK_ID = /^[\w-]+$/;
+const isBlockId = (id: unknown): id is string =>
+	typeof id === "string" && BLOCK_ID.test(id) && !(id in Object.prototype);
+
+/**
+ * Read a diagram from JSON, filling in missing parameters from each block's
+ * defaults and bounding the rest, or return null if it is not a diagram.
+ * Wires to missing ports are left for compileDiagram to report.
+ */
+export function parseDiagram(text: string): BlockDiagram | null {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	if (typeof data !== "object" || data === null) return null;
+	const { blocks, wires } = data as Record<string, unknown>;
+	if (!Array.isArray(blocks) || !Array.isArray(wires)) return null;
+	if (blocks.length > MAX_BLOCKS) return null;
+
+	const number = (value: unknown, fallback: number) =>
+		typeof value === "number" && Number.isFinite(value) ? value : fallback;
+	const parsed: DiagramBlock[] = [];
+	for (const raw of blocks) {
+		if (typeof raw !== "object" || raw === null) return null;
+		const { id, kind, x, y, params } = raw as Record<string, unknown>;
+		if (!isBlockId(id) || !BLOCK_KINDS.includes(kind as BlockKind))
+			return null;
+		if (parsed.some((block) => block.id === id)) return null;
+		const block = createBlock(
+			kind as BlockKind,
+			id,
+			number(x, 0),
+			number(y, 0),
+		);
+		const given = (
+			typeof params === "object" && params !== null ? params : {}
+		) as Record<string, unknown>;
+		const merged = block.params as unknown as Record<string, unknown>;
+		for (const key of Object.keys(merged)) {
+			if (key === "signs") {
+				const signs = given.signs;
+				if (
+					typeof signs === "string" &&
+					/^[+-]+$/.test(signs) &&
+					signs.length <= MAX_SUM_INPUTS
+				)
+					merged.signs = signs;
+			} else
+				merged[key] = boundParam(
+					block.kind,
+					key,
+					number(given[key], merged[key] as number),
+				);
+		}
+		parsed.push(block);
+	}
+
+	const port = (value: unknown): PortRef | null => {
+		if (typeof value !== "object" || value === null) return null;
+		const { block, port } = value as Record<string, unknown>;
+		return typeof block === "string" &&
+			Number.isInteger(port) &&
+			(port as number) >= 0
+			? { block, port: port as number }
+			: null;
+	};
+	let diagram: BlockDiagram = { blocks: parsed, wires: [] };
+	for (const raw of wires) {
+		if (typeof raw !== "object" || raw === null) return null;
+		const from = port((raw as Record<string, unknown>).from);
+		const to = port((raw as Record<string, unknown>).to);
+		if (!from || !to) return null;
+		diagram = connect(diagram, from, to);
+	}
+	return diagram;
+}
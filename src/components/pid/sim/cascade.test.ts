@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_CASCADE_GAINS,
+	MAX_VELOCITY_COMMAND,
+	cascadeBandwidths,
+	initialCascadeState,
+	stepCascade,
+} from "./cascade";
+import type { CascadeLoops, CascadeParams, CascadeState } from "./cascade";
+import { DEFAULT_DC_MOTOR } from "./dcmotor";
+import { MOMENT_OF_INERTIA, POINTER_MOTOR_FRICTION } from "./plants";
+
+const DT = 0.01;
+const PARAMS: CascadeParams = {
+	motor: DEFAULT_DC_MOTOR,
+	mechanics: {
+		inertia: MOMENT_OF_INERTIA,
+		friction: POINTER_MOTOR_FRICTION,
+		mass: 0,
+	},
+};
+const ALL_LOOPS: CascadeLoops = { velocity: true, current: true };
+
+/** Run the cascade from 0 to `target` for `duration` seconds. */
+function run(
+	target: number,
+	duration: number,
+	loops = ALL_LOOPS,
+): CascadeState[] {
+	let state = initialCascadeState(0);
+	const states: CascadeState[] = [];
+	for (let i = 0; i < duration / DT; i++) {
+		state = stepCascade(
+			state,
+			target,
+			DEFAULT_CASCADE_GAINS,
+			loops,
+			PARAMS,
+			DT,
+		);
+		states.push(state);
+	}
+	return states;
+}
+
+describe("stepCascade", () => {
+	it("settles on the target", () => {
+		const states = run(1, 3);
+		const last = states[states.length - 1];
+		expect(last.angle).toBeCloseTo(1, 2);
+		expect(last.angularVelocity).toBeCloseTo(0, 1);
+	});
+
+	it("keeps the commands within their limits", () => {
+		for (const state of run(3, 1)) {
+			expect(Math.abs(state.velocityCommand)).toBeLessThanOrEqual(
+				MAX_VELOCITY_COMMAND,
+			);
+			expect(Math.abs(state.current)).toBeLessThanOrEqual(
+				DEFAULT_DC_MOTOR.currentLimit,
+			);
+			expect(Math.abs(state.voltage)).toBeLessThanOrEqual(
+				DEFAULT_DC_MOTOR.supplyVoltage + 1e-9,
+			);
+		}
+	});
+
+	it("passes commands straight through with the inner loops off", () => {
+		const [first] = run(0.1, DT, { velocity: false, current: false });
+		const { positionKp, velocityKp } = DEFAULT_CASCADE_GAINS;
+		expect(first.velocityCommand).toBeCloseTo(
+			positionKp * (0.1 - first.angle),
+			1,
+		);
+		expect(first.currentCommand).toBeCloseTo(
+			velocityKp * first.velocityCommand,
+		);
+		expect(first.voltage).toBeCloseTo(
+			DEFAULT_DC_MOTOR.resistance * first.currentCommand,
+		);
+		expect(first.velocityIntegral).toBe(0);
+		expect(first.currentIntegral).toBe(0);
+	});
+});
+
+describe("cascadeBandwidths", () => {
+	it("separates the default loops by about a decade or more", () => {
+		const { position, velocity, current } = cascadeBandwidths(
+			DEFAULT_CASCADE_GAINS,
+			ALL_LOOPS,
+			PARAMS,
+		);
+		expect(position.crossover).toBeGreaterThan(2);
+		expect(position.crossover).toBeLessThan(8);
+		expect(velocity!.crossover).toBeGreaterThan(10);
+		expect(velocity!.crossover).toBeLessThan(40);
+		expect(current!.crossover).toBeGreaterThan(100);
+		expect(current!.crossover).toBeLessThan(400);
+		for (const loop of [position, velocity!, current!])
+			expect(loop.phaseMargin).toBeGreaterThan(30);
+	});
+
+	it("reports nothing for a loop that is off", () => {
+		const bandwidths = cascadeBandwidths(
+			DEFAULT_CASCADE_GAINS,
+			{ velocity: false, current: false },
+			PARAMS,
+		);
+		expect(bandwidths.velocity).toBeNull();
+		expect(bandwidths.current).toBeNull();
+		expect(bandwidths.position.crossover).not.toBeNull();
+	});
+});
@@ -0,0 +1,266 @@
+// Cascaded position control of the pointer through its DC motor: a position
+// P loop commands velocity, a velocity PI loop commands current, and a
+// current PI loop sets the armature voltage. Each inner loop can be switched
+// off, in which case its command passes straight through as a feedforward
+// (current × R for the voltage, velocity × velocity Kp for the current).
+
+import { stepDCMotor } from "./dcmotor";
+import type { DCMotorParams } from "./dcmotor";
+import type { IntegratorMethod } from "./integrators";
+import { stepPlant } from "./integrators";
+import {
+	closedLoop,
+	frequencyResponse,
+	polyAdd,
+	polyMul,
+	series,
+	stabilityMargins,
+} from "./linear";
+import type { TransferFunction } from "./linear";
+import { clamp, motorPlant } from "./plants";
+import type { MotorParams, MotorState } from "./plants";
+
+export interface CascadeGains {
+	/** (rad/s) per rad. */
+	positionKp: number;
+	/** A per (rad/s), and A per rad. */
+	velocityKp: number;
+	velocityKi: number;
+	/** V per A, and V per A·s. */
+	currentKp: number;
+	currentKi: number;
+}
+
+// Crossovers near 4, 20 and 200 rad/s on the default motor, each loop well
+// inside the next so they barely interact
+export const DEFAULT_CASCADE_GAINS: CascadeGains = {
+	positionKp: 4,
+	velocityKp: 14,
+	velocityKi: 70,
+	currentKp: 10,
+	currentKi: 200,
+};
+
+export interface CascadeLoops {
+	velocity: boolean;
+	current: boolean;
+}
+
+export interface CascadeParams {
+	motor: DCMotorParams;
+	mechanics: MotorParams;
+}
+
+export interface CascadeState extends MotorState {
+	current: number;
+	velocityIntegral: number;
+	currentIntegral: number;
+	velocityCommand: number;
+	currentCommand: number;
+	voltage: number;
+}
+
+export const MAX_VELOCITY_COMMAND = 8; // rad/s
+
+// The current loop needs a far shorter step than the widgets' frame-rate DT
+const SUBSTEPS = 20;
+
+export const initialCascadeState = (angle: number): CascadeState => ({
+	angle,
+	angularVelocity: 0,
+	current: 0,
+	velocityIntegral: 0,
+	currentIntegral: 0,
+	velocityCommand: 0,
+	currentCommand: 0,
+	voltage: 0,
+});
+
+/**
+ * PI with conditional integration: the integral holds while the output is
+ * pinned at a limit and the error would push it further.
+ */
+function piStep(
+	error: number,
+	integral: number,
+	kp: number,
+	ki: number,
+	limit: number,
+	dt: number,
+): { output: number; integral: number } {
+	const unclamped = kp * error + ki * integral;
+	const output = clamp(unclamped, -limit, limit);
+	const winding =
+		output !== unclamped && Math.sign(error) === Math.sign(unclamped);
+	return { output, integral: winding ? integral : integral + error * dt };
+}
+
+/** Advance the cascade by `dt`, running every loop on each substep. */
+export function stepCascade(
+	state: CascadeState,
+	target: number,
+	gains: CascadeGains,
+	loops: CascadeLoops,
+	params: CascadeParams,
+	dt: number,
+	integrator?: IntegratorMethod,
+): CascadeState {
+	const { motor, mechanics } = params;
+	const h = dt / SUBSTEPS;
+	let next = state;
+	for (let i = 0; i < SUBSTEPS; i++) {
+		const velocityCommand = clamp(
+			gains.positionKp * (target - next.angle),
+			-MAX_VELOCITY_COMMAND,
+			MAX_VELOCITY_COMMAND,
+		);
+
+		let currentCommand: number;
+		let velocityIntegral = 0;
+		if (loops.velocity) {
+			const pi = piStep(
+				velocityCommand - next.angularVelocity,
+				next.velocityIntegral,
+				gains.velocityKp,
+				gains.velocityKi,
+				motor.currentLimit,
+				h,
+			);
+			currentCommand = pi.output;
+			velocityIntegral = pi.integral;
+		} else {
+			currentCommand = clamp(
+				gains.velocityKp * velocityCommand,
+				-motor.currentLimit,
+				motor.currentLimit,
+			);
+		}
+
+		let voltage: number;
+		let currentIntegral = 0;
+		if (loops.current) {
+			const pi = piStep(
+				currentCommand - next.current,
+				next.currentIntegral,
+				gains.currentKp,
+				gains.currentKi,
+				motor.supplyVoltage,
+				h,
+			);
+			voltage = pi.output;
+			currentIntegral = pi.integral;
+		} else {
+			voltage = clamp(
+				motor.resistance * currentCommand,
+				-motor.supplyVoltage,
+				motor.supplyVoltage,
+			);
+		}
+
+		const electrics = stepDCMotor(
+			next.current,
+			motor,
+			voltage / motor.supplyVoltage,
+			next.angularVelocity,
+			h,
+		);
+		const mechanicsState = stepPlant(
+			motorPlant,
+			next,
+			electrics.torque,
+			mechanics,
+			h,
+			integrator,
+		);
+		next = {
+			...mechanicsState,
+			current: electrics.current,
+			velocityIntegral,
+			currentIntegral,
+			velocityCommand,
+			currentCommand,
+			voltage: electrics.voltage,
+		};
+	}
+	return next;
+}
+
+export interface LoopBandwidth {
+	/** Open-loop gain crossover in rad/s. */
+	crossover: number | null;
+	/** Degrees. */
+	phaseMargin: number | null;
+}
+
+const piTransferFunction = (kp: number, ki: number): TransferFunction => ({
+	num: [kp, ki],
+	den: [1, 0],
+});
+
+const gain = (k: number): TransferFunction => ({ num: [k], den: [1] });
+
+const bandwidth = (loop: TransferFunction): LoopBandwidth => {
+	const margins = stabilityMargins(frequencyResponse(loop, 0.01, 1e5, 600));
+	return { crossover: margins.gainCrossover, phaseMargin: margins.phaseMargin };
+};
+
+/**
+ * Crossover and phase margin of each enabled loop, opened at its own error
+ * with every loop inside it closed. Gravity and the limits are left out, and
+ * back-EMF is treated as a disturbance on the current loop.
+ */
+export function cascadeBandwidths(
+	gains: CascadeGains,
+	loops: CascadeLoops,
+	params: CascadeParams,
+): {
+	position: LoopBandwidth;
+	velocity: LoopBandwidth | null;
+	current: LoopBandwidth | null;
+} {
+	const { resistance, inductance, backEmfConstant: k } = params.motor;
+	const { inertia, friction } = params.mechanics;
+	const armature: TransferFunction = {
+		num: [1],
+		den: [inductance, resistance],
+	};
+	const rotor: TransferFunction = { num: [k], den: [inertia, friction] };
+
+	// Current command to speed, through whichever current control is in place
+	let currentToSpeed: TransferFunction;
+	let current: LoopBandwidth | null = null;
+	if (loops.current) {
+		const currentLoop = series(
+			piTransferFunction(gains.currentKp, gains.currentKi),
+			armature,
+		);
+		current = bandwidth(currentLoop);
+		currentToSpeed = series(closedLoop(currentLoop), rotor);
+	} else {
+		// Voltage R·i* into the armature, with back-EMF feeding back on speed:
+		// ω/i* = R·k / ((L·s + R)(J·s + b) + k²)
+		currentToSpeed = {
+			num: [resistance * k],
+			den: polyAdd(polyMul(armature.den, rotor.den), [k * k]),
+		};
+	}
+
+	let commandToSpeed: TransferFunction;
+	let velocity: LoopBandwidth | null = null;
+	if (loops.velocity) {
+		const velocityLoop = series(
+			piTransferFunction(gains.velocityKp, gains.velocityKi),
+			currentToSpeed,
+		);
+		velocity = bandwidth(velocityLoop);
+		commandToSpeed = closedLoop(velocityLoop);
+	} else {
+		commandToSpeed = series(gain(gains.velocityKp), currentToSpeed);
+	}
+
+	const integratorTf: TransferFunction = { num: [1], den: [1, 0] };
+	const position = bandwidth(
+		series(gain(gains.positionKp), series(commandToSpeed, integratorTf)),
+	);
+	return { position, velocity, current };
+}
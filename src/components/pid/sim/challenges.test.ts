@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+	CHALLENGES,
+	MAX_TIME,
+	challengeGains,
+	decodeChallenge,
+	encodeChallenge,
+	initialChallengeState,
+	runChallenge,
+	stepChallenge,
+} from "./challenges";
+import type { Challenge } from "./challenges";
+import { INTEGRATORS } from "./integrators";
+import { createRng } from "./random";
+
+const GAINS = { kp: 4, ki: 0.5, kd: 1 };
+
+const NOISY: Challenge = {
+	...CHALLENGES[1],
+	name: "Noisy",
+	noise: 0.05,
+	disturbance: 0.3,
+	disturbanceTime: 2,
+};
+
+const SMOOTH: Challenge = {
+	...CHALLENGES[2],
+	name: "Smooth",
+	profile: "s-curve",
+};
+
+describe("runChallenge", () => {
+	it.each([...CHALLENGES, NOISY, SMOOTH].map((c) => [c.name, c] as const))(
+		"replays %s exactly",
+		(_, challenge) => {
+			expect(runChallenge(challenge, GAINS)).toEqual(
+				runChallenge(challenge, GAINS),
+			);
+		},
+	);
+
+	it("replays exactly under every integrator", () => {
+		for (const { id } of INTEGRATORS)
+			expect(runChallenge(CHALLENGES[0], GAINS, id)).toEqual(
+				runChallenge(CHALLENGES[0], GAINS, id),
+			);
+	});
+
+	it("runs to the time limit whether or not it stabilizes", () => {
+		const settled = runChallenge(CHALLENGES[0], GAINS);
+		const idle = runChallenge(CHALLENGES[0], { kp: 0, ki: 0, kd: 0 });
+		expect(settled.time).not.toBeNull();
+		expect(settled.time!).toBeLessThan(MAX_TIME);
+		expect(idle.time).toBeNull();
+		expect(settled.angles.length).toBe(idle.angles.length);
+	});
+
+	it("moves a profiled challenge's target from the start", () => {
+		const state = stepChallenge(
+			initialChallengeState(SMOOTH),
+			SMOOTH,
+			GAINS,
+			0,
+			createRng(),
+		);
+		expect(state.reference).toBeGreaterThan(SMOOTH.startAngle);
+		expect(state.reference).toBeLessThan(SMOOTH.targetAngle);
+		expect(
+			stepChallenge(
+				initialChallengeState(CHALLENGES[2]),
+				CHALLENGES[2],
+				GAINS,
+				0,
+				createRng(),
+			).reference,
+		).toBeUndefined();
+		// Tracking a move rather than a step, the pointer still settles
+		expect(runChallenge(SMOOTH, GAINS).time).not.toBeNull();
+	});
+});
+
+describe("challenge codes", () => {
+	it("round-trips every built-in challenge", () => {
+		for (const challenge of CHALLENGES) {
+			const decoded = decodeChallenge(encodeChallenge(challenge));
+			expect(decoded).not.toBeNull();
+			expect(decoded!.name).toBe(challenge.name);
+			expect(decoded!.startAngle).toBeCloseTo(challenge.startAngle, 4);
+			expect(decoded!.targetAngle).toBeCloseTo(challenge.targetAngle, 4);
+			expect(decoded!.mass).toBe(challenge.mass);
+			expect(decoded!.parTime).toBe(challenge.parTime);
+			// Once decoded, a code is stable
+			const code = encodeChallenge(decoded!);
+			expect(encodeChallenge(decodeChallenge(code)!)).toBe(code);
+		}
+	});
+
+	it("round-trips the optional fields and allowed terms", () => {
+		const custom: Challenge = {
+			name: "Noisy PI ⚙",
+			description: "Hold it steady",
+			startAngle: 1,
+			targetAngle: 2,
+			mass: 0.3,
+			parTime: 4,
+			friction: 0.5,
+			noise: 0.02,
+			disturbance: -0.4,
+			disturbanceTime: 3,
+			terms: ["kp", "ki"],
+			profile: "trapezoid",
+		};
+		expect(decodeChallenge(encodeChallenge(custom))).toEqual(custom);
+	});
+
+	it("clamps out-of-range fields to the editor ranges", () => {
+		const code = encodeChallenge({
+			...CHALLENGES[0],
+			mass: 5,
+			parTime: -1,
+		});
+		const decoded = decodeChallenge(code)!;
+		expect(decoded.mass).toBe(1);
+		expect(decoded.parTime).toBe(0.5);
+	});
+
+	it("ignores an unknown move", () => {
+		const fields = { n: "Sweep", s: 1, t: 2, m: 0, p: 2, g: "sweep" };
+		const decoded = decodeChallenge(btoa(JSON.stringify(fields)))!;
+		expect(decoded).not.toBeNull();
+		expect(decoded.profile).toBeUndefined();
+	});
+
+	it("rejects malformed codes", () => {
+		expect(decodeChallenge("not a code")).toBeNull();
+		expect(decodeChallenge(btoa("{"))).toBeNull();
+	});
+
+	it("rejects codes that are not a plain object of fields", () => {
+		for (const fields of [null, 42, "text", []])
+			expect(decodeChallenge(btoa(JSON.stringify(fields)))).toBeNull();
+	});
+});
+
+describe("challengeGains", () => {
+	it("zeroes the terms a challenge doesn't allow", () => {
+		expect(
+			challengeGains(
+				{ ...CHALLENGES[0], terms: ["kp"] },
+				{ kp: 1, ki: 2, kd: 3 },
+			),
+		).toEqual({ kp: 1, ki: 0, kd: 0 });
+	});
+});
@@ -0,0 +1,428 @@
+// TuningChallenge's puzzles and the headless run that scores them, shared by
+// the widget and the optimizer worker.
+
+import type { PIDGains } from "./controllers";
+import type { IntegratorMethod } from "./integrators";
+import { DT, stepMotorPID } from "./loop";
+import type { MotorLoopState } from "./loop";
+import { stepMetrics } from "./metrics";
+import { MAX_TORQUE, MOMENT_OF_INERTIA, clamp } from "./plants";
+import { DEFAULT_PROFILE, sampleProfileMove } from "./profile";
+import type { ProfileShape } from "./profile";
+import { createRng } from "./random";
+import type { Rng } from "./random";
+
+export type GainTerm = keyof PIDGains;
+
+/** Moves a challenge's target may make in place of a step. */
+export type ChallengeProfile = Extract<ProfileShape, "trapezoid" | "s-curve">;
+
+export const CHALLENGE_PROFILES: ChallengeProfile[] = ["trapezoid", "s-curve"];
+
+export interface Challenge {
+	name: string;
+	description: string;
+	startAngle: number;
+	targetAngle: number;
+	mass: number;
+	parTime: number;
+	/** Viscous friction in N·m·s/rad; DEFAULT_FRICTION when omitted. */
+	friction?: number;
+	/** Peak-to-peak measurement noise in rad. */
+	noise?: number;
+	/** Step load torque in N·m that hits `disturbanceTime` seconds in. */
+	disturbance?: number;
+	disturbanceTime?: number;
+	/** Gains the player may use; the rest stay at zero. All when omitted. */
+	terms?: GainTerm[];
+	/**
+	 * Move the target from the start along this profile, at DEFAULT_PROFILE's
+	 * limits, instead of stepping it. A step when omitted.
+	 */
+	profile?: ChallengeProfile;
+}
+
+export const CHALLENGES: Challenge[] = [
+	{
+		name: "Basics",
+		description: "No mass, simple step",
+		startAngle: Math.PI / 2,
+		targetAngle: (3 * Math.PI) / 4,
+		mass: 0,
+		parTime: 1.5,
+	},
+	{
+		name: "Weighted",
+		description: "Add mass, fight gravity",
+		startAngle: Math.PI / 2,
+		targetAngle: (3 * Math.PI) / 4,
+		mass: 0.4,
+		parTime: 2.5,
+	},
+	{
+		name: "Big Step",
+		description: "Large angle change",
+		startAngle: Math.PI / 4 + 0.1,
+		targetAngle: (3 * Math.PI) / 4 - 0.1,
+		mass: 0.2,
+		parTime: 2.0,
+	},
+	{
+		name: "Heavy",
+		description: "Maximum mass",
+		startAngle: Math.PI / 2,
+		targetAngle: (2 * Math.PI) / 3,
+		mass: 0.8,
+		parTime: 3.5,
+	},
+];
+
+export const DEFAULT_FRICTION = 0.3;
+const MAX_INTEGRAL = 10;
+
+// A run finishes once the pointer holds within STABILIZE_THRESHOLD (rad) of
+// the target, nearly still, for STABILIZE_TIME seconds
+export const STABILIZE_THRESHOLD = 0.02;
+const STABILIZE_VELOCITY = 0.1;
+export const STABILIZE_TIME = 0.5;
+export const MAX_TIME = 15;
+
+/** Slider ranges, which the optimizer searches within too. */
+export const CHALLENGE_GAIN_LIMITS: PIDGains = { kp: 15, ki: 5, kd: 5 };
+
+export type ChallengeObjective = "settling" | "itae";
+
+export const CHALLENGE_OBJECTIVES: { id: ChallengeObjective; label: string }[] =
+	[
+		{ id: "settling", label: "Settling time" },
+		{ id: "itae", label: "ITAE" },
+	];
+
+export const GAIN_TERMS: GainTerm[] = ["kp", "ki", "kd"];
+
+type ChallengeNumber = Exclude<
+	{
+		[K in keyof Challenge]-?: Challenge[K] extends number | undefined
+			? K
+			: never;
+	}[keyof Challenge],
+	undefined
+>;
+
+/** Editable numeric fields, with ranges that shared challenges are held to. */
+export const CHALLENGE_FIELDS: {
+	key: ChallengeNumber;
+	label: string;
+	min: number;
+	max: number;
+	step: number;
+	/** Multiplier from stored units to the units shown. */
+	scale: number;
+	unit: string;
+	fallback: number;
+}[] = [
+	{
+		key: "startAngle",
+		label: "Start",
+		min: 0,
+		max: Math.PI,
+		step: Math.PI / 180,
+		scale: 180 / Math.PI,
+		unit: "°",
+		fallback: Math.PI / 2,
+	},
+	{
+		key: "targetAngle",
+		label: "Target",
+		min: 0,
+		max: Math.PI,
+		step: Math.PI / 180,
+		scale: 180 / Math.PI,
+		unit: "°",
+		fallback: (3 * Math.PI) / 4,
+	},
+	{
+		key: "mass",
+		label: "Mass",
+		min: 0,
+		max: 1,
+		step: 0.05,
+		scale: 1,
+		unit: "",
+		fallback: 0,
+	},
+	{
+		key: "friction",
+		label: "Friction",
+		min: 0.05,
+		max: 1,
+		step: 0.05,
+		scale: 1,
+		unit: "",
+		fallback: DEFAULT_FRICTION,
+	},
+	{
+		key: "noise",
+		label: "Noise",
+		min: 0,
+		max: 0.1,
+		step: 0.005,
+		scale: 180 / Math.PI,
+		unit: "°",
+		fallback: 0,
+	},
+	{
+		key: "disturbance",
+		label: "Load",
+		min: -1,
+		max: 1,
+		step: 0.05,
+		scale: 1,
+		unit: "N·m",
+		fallback: 0,
+	},
+	{
+		key: "disturbanceTime",
+		label: "Load at",
+		min: 0,
+		max: 10,
+		step: 0.5,
+		scale: 1,
+		unit: "s",
+		fallback: 2,
+	},
+	{
+		key: "parTime",
+		label: "Par",
+		min: 0.5,
+		max: 10,
+		step: 0.5,
+		scale: 1,
+		unit: "s",
+		fallback: 2,
+	},
+];
+
+/** Zero the gains a challenge doesn't allow. */
+export const challengeGains = (
+	challenge: Challenge,
+	gains: PIDGains,
+): PIDGains => {
+	const terms = challenge.terms ?? GAIN_TERMS;
+	return {
+		kp: terms.includes("kp") ? gains.kp : 0,
+		ki: terms.includes("ki") ? gains.ki : 0,
+		kd: terms.includes("kd") ? gains.kd : 0,
+	};
+};
+
+// The load only counts once it has hit, so a run can't finish before it
+const loadPending = (challenge: Challenge, elapsed: number) =>
+	!!challenge.disturbance && elapsed < (challenge.disturbanceTime ?? 0);
+
+export const initialChallengeState = (
+	challenge: Challenge,
+): MotorLoopState => ({
+	angle: challenge.startAngle,
+	angularVelocity: 0,
+	integral: 0,
+	prevError: 0,
+});
+
+/**
+ * One step of a challenge, `elapsed` seconds into the run. Noise comes from
+ * `rng`, which a run seeds afresh so every replay of it matches. A profiled
+ * challenge leaves the moving target in the state's `reference`.
+ */
+export function stepChallenge(
+	state: MotorLoopState,
+	challenge: Challenge,
+	gains: PIDGains,
+	elapsed: number,
+	rng: Rng,
+	integrator?: IntegratorMethod,
+): MotorLoopState {
+	const noise = challenge.noise ?? 0;
+	const move = challenge.profile
+		? sampleProfileMove(
+				{ ...DEFAULT_PROFILE, shape: challenge.profile },
+				challenge.startAngle,
+				challenge.targetAngle,
+				elapsed + DT,
+			)
+		: undefined;
+	const next = stepMotorPID(
+		state,
+		move?.position ?? challenge.targetAngle,
+		challengeGains(challenge, gains),
+		{
+			inertia: MOMENT_OF_INERTIA,
+			friction: challenge.friction ?? DEFAULT_FRICTION,
+			mass: challenge.mass,
+		},
+		DT,
+		{
+			integralLimit: MAX_INTEGRAL,
+			outputMin: -MAX_TORQUE,
+			outputMax: MAX_TORQUE,
+			integrator,
+			measuredAngle:
+				noise > 0 ? state.angle + (rng() - 0.5) * noise : undefined,
+			disturbance: loadPending(challenge, elapsed)
+				? 0
+				: (challenge.disturbance ?? 0),
+			referenceMotion: move,
+		},
+	).state;
+	return { ...next, reference: move?.position };
+}
+
+export const isStabilized = (
+	state: MotorLoopState,
+	challenge: Challenge,
+	elapsed: number,
+) =>
+	!loadPending(challenge, elapsed) &&
+	Math.abs(challenge.targetAngle - state.angle) < STABILIZE_THRESHOLD &&
+	Math.abs(state.angularVelocity) < STABILIZE_VELOCITY;
+
+export interface ChallengeRun {
+	/** Seconds until the run counted as stabilized, or null on timeout. */
+	time: number | null;
+	/** Angle after every step, until the run would time out. */
+	angles: number[];
+	itae: number;
+}
+
+/**
+ * Play a challenge through headlessly, exactly as the widget does, and keep
+ * going until it would time out so every run's ITAE covers the same span.
+ */
+export function runChallenge(
+	challenge: Challenge,
+	gains: PIDGains,
+	integrator?: IntegratorMethod,
+): ChallengeRun {
+	let state = initialChallengeState(challenge);
+	const rng = createRng();
+	let stableStart: number | null = null;
+	let time: number | null = null;
+	const angles: number[] = [];
+	// Accumulated the same way as the widget's clock, so times match exactly
+	let elapsed = 0;
+	while (elapsed <= MAX_TIME) {
+		state = stepChallenge(state, challenge, gains, elapsed, rng, integrator);
+		elapsed += DT;
+		angles.push(state.angle);
+		if (time !== null) continue;
+		if (!isStabilized(state, challenge, elapsed)) stableStart = null;
+		else if (stableStart === null) stableStart = elapsed;
+		else if (elapsed - stableStart >= STABILIZE_TIME) time = elapsed;
+	}
+	const metrics = stepMetrics(
+		{
+			initial: challenge.startAngle,
+			target: challenge.targetAngle,
+			samples: angles,
+		},
+		DT,
+	);
+	return { time, angles, itae: metrics?.itae ?? 0 };
+}
+
+/** Lower is better. A timed-out run scores past MAX_TIME by its final error. */
+export function challengeScore(
+	run: ChallengeRun,
+	challenge: Challenge,
+	objective: ChallengeObjective,
+): number {
+	if (objective === "itae") return run.itae;
+	if (run.time !== null) return run.time;
+	return (
+		MAX_TIME +
+		Math.abs(challenge.targetAngle - run.angles[run.angles.length - 1])
+	);
+}
+
+// Shared challenges travel as base64url JSON under short keys
+const SHORT_KEYS: Record<ChallengeNumber, string> = {
+	startAngle: "s",
+	targetAngle: "t",
+	mass: "m",
+	parTime: "p",
+	friction: "f",
+	noise: "z",
+	disturbance: "l",
+	disturbanceTime: "lt",
+};
+const MAX_TEXT_LENGTH = 80;
+
+/** Encode a challenge for a share link's `challenge` query parameter. */
+export function encodeChallenge(challenge: Challenge): string {
+	const fields: Record<string, unknown> = {
+		n: challenge.name,
+		d: challenge.description,
+	};
+	// Full precision and every field, so a decoded challenge replays exactly
+	// like the original and encodes back to the same code
+	for (const { key, fallback } of CHALLENGE_FIELDS)
+		fields[SHORT_KEYS[key]] = challenge[key] ?? fallback;
+	if (challenge.terms && challenge.terms.length < GAIN_TERMS.length)
+		fields.k = challenge.terms.join(",");
+	if (challenge.profile) fields.g = challenge.profile;
+	const bytes = new TextEncoder().encode(JSON.stringify(fields));
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+/**
+ * Decode a shared challenge, clamping every field to its editor range, or
+ * return null if the code is malformed. Many codes decode to the same
+ * challenge; encoding the result gives the one canonical code.
+ */
+export function decodeChallenge(code: string): Challenge | null {
+	let fields: Record<string, unknown>;
+	try {
+		const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+		const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+		fields = JSON.parse(new TextDecoder().decode(bytes));
+	} catch {
+		return null;
+	}
+	// Only a plain object of fields; arrays and the like are not challenges
+	if (
+		typeof fields !== "object" ||
+		fields === null ||
+		Object.getPrototypeOf(fields) !== Object.prototype
+	)
+		return null;
+
+	const text = (value: unknown, fallback: string) =>
+		typeof value === "string" ? value.slice(0, MAX_TEXT_LENGTH) : fallback;
+	const challenge: Challenge = {
+		name: text(fields.n, "Custom"),
+		description: text(fields.d, ""),
+		startAngle: 0,
+		targetAngle: 0,
+		mass: 0,
+		parTime: 0,
+	};
+	for (const { key, min, max, fallback } of CHALLENGE_FIELDS) {
+		const value = fields[SHORT_KEYS[key]];
+		challenge[key] =
+			typeof value === "number" && Number.isFinite(value)
+				? clamp(value, min, max)
+				: fallback;
+	}
+	if (typeof fields.k === "string") {
+		const terms = GAIN_TERMS.filter((term) =>
+			(fields.k as string).split(",").includes(term),
+		);
+		if (terms.length > 0) challenge.terms = terms;
+	}
+	const profile = CHALLENGE_PROFILES.find((shape) => shape === fields.g);
+	if (profile) challenge.profile = profile;
+	return challenge;
+}
@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_TRACKING_GAIN,
+	INITIAL_PID_STATE,
+	pidStep,
+	rateLimit,
+	stateFeedback,
+} from "./controllers";
+import type { AntiWindupMethod, PIDState } from "./controllers";
+
+const DT = 0.01;
+
+/** Hold a large error against output limits for `steps` steps. */
+function saturate(antiWindup: AntiWindupMethod, steps = 200) {
+	let state: PIDState = INITIAL_PID_STATE;
+	let output = 0;
+	for (let i = 0; i < steps; i++) {
+		const result = pidStep({ kp: 1, ki: 1, kd: 0 }, state, 5, DT, {
+			antiWindup,
+			integralLimit: 1,
+			integrationBand: 10,
+			outputMin: -2,
+			outputMax: 2,
+		});
+		state = result.state;
+		output = result.output;
+	}
+	return { state, output };
+}
+
+describe("pidStep", () => {
+	it("sums the P, I and D terms", () => {
+		const { p, i, d, output } = pidStep(
+			{ kp: 2, ki: 3, kd: 0.5 },
+			{ integral: 1, prevError: 0.5 },
+			1,
+			DT,
+		);
+		expect(p).toBe(2);
+		expect(i).toBeCloseTo(3 * (1 + DT), 12);
+		expect(d).toBeCloseTo((0.5 * 0.5) / DT, 12);
+		expect(output).toBeCloseTo(p + i + d, 12);
+	});
+
+	it("saturates the output", () => {
+		const { output } = pidStep(
+			{ kp: 10, ki: 0, kd: 0 },
+			INITIAL_PID_STATE,
+			1,
+			DT,
+			{ outputMax: 2 },
+		);
+		expect(output).toBe(2);
+	});
+
+	it("scales accumulation by the integral rate", () => {
+		const { state } = pidStep(
+			{ kp: 0, ki: 1, kd: 0 },
+			INITIAL_PID_STATE,
+			2,
+			DT,
+			{
+				integralRate: 3,
+			},
+		);
+		expect(state.integral).toBeCloseTo(2 * DT * 3, 12);
+	});
+
+	it("holds the integral within the limit", () => {
+		const { state } = pidStep(
+			{ kp: 0, ki: 1, kd: 0 },
+			{ integral: 0.99, prevError: 0 },
+			5,
+			DT,
+			{ integralLimit: 1 },
+		);
+		expect(state.integral).toBe(1);
+	});
+
+	it("holds the integral while frozen", () => {
+		const { state } = pidStep(
+			{ kp: 0, ki: 1, kd: 0 },
+			{ integral: 0.5, prevError: 0 },
+			5,
+			DT,
+			{ freezeIntegral: true },
+		);
+		expect(state.integral).toBe(0.5);
+	});
+});
+
+describe("pidStep derivative options", () => {
+	it("does not kick on a setpoint jump when differentiating the measurement", () => {
+		const state = { ...INITIAL_PID_STATE, prevMeasurement: 1 };
+		const { d } = pidStep({ kp: 1, ki: 0, kd: 1 }, state, 2, DT, {
+			derivativeOn: "measurement",
+			measurement: 1,
+		});
+		expect(d).toBeCloseTo(0, 12);
+	});
+
+	it("differentiates the negated measurement", () => {
+		const state = { ...INITIAL_PID_STATE, prevMeasurement: 1 };
+		const { d } = pidStep({ kp: 1, ki: 0, kd: 1 }, state, 0, DT, {
+			derivativeOn: "measurement",
+			measurement: 1.01,
+		});
+		expect(d).toBeCloseTo(-0.01 / DT, 9);
+	});
+
+	it("low-passes the derivative with time constant Td/N", () => {
+		const gains = { kp: 1, ki: 0, kd: 0.5 };
+		const filterTime = gains.kd / gains.kp / 10;
+		const { d } = pidStep(gains, INITIAL_PID_STATE, 1, DT, {
+			derivativeFilter: 10,
+		});
+		expect(d).toBeCloseTo((gains.kd * 1) / (filterTime + DT), 9);
+		expect(d).toBeLessThan(gains.kd / DT);
+	});
+});
+
+describe("pidStep anti-windup", () => {
+	it("lets the integral grow without bound with none", () => {
+		const { state } = saturate("none");
+		expect(state.integral).toBeCloseTo(5 * 200 * DT, 9);
+	});
+
+	it("holds the integral within the limit with clamping", () => {
+		const { state } = saturate("clamping");
+		expect(state.integral).toBe(1);
+	});
+
+	it("stops integrating while the output is saturated with conditional", () => {
+		const { state } = saturate("conditional");
+		expect(state.integral).toBe(0);
+	});
+
+	it("stops integrating outside the band with conditional", () => {
+		const { state } = pidStep(
+			{ kp: 0, ki: 1, kd: 0 },
+			INITIAL_PID_STATE,
+			5,
+			DT,
+			{
+				antiWindup: "conditional",
+				integrationBand: 1,
+			},
+		);
+		expect(state.integral).toBe(0);
+	});
+
+	it("bleeds the integral towards the limit with back-calculation", () => {
+		const none = saturate("none");
+		const backCalculation = saturate("back-calculation");
+		expect(backCalculation.output).toBe(2);
+		expect(backCalculation.state.integral).toBeLessThan(none.state.integral);
+		// Settles where Kt·(u_sat − u) cancels the error it integrates:
+		// 5 + Kt·(2 − (5 + integral)) = 0
+		expect(backCalculation.state.integral).toBeCloseTo(
+			5 / DEFAULT_TRACKING_GAIN - 3,
+			1,
+		);
+	});
+});
+
+describe("pidStep setpoint weights", () => {
+	const gains = { kp: 2, ki: 0, kd: 1 };
+
+	it("scales the setpoint in the P term by b", () => {
+		const { p } = pidStep(gains, INITIAL_PID_STATE, 1, DT, {
+			measurement: 1,
+			setpointWeight: 0.5,
+		});
+		// b·r − y = 0.5·2 − 1
+		expect(p).toBe(0);
+	});
+
+	it("scales the setpoint in the D term by c", () => {
+		const state = { ...INITIAL_PID_STATE, prevMeasurement: 0 };
+		const { d } = pidStep(gains, state, 1, DT, {
+			measurement: 0,
+			derivativeWeight: 0.25,
+		});
+		expect(d).toBeCloseTo((gains.kd * 0.25) / DT, 9);
+	});
+
+	it("responds to a disturbance the same whatever the weights", () => {
+		const state = { integral: 0, prevError: 0, prevMeasurement: 0 };
+		const plain = pidStep(gains, state, -0.1, DT, { measurement: 0.1 });
+		const weighted = pidStep(gains, state, -0.1, DT, {
+			measurement: 0.1,
+			setpointWeight: 0.3,
+			derivativeWeight: 0,
+		});
+		expect(weighted.output).toBeCloseTo(plain.output, 9);
+	});
+});
+
+describe("pidStep feedforward", () => {
+	const state = INITIAL_PID_STATE;
+
+	it("adds to the output ahead of saturation", () => {
+		const out = pidStep({ kp: 1, ki: 0, kd: 0 }, state, 0.5, DT, {
+			feedforward: 2,
+			outputMax: 2,
+		});
+		expect(out.p).toBe(0.5);
+		expect(out.output).toBe(2);
+	});
+
+	it("counts towards the limit conditional integration checks", () => {
+		const out = pidStep({ kp: 1, ki: 1, kd: 0 }, state, 0.5, DT, {
+			feedforward: 2,
+			outputMax: 2,
+			antiWindup: "conditional",
+		});
+		expect(out.state.integral).toBe(0);
+	});
+});
+
+describe("rateLimit", () => {
+	it("steps by at most maxRate·dt", () => {
+		expect(rateLimit(0, 1, 2, 0.1)).toBeCloseTo(0.2, 12);
+		expect(rateLimit(0, -1, 2, 0.1)).toBeCloseTo(-0.2, 12);
+	});
+
+	it("lands on a target within reach", () => {
+		expect(rateLimit(0.9, 1, 2, 0.1)).toBe(1);
+	});
+});
+
+describe("stateFeedback", () => {
+	it("sums gain × error over the state and clamps to the limit", () => {
+		expect(stateFeedback([1, 2], [3, 1], [1, 0], 10)).toBe(1 * 2 + 2 * 1);
+		expect(stateFeedback([1, 2], [3, 1], [1, 0], 3)).toBe(3);
+	});
+});
@@ -0,0 +1,214 @@
+import { clamp } from "./plants";
+
+export interface PIDGains {
+	kp: number;
+	ki: number;
+	kd: number;
+}
+
+export interface PIDState {
+	integral: number;
+	prevError: number;
+	/** Last measurement, for derivative-on-measurement. */
+	prevMeasurement?: number;
+	/** Filtered derivative, when derivativeFilter is set. */
+	derivative?: number;
+}
+
+export type DerivativeSource = "error" | "measurement";
+
+export type AntiWindupMethod =
+	| "none"
+	| "clamping"
+	| "conditional"
+	| "back-calculation";
+
+export const ANTI_WINDUP_METHODS: { id: AntiWindupMethod; label: string }[] = [
+	{ id: "none", label: "None" },
+	{ id: "clamping", label: "Clamping" },
+	{ id: "conditional", label: "Conditional" },
+	{ id: "back-calculation", label: "Back-calc" },
+];
+
+export const DEFAULT_TRACKING_GAIN = 2;
+
+export interface PIDOptions {
+	/** Multiplier on the integral accumulation rate. */
+	integralRate?: number;
+	/**
+	 * How the integral is kept from winding up while the output saturates:
+	 * - clamping (default): hold the integral state within ±integralLimit
+	 * - conditional: stop integrating while the output is saturated in the
+	 *   direction of the error, or while |error| exceeds integrationBand
+	 * - back-calculation: bleed the integral by trackingGain × (saturated −
+	 *   unsaturated output)
+	 */
+	antiWindup?: AntiWindupMethod;
+	/** Symmetric bound on the integral state under clamping; unbounded if omitted. */
+	integralLimit?: number;
+	/** Error magnitude beyond which conditional integration stops. */
+	integrationBand?: number;
+	/** Back-calculation gain Kt, in 1/s (the inverse tracking time constant). */
+	trackingGain?: number;
+	/** Skip accumulation this step (the integral holds its value). */
+	freezeIntegral?: boolean;
+	/** Output saturation limits; unsaturated if omitted. */
+	outputMin?: number;
+	outputMax?: number;
+	/**
+	 * Differentiate the error (default) or the negated measurement, which
+	 * gives the same D term without the kick when the setpoint jumps.
+	 * "measurement" is the same as a derivative setpoint weight of 0.
+	 */
+	derivativeOn?: DerivativeSource;
+	/**
+	 * Process measurement; needed for derivative-on-measurement and setpoint
+	 * weighting. The setpoint is recovered as error + measurement.
+	 */
+	measurement?: number;
+	/** Setpoint weight b: P acts on b·setpoint − measurement. Default 1. */
+	setpointWeight?: number;
+	/** Setpoint weight c: D acts on c·setpoint − measurement. Default 1. */
+	derivativeWeight?: number;
+	/**
+	 * Filter factor N: the D term is low-passed with time constant Td/N,
+	 * Td = kd/kp. Unfiltered if omitted.
+	 */
+	derivativeFilter?: number;
+	/**
+	 * Added to p + i + d ahead of saturation, so the limits and anti-windup
+	 * act on the total command.
+	 */
+	feedforward?: number;
+}
+
+export interface PIDOutput {
+	p: number;
+	i: number;
+	d: number;
+	/** p + i + d plus any feedforward, after saturation. */
+	output: number;
+	state: PIDState;
+}
+
+export const INITIAL_PID_STATE: PIDState = { integral: 0, prevError: 0 };
+
+/**
+ * Textbook parallel PID with a backward-difference derivative, on the error
+ * by default or on the measurement, optionally through a first-order filter.
+ * With setpoint weights b and c it becomes a two-degree-of-freedom PID: the
+ * weights shape the response to setpoint changes while the response to
+ * disturbances (which only move the measurement) stays the same.
+ */
+export function pidStep(
+	gains: PIDGains,
+	state: PIDState,
+	error: number,
+	dt: number,
+	options: PIDOptions = {},
+): PIDOutput {
+	const {
+		integralRate = 1,
+		antiWindup = "clamping",
+		integralLimit = Infinity,
+		integrationBand = Infinity,
+		trackingGain = DEFAULT_TRACKING_GAIN,
+		freezeIntegral = false,
+		outputMin = -Infinity,
+		outputMax = Infinity,
+		derivativeOn = "error",
+		measurement,
+		setpointWeight = 1,
+		derivativeWeight = 1,
+		derivativeFilter,
+		feedforward = 0,
+	} = options;
+
+	const c = derivativeOn === "measurement" ? 0 : derivativeWeight;
+	let change = error - state.prevError;
+	if (c !== 1 && measurement !== undefined) {
+		// Δ(c·r − y) with r = e + y. No previous sample yet: treat as at rest
+		// rather than kicking
+		change =
+			state.prevMeasurement === undefined
+				? 0
+				: c * (error + measurement - state.prevError - state.prevMeasurement) -
+					(measurement - state.prevMeasurement);
+	}
+	// Backward-Euler discretization of Td·s / (1 + (Td/N)·s)
+	const filterTime =
+		derivativeFilter && gains.kp > 0 ? gains.kd / gains.kp / derivativeFilter : 0;
+	const derivative =
+		filterTime > 0
+			? (filterTime * (state.derivative ?? 0) + change) / (filterTime + dt)
+			: change / dt;
+
+	const proportionalError =
+		measurement === undefined
+			? error
+			: setpointWeight * (error + measurement) - measurement;
+	const p = gains.kp * proportionalError;
+	const d = gains.kd * derivative;
+
+	let accumulate = !freezeIntegral;
+	if (antiWindup === "conditional") {
+		const trial = p + gains.ki * state.integral + d + feedforward;
+		const drivingIntoLimit =
+			(trial > outputMax && error > 0) || (trial < outputMin && error < 0);
+		if (drivingIntoLimit || Math.abs(error) > integrationBand)
+			accumulate = false;
+	}
+	let integral = accumulate
+		? state.integral + error * dt * integralRate
+		: state.integral;
+	if (antiWindup === "clamping")
+		integral = clamp(integral, -integralLimit, integralLimit);
+
+	const i = gains.ki * integral;
+	const unsaturated = p + i + d + feedforward;
+	const output = clamp(unsaturated, outputMin, outputMax);
+
+	// The integral state is ∫error, so the Kt·(u_sat − u) correction to the
+	// I term is divided back through ki
+	if (antiWindup === "back-calculation" && gains.ki > 0)
+		integral += ((trackingGain * (output - unsaturated)) / gains.ki) * dt;
+
+	return {
+		p,
+		i,
+		d,
+		output,
+		state: {
+			integral,
+			prevError: error,
+			prevMeasurement: measurement,
+			derivative,
+		},
+	};
+}
+
+/** Move `current` toward `target` by at most `maxRate`·dt. */
+export function rateLimit(
+	current: number,
+	target: number,
+	maxRate: number,
+	dt: number,
+): number {
+	const maxStep = maxRate * dt;
+	return current + clamp(target - current, -maxStep, maxStep);
+}
+
+/**
+ * Full state feedback u = Σ k·(x - reference), clamped to ±limit. Used for the
+ * cart-pole, where the angle and position PD loops are both of this form.
+ */
+export function stateFeedback(
+	gains: number[],
+	x: number[],
+	reference: number[],
+	limit: number,
+): number {
+	let u = 0;
+	for (let i = 0; i < gains.length; i++) u += gains[i] * (x[i] - reference[i]);
+	return clamp(u, -limit, limit);
+}
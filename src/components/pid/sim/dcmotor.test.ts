@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DC_MOTOR, stepDCMotor } from "./dcmotor";
+import { MAX_TORQUE } from "./plants";
+
+const MOTOR = DEFAULT_DC_MOTOR;
+const TAU = MOTOR.inductance / MOTOR.resistance;
+
+describe("stepDCMotor", () => {
+	it("rises with the electrical time constant", () => {
+		const reading = stepDCMotor(0, MOTOR, 1, 0, TAU);
+		const stall = MOTOR.supplyVoltage / MOTOR.resistance;
+		expect(reading.current).toBeCloseTo(stall * (1 - Math.exp(-1)));
+		expect(reading.currentLimited).toBe(false);
+	});
+
+	it("solves the current exactly whatever the step", () => {
+		const once = stepDCMotor(0, MOTOR, 0.7, 20, 0.1);
+		const half = stepDCMotor(0, MOTOR, 0.7, 20, 0.05);
+		const twice = stepDCMotor(half.current, MOTOR, 0.7, 20, 0.05);
+		expect(twice.current).toBeCloseTo(once.current, 12);
+	});
+
+	it("stalls at about MAX_TORQUE with the default motor", () => {
+		const reading = stepDCMotor(0, MOTOR, 1, 0, 10);
+		expect(reading.torque).toBeCloseTo(MAX_TORQUE, 0);
+		expect(reading.torque).toBeCloseTo(MOTOR.backEmfConstant * reading.current);
+		expect(reading.power).toBeCloseTo(reading.voltage * reading.current);
+	});
+
+	it("loses current to back-EMF as it speeds up", () => {
+		const omega = 30;
+		const reading = stepDCMotor(0, MOTOR, 1, omega, 10);
+		expect(reading.backEmf).toBeCloseTo(MOTOR.backEmfConstant * omega);
+		expect(reading.current).toBeCloseTo(
+			(MOTOR.supplyVoltage - reading.backEmf) / MOTOR.resistance,
+		);
+	});
+
+	it("clamps the duty cycle to the supply", () => {
+		expect(stepDCMotor(0, MOTOR, 3, 0, 0.01)).toEqual(
+			stepDCMotor(0, MOTOR, 1, 0, 0.01),
+		);
+	});
+
+	it("backs the voltage off at the current limit", () => {
+		const params = { ...MOTOR, currentLimit: 5 };
+		const reading = stepDCMotor(0, params, -1, 0, 10);
+		expect(reading.currentLimited).toBe(true);
+		expect(reading.current).toBe(-5);
+		expect(reading.voltage).toBeCloseTo(-5 * params.resistance);
+	});
+});
@@ -0,0 +1,87 @@
+// Brushed DC motor electrics, for widgets that drive the pointer with a
+// voltage instead of commanding torque directly:
+//
+//   L·di/dt = V − R·i − Ke·ω,   torque = Kt·i   (Kt = Ke in SI units)
+//
+// The drive chops the supply (PWM) and cuts back the voltage whenever the
+// current would pass its limit.
+
+import { clamp } from "./plants";
+
+export interface DCMotorParams {
+	/** Supply voltage in V. */
+	supplyVoltage: number;
+	/** Armature resistance in Ω. */
+	resistance: number;
+	/** Armature inductance in H. */
+	inductance: number;
+	/** Back-EMF constant in V·s/rad, equal to the torque constant in N·m/A. */
+	backEmfConstant: number;
+	/** Drive current limit in A. */
+	currentLimit: number;
+}
+
+// Stalls at about MAX_TORQUE, so the model drops into the widgets as is
+export const DEFAULT_DC_MOTOR: DCMotorParams = {
+	supplyVoltage: 12,
+	resistance: 1,
+	inductance: 0.05,
+	backEmfConstant: 0.17,
+	currentLimit: 15,
+};
+
+export interface DCMotorReading {
+	current: number;
+	/** Voltage across the armature after the current limit. */
+	voltage: number;
+	backEmf: number;
+	torque: number;
+	/** Electrical power drawn from the supply in W. */
+	power: number;
+	currentLimited: boolean;
+}
+
+export const idleDCMotor = (): DCMotorReading => ({
+	current: 0,
+	voltage: 0,
+	backEmf: 0,
+	torque: 0,
+	power: 0,
+	currentLimited: false,
+});
+
+/**
+ * Advance the armature current by `dt` at duty cycle `duty` (−1 to 1 of the
+ * supply). The speed is held over the step, which lets the current be
+ * solved exactly however short the electrical time constant.
+ */
+export function stepDCMotor(
+	current: number,
+	params: DCMotorParams,
+	duty: number,
+	angularVelocity: number,
+	dt: number,
+): DCMotorReading {
+	const backEmf = params.backEmfConstant * angularVelocity;
+	let voltage = clamp(duty, -1, 1) * params.supplyVoltage;
+	const settled = (voltage - backEmf) / params.resistance;
+	const decay = Math.exp((-params.resistance * dt) / params.inductance);
+	let next = settled + (current - settled) * decay;
+
+	const currentLimited = Math.abs(next) > params.currentLimit;
+	if (currentLimited) {
+		next = Math.sign(next) * params.currentLimit;
+		// The drive holds the current by backing the voltage off to what
+		// sustains it
+		voltage = params.resistance * next + backEmf;
+	}
+
+	return {
+		current: next,
+		voltage,
+		backEmf,
+		torque: params.backEmfConstant * next,
+		power: voltage * next,
+		currentLimited,
+	};
+}
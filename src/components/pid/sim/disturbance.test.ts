@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+	KICK_IMPULSE,
+	NO_DISTURBANCE,
+	disturbanceTorque,
+	kick,
+	pushTorque,
+} from "./disturbance";
+import { MAX_TORQUE, MOMENT_OF_INERTIA } from "./plants";
+
+describe("disturbanceTorque", () => {
+	it("is zero with no disturbance", () => {
+		for (const t of [0, 0.3, 1.7])
+			expect(disturbanceTorque(NO_DISTURBANCE, t)).toBe(0);
+	});
+
+	it("adds the step load to the sinusoid", () => {
+		const settings = { stepLoad: 0.2, sineAmplitude: 0.5, sineFrequency: 1 };
+		expect(disturbanceTorque(settings, 0)).toBeCloseTo(0.2);
+		expect(disturbanceTorque(settings, 0.25)).toBeCloseTo(0.7);
+		expect(disturbanceTorque(settings, 0.75)).toBeCloseTo(-0.3);
+		expect(disturbanceTorque(settings, 1.25)).toBeCloseTo(0.7);
+	});
+});
+
+describe("pushTorque", () => {
+	it("pulls towards the push angle", () => {
+		const state = { angle: 1, angularVelocity: 0 };
+		expect(pushTorque(state, 1.1)).toBeGreaterThan(0);
+		expect(pushTorque(state, 0.9)).toBeLessThan(0);
+		expect(pushTorque(state, 1)).toBe(0);
+	});
+
+	it("damps motion at the push angle", () => {
+		expect(pushTorque({ angle: 1, angularVelocity: 2 }, 1)).toBeLessThan(0);
+	});
+
+	it("is limited, but stronger than the motor", () => {
+		const far = pushTorque({ angle: 0, angularVelocity: 0 }, Math.PI);
+		expect(far).toBeGreaterThan(MAX_TORQUE);
+		expect(pushTorque({ angle: 0, angularVelocity: 0 }, 2 * Math.PI)).toBe(far);
+	});
+});
+
+describe("kick", () => {
+	it("changes angular velocity by impulse over inertia", () => {
+		const state = { angle: 1, angularVelocity: 0.5, integral: 2 };
+		const kicked = kick(state, KICK_IMPULSE);
+		expect(kicked.angularVelocity).toBeCloseTo(
+			0.5 + KICK_IMPULSE / MOMENT_OF_INERTIA,
+		);
+		expect(kicked.angle).toBe(1);
+		expect(kicked.integral).toBe(2);
+		expect(state.angularVelocity).toBe(0.5);
+	});
+});
@@ -0,0 +1,65 @@
+// External disturbances for the motor widgets, kept apart from the setpoint
+// so a demo can show how well a loop rejects them: a standing load, a
+// sinusoid, an impulse kick, and a hand pushing the pointer around.
+
+import { MAX_TORQUE, MOMENT_OF_INERTIA, clamp } from "./plants";
+
+export interface DisturbanceSettings {
+	/** Constant load torque in N·m. */
+	stepLoad: number;
+	/** Sinusoidal torque amplitude in N·m. */
+	sineAmplitude: number;
+	/** Sinusoid frequency in Hz. */
+	sineFrequency: number;
+}
+
+export const NO_DISTURBANCE: DisturbanceSettings = {
+	stepLoad: 0,
+	sineAmplitude: 0,
+	sineFrequency: 0.5,
+};
+
+/** Angular impulse of one kick in N·m·s. */
+export const KICK_IMPULSE = 0.3;
+
+// The hand is a damped spring, and a little stronger than the motor so a
+// push wins against a saturated controller
+const PUSH_STIFFNESS = 8; // N·m/rad
+const PUSH_DAMPING = 1; // N·m·s/rad
+const MAX_PUSH_TORQUE = 1.5 * MAX_TORQUE;
+
+/** Load and sinusoidal torque `time` seconds into a run. */
+export const disturbanceTorque = (
+	settings: DisturbanceSettings,
+	time: number,
+): number =>
+	settings.stepLoad +
+	settings.sineAmplitude *
+		Math.sin(2 * Math.PI * settings.sineFrequency * time);
+
+/**
+ * Torque of a hand dragging the pointer towards `pushAngle`, limited to what
+ * a finger on a small motor could manage.
+ */
+export const pushTorque = (
+	state: { angle: number; angularVelocity: number },
+	pushAngle: number,
+): number =>
+	clamp(
+		PUSH_STIFFNESS * (pushAngle - state.angle) -
+			PUSH_DAMPING * state.angularVelocity,
+		-MAX_PUSH_TORQUE,
+		MAX_PUSH_TORQUE,
+	);
+
+/**
+ * Apply an impulse, in N·m·s, to the rotor. Positive kicks turn it
+ * counter-clockwise, towards larger angles.
+ */
+export const kick = <T extends { angularVelocity: number }>(
+	state: T,
+	impulse: number,
+): T => ({
+	...state,
+	angularVelocity: state.angularVelocity + impulse / MOMENT_OF_INERTIA,
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+	NO_FEEDFORWARD,
+	motorFeedforward,
+	ovenFeedforward,
+} from "./feedforward";
+import { OVEN_PARAMS, ovenPlant } from "./plants";
+
+const MOTOR = { inertia: 0.12, friction: 0.08, mass: 0.5 };
+const MOTION = { velocity: 2, acceleration: 3 };
+
+describe("motorFeedforward", () => {
+	it("is zero with every term off", () => {
+		expect(motorFeedforward(NO_FEEDFORWARD, MOTOR, 1, MOTION)).toBe(0);
+	});
+
+	it("sums the enabled terms", () => {
+		const all = { gravity: true, velocity: true, acceleration: true };
+		expect(motorFeedforward(all, MOTOR, 1, MOTION)).toBeCloseTo(
+			0.5 * Math.cos(1) + 0.08 * 2 + 0.12 * 3,
+		);
+		expect(
+			motorFeedforward({ ...NO_FEEDFORWARD, velocity: true }, MOTOR, 1, MOTION),
+		).toBeCloseTo(0.16);
+	});
+});
+
+describe("ovenFeedforward", () => {
+	it.each([1, 5])(
+		"holds the oven at the target, loss factor %d",
+		(lossFactor) => {
+			const params = { ...OVEN_PARAMS, lossFactor };
+			const duty = ovenFeedforward(params, 350);
+			expect(ovenPlant.derivative([350], duty, params)[0]).toBeCloseTo(0, 12);
+		},
+	);
+
+	it("needs nothing at ambient", () => {
+		expect(ovenFeedforward(OVEN_PARAMS, OVEN_PARAMS.ambient)).toBe(0);
+	});
+});
@@ -0,0 +1,60 @@
+// Feedforward: the share of the control effort a model of the plant can
+// predict from the setpoint alone, so feedback is left to correct only what
+// the model gets wrong. Each term here uses the widgets' own plant model, so
+// it is exact until the plant changes under it (the oven door opening).
+
+import type { MotorParams, OvenParams } from "./plants";
+
+export interface MotorFeedforward {
+	/** Hold up the hanging mass: mass·cos(angle) at the measured angle. */
+	gravity: boolean;
+	/** Overcome friction at the reference velocity. */
+	velocity: boolean;
+	/** Accelerate the rotor's inertia along the reference. */
+	acceleration: boolean;
+}
+
+export const NO_FEEDFORWARD: MotorFeedforward = {
+	gravity: false,
+	velocity: false,
+	acceleration: false,
+};
+
+export const MOTOR_FEEDFORWARD_TERMS: {
+	id: keyof MotorFeedforward;
+	label: string;
+}[] = [
+	{ id: "gravity", label: "Gravity" },
+	{ id: "velocity", label: "Velocity" },
+	{ id: "acceleration", label: "Accel" },
+];
+
+/** How the reference is moving, in rad/s and rad/s². */
+export interface ReferenceMotion {
+	velocity: number;
+	acceleration: number;
+}
+
+export const AT_REST: ReferenceMotion = { velocity: 0, acceleration: 0 };
+
+/** Feedforward torque in N·m for the enabled terms. */
+export function motorFeedforward(
+	settings: MotorFeedforward,
+	params: MotorParams,
+	angle: number,
+	reference: ReferenceMotion,
+): number {
+	let torque = 0;
+	if (settings.gravity) torque += params.mass * Math.cos(angle);
+	if (settings.velocity) torque += params.friction * reference.velocity;
+	if (settings.acceleration) torque += params.inertia * reference.acceleration;
+	return torque;
+}
+
+/**
+ * Heater duty in percent that balances the heat lost at `target`, the
+ * steady state a P-only controller droops short of.
+ */
+export const ovenFeedforward = (params: OvenParams, target: number): number =>
+	(params.heatLossCoeff * (target - params.ambient) * params.lossFactor * 100) /
+	params.heaterPower;
@@ -0,0 +1,20 @@
+export * from "./plants";
+export * from "./integrators";
+export * from "./controllers";
+export * from "./loop";
+export * from "./linear";
+export * from "./metrics";
+export * from "./autotune";
+export * from "./optimize";
+export * from "./challenges";
+export * from "./random";
+export * from "./scenario";
+export * from "./disturbance";
+export * from "./sensor";
+export * from "./actuator";
+export * from "./dcmotor";
+export * from "./cascade";
+export * from "./blocks";
+export * from "./feedforward";
+export * from "./profile";
+export * from "./lqr";
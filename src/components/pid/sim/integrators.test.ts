@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+	INTEGRATORS,
+	energyDrift,
+	integrate,
+	rk4,
+	rk45,
+	stepPlant,
+} from "./integrators";
+import type { IntegratorMethod } from "./integrators";
+import { MOMENT_OF_INERTIA, motorPlant } from "./plants";
+
+// Frictionless pendulum swinging from horizontal: energy should be conserved
+const PARAMS = { inertia: MOMENT_OF_INERTIA, friction: 0, mass: 0.5 };
+const START = [0, 0];
+const DT = 0.01;
+const STEPS = 200;
+
+function swing(method: IntegratorMethod) {
+	let x = START;
+	for (let i = 0; i < STEPS; i++)
+		x = integrate(motorPlant, x, 0, PARAMS, DT, method);
+	return x;
+}
+
+const energy = (x: number[]) => motorPlant.energy!(x, PARAMS);
+
+describe("integrate", () => {
+	it.each(INTEGRATORS.map((option) => option.id))(
+		"keeps an unloaded pointer at rest under %s",
+		(method) => {
+			const state = { angle: 1, angularVelocity: 0 };
+			expect(
+				stepPlant(motorPlant, state, 0, { ...PARAMS, mass: 0 }, DT, method),
+			).toEqual(state);
+		},
+	);
+
+	it("gets closer to the true solution with higher-order methods", () => {
+		const reference = swing("rk45");
+		const error = (method: IntegratorMethod) =>
+			Math.abs(swing(method)[0] - reference[0]);
+		expect(error("rk4")).toBeLessThan(error("semi-implicit"));
+		expect(error("semi-implicit")).toBeLessThan(error("euler"));
+	});
+
+	it("adds energy under explicit Euler and keeps it bounded under semi-implicit", () => {
+		const initial = energy(START);
+		expect(energy(swing("euler")) - initial).toBeGreaterThan(0.01);
+		expect(Math.abs(energy(swing("semi-implicit")) - initial)).toBeLessThan(
+			0.01,
+		);
+		expect(Math.abs(energy(swing("rk4")) - initial)).toBeLessThan(1e-6);
+	});
+
+	it("splits a long rk45 step into substeps and stays accurate", () => {
+		const x = [0, 5];
+		const { x: next, substeps } = rk45(motorPlant, x, 0, PARAMS, 1);
+		const reference = rk4(motorPlant, x, 0, PARAMS, 1, 1000);
+		expect(substeps).toBeGreaterThan(1);
+		expect(next[0]).toBeCloseTo(reference[0], 4);
+		expect(next[1]).toBeCloseTo(reference[1], 4);
+	});
+});
+
+describe("energyDrift", () => {
+	it("is zero for a plant stepped exactly like its reference", () => {
+		const next = integrate(motorPlant, START, 0, PARAMS, DT, "rk4");
+		expect(
+			Math.abs(energyDrift(motorPlant, START, next, 0, PARAMS, DT)),
+		).toBeLessThan(1e-9);
+	});
+
+	it("is positive for explicit Euler on a frictionless swing", () => {
+		const x = [0, 2];
+		const next = integrate(motorPlant, x, 0, PARAMS, DT, "euler");
+		expect(energyDrift(motorPlant, x, next, 0, PARAMS, DT)).toBeGreaterThan(0);
+	});
+});
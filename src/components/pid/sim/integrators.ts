@@ -0,0 +1,217 @@
+import type { Plant } from "./plants";
+
+export type IntegratorMethod = "euler" | "semi-implicit" | "rk4" | "rk45";
+
+export const INTEGRATORS: { id: IntegratorMethod; label: string }[] = [
+	{ id: "euler", label: "Euler" },
+	{ id: "semi-implicit", label: "Semi-implicit" },
+	{ id: "rk4", label: "RK4" },
+	{ id: "rk45", label: "RK45" },
+];
+
+export const DEFAULT_INTEGRATOR: IntegratorMethod = "semi-implicit";
+
+type Derivative = (x: number[]) => number[];
+
+const axpy = (x: number[], dx: number[], h: number) =>
+	x.map((xi, i) => xi + dx[i] * h);
+
+/** One explicit (forward) Euler step: every state advances with the start-of-step derivative. */
+export function explicitEuler<P>(
+	plant: Plant<unknown, P>,
+	x: number[],
+	u: number,
+	params: P,
+	dt: number,
+): number[] {
+	return axpy(x, plant.derivative(x, u, params), dt);
+}
+
+/**
+ * One semi-implicit (symplectic) Euler step: velocities and first-order states
+ * advance with the derivative at the start of the step, then positions advance
+ * with the updated velocities.
+ */
+export function semiImplicitEuler<P>(
+	plant: Plant<unknown, P>,
+	x: number[],
+	u: number,
+	params: P,
+	dt: number,
+): number[] {
+	const dx = plant.derivative(x, u, params);
+	const next = axpy(x, dx, dt);
+	for (const [position, velocity] of plant.kinematics) {
+		next[position] = x[position] + next[velocity] * dt;
+	}
+	return next;
+}
+
+function rk4Step(f: Derivative, x: number[], dt: number): number[] {
+	const k1 = f(x);
+	const k2 = f(axpy(x, k1, dt / 2));
+	const k3 = f(axpy(x, k2, dt / 2));
+	const k4 = f(axpy(x, k3, dt));
+	return x.map(
+		(xi, i) => xi + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]),
+	);
+}
+
+/** Classic fourth-order Runge–Kutta with the input held over the step. */
+export function rk4<P>(
+	plant: Plant<unknown, P>,
+	x: number[],
+	u: number,
+	params: P,
+	dt: number,
+	substeps = 1,
+): number[] {
+	const f: Derivative = (xi) => plant.derivative(xi, u, params);
+	const h = dt / substeps;
+	let next = x;
+	for (let k = 0; k < substeps; k++) next = rk4Step(f, next, h);
+	return next;
+}
+
+// Dormand–Prince 5(4) tableau
+const DP_A = [
+	[],
+	[1 / 5],
+	[3 / 40, 9 / 40],
+	[44 / 45, -56 / 15, 32 / 9],
+	[19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+	[9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+	[35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [
+	5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100,
+	1 / 40,
+];
+
+const RK45_TOLERANCE = 1e-6;
+const RK45_MAX_SUBSTEPS = 64;
+
+/**
+ * Adaptive Dormand–Prince RK45. The frame step is split into as many substeps
+ * as the error estimate needs (up to RK45_MAX_SUBSTEPS). Returns the state and
+ * the number of substeps actually taken.
+ */
+export function rk45<P>(
+	plant: Plant<unknown, P>,
+	x: number[],
+	u: number,
+	params: P,
+	dt: number,
+): { x: number[]; substeps: number } {
+	const f: Derivative = (xi) => plant.derivative(xi, u, params);
+	const minStep = dt / RK45_MAX_SUBSTEPS;
+	let t = 0;
+	let h = dt;
+	let state = x;
+	let substeps = 0;
+
+	while (t < dt - 1e-12) {
+		h = Math.min(Math.max(h, minStep), dt - t);
+		const k: number[][] = [];
+		for (let s = 0; s < 7; s++) {
+			let xs = state;
+			for (let j = 0; j < s; j++) xs = axpy(xs, k[j], h * DP_A[s][j]);
+			k.push(f(xs));
+		}
+		let error = 0;
+		const next = state.map((xi, i) => {
+			let high = xi;
+			let low = xi;
+			for (let s = 0; s < 7; s++) {
+				high += h * DP_B5[s] * k[s][i];
+				low += h * DP_B4[s] * k[s][i];
+			}
+			const scale = RK45_TOLERANCE * (1 + Math.abs(xi));
+			error = Math.max(error, Math.abs(high - low) / scale);
+			return high;
+		});
+
+		if (error <= 1 || h <= minStep) {
+			t += h;
+			state = next;
+			substeps++;
+		}
+		// Standard step-size controller with safety factor and growth limits
+		const factor = error === 0 ? 5 : 0.9 * Math.pow(error, -1 / 5);
+		h *= Math.min(5, Math.max(0.2, factor));
+	}
+	return { x: state, substeps };
+}
+
+export function integrate<P>(
+	plant: Plant<unknown, P>,
+	x: number[],
+	u: number,
+	params: P,
+	dt: number,
+	method: IntegratorMethod = DEFAULT_INTEGRATOR,
+): number[] {
+	switch (method) {
+		case "euler":
+			return explicitEuler(plant, x, u, params, dt);
+		case "semi-implicit":
+			return semiImplicitEuler(plant, x, u, params, dt);
+		case "rk4":
+			return rk4(plant, x, u, params, dt);
+		case "rk45":
+			return rk45(plant, x, u, params, dt).x;
+	}
+}
+
+/** Advance a plant's named state by `dt` with the input held constant. */
+export function stepPlant<S, P>(
+	plant: Plant<S, P>,
+	state: S,
+	u: number,
+	params: P,
+	dt: number,
+	method: IntegratorMethod = DEFAULT_INTEGRATOR,
+): S {
+	return plant.fromVector(
+		integrate(plant, plant.toVector(state), u, params, dt, method),
+	);
+}
+
+// Substeps for the reference solution the drift readout compares against
+const REFERENCE_SUBSTEPS = 16;
+
+/**
+ * Energy the integrator added (positive) or removed over one step, relative to
+ * a finely sub-stepped RK4 reference from the same starting state and input.
+ * Summed over a run this is the energy drift caused purely by the numerics.
+ */
+export function energyDrift<P>(
+	plant: Plant<unknown, P>,
+	x: number[],
+	next: number[],
+	u: number,
+	params: P,
+	dt: number,
+): number {
+	if (!plant.energy) return 0;
+	const reference = rk4(plant, x, u, params, dt, REFERENCE_SUBSTEPS);
+	return plant.energy(next, params) - plant.energy(reference, params);
+}
+
+/** stepPlant that also reports the step's energyDrift. */
+export function stepPlantWithDrift<S, P>(
+	plant: Plant<S, P>,
+	state: S,
+	u: number,
+	params: P,
+	dt: number,
+	method: IntegratorMethod = DEFAULT_INTEGRATOR,
+): { state: S; drift: number } {
+	const x = plant.toVector(state);
+	const next = integrate(plant, x, u, params, dt, method);
+	return {
+		state: plant.fromVector(next),
+		drift: energyDrift(plant, x, next, u, params, dt),
+	};
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+	closedLoop,
+	evaluate,
+	frequencyResponse,
+	isClosedLoopStable,
+	ovenTransferFunction,
+	pidTransferFunction,
+	polyMul,
+	polyRoots,
+	series,
+	stabilityMargins,
+	stepResponse,
+} from "./linear";
+import type { TransferFunction } from "./linear";
+import { OVEN_PARAMS, ovenPlant } from "./plants";
+
+/** K / (s(s + 1)(s + 2)): phase crossover at √2 rad/s, unstable for K > 6. */
+const thirdOrder = (gain: number): TransferFunction => ({
+	num: [gain],
+	den: polyMul([1, 0], polyMul([1, 1], [1, 2])),
+});
+
+describe("polyRoots", () => {
+	it("finds real and complex roots", () => {
+		const real = polyRoots(polyMul([1, 1], [1, 2]))
+			.map((r) => r.re)
+			.sort((a, b) => a - b);
+		expect(real[0]).toBeCloseTo(-2, 9);
+		expect(real[1]).toBeCloseTo(-1, 9);
+
+		// s² + 2s + 5 = (s + 1)² + 4
+		for (const root of polyRoots([1, 2, 5])) {
+			expect(root.re).toBeCloseTo(-1, 9);
+			expect(Math.abs(root.im)).toBeCloseTo(2, 9);
+		}
+	});
+});
+
+describe("series", () => {
+	it("cancels a shared integrator and differentiator", () => {
+		const tf = series({ num: [1, 0], den: [1, 1] }, { num: [1], den: [1, 0] });
+		expect(tf).toEqual({ num: [1], den: [1, 1] });
+	});
+});
+
+describe("pidTransferFunction", () => {
+	it("is Kp + Ki/s + Kd·s without a filter", () => {
+		expect(pidTransferFunction({ kp: 2, ki: 3, kd: 0.5 })).toEqual({
+			num: [0.5, 2, 3],
+			den: [1, 0],
+		});
+	});
+
+	it("matches Kp + Ki/s + Kd·s/(1 + Tf·s) with a filter", () => {
+		const gains = { kp: 2, ki: 3, kd: 0.5 };
+		const tf = gains.kd / gains.kp / 10;
+		const { re, im } = evaluate(pidTransferFunction(gains, 10), {
+			re: 0,
+			im: 4,
+		});
+		// At s = 4j: Ki/s = −0.75j, Kd·s/(1 + Tf·s) = 2j/(1 + 0.1j)
+		const denominator = 1 + (4 * tf) ** 2;
+		expect(re).toBeCloseTo(2 + (2 * 4 * tf) / denominator, 9);
+		expect(im).toBeCloseTo(-0.75 + 2 / denominator, 9);
+	});
+});
+
+describe("stabilityMargins", () => {
+	it("measures the margins of a third-order loop", () => {
+		const margins = stabilityMargins(
+			frequencyResponse(thirdOrder(1), 0.01, 100, 2000),
+		);
+		expect(margins.phaseCrossover).toBeCloseTo(Math.SQRT2, 2);
+		expect(margins.gainMargin).toBeCloseTo(20 * Math.log10(6), 1);
+		// |L(jω)| = 1 at ω ≈ 0.446
+		expect(margins.gainCrossover).toBeCloseTo(0.446, 2);
+		expect(margins.phaseMargin).toBeCloseTo(53.4, 0);
+	});
+});
+
+describe("isClosedLoopStable", () => {
+	it("agrees with the gain margin", () => {
+		expect(isClosedLoopStable(thirdOrder(5))).toBe(true);
+		expect(isClosedLoopStable(thirdOrder(7))).toBe(false);
+	});
+});
+
+describe("ovenTransferFunction", () => {
+	it("has the oven's DC gain and a stable pole", () => {
+		const { num, den } = ovenTransferFunction(OVEN_PARAMS);
+		expect(den[1]).toBeGreaterThan(0);
+		// At the predicted rise the model's temperature is steady
+		const rise = (50 * num[0]) / den[1];
+		const [slope] = ovenPlant.derivative(
+			[OVEN_PARAMS.ambient + rise],
+			50,
+			OVEN_PARAMS,
+		);
+		expect(slope).toBeCloseTo(0, 9);
+	});
+});
+
+describe("closedLoop", () => {
+	it("divides the loop by 1 + L(s)", () => {
+		expect(closedLoop({ num: [2], den: [1, 1] })).toEqual({
+			num: [2],
+			den: [1, 3],
+		});
+	});
+});
+
+describe("stepResponse", () => {
+	it("follows 1 − e^(−t) for 1/(s + 1)", () => {
+		const response = stepResponse({ num: [1], den: [1, 1] }, 4, 41);
+		expect(response[0]).toBe(0);
+		for (let i = 0; i < response.length; i++)
+			expect(response[i]).toBeCloseTo(1 - Math.exp(-i * 0.1), 6);
+	});
+
+	it("passes direct feedthrough straight to the output", () => {
+		// (s + 2)/(s + 1) = 1 + 1/(s + 1): 2 − e^(−t)
+		const response = stepResponse({ num: [1, 2], den: [1, 1] }, 4, 41);
+		expect(response[0]).toBe(1);
+		expect(response[40]).toBeCloseTo(2 - Math.exp(-4), 6);
+	});
+});
@@ -0,0 +1,357 @@
+// Linear analysis of the PID loops: polynomials, transfer functions, the
+// motor linearized about an operating angle, frequency response, margins and
+// step responses. Polynomials are coefficient arrays, highest power first.
+
+import type { PIDGains } from "./controllers";
+import { rk4 } from "./integrators";
+import { ovenPlant } from "./plants";
+import type { MotorParams, OvenParams, Plant } from "./plants";
+
+export interface Complex {
+	re: number;
+	im: number;
+}
+
+const cmul = (a: Complex, b: Complex): Complex => ({
+	re: a.re * b.re - a.im * b.im,
+	im: a.re * b.im + a.im * b.re,
+});
+
+const cdiv = (a: Complex, b: Complex): Complex => {
+	const denominator = b.re * b.re + b.im * b.im;
+	return {
+		re: (a.re * b.re + a.im * b.im) / denominator,
+		im: (a.im * b.re - a.re * b.im) / denominator,
+	};
+};
+
+const csub = (a: Complex, b: Complex): Complex => ({
+	re: a.re - b.re,
+	im: a.im - b.im,
+});
+
+/** Drop leading zero coefficients. */
+export function polyTrim(p: number[]): number[] {
+	let start = 0;
+	while (start < p.length - 1 && p[start] === 0) start++;
+	return p.slice(start);
+}
+
+export function polyAdd(a: number[], b: number[]): number[] {
+	const length = Math.max(a.length, b.length);
+	const sum = new Array<number>(length).fill(0);
+	a.forEach((c, i) => (sum[length - a.length + i] += c));
+	b.forEach((c, i) => (sum[length - b.length + i] += c));
+	return polyTrim(sum);
+}
+
+export function polyMul(a: number[], b: number[]): number[] {
+	const product = new Array<number>(a.length + b.length - 1).fill(0);
+	a.forEach((ca, i) => b.forEach((cb, j) => (product[i + j] += ca * cb)));
+	return polyTrim(product);
+}
+
+/** Evaluate p at complex s by Horner's rule. */
+export function polyEval(p: number[], s: Complex): Complex {
+	let value: Complex = { re: 0, im: 0 };
+	for (const c of p) {
+		const scaled = cmul(value, s);
+		value = { re: scaled.re + c, im: scaled.im };
+	}
+	return value;
+}
+
+/** All complex roots of p (Durand–Kerner iteration). */
+export function polyRoots(p: number[]): Complex[] {
+	const trimmed = polyTrim(p);
+	const degree = trimmed.length - 1;
+	if (degree < 1) return [];
+	const monic = trimmed.map((c) => c / trimmed[0]);
+	let roots: Complex[] = Array.from({ length: degree }, (_, k) => {
+		// Standard non-real, non-symmetric starting points
+		const angle = (2 * Math.PI * k) / degree + 0.4;
+		return { re: Math.cos(angle) * 1.3, im: Math.sin(angle) * 1.3 };
+	});
+	for (let iteration = 0; iteration < 500; iteration++) {
+		let maxChange = 0;
+		roots = roots.map((root, i) => {
+			let denominator: Complex = { re: 1, im: 0 };
+			roots.forEach((other, j) => {
+				if (j !== i) denominator = cmul(denominator, csub(root, other));
+			});
+			const delta = cdiv(polyEval(monic, root), denominator);
+			maxChange = Math.max(maxChange, Math.hypot(delta.re, delta.im));
+			return csub(root, delta);
+		});
+		if (maxChange < 1e-12) break;
+	}
+	// Snap numerically-real roots onto the real axis
+	return roots.map((root) =>
+		Math.abs(root.im) < 1e-9 * (1 + Math.abs(root.re))
+			? { re: root.re, im: 0 }
+			: root,
+	);
+}
+
+export interface TransferFunction {
+	num: number[];
+	den: number[];
+}
+
+export function series(
+	a: TransferFunction,
+	b: TransferFunction,
+): TransferFunction {
+	return cancelOrigin({
+		num: polyMul(a.num, b.num),
+		den: polyMul(a.den, b.den),
+	});
+}
+
+/** Cancel roots at s = 0 shared by numerator and denominator. */
+function cancelOrigin(tf: TransferFunction): TransferFunction {
+	let { num, den } = tf;
+	while (
+		num.length > 1 &&
+		den.length > 1 &&
+		num[num.length - 1] === 0 &&
+		den[den.length - 1] === 0
+	) {
+		num = num.slice(0, -1);
+		den = den.slice(0, -1);
+	}
+	return { num, den };
+}
+
+export function evaluate(tf: TransferFunction, s: Complex): Complex {
+	return cdiv(polyEval(tf.num, s), polyEval(tf.den, s));
+}
+
+/** Closed-loop characteristic polynomial 1 + L(s) = 0 for unity feedback. */
+export function characteristicPolynomial(loop: TransferFunction): number[] {
+	return polyAdd(loop.den, loop.num);
+}
+
+/** Unity-feedback closed loop T(s) = L(s) / (1 + L(s)). */
+export function closedLoop(loop: TransferFunction): TransferFunction {
+	return { num: loop.num, den: characteristicPolynomial(loop) };
+}
+
+/**
+ * The pointer motor linearized about `angle`: J·θ'' + b·θ' − k·θ = u, where
+ * k = mass·sin(angle) is the gravity torque's slope. Above the horizontal
+ * gravity pushes the pointer further from the operating point, so k > 0 makes
+ * the open-loop plant unstable.
+ */
+export function motorTransferFunction(
+	params: MotorParams,
+	angle: number,
+): TransferFunction {
+	const stiffness = params.mass * Math.sin(angle);
+	return { num: [1], den: [params.inertia, params.friction, -stiffness] };
+}
+
+/**
+ * The oven about ambient: T' = gain·u − rate·(T − ambient), a single real
+ * pole. The oven model is already linear, so the coefficients are read off its
+ * derivative directly.
+ */
+export function ovenTransferFunction(params: OvenParams): TransferFunction {
+	const slope = (temperature: number, heater: number) =>
+		ovenPlant.derivative([temperature], heater, params)[0];
+	const base = slope(params.ambient, 0);
+	const gain = slope(params.ambient, 1) - base;
+	const pole = slope(params.ambient + 1, 0) - base;
+	return { num: [gain], den: [1, -pole] };
+}
+
+/**
+ * C(s) = Kp + Ki/s + Kd·s / (1 + Tf·s), with Tf = (Kd/Kp)/N when a derivative
+ * filter factor N is given.
+ */
+export function pidTransferFunction(
+	gains: PIDGains,
+	derivativeFilter?: number,
+): TransferFunction {
+	const { kp, ki, kd } = gains;
+	const tf =
+		derivativeFilter && kp > 0 && kd > 0 ? kd / kp / derivativeFilter : 0;
+	// Over the common denominator s·(1 + Tf·s)
+	return cancelOrigin({
+		num: polyTrim([kp * tf + kd, kp + ki * tf, ki]),
+		den: polyTrim([tf, 1, 0]),
+	});
+}
+
+/** First-order Padé approximation of a pure delay e^(−s·delay). */
+export function delayTransferFunction(delay: number): TransferFunction {
+	if (delay <= 0) return { num: [1], den: [1] };
+	return { num: [-delay / 2, 1], den: [delay / 2, 1] };
+}
+
+export interface FrequencyPoint {
+	/** rad/s */
+	omega: number;
+	re: number;
+	im: number;
+	/** dB */
+	magnitude: number;
+	/** Degrees, unwrapped to be continuous across the sweep. */
+	phase: number;
+}
+
+/** L(jω) at `points` log-spaced frequencies from omegaMin to omegaMax. */
+export function frequencyResponse(
+	tf: TransferFunction,
+	omegaMin: number,
+	omegaMax: number,
+	points: number,
+): FrequencyPoint[] {
+	const response: FrequencyPoint[] = [];
+	const logMin = Math.log10(omegaMin);
+	const logStep = (Math.log10(omegaMax) - logMin) / (points - 1);
+	let prevPhase: number | null = null;
+	for (let i = 0; i < points; i++) {
+		const omega = 10 ** (logMin + i * logStep);
+		const { re, im } = evaluate(tf, { re: 0, im: omega });
+		let phase = (Math.atan2(im, re) * 180) / Math.PI;
+		if (prevPhase !== null)
+			phase -= 360 * Math.round((phase - prevPhase) / 360);
+		prevPhase = phase;
+		response.push({
+			omega,
+			re,
+			im,
+			magnitude: 20 * Math.log10(Math.hypot(re, im)),
+			phase,
+		});
+	}
+	return response;
+}
+
+export interface Margins {
+	/** dB; null when the phase never crosses −180°. */
+	gainMargin: number | null;
+	/** rad/s at which the gain margin is measured. */
+	phaseCrossover: number | null;
+	/** Degrees; null when |L| never crosses 1. */
+	phaseMargin: number | null;
+	/** rad/s at which the phase margin is measured. */
+	gainCrossover: number | null;
+}
+
+// Interpolation fraction where y crosses `level` between two samples
+const crossing = (y0: number, y1: number, level: number) =>
+	(level - y0) / (y1 - y0);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Gain and phase margins from a sampled frequency response. With several
+ * crossings the smallest margin is reported.
+ */
+export function stabilityMargins(response: FrequencyPoint[]): Margins {
+	const margins: Margins = {
+		gainMargin: null,
+		phaseCrossover: null,
+		phaseMargin: null,
+		gainCrossover: null,
+	};
+	for (let i = 1; i < response.length; i++) {
+		const a = response[i - 1];
+		const b = response[i];
+		const logOmega = (t: number) =>
+			10 ** lerp(Math.log10(a.omega), Math.log10(b.omega), t);
+
+		if (
+			a.magnitude === 0 ||
+			Math.sign(a.magnitude) !== Math.sign(b.magnitude)
+		) {
+			const t = crossing(a.magnitude, b.magnitude, 0);
+			const phase = lerp(a.phase, b.phase, t);
+			// Distance above −180°, wrapped into [−180°, 180°)
+			const margin = ((((180 + phase) % 360) + 540) % 360) - 180;
+			if (
+				margins.phaseMargin === null ||
+				Math.abs(margin) < Math.abs(margins.phaseMargin)
+			) {
+				margins.phaseMargin = margin;
+				margins.gainCrossover = logOmega(t);
+			}
+		}
+
+		// Phase crossings of −180° + k·360°
+		const k = Math.floor((a.phase + 180) / 360);
+		const candidates = [k, k + 1].map((n) => -180 + n * 360);
+		for (const level of candidates) {
+			if ((a.phase - level) * (b.phase - level) > 0 || a.phase === b.phase)
+				continue;
+			const t = crossing(a.phase, b.phase, level);
+			if (t < 0 || t > 1) continue;
+			const gainMargin = -lerp(a.magnitude, b.magnitude, t);
+			if (
+				margins.gainMargin === null ||
+				Math.abs(gainMargin) < Math.abs(margins.gainMargin)
+			) {
+				margins.gainMargin = gainMargin;
+				margins.phaseCrossover = logOmega(t);
+			}
+		}
+	}
+	return margins;
+}
+
+/** True when every root of the characteristic polynomial is in the left half-plane. */
+export function isClosedLoopStable(loop: TransferFunction): boolean {
+	return polyRoots(characteristicPolynomial(loop)).every((root) => root.re < 0);
+}
+
+// Controllable canonical form of a proper transfer function: the state is
+// z, z', …, z^(n−1) with den(d/dt)·z = u, and y = num(d/dt)·z.
+const stateSpacePlant: Plant<number[], number[]> = {
+	toVector: (x) => x,
+	fromVector: (x) => x,
+	derivative: (x, u, monicDen) => {
+		const n = x.length;
+		let highest = u;
+		for (let j = 1; j <= n; j++) highest -= monicDen[j] * x[n - j];
+		return [...x.slice(1), highest];
+	},
+	kinematics: [],
+};
+
+// RK4 substeps per output sample, enough for the fastest poles the sliders reach
+const STEP_RESPONSE_SUBSTEPS = 8;
+
+/**
+ * Response of `tf` to a unit step, sampled `points` times over `duration`
+ * seconds from rest. The first sample is at t = 0.
+ */
+export function stepResponse(
+	tf: TransferFunction,
+	duration: number,
+	points: number,
+): number[] {
+	const den = polyTrim(tf.den);
+	const n = den.length - 1;
+	const monicDen = den.map((c) => c / den[0]);
+	const num = polyTrim(tf.num).map((c) => c / den[0]);
+	if (n === 0) return new Array<number>(points).fill(num[num.length - 1] ?? 0);
+
+	// Split off any direct feedthrough so the remainder is strictly proper
+	const padded = [...new Array<number>(n + 1 - num.length).fill(0), ...num];
+	const feedthrough = padded[0];
+	const residual = padded.map((c, i) => c - feedthrough * monicDen[i]);
+	const output = (x: number[]) =>
+		residual.reduce((sum, c, i) => (i === 0 ? sum : sum + c * x[n - i]), 0) +
+		feedthrough;
+
+	const dt = duration / (points - 1);
+	let x = new Array<number>(n).fill(0);
+	const response = [output(x)];
+	for (let i = 1; i < points; i++) {
+		x = rk4(stateSpacePlant, x, 1, monicDen, dt, STEP_RESPONSE_SUBSTEPS);
+		response.push(output(x));
+	}
+	return response;
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+	DT,
+	advanceClock,
+	createClock,
+	pauseClock,
+	runSimulation,
+	stepMotorPID,
+} from "./loop";
+import type { MotorLoopState } from "./loop";
+import { MOMENT_OF_INERTIA, motorPlant } from "./plants";
+
+const PARAMS = { inertia: MOMENT_OF_INERTIA, friction: 0.08, mass: 0 };
+const GAINS = { kp: 2, ki: 0, kd: 0.8 };
+
+describe("stepMotorPID", () => {
+	it("drives the pointer to the target", () => {
+		let state = {
+			angle: Math.PI / 2,
+			angularVelocity: 0,
+			integral: 0,
+			prevError: 0,
+		};
+		const target = (3 * Math.PI) / 4;
+		for (let i = 0; i < 10 / DT; i++)
+			state = stepMotorPID(state, target, GAINS, PARAMS, DT).state;
+		expect(state.angle).toBeCloseTo(target, 3);
+	});
+
+	it("acts on the measured angle when one is given", () => {
+		const state = { angle: 1, angularVelocity: 0, integral: 0, prevError: 0 };
+		const { pid } = stepMotorPID(state, 1, GAINS, PARAMS, DT, {
+			measuredAngle: 0.5,
+		});
+		expect(pid.p).toBeCloseTo(GAINS.kp * 0.5, 12);
+	});
+
+	it("ramps the reference toward the target at the setpoint rate", () => {
+		let state: MotorLoopState = {
+			angle: 0,
+			angularVelocity: 0,
+			integral: 0,
+			prevError: 0,
+		};
+		const references: number[] = [];
+		for (let i = 0; i < 10; i++) {
+			state = stepMotorPID(state, 1, GAINS, PARAMS, DT, {
+				setpointRate: 0.6,
+			}).state;
+			references.push(state.reference ?? NaN);
+		}
+		expect(references[0]).toBeCloseTo(0.6 * DT, 12);
+		expect(references[9]).toBeCloseTo(
+			// Rate-limited from the previous reference, not the pointer
+			10 * 0.6 * DT,
+			12,
+		);
+	});
+});
+
+describe("stepMotorPID feedforward", () => {
+	const HANGING = { ...PARAMS, mass: 0.5 };
+	const run = (gravity: boolean) => {
+		let state: MotorLoopState = {
+			angle: Math.PI / 2,
+			angularVelocity: 0,
+			integral: 0,
+			prevError: 0,
+		};
+		for (let i = 0; i < 10 / DT; i++)
+			state = stepMotorPID(state, Math.PI / 4, GAINS, HANGING, DT, {
+				feedforwardTerms: { gravity, velocity: false, acceleration: false },
+			}).state;
+		return state.angle;
+	};
+
+	it("removes the droop a P-only loop leaves under gravity", () => {
+		expect(Math.abs(run(false) - Math.PI / 4)).toBeGreaterThan(0.05);
+		expect(run(true)).toBeCloseTo(Math.PI / 4, 3);
+	});
+
+	it("reports the feedforward torque it added", () => {
+		const state = { angle: 0, angularVelocity: 0, integral: 0, prevError: 0 };
+		const result = stepMotorPID(state, 0, GAINS, HANGING, DT, {
+			feedforwardTerms: { gravity: true, velocity: false, acceleration: false },
+		});
+		expect(result.feedforward).toBeCloseTo(0.5);
+		expect(result.pid.output).toBeCloseTo(0.5);
+	});
+});
+
+describe("stepMotorPID with a sample rate", () => {
+	it("holds the controller output between samples", () => {
+		let state = {
+			angle: Math.PI / 2,
+			angularVelocity: 0,
+			integral: 0,
+			prevError: 0,
+		};
+		const outputs: number[] = [];
+		for (let i = 0; i < 12; i++) {
+			const result = stepMotorPID(state, Math.PI, GAINS, PARAMS, DT, {
+				sampleRate: 10,
+			});
+			state = result.state;
+			outputs.push(result.pid.output);
+		}
+		// 10 Hz against 60 Hz steps: a new sample every sixth step
+		expect(new Set(outputs.slice(0, 6)).size).toBe(1);
+		expect(new Set(outputs.slice(6, 12)).size).toBe(1);
+		expect(outputs[6]).not.toBe(outputs[0]);
+	});
+
+	it("matches the continuous controller when sampling every step", () => {
+		const state = { angle: 1, angularVelocity: 0, integral: 0, prevError: 0 };
+		const sampled = stepMotorPID(state, 2, GAINS, PARAMS, DT, {
+			sampleRate: 1 / DT,
+		});
+		const continuous = stepMotorPID(state, 2, GAINS, PARAMS, DT);
+		expect(sampled.state.angle).toBeCloseTo(continuous.state.angle, 12);
+	});
+});
+
+describe("stepMotorPID drift", () => {
+	const state = { angle: 0, angularVelocity: 2, integral: 0, prevError: 0 };
+	const options = { integrator: "euler" as const };
+
+	it("is only measured when tracked", () => {
+		const gains = { kp: 0, ki: 0, kd: 0 };
+		const params = { ...PARAMS, friction: 0, mass: 0.5 };
+		const untracked = stepMotorPID(state, 0, gains, params, DT, options);
+		const tracked = stepMotorPID(state, 0, gains, params, DT, {
+			...options,
+			trackDrift: true,
+		});
+		expect(untracked.drift).toBe(0);
+		expect(tracked.drift).toBeGreaterThan(0);
+		expect(tracked.state).toEqual(untracked.state);
+	});
+});
+
+describe("runSimulation", () => {
+	it("records one sample per step, before each step is taken", () => {
+		const samples = runSimulation(
+			motorPlant,
+			PARAMS,
+			{ angle: 0, angularVelocity: 0 },
+			() => 1,
+			DT,
+			5,
+		);
+		expect(samples.map((sample) => sample.t)).toEqual(
+			[0, 1, 2, 3, 4].map((k) => k * DT),
+		);
+		expect(samples[0].state).toEqual({ angle: 0, angularVelocity: 0 });
+		expect(samples[4].state.angularVelocity).toBeGreaterThan(0);
+	});
+});
+
+describe("advanceClock", () => {
+	it("runs a second's worth of steps at any frame rate", () => {
+		const stepsOver = (fps: number) => {
+			const clock = createClock();
+			let steps = 0;
+			for (let frame = 0; frame <= fps; frame++)
+				steps += advanceClock(clock, (frame * 1000) / fps, DT);
+			return steps;
+		};
+		// Up to a step may still be owed in the accumulator
+		for (const fps of [30, 60, 144]) {
+			expect(stepsOver(fps)).toBeGreaterThanOrEqual(59);
+			expect(stepsOver(fps)).toBeLessThanOrEqual(60);
+		}
+	});
+
+	it("scales the steps by the speed", () => {
+		const clock = createClock();
+		advanceClock(clock, 0, DT, 2);
+		expect(advanceClock(clock, 100, DT, 2)).toBe(12);
+	});
+
+	it("drops a long gap rather than catching up on it", () => {
+		const clock = createClock();
+		advanceClock(clock, 0, DT);
+		expect(advanceClock(clock, 10_000, DT)).toBe(15);
+	});
+
+	it("accrues nothing across a pause", () => {
+		const clock = createClock();
+		advanceClock(clock, 0, DT);
+		advanceClock(clock, 10, DT);
+		pauseClock(clock);
+		expect(advanceClock(clock, 5000, DT)).toBe(0);
+		expect(clock.accumulator).toBe(0);
+	});
+});
@@ -0,0 +1,369 @@
+import { createActuator, stepActuator } from "./actuator";
+import type {
+	ActuatorLimit,
+	ActuatorModel,
+	ActuatorState,
+} from "./actuator";
+import { pidStep, rateLimit } from "./controllers";
+import type { PIDGains, PIDOptions, PIDOutput, PIDState } from "./controllers";
+import { AT_REST, motorFeedforward } from "./feedforward";
+import type { MotorFeedforward, ReferenceMotion } from "./feedforward";
+import { stepPlant, stepPlantWithDrift } from "./integrators";
+import type { IntegratorMethod } from "./integrators";
+import { motorPlant } from "./plants";
+import type { MotorParams, MotorState, Plant } from "./plants";
+
+export const DT = 1 / 60;
+
+export const MIN_SAMPLE_RATE = 5;
+export const MAX_SAMPLE_RATE = 1000;
+
+export interface MotorLoopState extends MotorState, PIDState {
+	// Discrete-time mode only: time since the controller last sampled, the
+	// angle it read then, and its output and the feedforward within it, held
+	// until the next sample
+	sinceSample?: number;
+	sampledAngle?: number;
+	held?: PIDOutput;
+	heldFeedforward?: number;
+	/** Rate-limited setpoint the controller is tracking, when ramping. */
+	reference?: number;
+	/** The reference's rate on the last step, for acceleration feedforward. */
+	referenceVelocity?: number;
+	/** With an actuator model only. */
+	actuator?: ActuatorState;
+}
+
+export interface MotorStepResult {
+	state: MotorLoopState;
+	pid: PIDOutput;
+	/** Feedforward torque included in the output, in N·m. */
+	feedforward: number;
+	/** Energy error this step introduced by the integrator; 0 unless tracked. */
+	drift: number;
+}
+
+export interface MotorStepOptions extends PIDOptions {
+	measuredAngle?: number;
+	integrator?: IntegratorMethod;
+	/**
+	 * Measure the integrator's energy drift against a sub-stepped reference.
+	 * That costs a second, finer integration per step, so only the widgets
+	 * that show the readout ask for it.
+	 */
+	trackDrift?: boolean;
+	/** Controller sample rate in Hz; omit to run the controller every step. */
+	sampleRate?: number;
+	/**
+	 * Setpoint rate limit in rad/s. The controller then tracks a reference
+	 * ramping toward the target, starting from the pointer's angle.
+	 */
+	setpointRate?: number;
+	/**
+	 * How the target is moving when it comes from a setpoint generator, for
+	 * feedforward in place of the ramp's own motion.
+	 */
+	referenceMotion?: ReferenceMotion;
+	/** External torque on the pointer in N·m, added after saturation. */
+	disturbance?: number;
+	/** Actuator dynamics between the saturated output and the pointer. */
+	actuator?: ActuatorModel;
+	/**
+	 * Model-based feedforward added to the PID output. Velocity and
+	 * acceleration follow the ramped or generated reference; a step has
+	 * neither.
+	 */
+	feedforwardTerms?: MotorFeedforward;
+}
+
+/**
+ * Torque that reaches the pointer for a controller output held over `dt`,
+ * after the actuator model if there is one.
+ */
+function driveTorque(
+	actuator: ActuatorState | undefined,
+	output: number,
+	dt: number,
+	options: MotorStepOptions,
+): { torque: number; actuator?: ActuatorState } {
+	if (!options.actuator) return { torque: output };
+	const saturated =
+		(options.outputMax !== undefined && output >= options.outputMax) ||
+		(options.outputMin !== undefined && output <= options.outputMin);
+	const next = stepActuator(
+		actuator ?? createActuator(),
+		options.actuator,
+		output,
+		dt,
+		saturated,
+	);
+	return { torque: next.torque, actuator: next.state };
+}
+
+/** Integrate the motor over `dt`, with its drift only when asked for. */
+function stepMotorPlant(
+	state: MotorState,
+	torque: number,
+	params: MotorParams,
+	dt: number,
+	options: MotorStepOptions,
+): { state: MotorState; drift: number } {
+	if (options.trackDrift)
+		return stepPlantWithDrift(
+			motorPlant,
+			state,
+			torque,
+			params,
+			dt,
+			options.integrator,
+		);
+	return {
+		state: stepPlant(motorPlant, state, torque, params, dt, options.integrator),
+		drift: 0,
+	};
+}
+
+/**
+ * One closed-loop step of the pointer motor: PID on the (optionally noisy)
+ * measured angle, then integrate the plant under the saturated torque.
+ */
+export function stepMotorPID(
+	state: MotorLoopState,
+	target: number,
+	gains: PIDGains,
+	params: MotorParams,
+	dt: number,
+	options: MotorStepOptions = {},
+): MotorStepResult {
+	const reference = options.setpointRate
+		? rateLimit(state.reference ?? state.angle, target, options.setpointRate, dt)
+		: undefined;
+	const setpoint = reference ?? target;
+	let motion = options.referenceMotion ?? AT_REST;
+	if (reference !== undefined) {
+		const velocity = (reference - (state.reference ?? state.angle)) / dt;
+		motion = {
+			velocity,
+			acceleration: (velocity - (state.referenceVelocity ?? 0)) / dt,
+		};
+	}
+	const result = options.sampleRate
+		? stepSampledMotorPID(
+				state,
+				setpoint,
+				motion,
+				gains,
+				params,
+				dt,
+				options.sampleRate,
+				options,
+			)
+		: stepContinuousMotorPID(state, setpoint, motion, gains, params, dt, options);
+	return {
+		...result,
+		state: {
+			...result.state,
+			reference,
+			referenceVelocity: reference === undefined ? undefined : motion.velocity,
+		},
+	};
+}
+
+/** The feedforward torque for a controller reading `angle`. */
+const feedforwardAt = (
+	options: MotorStepOptions,
+	params: MotorParams,
+	angle: number,
+	motion: ReferenceMotion,
+) =>
+	options.feedforwardTerms
+		? motorFeedforward(options.feedforwardTerms, params, angle, motion)
+		: 0;
+
+function stepContinuousMotorPID(
+	state: MotorLoopState,
+	target: number,
+	motion: ReferenceMotion,
+	gains: PIDGains,
+	params: MotorParams,
+	dt: number,
+	options: MotorStepOptions,
+): MotorStepResult {
+	const measured = options.measuredAngle ?? state.angle;
+	const feedforward = feedforwardAt(options, params, measured, motion);
+	const pid = pidStep(gains, state, target - measured, dt, {
+		...options,
+		measurement: measured,
+		feedforward,
+	});
+	const drive = driveTorque(state.actuator, pid.output, dt, options);
+	const motor = stepMotorPlant(
+		state,
+		drive.torque + (options.disturbance ?? 0),
+		params,
+		dt,
+		options,
+	);
+	return {
+		state: { ...motor.state, ...pid.state, actuator: drive.actuator },
+		pid,
+		feedforward,
+		drift: motor.drift,
+	};
+}
+
+// Slack when comparing accumulated times against the sample period
+const SAMPLE_EPSILON = 1e-9;
+
+/**
+ * stepMotorPID with the controller sampling at `sampleRate` instead of every
+ * step. The step is split at each sample instant; between samples the plant
+ * integrates under the last output (zero-order hold). The measurement noise
+ * of the step is applied to every sample taken within it.
+ */
+function stepSampledMotorPID(
+	state: MotorLoopState,
+	target: number,
+	motion: ReferenceMotion,
+	gains: PIDGains,
+	params: MotorParams,
+	dt: number,
+	sampleRate: number,
+	options: MotorStepOptions,
+): MotorStepResult {
+	const period = 1 / sampleRate;
+	const noise = (options.measuredAngle ?? state.angle) - state.angle;
+	let motor: MotorState = state;
+	let pidState: PIDState = state;
+	let held = state.held;
+	let sampledAngle = state.sampledAngle ?? state.angle;
+	let sinceSample = state.sinceSample ?? period;
+	let feedforward = state.heldFeedforward ?? 0;
+	let actuator = state.actuator;
+	// Anything that limited the actuator during the step, not just at its end
+	let limit: ActuatorLimit | null = null;
+	let drift = 0;
+	let t = 0;
+
+	do {
+		if (!held || sinceSample >= period - SAMPLE_EPSILON) {
+			sampledAngle = motor.angle + noise;
+			feedforward = feedforwardAt(options, params, sampledAngle, motion);
+			held = pidStep(gains, pidState, target - sampledAngle, period, {
+				...options,
+				measurement: sampledAngle,
+				feedforward,
+			});
+			pidState = held.state;
+			sinceSample = 0;
+		}
+		const h = Math.min(period - sinceSample, dt - t);
+		const drive = driveTorque(actuator, held.output, h, options);
+		actuator = drive.actuator;
+		limit ??= actuator?.limit ?? null;
+		const next = stepMotorPlant(
+			motor,
+			drive.torque + (options.disturbance ?? 0),
+			params,
+			h,
+			options,
+		);
+		motor = next.state;
+		drift += next.drift;
+		sinceSample += h;
+		t += h;
+	} while (t < dt - SAMPLE_EPSILON);
+
+	return {
+		state: {
+			...motor,
+			...pidState,
+			sinceSample,
+			sampledAngle,
+			held,
+			heldFeedforward: feedforward,
+			actuator: actuator && { ...actuator, limit },
+		},
+		pid: held,
+		feedforward,
+		drift,
+	};
+}
+
+export interface Sample<S> {
+	t: number;
+	state: S;
+	u: number;
+}
+
+/**
+ * Run a closed loop headlessly for `steps` steps. `control` is called once per
+ * step with the current state and time and may keep its own state in a closure.
+ */
+export function runSimulation<S, P>(
+	plant: Plant<S, P>,
+	params: P,
+	initial: S,
+	control: (state: S, t: number) => number,
+	dt: number,
+	steps: number,
+	method?: IntegratorMethod,
+): Sample<S>[] {
+	const samples: Sample<S>[] = [];
+	let state = initial;
+	for (let k = 0; k < steps; k++) {
+		const t = k * dt;
+		const u = control(state, t);
+		samples.push({ t, state, u });
+		state = stepPlant(plant, state, u, params, dt, method);
+	}
+	return samples;
+}
+
+// --- Fixed-step clock -------------------------------------------------------
+
+export const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4];
+
+// Longest wall-clock gap one frame may catch up on; anything longer (a
+// backgrounded tab, a breakpoint) is dropped rather than replayed at once.
+const MAX_FRAME_TIME = 0.25;
+
+export interface FixedStepClock {
+	/** Simulation time owed but not yet stepped, in seconds. */
+	accumulator: number;
+	/** Timestamp of the previous frame in ms, or null when paused. */
+	lastTime: number | null;
+}
+
+export const createClock = (): FixedStepClock => ({
+	accumulator: 0,
+	lastTime: null,
+});
+
+/**
+ * Number of fixed `dt` steps to run for a frame at wall time `now` (ms, as
+ * passed to requestAnimationFrame). Leftover time carries to the next frame,
+ * so the simulation advances at `speed`× real time regardless of refresh rate.
+ */
+export function advanceClock(
+	clock: FixedStepClock,
+	now: number,
+	dt: number,
+	speed = 1,
+): number {
+	const elapsed =
+		clock.lastTime === null
+			? 0
+			: Math.min((now - clock.lastTime) / 1000, MAX_FRAME_TIME);
+	clock.lastTime = now;
+	clock.accumulator += elapsed * speed;
+	const steps = Math.floor(clock.accumulator / dt);
+	clock.accumulator -= steps * dt;
+	return steps;
+}
+
+/** Stop accruing time until the next advanceClock call. */
+export function pauseClock(clock: FixedStepClock) {
+	clock.lastTime = null;
+	clock.accumulator = 0;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+	closedLoopPoles,
+	linearize,
+	lqrGains,
+	quadraticCost,
+	solveRiccati,
+} from "./lqr";
+import type { LQRWeights, LinearModel } from "./lqr";
+import {
+	CART_POLE_PARAMS,
+	OVEN_PARAMS,
+	cartPolePlant,
+	ovenPlant,
+} from "./plants";
+
+/** ẍ = u: the textbook case, with P and the gains known in closed form. */
+const DOUBLE_INTEGRATOR: LinearModel = {
+	A: [
+		[0, 1],
+		[0, 0],
+	],
+	B: [0, 1],
+};
+
+const UPRIGHT = linearize(cartPolePlant, CART_POLE_PARAMS, {
+	cartX: 0,
+	cartVelocity: 0,
+	angle: 0,
+	angularVelocity: 0,
+});
+const WEIGHTS: LQRWeights = { q: [10, 0, 100, 0], r: 0.1 };
+
+/** AᵀP + PA − PBR⁻¹BᵀP + Q, entry by entry. */
+function riccatiResidual(
+	{ A, B }: LinearModel,
+	{ q, r }: LQRWeights,
+	p: number[][],
+): number[][] {
+	const n = A.length;
+	const pb = p.map((row) => row.reduce((sum, v, k) => sum + v * B[k], 0));
+	return Array.from({ length: n }, (_, i) =>
+		Array.from({ length: n }, (_, j) => {
+			let sum = (i === j ? q[i] : 0) - (pb[i] * pb[j]) / r;
+			for (let k = 0; k < n; k++) sum += A[k][i] * p[k][j] + p[i][k] * A[k][j];
+			return sum;
+		}),
+	);
+}
+
+describe("linearize", () => {
+	it("reads a linear plant's coefficients back exactly", () => {
+		const model = linearize(ovenPlant, OVEN_PARAMS, { temperature: 100 });
+		const base = ovenPlant.derivative([0], 0, OVEN_PARAMS)[0];
+		expect(model.A[0][0]).toBeCloseTo(
+			ovenPlant.derivative([1], 0, OVEN_PARAMS)[0] - base,
+			6,
+		);
+		expect(model.B[0]).toBeCloseTo(
+			ovenPlant.derivative([0], 1, OVEN_PARAMS)[0] - base,
+			6,
+		);
+	});
+
+	it("finds the cart-pole unstable upright", () => {
+		const poles = closedLoopPoles(UPRIGHT, [0, 0, 0, 0]);
+		expect(poles[0].re).toBeGreaterThan(0);
+	});
+});
+
+describe("solveRiccati", () => {
+	it("matches the double integrator's closed form", () => {
+		const weights = { q: [1, 0], r: 1 };
+		const p = solveRiccati(DOUBLE_INTEGRATOR, weights)!;
+		expect(p[0][0]).toBeCloseTo(Math.SQRT2, 6);
+		expect(p[0][1]).toBeCloseTo(1, 6);
+		expect(p[1][1]).toBeCloseTo(Math.SQRT2, 6);
+		const gains = lqrGains(DOUBLE_INTEGRATOR, weights)!;
+		expect(gains[0]).toBeCloseTo(-1, 6);
+		expect(gains[1]).toBeCloseTo(-Math.SQRT2, 6);
+	});
+
+	it("solves the cart-pole's equation to a small residual", () => {
+		const p = solveRiccati(UPRIGHT, WEIGHTS)!;
+		expect(p).not.toBeNull();
+		const scale = Math.max(...p.flat().map(Math.abs));
+		for (const row of riccatiResidual(UPRIGHT, WEIGHTS, p))
+			for (const v of row) expect(Math.abs(v) / scale).toBeLessThan(1e-6);
+	});
+
+	it("returns null when the input can't reach an unstable state", () => {
+		const model: LinearModel = {
+			A: [
+				[1, 0],
+				[0, -1],
+			],
+			B: [0, 1],
+		};
+		expect(solveRiccati(model, { q: [1, 1], r: 1 })).toBeNull();
+	});
+});
+
+describe("lqrGains", () => {
+	it("stabilizes the upright cart-pole", () => {
+		const gains = lqrGains(UPRIGHT, WEIGHTS)!;
+		for (const pole of closedLoopPoles(UPRIGHT, gains))
+			expect(pole.re).toBeLessThan(0);
+	});
+});
+
+describe("quadraticCost", () => {
+	const initial = [0, 0, 0.05, 0];
+
+	it("is xᵀPx under the LQR gains, and no lower under any other", () => {
+		const p = solveRiccati(UPRIGHT, WEIGHTS)!;
+		const gains = lqrGains(UPRIGHT, WEIGHTS)!;
+		let expected = 0;
+		for (let i = 0; i < 4; i++)
+			for (let j = 0; j < 4; j++) expected += initial[i] * p[i][j] * initial[j];
+		const optimal = quadraticCost(UPRIGHT, gains, WEIGHTS, initial);
+		expect(optimal).toBeCloseTo(expected, 6);
+		const detuned = gains.map((k) => k * 1.2);
+		expect(quadraticCost(UPRIGHT, detuned, WEIGHTS, initial)).toBeGreaterThan(
+			optimal,
+		);
+	});
+
+	it("is infinite when the loop is unstable", () => {
+		expect(quadraticCost(UPRIGHT, [0, 0, 0, 0], WEIGHTS, initial)).toBe(
+			Infinity,
+		);
+	});
+});
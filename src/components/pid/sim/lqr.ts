@@ -0,0 +1,223 @@
+// Linear-quadratic regulator: linearize a plant about an equilibrium, solve
+// the continuous algebraic Riccati equation for the weights, and compare the
+// optimal state feedback with any other gain vector on the same model.
+// Gains follow stateFeedback's sign, u = Σ k·x, so they drop straight in.
+
+import { polyRoots } from "./linear";
+import type { Complex } from "./linear";
+import type { Plant } from "./plants";
+
+type Matrix = number[][];
+
+/** ẋ = A·x + B·u about the equilibrium, for a single input. */
+export interface LinearModel {
+	A: Matrix;
+	B: number[];
+}
+
+export interface LQRWeights {
+	/** Diagonal of Q, one weight per state. */
+	q: number[];
+	/** Weight on the input. */
+	r: number;
+}
+
+// Central-difference step for the Jacobians
+const LINEARIZE_STEP = 1e-6;
+const MAX_SIGN_ITERATIONS = 100;
+
+/** Jacobians of the plant's dynamics at `state` under a constant `input`. */
+export function linearize<S, P>(
+	plant: Plant<S, P>,
+	params: P,
+	state: S,
+	input = 0,
+): LinearModel {
+	const x0 = plant.toVector(state);
+	const h = LINEARIZE_STEP;
+	const columns = x0.map((_, j) => {
+		const plus = x0.map((v, i) => (i === j ? v + h : v));
+		const minus = x0.map((v, i) => (i === j ? v - h : v));
+		const up = plant.derivative(plus, input, params);
+		const down = plant.derivative(minus, input, params);
+		return up.map((v, i) => (v - down[i]) / (2 * h));
+	});
+	const up = plant.derivative(x0, input + h, params);
+	const down = plant.derivative(x0, input - h, params);
+	return {
+		A: x0.map((_, i) => columns.map((column) => column[i])),
+		B: up.map((v, i) => (v - down[i]) / (2 * h)),
+	};
+}
+
+// --- Small dense matrices ----------------------------------------------------
+
+const identity = (n: number): Matrix =>
+	Array.from({ length: n }, (_, i) =>
+		Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+	);
+
+const transpose = (m: Matrix): Matrix =>
+	m[0].map((_, j) => m.map((row) => row[j]));
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+	a.map((row) =>
+		b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)),
+	);
+
+/** Solve a·x = b for each column of b (Gaussian elimination, partial pivoting). */
+function solve(a: Matrix, b: Matrix): Matrix | null {
+	const n = a.length;
+	const m = a.map((row, i) => [...row, ...b[i]]);
+	for (let col = 0; col < n; col++) {
+		let pivot = col;
+		for (let row = col + 1; row < n; row++)
+			if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+		if (Math.abs(m[pivot][col]) < 1e-14) return null;
+		[m[col], m[pivot]] = [m[pivot], m[col]];
+		for (let row = 0; row < n; row++) {
+			if (row === col) continue;
+			const factor = m[row][col] / m[col][col];
+			for (let k = col; k < m[row].length; k++) m[row][k] -= factor * m[col][k];
+		}
+	}
+	return m.map((row, i) => row.slice(n).map((v) => v / row[i]));
+}
+
+const norm1 = (m: Matrix) =>
+	m.reduce((sum, row) => sum + row.reduce((s, v) => s + Math.abs(v), 0), 0);
+
+// --- Riccati and Lyapunov equations -------------------------------------------
+
+/**
+ * P solving AᵀP + PA − PBR⁻¹BᵀP + Q = 0, or null when there is no stabilizing
+ * solution. Uses the matrix sign function of the Hamiltonian: its stable
+ * invariant subspace is spanned by [I; P].
+ */
+export function solveRiccati(
+	model: LinearModel,
+	weights: LQRWeights,
+): Matrix | null {
+	const { A, B } = model;
+	const n = A.length;
+	const At = transpose(A);
+	const hamiltonian: Matrix = [
+		...A.map((row, i) => [...row, ...B.map((b) => (-B[i] * b) / weights.r)]),
+		...At.map((row, i) => [
+			...row.map((_, j) => (i === j ? -weights.q[i] : 0)),
+			...row.map((v) => -v),
+		]),
+	];
+
+	// Newton iteration Z ← (Z + Z⁻¹)/2 converges to sign(H)
+	let z = hamiltonian;
+	for (let iteration = 0; iteration < MAX_SIGN_ITERATIONS; iteration++) {
+		const inverse = solve(z, identity(2 * n));
+		if (!inverse) return null;
+		const next = z.map((row, i) => row.map((v, j) => (v + inverse[i][j]) / 2));
+		const change = norm1(next.map((row, i) => row.map((v, j) => v - z[i][j])));
+		z = next;
+		if (change < 1e-12 * norm1(z)) break;
+	}
+
+	// (sign(H) + I)·[I; P] = 0, solved for P in the least-squares sense
+	const top = z.slice(0, n);
+	const bottom = z.slice(n);
+	const lhs = [
+		...top.map((row) => row.slice(n)),
+		...bottom.map((row, i) =>
+			row.slice(n).map((v, j) => v + (i === j ? 1 : 0)),
+		),
+	];
+	const rhs = [
+		...top.map((row, i) =>
+			row.slice(0, n).map((v, j) => -(v + (i === j ? 1 : 0))),
+		),
+		...bottom.map((row) => row.slice(0, n).map((v) => -v)),
+	];
+	const lhsT = transpose(lhs);
+	const p = solve(multiply(lhsT, lhs), multiply(lhsT, rhs));
+	if (!p || p.some((row) => row.some((v) => !Number.isFinite(v)))) return null;
+	return p.map((row, i) => row.map((v, j) => (v + p[j][i]) / 2));
+}
+
+/** Optimal feedback gains for the weights, or null when none stabilize. */
+export function lqrGains(
+	model: LinearModel,
+	weights: LQRWeights,
+): number[] | null {
+	const p = solveRiccati(model, weights);
+	if (!p) return null;
+	// u = −R⁻¹BᵀP·x
+	return p[0].map(
+		(_, j) => -model.B.reduce((sum, b, i) => sum + b * p[i][j], 0) / weights.r,
+	);
+}
+
+const closedLoopMatrix = (model: LinearModel, gains: number[]): Matrix =>
+	model.A.map((row, i) => row.map((v, j) => v + model.B[i] * gains[j]));
+
+/** Characteristic polynomial of a square matrix (Faddeev–LeVerrier). */
+function characteristicPoly(m: Matrix): number[] {
+	const n = m.length;
+	const coefficients = [1];
+	let product = identity(n);
+	for (let k = 1; k <= n; k++) {
+		const am = multiply(m, product);
+		const trace = am.reduce((sum, row, i) => sum + row[i], 0);
+		const c = -trace / k;
+		coefficients.push(c);
+		product = am.map((row, i) => row.map((v, j) => v + (i === j ? c : 0)));
+	}
+	return coefficients;
+}
+
+/** Eigenvalues of A + B·k, slowest first. */
+export function closedLoopPoles(
+	model: LinearModel,
+	gains: number[],
+): Complex[] {
+	return polyRoots(characteristicPoly(closedLoopMatrix(model, gains))).sort(
+		(a, b) => b.re - a.re,
+	);
+}
+
+/**
+ * ∫(xᵀQx + r·u²)dt from `initial` to rest under u = k·x on the linear model,
+ * or Infinity when the loop is unstable. Saturation is ignored, so this is
+ * the cost the linear design promises rather than what the cart delivers.
+ */
+export function quadraticCost(
+	model: LinearModel,
+	gains: number[],
+	weights: LQRWeights,
+	initial: number[],
+): number {
+	if (closedLoopPoles(model, gains).some((pole) => pole.re >= 0))
+		return Infinity;
+	// Lyapunov equation AclᵀS + S·Acl + Q + r·kkᵀ = 0, as one linear system
+	// in the entries of S
+	const acl = closedLoopMatrix(model, gains);
+	const n = acl.length;
+	const system: Matrix = [];
+	const rhs: Matrix = [];
+	for (let i = 0; i < n; i++)
+		for (let j = 0; j < n; j++) {
+			const row = new Array(n * n).fill(0);
+			for (let k = 0; k < n; k++) {
+				row[k * n + j] += acl[k][i];
+				row[i * n + k] += acl[k][j];
+			}
+			system.push(row);
+			rhs.push([
+				-((i === j ? weights.q[i] : 0) + weights.r * gains[i] * gains[j]),
+			]);
+		}
+	const s = solve(system, rhs);
+	if (!s) return Infinity;
+	let cost = 0;
+	for (let i = 0; i < n; i++)
+		for (let j = 0; j < n; j++)
+			cost += initial[i] * s[i * n + j][0] * initial[j];
+	return cost;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+	createStepRecord,
+	recordStepSample,
+	stepMetrics,
+	trackingError,
+} from "./metrics";
+import type { StepRecord } from "./metrics";
+
+const DT = 0.001;
+
+/** A unit step from 0 sampled from `response`(t) for `duration` seconds. */
+function sampled(response: (t: number) => number, duration = 10): StepRecord {
+	const record = createStepRecord(0, 1);
+	for (let i = 1; i <= duration / DT; i++)
+		record.samples.push(response(i * DT));
+	return record;
+}
+
+describe("stepMetrics", () => {
+	it("measures a first-order lag", () => {
+		const metrics = stepMetrics(
+			sampled((t) => 1 - Math.exp(-t)),
+			DT,
+		);
+		expect(metrics).not.toBeNull();
+		expect(metrics!.riseTime).toBeCloseTo(Math.log(9), 2);
+		expect(metrics!.overshoot).toBe(0);
+		expect(metrics!.peakTime).toBeNull();
+		expect(metrics!.settlingTime2).toBeCloseTo(Math.log(50), 2);
+		expect(metrics!.settlingTime5).toBeCloseTo(Math.log(20), 2);
+		expect(metrics!.steadyStateError).toBeCloseTo(Math.exp(-10), 6);
+		// ∫e^(−t) = 1, ∫e^(−2t) = 1/2, ∫t·e^(−t) = 1
+		expect(metrics!.iae).toBeCloseTo(1, 2);
+		expect(metrics!.ise).toBeCloseTo(0.5, 2);
+		expect(metrics!.itae).toBeCloseTo(1, 2);
+	});
+
+	it("measures the overshoot and peak of an underdamped response", () => {
+		const zeta = 0.5;
+		const damped = Math.sqrt(1 - zeta * zeta);
+		const metrics = stepMetrics(
+			sampled(
+				(t) =>
+					1 -
+					(Math.exp(-zeta * t) / damped) *
+						Math.sin(damped * t + Math.acos(zeta)),
+				20,
+			),
+			DT,
+		);
+		expect(metrics!.overshoot).toBeCloseTo(
+			100 * Math.exp((-Math.PI * zeta) / damped),
+			1,
+		);
+		expect(metrics!.peakTime).toBeCloseTo(Math.PI / damped, 2);
+	});
+
+	it("leaves unreached milestones null", () => {
+		const metrics = stepMetrics(
+			sampled((t) => 0.5 * t, 1),
+			DT,
+		);
+		expect(metrics!.riseTime).toBeNull();
+		expect(metrics!.settlingTime2).toBeNull();
+		expect(metrics!.steadyStateError).toBeCloseTo(0.5, 9);
+	});
+
+	it("returns null for a step too small to measure", () => {
+		const record = createStepRecord(1, 1);
+		record.samples.push(1);
+		expect(stepMetrics(record, DT)).toBeNull();
+	});
+});
+
+describe("recordStepSample", () => {
+	it("starts a fresh record from the last sample when the target moves", () => {
+		let record = createStepRecord(0, 1);
+		record = recordStepSample(record, 0.4, 1, 100);
+		record = recordStepSample(record, 0.7, 1, 100);
+		const moved = recordStepSample(record, 0.8, 2, 100);
+		expect(moved).not.toBe(record);
+		expect(moved.initial).toBe(0.7);
+		expect(moved.target).toBe(2);
+		expect(moved.samples).toEqual([0.8]);
+	});
+
+	it("stops recording after maxSamples", () => {
+		let record = createStepRecord(0, 1);
+		for (let i = 0; i < 5; i++) record = recordStepSample(record, i, 1, 3);
+		expect(record.samples).toEqual([0, 1, 2]);
+	});
+});
+
+describe("trackingError", () => {
+	it("is the RMS difference over the samples both traces share", () => {
+		expect(trackingError([1, 2, 3], [1, 2, 3])).toBe(0);
+		expect(trackingError([1, -1, 5], [0, 0])).toBe(1);
+		expect(trackingError([3, 0], [0, 4])).toBeCloseTo(Math.sqrt(12.5), 9);
+	});
+
+	it("is zero with nothing to compare", () => {
+		expect(trackingError([], [1])).toBe(0);
+	});
+});
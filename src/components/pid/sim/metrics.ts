@@ -0,0 +1,135 @@
+// Step-response metrics, computed from a response sampled every simulation
+// step after the target stepped: samples[i] is the value (i + 1)·dt later.
+
+export interface StepMetrics {
+	/** Seconds to go from 10% to 90% of the step; null if not yet reached. */
+	riseTime: number | null;
+	/** Percent of the step by which the response passed the target. */
+	overshoot: number;
+	/** Seconds to the overshoot peak; null without overshoot. */
+	peakTime: number | null;
+	/** Seconds until the response stays within 2% of the step. */
+	settlingTime2: number | null;
+	/** Seconds until the response stays within 5% of the step. */
+	settlingTime5: number | null;
+	/** |target − response| at the last sample. */
+	steadyStateError: number;
+	/** ∫|e| dt */
+	iae: number;
+	/** ∫e² dt */
+	ise: number;
+	/** ∫t·|e| dt */
+	itae: number;
+}
+
+/** A response being recorded since the target last moved. */
+export interface StepRecord {
+	initial: number;
+	target: number;
+	samples: number[];
+}
+
+// Steps smaller than this leave nothing meaningful to measure
+const MIN_STEP = 1e-6;
+
+export const createStepRecord = (
+	value: number,
+	target: number,
+): StepRecord => ({
+	initial: value,
+	target,
+	samples: [],
+});
+
+/**
+ * Append a sample, starting a fresh record from the last sample when the
+ * target has moved. Recording stops after `maxSamples` so the metrics keep
+ * describing the step rather than a sliding window.
+ */
+export function recordStepSample(
+	record: StepRecord,
+	value: number,
+	target: number,
+	maxSamples: number,
+): StepRecord {
+	const current =
+		target === record.target
+			? record
+			: createStepRecord(record.samples.at(-1) ?? value, target);
+	if (current.samples.length < maxSamples) current.samples.push(value);
+	return current;
+}
+
+// Time after which the response never again leaves the band, or null if the
+// last sample is still outside it
+function settlingTime(
+	errors: number[],
+	band: number,
+	dt: number,
+): number | null {
+	for (let i = errors.length - 1; i >= 0; i--) {
+		if (Math.abs(errors[i]) > band)
+			return i === errors.length - 1 ? null : (i + 1) * dt;
+	}
+	return 0;
+}
+
+/** Metrics of the recorded step, or null when the step is too small. */
+export function stepMetrics(
+	record: StepRecord,
+	dt: number,
+): StepMetrics | null {
+	const { initial, target, samples } = record;
+	const step = target - initial;
+	if (Math.abs(step) < MIN_STEP || samples.length === 0) return null;
+
+	// Progress toward the target as a fraction of the step, 0 → 1
+	const progress = samples.map((value) => (value - initial) / step);
+	const errors = samples.map((value) => target - value);
+
+	const firstReaching = (level: number) => {
+		const index = progress.findIndex((p) => p >= level);
+		return index < 0 ? null : (index + 1) * dt;
+	};
+	const rise10 = firstReaching(0.1);
+	const rise90 = firstReaching(0.9);
+
+	let peakIndex = 0;
+	progress.forEach((p, i) => {
+		if (p > progress[peakIndex]) peakIndex = i;
+	});
+	const overshoot = Math.max(0, progress[peakIndex] - 1) * 100;
+
+	let iae = 0;
+	let ise = 0;
+	let itae = 0;
+	errors.forEach((error, i) => {
+		iae += Math.abs(error) * dt;
+		ise += error * error * dt;
+		itae += (i + 1) * dt * Math.abs(error) * dt;
+	});
+
+	return {
+		riseTime: rise10 !== null && rise90 !== null ? rise90 - rise10 : null,
+		overshoot,
+		peakTime: overshoot > 0 ? (peakIndex + 1) * dt : null,
+		settlingTime2: settlingTime(errors, 0.02 * Math.abs(step), dt),
+		settlingTime5: settlingTime(errors, 0.05 * Math.abs(step), dt),
+		steadyStateError: Math.abs(errors[errors.length - 1]),
+		iae,
+		ise,
+		itae,
+	};
+}
+
+/**
+ * RMS gap between a response and the reference it was following, for
+ * trajectories where the step metrics have no single step to measure.
+ */
+export function trackingError(actual: number[], reference: number[]): number {
+	const n = Math.min(actual.length, reference.length);
+	if (n === 0) return 0;
+	let sum = 0;
+	for (let i = 0; i < n; i++) sum += (actual[i] - reference[i]) ** 2;
+	return Math.sqrt(sum / n);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+	CHALLENGES,
+	CHALLENGE_GAIN_LIMITS,
+	challengeScore,
+	runChallenge,
+} from "./challenges";
+import { nelderMead, optimizeChallenge } from "./optimize";
+
+describe("nelderMead", () => {
+	it("finds the minimum of the Rosenbrock function", () => {
+		const rosenbrock = ([x, y]: number[]) =>
+			(1 - x) ** 2 + 100 * (y - x * x) ** 2;
+		const { x, value } = nelderMead(rosenbrock, [-1, 1], {
+			step: [0.5, 0.5],
+			maxIterations: 2000,
+			tolerance: 1e-12,
+		});
+		expect(x[0]).toBeCloseTo(1, 3);
+		expect(x[1]).toBeCloseTo(1, 3);
+		expect(value).toBeLessThan(1e-6);
+	});
+
+	it("stops at maxIterations and reports each iteration's best", () => {
+		const seen: number[] = [];
+		const { iterations } = nelderMead(([x]) => x * x, [5], {
+			step: [1],
+			maxIterations: 3,
+			tolerance: 0,
+			onIteration: (_, __, value) => seen.push(value),
+		});
+		expect(iterations).toBe(3);
+		expect(seen).toHaveLength(3);
+		// The best point only ever improves
+		expect([...seen].sort((a, b) => b - a)).toEqual(seen);
+	});
+});
+
+describe("optimizeChallenge", () => {
+	it("beats the starting gains and stays within the slider ranges", () => {
+		const challenge = CHALLENGES[0];
+		const fractions: number[] = [];
+		const { gains, score } = optimizeChallenge(
+			{ challenge, objective: "itae", integrator: "semi-implicit" },
+			(fraction) => fractions.push(fraction),
+		);
+		const start = challengeScore(
+			runChallenge(challenge, { kp: 3, ki: 0.5, kd: 0.5 }, "semi-implicit"),
+			challenge,
+			"itae",
+		);
+		expect(score).toBeLessThan(start);
+		expect(score).toBe(
+			challengeScore(
+				runChallenge(challenge, gains, "semi-implicit"),
+				challenge,
+				"itae",
+			),
+		);
+		for (const key of ["kp", "ki", "kd"] as const) {
+			expect(gains[key]).toBeGreaterThanOrEqual(0);
+			expect(gains[key]).toBeLessThanOrEqual(CHALLENGE_GAIN_LIMITS[key]);
+		}
+		expect(fractions.every((f) => f >= 0 && f < 1)).toBe(true);
+	});
+});
@@ -0,0 +1,171 @@
+// Derivative-free minimization for tuning gains against a simulated score.
+
+import {
+	CHALLENGE_GAIN_LIMITS,
+	challengeGains,
+	challengeScore,
+	runChallenge,
+} from "./challenges";
+import type { Challenge, ChallengeObjective } from "./challenges";
+import type { PIDGains } from "./controllers";
+import type { IntegratorMethod } from "./integrators";
+import { clamp } from "./plants";
+
+export interface NelderMeadOptions {
+	/** Initial simplex edge along each axis. */
+	step: number[];
+	maxIterations: number;
+	/** Stop once the simplex's values agree to within this. */
+	tolerance: number;
+	/** Called after each iteration with the best point so far. */
+	onIteration?: (iteration: number, best: number[], value: number) => void;
+}
+
+export interface OptimizeResult {
+	x: number[];
+	value: number;
+	iterations: number;
+}
+
+// Standard reflection, expansion, contraction and shrink coefficients
+const REFLECT = 1;
+const EXPAND = 2;
+const CONTRACT = 0.5;
+const SHRINK = 0.5;
+
+const combine = (a: number[], b: number[], t: number) =>
+	a.map((ai, i) => ai + t * (b[i] - ai));
+
+/** Minimize f from x0 with the Nelder–Mead simplex method. */
+export function nelderMead(
+	f: (x: number[]) => number,
+	x0: number[],
+	options: NelderMeadOptions,
+): OptimizeResult {
+	const { step, maxIterations, tolerance, onIteration } = options;
+	let simplex = [
+		x0,
+		...x0.map((_, i) => x0.map((xi, j) => (i === j ? xi + step[i] : xi))),
+	].map((x) => ({ x, value: f(x) }));
+
+	let iteration = 0;
+	for (; iteration < maxIterations; iteration++) {
+		simplex.sort((a, b) => a.value - b.value);
+		const best = simplex[0];
+		const worst = simplex[simplex.length - 1];
+		onIteration?.(iteration, best.x, best.value);
+		if (worst.value - best.value < tolerance) break;
+
+		const rest = simplex.slice(0, -1);
+		const centroid = x0.map(
+			(_, i) =>
+				rest.reduce((sum, vertex) => sum + vertex.x[i], 0) / rest.length,
+		);
+		const secondWorst = simplex[simplex.length - 2];
+		const at = (t: number) => {
+			const x = combine(centroid, worst.x, -t);
+			return { x, value: f(x) };
+		};
+
+		const reflected = at(REFLECT);
+		if (reflected.value < best.value) {
+			const expanded = at(EXPAND);
+			simplex[simplex.length - 1] =
+				expanded.value < reflected.value ? expanded : reflected;
+		} else if (reflected.value < secondWorst.value) {
+			simplex[simplex.length - 1] = reflected;
+		} else {
+			// Contract toward whichever of the reflected and worst points is better
+			const contracted =
+				reflected.value < worst.value ? at(REFLECT * CONTRACT) : at(-CONTRACT);
+			if (contracted.value < Math.min(reflected.value, worst.value)) {
+				simplex[simplex.length - 1] = contracted;
+			} else {
+				simplex = simplex.map((vertex, i) => {
+					if (i === 0) return vertex;
+					const x = combine(best.x, vertex.x, SHRINK);
+					return { x, value: f(x) };
+				});
+			}
+		}
+	}
+
+	simplex.sort((a, b) => a.value - b.value);
+	return { x: simplex[0].x, value: simplex[0].value, iterations: iteration };
+}
+
+/** Sent to the optimizer worker to start a search. */
+export interface OptimizerRequest {
+	challenge: Challenge;
+	objective: ChallengeObjective;
+	integrator: IntegratorMethod;
+}
+
+/** Posted back by the optimizer worker. */
+export type OptimizerMessage =
+	| { type: "progress"; fraction: number; gains: PIDGains; score: number }
+	| { type: "done"; gains: PIDGains; score: number };
+
+// Starting points spread across the slider ranges, since settling time is
+// full of flat plateaus and local minima
+const START_POINTS: number[][] = [
+	[3, 0.5, 0.5],
+	[8, 1, 1.5],
+	[12, 3, 3],
+];
+const MAX_ITERATIONS = 150;
+// Settling time only changes in whole steps, so a sliver of ITAE gives the
+// simplex a slope to follow across its plateaus
+const SETTLING_TIEBREAK = 1e-3;
+
+const toGains = ([kp, ki, kd]: number[]): PIDGains => ({
+	kp: clamp(kp, 0, CHALLENGE_GAIN_LIMITS.kp),
+	ki: clamp(ki, 0, CHALLENGE_GAIN_LIMITS.ki),
+	kd: clamp(kd, 0, CHALLENGE_GAIN_LIMITS.kd),
+});
+
+/**
+ * Search the sliders' ranges for the gains that minimize a challenge's
+ * objective, restarting from several points and keeping the best.
+ */
+export function optimizeChallenge(
+	{ challenge, objective, integrator }: OptimizerRequest,
+	onProgress?: (fraction: number, gains: PIDGains, score: number) => void,
+): { gains: PIDGains; score: number } {
+	const cost = (x: number[]) => {
+		const run = runChallenge(challenge, toGains(x), integrator);
+		const score = challengeScore(run, challenge, objective);
+		return objective === "settling"
+			? score + SETTLING_TIEBREAK * run.itae
+			: score;
+	};
+
+	// Best point over all restarts so far, for progress reports
+	let leader: { x: number[]; value: number } | null = null;
+	const results = START_POINTS.map((start, restart) =>
+		nelderMead(cost, start, {
+			step: [2, 0.5, 0.5],
+			maxIterations: MAX_ITERATIONS,
+			tolerance: 1e-6,
+			onIteration: (iteration, x, value) => {
+				if (!leader || value < leader.value) leader = { x, value };
+				if (onProgress && iteration % 10 === 0)
+					onProgress(
+						(restart + iteration / MAX_ITERATIONS) / START_POINTS.length,
+						toGains(leader.x),
+						leader.value,
+					);
+			},
+		}),
+	);
+	const best = results.reduce((a, b) => (b.value < a.value ? b : a));
+
+	// Report the plain objective, without the tiebreak
+	const gains = challengeGains(challenge, toGains(best.x));
+	const score = challengeScore(
+		runChallenge(challenge, gains, integrator),
+		challenge,
+		objective,
+	);
+	return { gains, score };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+	CART_POLE_PARAMS,
+	MOMENT_OF_INERTIA,
+	OVEN_PARAMS,
+	bounceOffStops,
+	cartPolePlant,
+	motorPlant,
+	ovenPlant,
+} from "./plants";
+
+const MOTOR_PARAMS = { inertia: MOMENT_OF_INERTIA, friction: 0.08, mass: 0.5 };
+
+describe("motorPlant", () => {
+	it("round-trips its state through the vector form", () => {
+		const state = { angle: 1.2, angularVelocity: -0.4 };
+		expect(motorPlant.fromVector(motorPlant.toVector(state))).toEqual(state);
+	});
+
+	it("balances the hanging mass with torque mass·cos(angle)", () => {
+		const angle = Math.PI / 3;
+		const [, acceleration] = motorPlant.derivative(
+			[angle, 0],
+			MOTOR_PARAMS.mass * Math.cos(angle),
+			MOTOR_PARAMS,
+		);
+		expect(acceleration).toBeCloseTo(0, 12);
+	});
+
+	it("slows a spinning pointer through friction", () => {
+		const [velocity, acceleration] = motorPlant.derivative(
+			[Math.PI / 2, 2],
+			0,
+			MOTOR_PARAMS,
+		);
+		expect(velocity).toBe(2);
+		expect(acceleration).toBeCloseTo(
+			(-MOTOR_PARAMS.friction * 2) / MOMENT_OF_INERTIA,
+			12,
+		);
+	});
+});
+
+describe("bounceOffStops", () => {
+	it("leaves a pointer inside the range alone", () => {
+		const state = { angle: 1, angularVelocity: 3 };
+		expect(bounceOffStops(state, 0, Math.PI, 0.5)).toBe(state);
+	});
+
+	it("pins the pointer to the stop and reverses it with restitution", () => {
+		expect(
+			bounceOffStops({ angle: -0.1, angularVelocity: -2 }, 0, Math.PI, 0.5),
+		).toEqual({ angle: 0, angularVelocity: 1 });
+		expect(
+			bounceOffStops({ angle: 4, angularVelocity: 2 }, 0, Math.PI, 0.5),
+		).toEqual({ angle: Math.PI, angularVelocity: -1 });
+	});
+});
+
+describe("ovenPlant", () => {
+	it("holds ambient temperature with the heater off", () => {
+		const [rate] = ovenPlant.derivative([OVEN_PARAMS.ambient], 0, OVEN_PARAMS);
+		expect(rate).toBe(0);
+	});
+
+	it("settles where heater input equals heat loss", () => {
+		const duty = 50;
+		const equilibrium =
+			OVEN_PARAMS.ambient +
+			((duty / 100) * OVEN_PARAMS.heaterPower) / OVEN_PARAMS.heatLossCoeff;
+		const [rate] = ovenPlant.derivative([equilibrium], duty, OVEN_PARAMS);
+		expect(rate).toBeCloseTo(0, 9);
+	});
+
+	it("loses heat faster with a larger loss factor", () => {
+		const [closed] = ovenPlant.derivative([350], 0, OVEN_PARAMS);
+		const [open] = ovenPlant.derivative([350], 0, {
+			...OVEN_PARAMS,
+			lossFactor: 5,
+		});
+		expect(open).toBeCloseTo(5 * closed, 9);
+	});
+});
+
+describe("cartPolePlant", () => {
+	it("rests balanced upright", () => {
+		expect(cartPolePlant.derivative([0, 0, 0, 0], 0, CART_POLE_PARAMS)).toEqual(
+			[0, 0, 0, 0],
+		);
+	});
+
+	it("falls away from upright and pushes the cart the other way", () => {
+		const [, cartAcceleration, , angularAcceleration] =
+			cartPolePlant.derivative([0, 0, 0.1, 0], 0, CART_POLE_PARAMS);
+		expect(angularAcceleration).toBeGreaterThan(0);
+		expect(Math.sign(cartAcceleration)).toBe(-Math.sign(angularAcceleration));
+	});
+});
@@ -0,0 +1,185 @@
+// Plant models shared by the PID widgets. Each plant is a set of first-order
+// ODEs on a flat state vector; the widgets keep their own named state objects
+// and convert with toVector/fromVector.
+
+export interface Plant<S, P> {
+	toVector(state: S): number[];
+	fromVector(x: number[]): S;
+	/** dx/dt for state vector `x` under a constant input `u`. */
+	derivative(x: number[], u: number, params: P): number[];
+	/** [position, velocity] index pairs, used by the semi-implicit integrator. */
+	kinematics: [number, number][];
+	/** Stored energy, used to measure integrator drift. */
+	energy?(x: number[], params: P): number;
+}
+
+export const clamp = (value: number, min: number, max: number) =>
+	Math.max(min, Math.min(max, value));
+
+// --- Motor with pointer ---------------------------------------------------
+
+export interface MotorState {
+	angle: number;
+	angularVelocity: number;
+}
+
+export interface MotorParams {
+	inertia: number;
+	friction: number;
+	/** Mass hanging from the pointer tip; produces a -mass·cos(angle) torque. */
+	mass: number;
+}
+
+export const MOMENT_OF_INERTIA = 0.12;
+export const MAX_TORQUE = 2;
+/** Viscous friction of the pointer motor in PIDDemo, in N·m·s/rad. */
+export const POINTER_MOTOR_FRICTION = 0.08;
+/** The motor demos' Ki slider is scaled by this, so the integral builds faster. */
+export const INTEGRAL_RATE = 3;
+
+export const motorPlant: Plant<MotorState, MotorParams> = {
+	toVector: (s) => [s.angle, s.angularVelocity],
+	fromVector: ([angle, angularVelocity]) => ({ angle, angularVelocity }),
+	derivative: ([angle, velocity], torque, p) => {
+		const gravityTorque = -p.mass * Math.cos(angle);
+		return [velocity, (torque + gravityTorque - p.friction * velocity) / p.inertia];
+	},
+	kinematics: [[0, 1]],
+	// Kinetic energy plus the potential whose gradient is the gravity torque
+	energy: ([angle, velocity], p) =>
+		0.5 * p.inertia * velocity * velocity + p.mass * Math.sin(angle),
+};
+
+/** Hard end stops: pin the pointer to the range and bounce with `restitution`. */
+export function bounceOffStops(
+	state: MotorState,
+	min: number,
+	max: number,
+	restitution: number,
+): MotorState {
+	if (state.angle < min)
+		return { angle: min, angularVelocity: -state.angularVelocity * restitution };
+	if (state.angle > max)
+		return { angle: max, angularVelocity: -state.angularVelocity * restitution };
+	return state;
+}
+
+// --- Oven -------------------------------------------------------------------
+
+export interface OvenState {
+	temperature: number;
+}
+
+export interface OvenParams {
+	thermalMass: number;
+	heatLossCoeff: number;
+	heaterPower: number;
+	ambient: number;
+	/** Multiplier on heat loss, e.g. 5 with the door open. */
+	lossFactor: number;
+}
+
+export const THERMAL_MASS = 50;
+export const HEAT_LOSS_COEFF = 0.02;
+export const HEATER_POWER = 100;
+export const AMBIENT_TEMP = 70;
+/** Heater percent per unit of controller output. */
+export const OVEN_HEATER_GAIN = 0.5;
+// The oven runs 60x faster than real time so a bake fits in a few seconds
+const OVEN_TIME_SCALE = 60;
+
+export const OVEN_PARAMS: OvenParams = {
+	thermalMass: THERMAL_MASS,
+	heatLossCoeff: HEAT_LOSS_COEFF,
+	heaterPower: HEATER_POWER,
+	ambient: AMBIENT_TEMP,
+	lossFactor: 1,
+};
+
+/** Input is heater duty in percent (0-100). */
+export const ovenPlant: Plant<OvenState, OvenParams> = {
+	toVector: (s) => [s.temperature],
+	fromVector: ([temperature]) => ({ temperature }),
+	derivative: ([temperature], heaterPercent, p) => {
+		const heatInput = (heaterPercent / 100) * p.heaterPower;
+		const heatLoss = p.heatLossCoeff * (temperature - p.ambient) * p.lossFactor;
+		return [((heatInput - heatLoss) / p.thermalMass) * OVEN_TIME_SCALE];
+	},
+	kinematics: [],
+	energy: ([temperature], p) =>
+		(p.thermalMass * (temperature - p.ambient)) / OVEN_TIME_SCALE,
+};
+
+// --- Cart-pole ----------------------------------------------------------------
+
+export interface CartPoleState {
+	cartX: number;
+	cartVelocity: number;
+	angle: number;
+	angularVelocity: number;
+}
+
+export interface CartPoleParams {
+	cartMass: number;
+	pendulumMass: number;
+	pendulumLength: number;
+	gravity: number;
+	friction: number;
+}
+
+export const CART_MASS = 1.0;
+export const PENDULUM_MASS = 0.1;
+export const PENDULUM_LENGTH = 0.3;
+export const GRAVITY = 9.8;
+
+export const CART_POLE_PARAMS: CartPoleParams = {
+	cartMass: CART_MASS,
+	pendulumMass: PENDULUM_MASS,
+	pendulumLength: PENDULUM_LENGTH,
+	gravity: GRAVITY,
+	friction: 0.01,
+};
+
+/** Angle is measured from upright; input is horizontal force on the cart. */
+export const cartPolePlant: Plant<CartPoleState, CartPoleParams> = {
+	toVector: (s) => [s.cartX, s.cartVelocity, s.angle, s.angularVelocity],
+	fromVector: ([cartX, cartVelocity, angle, angularVelocity]) => ({
+		cartX,
+		cartVelocity,
+		angle,
+		angularVelocity,
+	}),
+	derivative: ([, cartVelocity, angle, angularVelocity], force, p) => {
+		const sinA = Math.sin(angle);
+		const cosA = Math.cos(angle);
+		const ml = p.pendulumMass * p.pendulumLength;
+		const totalMass = p.cartMass + p.pendulumMass;
+
+		const temp =
+			(force +
+				ml * angularVelocity * angularVelocity * sinA -
+				p.friction * cartVelocity) /
+			totalMass;
+		const angleDenominator =
+			p.pendulumLength * (4 / 3 - (p.pendulumMass * cosA * cosA) / totalMass);
+		const angularAccel = (p.gravity * sinA - cosA * temp) / angleDenominator;
+		const cartAccel = temp - (ml * angularAccel * cosA) / totalMass;
+
+		return [cartVelocity, cartAccel, angularVelocity, angularAccel];
+	},
+	kinematics: [
+		[0, 1],
+		[2, 3],
+	],
+	// Pole modeled as a uniform rod whose center of mass is pendulumLength
+	// above the pivot (the 4/3 in the dynamics above)
+	energy: ([, cartVelocity, angle, angularVelocity], p) => {
+		const ml = p.pendulumMass * p.pendulumLength;
+		const totalMass = p.cartMass + p.pendulumMass;
+		const kinetic =
+			0.5 * totalMass * cartVelocity * cartVelocity +
+			ml * cartVelocity * angularVelocity * Math.cos(angle) +
+			(2 / 3) * ml * p.pendulumLength * angularVelocity * angularVelocity;
+		return kinetic + ml * p.gravity * Math.cos(angle);
+	},
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_PROFILE,
+	createSetpointGenerator,
+	sampleProfileMove,
+	stepSetpoint,
+} from "./profile";
+import type { ProfileShape, ReferenceSample } from "./profile";
+
+const DT = 0.001;
+
+/** Every sample of a generator run toward `target` for `duration` seconds. */
+function run(
+	shape: ProfileShape,
+	from: number,
+	target: number,
+	duration: number,
+): ReferenceSample[] {
+	const generator = createSetpointGenerator(from);
+	const profile = { ...DEFAULT_PROFILE, shape };
+	const samples: ReferenceSample[] = [];
+	for (let i = 0; i < duration / DT; i++)
+		samples.push(stepSetpoint(generator, profile, target, DT));
+	return samples;
+}
+
+describe("sampleProfileMove", () => {
+	it.each(["trapezoid", "s-curve"] as const)(
+		"runs a %s from rest to rest within the limits",
+		(shape) => {
+			const profile = { ...DEFAULT_PROFILE, shape };
+			const samples = Array.from({ length: 4000 }, (_, i) =>
+				sampleProfileMove(profile, 2, 0.5, i * DT),
+			);
+			expect(samples[0].position).toBe(2);
+			expect(samples[0].velocity).toBeCloseTo(0, 9);
+			const last = samples[samples.length - 1];
+			expect(last.position).toBeCloseTo(0.5, 9);
+			expect(last.velocity).toBeCloseTo(0, 9);
+			for (const sample of samples) {
+				expect(sample.velocity).toBeLessThanOrEqual(1e-9);
+				expect(-sample.velocity).toBeLessThanOrEqual(
+					profile.maxVelocity + 1e-9,
+				);
+				expect(Math.abs(sample.acceleration)).toBeLessThanOrEqual(
+					profile.maxAcceleration + 1e-9,
+				);
+			}
+		},
+	);
+
+	it("keeps the S-curve's acceleration within the jerk limit", () => {
+		const profile = { ...DEFAULT_PROFILE, shape: "s-curve" as const };
+		let previous = 0;
+		for (let i = 1; i < 4000; i++) {
+			const { acceleration } = sampleProfileMove(profile, 0, 1, i * DT);
+			expect(Math.abs(acceleration - previous) / DT).toBeLessThanOrEqual(
+				profile.maxJerk + 1e-6,
+			);
+			previous = acceleration;
+		}
+	});
+
+	it("stays put for a move of no distance", () => {
+		expect(sampleProfileMove(DEFAULT_PROFILE, 1, 1, 0.5).position).toBe(1);
+	});
+});
+
+describe("stepSetpoint", () => {
+	it("steps straight to the target", () => {
+		expect(run("step", 0, 1, DT)[0].position).toBe(1);
+	});
+
+	it.each(["sweep", "square"] as const)(
+		"swings a %s about the target",
+		(shape) => {
+			const positions = run(shape, 1, 1, 2 * DEFAULT_PROFILE.period).map(
+				(sample) => sample.position,
+			);
+			expect(Math.max(...positions)).toBeCloseTo(
+				1 + DEFAULT_PROFILE.amplitude,
+				2,
+			);
+			expect(Math.min(...positions)).toBeCloseTo(
+				1 - DEFAULT_PROFILE.amplitude,
+				2,
+			);
+			const mean =
+				positions.reduce((sum, position) => sum + position, 0) /
+				positions.length;
+			expect(mean).toBeCloseTo(1, 1);
+		},
+	);
+
+	it("starts a new move from the reference when the target changes", () => {
+		const generator = createSetpointGenerator(0);
+		const profile = { ...DEFAULT_PROFILE, shape: "trapezoid" as const };
+		let sample = stepSetpoint(generator, profile, 1, DT);
+		for (let i = 0; i < 200; i++)
+			sample = stepSetpoint(generator, profile, 1, DT);
+		const midway = sample.position;
+		expect(midway).toBeGreaterThan(0);
+		expect(midway).toBeLessThan(1);
+		// Turning back starts from where the reference was, with no jump
+		const reversed = stepSetpoint(generator, profile, 0, DT);
+		expect(reversed.position).toBeCloseTo(midway, 5);
+		expect(generator.from).toBe(midway);
+		expect(generator.to).toBe(0);
+	});
+});
@@ -0,0 +1,285 @@
+// Setpoint generators: instead of jumping the target, move the reference the
+// controller tracks along a motion profile or a test waveform. Moves start
+// from rest wherever the reference is; waveforms swing about the target.
+
+import type { ReferenceMotion } from "./feedforward";
+
+export type ProfileShape =
+	| "step"
+	| "trapezoid"
+	| "s-curve"
+	| "sweep"
+	| "square";
+
+export const PROFILE_SHAPES: { id: ProfileShape; label: string }[] = [
+	{ id: "step", label: "Step" },
+	{ id: "trapezoid", label: "Trapezoid" },
+	{ id: "s-curve", label: "S-curve" },
+	{ id: "sweep", label: "Sweep" },
+	{ id: "square", label: "Square" },
+];
+
+export interface SetpointProfile {
+	shape: ProfileShape;
+	/** Move limits in rad/s, rad/s² and (S-curve only) rad/s³. */
+	maxVelocity: number;
+	maxAcceleration: number;
+	maxJerk: number;
+	/** Swing either side of the target for the waveforms, in rad. */
+	amplitude: number;
+	/** Square wave period, or the time one sweep takes, in s. */
+	period: number;
+}
+
+export const DEFAULT_PROFILE: SetpointProfile = {
+	shape: "step",
+	maxVelocity: Math.PI / 2,
+	maxAcceleration: 2 * Math.PI,
+	maxJerk: 16 * Math.PI,
+	amplitude: Math.PI / 9,
+	period: 4,
+};
+
+// The sweep's frequency range in Hz, from well inside the loop's bandwidth
+// to well past it
+export const SWEEP_START_FREQUENCY = 0.1;
+export const SWEEP_END_FREQUENCY = 2;
+
+export const isWaveform = (shape: ProfileShape) =>
+	shape === "sweep" || shape === "square";
+
+/** The reference at one instant: where it is and how it is moving. */
+export interface ReferenceSample extends ReferenceMotion {
+	position: number;
+}
+
+export interface SetpointGenerator {
+	shape: ProfileShape;
+	/** Start and end of the current move. */
+	from: number;
+	to: number;
+	/** Time since the move or waveform started, in s. */
+	t: number;
+	position: number;
+}
+
+export const createSetpointGenerator = (angle: number): SetpointGenerator => ({
+	shape: "step",
+	from: angle,
+	to: angle,
+	t: 0,
+	position: angle,
+});
+
+interface TrapezoidPlan {
+	distance: number;
+	acceleration: number;
+	/** Peak speed, below the limit when the move is too short to reach it. */
+	cruise: number;
+	accelTime: number;
+	cruiseTime: number;
+	duration: number;
+}
+
+function planTrapezoid(
+	distance: number,
+	maxVelocity: number,
+	maxAcceleration: number,
+): TrapezoidPlan {
+	const cruise = Math.min(maxVelocity, Math.sqrt(distance * maxAcceleration));
+	const accelTime = cruise > 0 ? cruise / maxAcceleration : 0;
+	const cruiseTime = cruise > 0 ? distance / cruise - accelTime : 0;
+	return {
+		distance,
+		acceleration: maxAcceleration,
+		cruise,
+		accelTime,
+		cruiseTime,
+		duration: 2 * accelTime + cruiseTime,
+	};
+}
+
+/** Distance covered `t` seconds into a trapezoidal move. */
+function trapezoidPosition(plan: TrapezoidPlan, t: number): number {
+	const { distance, acceleration: a, cruise, accelTime, duration } = plan;
+	if (t <= 0) return 0;
+	if (t < accelTime) return (a * t * t) / 2;
+	if (t < accelTime + plan.cruiseTime)
+		return (cruise * accelTime) / 2 + cruise * (t - accelTime);
+	if (t < duration) return distance - (a * (duration - t) ** 2) / 2;
+	return distance;
+}
+
+function trapezoidVelocity(plan: TrapezoidPlan, t: number): number {
+	const { acceleration: a, cruise, accelTime, duration } = plan;
+	if (t <= 0 || t >= duration) return 0;
+	if (t < accelTime) return a * t;
+	if (t < accelTime + plan.cruiseTime) return cruise;
+	return a * (duration - t);
+}
+
+/** Integral of trapezoidPosition from 0 to `t`. */
+function trapezoidArea(plan: TrapezoidPlan, t: number): number {
+	const { distance, acceleration: a, cruise, accelTime, duration } = plan;
+	const decelStart = accelTime + plan.cruiseTime;
+	if (t <= 0) return 0;
+	if (t < accelTime) return (a * t ** 3) / 6;
+	const accelArea = (a * accelTime ** 3) / 6;
+	if (t < decelStart) {
+		const s = t - accelTime;
+		return accelArea + (cruise * accelTime * s) / 2 + (cruise * s * s) / 2;
+	}
+	const cruiseArea =
+		accelArea +
+		(cruise * accelTime * plan.cruiseTime) / 2 +
+		(cruise * plan.cruiseTime ** 2) / 2;
+	const u = Math.min(t, duration);
+	const decelArea =
+		distance * (u - decelStart) -
+		(a * ((duration - decelStart) ** 3 - (duration - u) ** 3)) / 6;
+	return cruiseArea + decelArea + distance * Math.max(0, t - duration);
+}
+
+/**
+ * A move of `distance` (≥ 0) sampled `t` seconds in. The S-curve is the
+ * trapezoid averaged over a sliding window of maxAcceleration/maxJerk
+ * seconds: the acceleration then ramps instead of jumping, at no more than
+ * the jerk limit, and the move takes that window longer.
+ */
+function sampleMove(
+	profile: SetpointProfile,
+	distance: number,
+	t: number,
+): ReferenceSample {
+	const plan = planTrapezoid(
+		distance,
+		profile.maxVelocity,
+		profile.maxAcceleration,
+	);
+	if (profile.shape !== "s-curve")
+		return {
+			position: trapezoidPosition(plan, t),
+			velocity: trapezoidVelocity(plan, t),
+			acceleration:
+				t > 0 && t < plan.accelTime
+					? plan.acceleration
+					: t >= plan.accelTime + plan.cruiseTime && t < plan.duration
+						? -plan.acceleration
+						: 0,
+		};
+	const span = profile.maxAcceleration / profile.maxJerk;
+	return {
+		position: (trapezoidArea(plan, t) - trapezoidArea(plan, t - span)) / span,
+		velocity:
+			(trapezoidPosition(plan, t) - trapezoidPosition(plan, t - span)) / span,
+		acceleration:
+			(trapezoidVelocity(plan, t) - trapezoidVelocity(plan, t - span)) / span,
+	};
+}
+
+/**
+ * The reference `t` seconds into a trapezoidal or S-curve move from `from`
+ * to `to` under `profile`'s limits.
+ */
+export function sampleProfileMove(
+	profile: SetpointProfile,
+	from: number,
+	to: number,
+	t: number,
+): ReferenceSample {
+	const direction = Math.sign(to - from);
+	const move = sampleMove(profile, Math.abs(to - from), t);
+	return {
+		position: from + direction * move.position,
+		velocity: direction * move.velocity,
+		acceleration: direction * move.acceleration,
+	};
+}
+
+/**
+ * A sine whose frequency climbs linearly from the start to the end frequency
+ * over one period and falls back over the next, so the sweep repeats without
+ * a jump in position or velocity.
+ */
+function sampleSweep(profile: SetpointProfile, t: number): ReferenceSample {
+	const { amplitude, period } = profile;
+	const f0 = SWEEP_START_FREQUENCY;
+	const f1 = SWEEP_END_FREQUENCY;
+	const slope = (f1 - f0) / period;
+	// Cycles completed in earlier up-and-down sweeps, then within this one
+	const sweeps = Math.floor(t / (2 * period));
+	const tt = t - 2 * sweeps * period;
+	let cycles = sweeps * period * (f0 + f1);
+	let frequency: number;
+	let chirp: number;
+	if (tt < period) {
+		cycles += f0 * tt + (slope * tt * tt) / 2;
+		frequency = f0 + slope * tt;
+		chirp = slope;
+	} else {
+		const down = tt - period;
+		cycles += (period * (f0 + f1)) / 2 + f1 * down - (slope * down * down) / 2;
+		frequency = f1 - slope * down;
+		chirp = -slope;
+	}
+	const phase = 2 * Math.PI * cycles;
+	const rate = 2 * Math.PI * frequency;
+	return {
+		position: amplitude * Math.sin(phase),
+		velocity: amplitude * rate * Math.cos(phase),
+		acceleration:
+			-amplitude * rate * rate * Math.sin(phase) +
+			amplitude * 2 * Math.PI * chirp * Math.cos(phase),
+	};
+}
+
+/**
+ * Advance the generator by `dt` and sample the reference for `target`. A
+ * changed target starts a new move from the current reference, or recentres
+ * a waveform; a changed shape restarts the generator from where it is.
+ */
+export function stepSetpoint(
+	generator: SetpointGenerator,
+	profile: SetpointProfile,
+	target: number,
+	dt: number,
+): ReferenceSample {
+	if (generator.shape !== profile.shape) {
+		generator.shape = profile.shape;
+		generator.from = generator.position;
+		generator.to = target;
+		generator.t = 0;
+	} else if (target !== generator.to) {
+		// A waveform just moves its centre and carries on
+		if (!isWaveform(profile.shape)) {
+			generator.from = generator.position;
+			generator.t = 0;
+		}
+		generator.to = target;
+	}
+	generator.t += dt;
+
+	let sample: ReferenceSample;
+	if (profile.shape === "trapezoid" || profile.shape === "s-curve") {
+		sample = sampleProfileMove(
+			profile,
+			generator.from,
+			generator.to,
+			generator.t,
+		);
+	} else if (profile.shape === "sweep") {
+		const wave = sampleSweep(profile, generator.t);
+		sample = { ...wave, position: target + wave.position };
+	} else if (profile.shape === "square") {
+		const high = generator.t % profile.period < profile.period / 2;
+		sample = {
+			position: target + (high ? profile.amplitude : -profile.amplitude),
+			velocity: 0,
+			acceleration: 0,
+		};
+	} else {
+		sample = { position: target, velocity: 0, acceleration: 0 };
+	}
+	generator.position = sample.position;
+	return sample;
+}
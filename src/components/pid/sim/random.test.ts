@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { createRng, gaussian } from "./random";
+
+describe("createRng", () => {
+	it("repeats a sequence for the same seed", () => {
+		const a = createRng(42);
+		const b = createRng(42);
+		for (let i = 0; i < 100; i++) expect(a()).toBe(b());
+	});
+
+	it("gives different sequences for different seeds", () => {
+		const a = createRng(1);
+		const b = createRng(2);
+		const same = Array.from({ length: 10 }, () => a() === b());
+		expect(same.every(Boolean)).toBe(false);
+	});
+
+	it("stays in [0, 1) with a mean near one half", () => {
+		const rng = createRng();
+		let sum = 0;
+		for (let i = 0; i < 10000; i++) {
+			const x = rng();
+			expect(x).toBeGreaterThanOrEqual(0);
+			expect(x).toBeLessThan(1);
+			sum += x;
+		}
+		expect(sum / 10000).toBeCloseTo(0.5, 1);
+	});
+});
+
+describe("gaussian", () => {
+	it("has zero mean and unit variance", () => {
+		const rng = createRng(7);
+		const n = 20000;
+		const samples = Array.from({ length: n }, () => gaussian(rng));
+		const mean = samples.reduce((a, x) => a + x, 0) / n;
+		const variance = samples.reduce((a, x) => a + (x - mean) ** 2, 0) / n;
+		expect(mean).toBeCloseTo(0, 1);
+		expect(variance).toBeCloseTo(1, 1);
+		expect(samples.every(Number.isFinite)).toBe(true);
+	});
+});
@@ -0,0 +1,26 @@
+// Seeded randomness, so noisy runs can be replayed exactly.
+
+/** Uniform on [0, 1), like Math.random. */
+export type Rng = () => number;
+
+export const DEFAULT_SEED = 1;
+
+/** Mulberry32: tiny, fast and plenty for simulation noise. */
+export function createRng(seed: number = DEFAULT_SEED): Rng {
+	let a = seed >>> 0;
+	return () => {
+		a = (a + 0x6d2b79f5) >>> 0;
+		let t = a;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/** Standard normal sample by Box–Muller. */
+export function gaussian(rng: Rng): number {
+	// 1 − u keeps the logarithm's argument in (0, 1]
+	const u = 1 - rng();
+	const v = rng();
+	return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "./random";
+import { advancePlayback, createPlayback } from "./scenario";
+import type { Scenario } from "./scenario";
+
+const DT = 0.01;
+
+const SCENARIO: Scenario = {
+	seed: 3,
+	events: [
+		{ at: 0.5, type: "target", value: 2, label: "New target" },
+		{ at: 0, type: "set", param: "door", value: true },
+		{ at: 0.3, type: "disturbance", value: 0.4, label: "Load on" },
+	],
+};
+
+/** Step `playback` for `steps` steps, recording the step each event fell on. */
+function play(scenario: Scenario, steps: number) {
+	const playback = createPlayback(scenario);
+	const fired: [number, string][] = [];
+	for (let i = 0; i < steps; i++)
+		for (const event of advancePlayback(playback, DT))
+			fired.push([i, event.type]);
+	return { playback, fired };
+}
+
+describe("advancePlayback", () => {
+	it("fires events in time order on the step they fall on", () => {
+		const { fired } = play(SCENARIO, 100);
+		expect(fired).toEqual([
+			[0, "set"],
+			[30, "disturbance"],
+			[50, "target"],
+		]);
+	});
+
+	it("fires each event once", () => {
+		const { fired } = play(SCENARIO, 1000);
+		expect(fired).toHaveLength(3);
+	});
+
+	it("doesn't reorder the scenario's own list", () => {
+		const before = SCENARIO.events.map((e) => e.at);
+		createPlayback(SCENARIO);
+		expect(SCENARIO.events.map((e) => e.at)).toEqual(before);
+	});
+
+	it("keeps the latest label as the caption", () => {
+		const playback = createPlayback(SCENARIO);
+		const captions: (string | null)[] = [];
+		for (let i = 0; i < 60; i++) {
+			advancePlayback(playback, DT);
+			captions.push(playback.caption);
+		}
+		expect(captions[0]).toBeNull();
+		expect(captions[30]).toBe("Load on");
+		expect(captions[59]).toBe("New target");
+	});
+});
+
+describe("createPlayback", () => {
+	it("seeds its noise from the scenario", () => {
+		const rng = createRng(3);
+		const playback = createPlayback(SCENARIO);
+		expect(playback.rng()).toBe(rng());
+	});
+
+	it("plays nothing without a scenario", () => {
+		const playback = createPlayback();
+		expect(advancePlayback(playback, DT)).toEqual([]);
+		expect(playback.caption).toBeNull();
+	});
+});
@@ -0,0 +1,73 @@
+// Scripted scenarios: a timed list of events a widget plays back as it
+// simulates, together with a noise seed, so every reader sees the same run.
+//
+//   { seed: 7, events: [
+//     { at: 2, type: "set", param: "door", value: true, label: "Door opens" },
+//     { at: 5, type: "target", value: 150 },
+//   ] }
+//
+// Values are in the widget's own units (radians for the motor widgets, °F
+// for the oven), and each widget documents the params it accepts. Events a
+// widget doesn't understand are skipped.
+
+import { createRng } from "./random";
+import type { Rng } from "./random";
+
+export type ScenarioEvent = {
+	/** Seconds of simulated time from the start or the last reset. */
+	at: number;
+	/** Caption shown while the event is the latest to have happened. */
+	label?: string;
+} & (
+	| { type: "target"; value: number }
+	/** External input to the plant, e.g. load torque in N·m on the motor. */
+	| { type: "disturbance"; value: number }
+	| { type: "set"; param: string; value: number | boolean }
+);
+
+export interface Scenario {
+	seed?: number;
+	events: ScenarioEvent[];
+}
+
+export interface ScenarioPlayback {
+	events: ScenarioEvent[];
+	time: number;
+	/** Index of the first event not yet due. */
+	next: number;
+	rng: Rng;
+	/** Label of the latest labelled event so far. */
+	caption: string | null;
+}
+
+// Slack for event times that land on a step boundary
+const TIME_EPSILON = 1e-9;
+
+export const createPlayback = (scenario?: Scenario): ScenarioPlayback => ({
+	events: [...(scenario?.events ?? [])].sort((a, b) => a.at - b.at),
+	time: 0,
+	next: 0,
+	rng: createRng(scenario?.seed),
+	caption: null,
+});
+
+/**
+ * Events due at the start of the next step, in order, after which the
+ * playback's clock moves on by `dt`. Call once per simulation step.
+ */
+export function advancePlayback(
+	playback: ScenarioPlayback,
+	dt: number,
+): ScenarioEvent[] {
+	const due: ScenarioEvent[] = [];
+	while (
+		playback.next < playback.events.length &&
+		playback.events[playback.next].at <= playback.time + TIME_EPSILON
+	) {
+		const event = playback.events[playback.next++];
+		if (event.label) playback.caption = event.label;
+		due.push(event);
+	}
+	playback.time += dt;
+	return due;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "./random";
+import { IDEAL_SENSOR, createSensor, readSensor } from "./sensor";
+import type { SensorModel } from "./sensor";
+
+/** Read `angles` through a fresh sensor, one per step. */
+function readAll(
+	model: Partial<SensorModel>,
+	angles: number[],
+	stepsPerSample = 1,
+): number[] {
+	const sensor = createSensor();
+	const rng = createRng();
+	return angles.map((angle) =>
+		readSensor(
+			sensor,
+			{ ...IDEAL_SENSOR, ...model },
+			angle,
+			rng,
+			stepsPerSample,
+		),
+	);
+}
+
+const RAMP = Array.from({ length: 10 }, (_, i) => i * 0.1);
+
+describe("readSensor", () => {
+	it("reads the true angle when ideal", () => {
+		expect(readAll({}, RAMP)).toEqual(RAMP);
+	});
+
+	it("adds bias", () => {
+		readAll({ bias: 0.05 }, RAMP).forEach((reading, i) =>
+			expect(reading).toBeCloseTo(RAMP[i] + 0.05),
+		);
+	});
+
+	it("delays by whole samples, holding the start until the line fills", () => {
+		const readings = readAll({ delay: 3 }, RAMP);
+		expect(readings.slice(0, 4)).toEqual([0, 0, 0, 0]);
+		expect(readings.slice(3)).toEqual(RAMP.slice(0, 7));
+	});
+
+	it("scales the delay by the sample period", () => {
+		const readings = readAll({ delay: 1 }, RAMP, 4);
+		expect(readings.slice(4)).toEqual(RAMP.slice(0, 6));
+	});
+
+	it("quantizes to encoder counts", () => {
+		const resolution = (2 * Math.PI) / 100;
+		for (const reading of readAll({ countsPerRev: 100 }, RAMP))
+			expect(reading / resolution).toBeCloseTo(
+				Math.round(reading / resolution),
+			);
+		expect(readAll({ countsPerRev: 100 }, [0.03])[0]).toBe(0);
+	});
+
+	it("keeps uniform noise within its level", () => {
+		const angles = Array(1000).fill(1);
+		for (const reading of readAll(
+			{ noise: "uniform", noiseLevel: 0.02 },
+			angles,
+		))
+			expect(Math.abs(reading - 1)).toBeLessThanOrEqual(0.02);
+	});
+
+	it("gives gaussian noise its standard deviation", () => {
+		const readings = readAll(
+			{ noise: "gaussian", noiseLevel: 0.1 },
+			Array(20000).fill(0),
+		);
+		const rms = Math.sqrt(
+			readings.reduce((a, x) => a + x * x, 0) / readings.length,
+		);
+		expect(rms).toBeCloseTo(0.1, 2);
+	});
+
+	it("keeps the random walk bounded by its level", () => {
+		const readings = readAll(
+			{ noise: "random-walk", noiseLevel: 0.1 },
+			Array(20000).fill(0),
+		);
+		const rms = Math.sqrt(
+			readings.reduce((a, x) => a + x * x, 0) / readings.length,
+		);
+		expect(rms).toBeGreaterThan(0.05);
+		expect(rms).toBeLessThan(0.15);
+	});
+
+	it("repeats the last reading on dropout", () => {
+		const readings = readAll({ dropout: 0.5 }, RAMP);
+		expect(readings[0]).toBe(0);
+		readings.forEach((reading, i) => {
+			if (i > 0 && reading !== RAMP[i]) expect(reading).toBe(readings[i - 1]);
+		});
+		expect(readings).not.toEqual(RAMP);
+	});
+
+	it("replays exactly from the same seed", () => {
+		const model = { noise: "gaussian" as const, dropout: 0.1 };
+		expect(readAll(model, RAMP)).toEqual(readAll(model, RAMP));
+	});
+});
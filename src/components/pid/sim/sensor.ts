@@ -0,0 +1,98 @@
+// Angle sensor defects: what the controller reads instead of the true angle.
+// A reading is delayed, offset by bias and noise, quantized to encoder
+// counts, and occasionally lost, in that order.
+
+import { gaussian } from "./random";
+import type { Rng } from "./random";
+
+export type SensorNoise = "none" | "uniform" | "gaussian" | "random-walk";
+
+export const SENSOR_NOISES: { id: SensorNoise; label: string }[] = [
+	{ id: "none", label: "None" },
+	{ id: "uniform", label: "Uniform" },
+	{ id: "gaussian", label: "Gaussian" },
+	{ id: "random-walk", label: "Random walk" },
+];
+
+export interface SensorModel {
+	/** Encoder counts per revolution; 0 reads the angle exactly. */
+	countsPerRev: number;
+	/** Measurement delay in controller samples. */
+	delay: number;
+	/** Constant offset in rad. */
+	bias: number;
+	noise: SensorNoise;
+	/**
+	 * Noise size in rad: the half-width of uniform noise, and the standard
+	 * deviation of Gaussian noise and of the random walk's wander.
+	 */
+	noiseLevel: number;
+	/** Chance that a reading is lost and the previous one repeated. */
+	dropout: number;
+}
+
+export const IDEAL_SENSOR: SensorModel = {
+	countsPerRev: 0,
+	delay: 0,
+	bias: 0,
+	noise: "none",
+	noiseLevel: 0.01,
+	dropout: 0,
+};
+
+// The random walk forgets a little of itself every reading, so it wanders
+// slowly (colored noise) without drifting off for good
+const WALK_MEMORY = 0.98;
+
+export interface SensorState {
+	/** True angles of past readings, newest last, for the delay. */
+	history: number[];
+	walk: number;
+	last: number | null;
+}
+
+export const createSensor = (): SensorState => ({
+	history: [],
+	walk: 0,
+	last: null,
+});
+
+/**
+ * Read `angle` through the sensor. Call once per simulation step;
+ * `stepsPerSample` converts the model's delay from controller samples to
+ * steps, so a discrete controller's delay scales with its sample period.
+ */
+export function readSensor(
+	sensor: SensorState,
+	model: SensorModel,
+	angle: number,
+	rng: Rng,
+	stepsPerSample = 1,
+): number {
+	const delaySteps = Math.round(model.delay * stepsPerSample);
+	sensor.history.push(angle);
+	if (sensor.history.length > delaySteps + 1)
+		sensor.history.splice(0, sensor.history.length - delaySteps - 1);
+	// Until the delay line fills, the sensor reports where the pointer started
+	let reading = sensor.history[0] + model.bias;
+
+	if (model.noise === "uniform") reading += (rng() * 2 - 1) * model.noiseLevel;
+	else if (model.noise === "gaussian")
+		reading += gaussian(rng) * model.noiseLevel;
+	else if (model.noise === "random-walk") {
+		sensor.walk =
+			WALK_MEMORY * sensor.walk +
+			Math.sqrt(1 - WALK_MEMORY ** 2) * model.noiseLevel * gaussian(rng);
+		reading += sensor.walk;
+	}
+
+	if (model.countsPerRev > 0) {
+		const resolution = (2 * Math.PI) / model.countsPerRev;
+		reading = Math.round(reading / resolution) * resolution;
+	}
+
+	if (sensor.last !== null && model.dropout > 0 && rng() < model.dropout)
+		return sensor.last;
+	sensor.last = reading;
+	return reading;
+}